@@ -0,0 +1,97 @@
+/**
+ * Row Validation Benchmark
+ * Compares the compiled row validator with per-row Zod parsing on the sample CSV of the load tests
+ *
+ * Usage: bun benchmark/row-validation.ts [rows] [invalid-percent]
+ */
+
+import { generateSampleCsv, parseCsvString } from '../src/utils/csv-parser.js';
+import { compileRowSchema, DEFAULT_ROW_SCHEMA } from '../src/utils/row-schema.js';
+import { createDateNormalizer } from '../src/utils/date-normalizer.js';
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+const ROWS = parseInt(process.argv[2] || process.env.CSV_SIZE || '100000', 10);
+const INVALID_PERCENT = parseFloat(process.argv[3] || process.env.INVALID_PERCENT || '5');
+const WARMUP_RUNS = 2;
+const MEASURED_RUNS = 5;
+
+// ============================================================================
+// Sample Rows
+// ============================================================================
+
+/**
+ * Rows of the load test sample, built the way imports build them, with
+ * the amount of every n-th row made unreadable
+ */
+function sampleRows(): Record<string, unknown>[] {
+  const { rows } = parseCsvString(generateSampleCsv(ROWS));
+  const every = INVALID_PERCENT > 0 ? Math.round(100 / INVALID_PERCENT) : 0;
+  return (rows as Record<string, unknown>[]).map((row, index) => (
+    every > 0 && index % every === every - 1 ? { ...row, amount: 'n/a' } : row
+  ));
+}
+
+// ============================================================================
+// Benchmark
+// ============================================================================
+
+interface Timing {
+  name: string;
+  medianMs: number;
+  bestMs: number;
+  valid: number;
+}
+
+function measure(name: string, rows: Record<string, unknown>[], validate: (row: Record<string, unknown>) => boolean): Timing {
+  const durations: number[] = [];
+  let valid = 0;
+
+  for (let run = 0; run < WARMUP_RUNS + MEASURED_RUNS; run++) {
+    const start = performance.now();
+    valid = 0;
+    for (const row of rows) {
+      if (validate(row)) valid++;
+    }
+    if (run >= WARMUP_RUNS) {
+      durations.push(performance.now() - start);
+    }
+  }
+
+  durations.sort((a, b) => a - b);
+  return { name, medianMs: durations[Math.floor(durations.length / 2)], bestMs: durations[0], valid };
+}
+
+function main(): void {
+  const rows = sampleRows();
+  const schema = compileRowSchema(DEFAULT_ROW_SCHEMA, createDateNormalizer());
+
+  console.log(`Row validation: ${rows.length} rows, ${INVALID_PERCENT}% invalid, median of ${MEASURED_RUNS} runs\n`);
+
+  const timings = [
+    measure('zod parse (try/catch)', rows, row => {
+      try {
+        schema.validator.parse(row);
+        return true;
+      } catch {
+        return false;
+      }
+    }),
+    measure('compiled validate', rows, row => schema.validate(row).success),
+  ];
+
+  if (timings[0].valid !== timings[1].valid) {
+    console.error(`Validators disagree: ${timings[0].valid} vs ${timings[1].valid} valid rows`);
+    process.exit(1);
+  }
+
+  for (const { name, medianMs, bestMs } of timings) {
+    const rate = Math.round(rows.length / (medianMs / 1000));
+    console.log(`  ${name.padEnd(24)} ${medianMs.toFixed(1).padStart(9)} ms  (best ${bestMs.toFixed(1)} ms)  ${rate.toLocaleString('en-US')} rows/s`);
+  }
+  console.log(`\n  Speedup: ${(timings[0].medianMs / timings[1].medianMs).toFixed(2)}x`);
+}
+
+main();
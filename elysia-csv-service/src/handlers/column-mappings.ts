@@ -0,0 +1,51 @@
+/**
+ * Column Mapping Handlers for Elysia
+ * Stores and retrieves reusable named column mappings per tenant
+ */
+
+import { columnMappings } from '../utils/column-mapping.js';
+import type { NamedColumnMapping } from '../utils/column-mapping.js';
+import { NotFoundError } from '../types.js';
+
+// ============================================================================
+// Handler Functions
+// ============================================================================
+
+/**
+ * List the tenant's named column mappings
+ */
+export async function handleListColumnMappings(tenantId?: string): Promise<NamedColumnMapping[]> {
+  return columnMappings.list(tenantId);
+}
+
+/**
+ * Get a named column mapping
+ */
+export async function handleGetColumnMapping(name: string, tenantId?: string): Promise<NamedColumnMapping> {
+  const entry = await columnMappings.get(name, tenantId);
+  if (!entry) {
+    throw new NotFoundError(`Column mapping not found: ${name}`, { name });
+  }
+  return entry;
+}
+
+/**
+ * Create or replace a named column mapping
+ */
+export async function handlePutColumnMapping(
+  name: string,
+  body: unknown,
+  tenantId?: string
+): Promise<NamedColumnMapping> {
+  return columnMappings.set(name, body, tenantId);
+}
+
+/**
+ * Delete a named column mapping
+ */
+export async function handleDeleteColumnMapping(name: string, tenantId?: string): Promise<{ name: string }> {
+  if (!(await columnMappings.delete(name, tenantId))) {
+    throw new NotFoundError(`Column mapping not found: ${name}`, { name });
+  }
+  return { name };
+}
@@ -0,0 +1,65 @@
+import { afterEach, beforeAll, describe, expect, test } from 'bun:test';
+import { PROCESSING_LIMITS } from '../utils/processing-limits.js';
+import { ProcessingTimeoutError } from '../types.js';
+
+// Telemetry reads its switch when first imported, so the handler is imported after it is off
+process.env.OTEL_ENABLED = 'false';
+const { initializeOpenTelemetry } = await import('../telemetry/otel.js');
+const { handleFileImport } = await import('./csv-import.js');
+
+beforeAll(async () => {
+  await initializeOpenTelemetry();
+});
+
+/**
+ * Import the file as the /import route does, with its metadata form field
+ */
+function upload(fileName: string, content: string, metadata: Record<string, string> = {}) {
+  return handleFileImport(new File([content], fileName), 'http_test', { userId: 'anonymous' }, metadata);
+}
+
+describe('handleFileImport row errors', () => {
+  test('carry the line a record starts on, the source column, the value and the issue code', async () => {
+    // The quoted name spans lines 2 to 4, so the failing records start on lines 5 and 6
+    const csv = 'Region,Country,Amt\nEU,"Multi\nline\nname",10\nEU,FR,x\nUS,,5\n';
+    const { data } = await upload('sales.csv', csv, {
+      column_mapping: JSON.stringify({ synonyms: { amount: ['Amt'] } }),
+    });
+
+    expect(data).toMatchObject({ rowCount: 3, successCount: 1, errorCount: 2 });
+    expect(data.errors).toEqual([
+      { row: 5, field: 'amount', column: 'Amt', value: 'x', code: 'invalid_type', message: 'Expected number, received string' },
+      { row: 6, field: 'country', column: 'Country', value: '', code: 'too_small', message: 'Country is required' },
+    ]);
+  });
+
+  test('carry the line of an NDJSON record', async () => {
+    const { data } = await upload('orders.ndjson', '{"region":"EU","country":"DE","amount":1}\n{"region":"EU","country":"DE","amount":"y"}\n');
+
+    expect(data.errors).toEqual([
+      { row: 2, field: 'amount', column: 'amount', value: 'y', code: 'invalid_type', message: 'Expected number, received string' },
+    ]);
+  });
+});
+
+describe('handleFileImport processing limits', () => {
+  const limits = { ...PROCESSING_LIMITS };
+  afterEach(() => Object.assign(PROCESSING_LIMITS, limits));
+
+  const csv = 'region,country,amount\nEU,DE,1\nEU,DE,2\nEU,DE,3\n';
+
+  test('return a truncated result at MAX_ROWS_PER_FILE', async () => {
+    Object.assign(PROCESSING_LIMITS, { maxRowsPerFile: 2 });
+    const { data } = await upload('sales.csv', csv);
+
+    expect(data).toMatchObject({ rowCount: 2, successCount: 2, truncated: true });
+  });
+
+  test('fail with a 408 past PROCESSING_TIMEOUT_MS', async () => {
+    Object.assign(PROCESSING_LIMITS, { timeoutMs: 0 });
+    const error = await upload('sales.csv', csv).catch(e => e);
+
+    expect(error).toBeInstanceOf(ProcessingTimeoutError);
+    expect(error).toMatchObject({ statusCode: 408, code: 'PROCESSING_TIMEOUT', details: { timeoutMs: 0, rowCount: 0 } });
+  });
+});
@@ -3,9 +3,30 @@
  * Handles file upload, processing, and response
  */
 
-import { processCsvFile, processExcelFile, detectFileType } from '../utils/csv-parser.js';
+import { resolveImportOptions } from '../utils/csv-parser.js';
+import { openUpload, processUpload } from '../utils/upload.js';
+import { createProcessingSignal, releaseProcessingSignal } from '../utils/processing-limits.js';
+import { rejectedRows, toRejectedRowsLink } from '../utils/rejected-rows.js';
+import { pivotTables } from '../utils/pivot-table.js';
+import { toRowSchemaRef } from '../utils/row-schema.js';
+import { inferSchema, parseSampleRows } from '../utils/schema-inference.js';
 import { getCSVInstrumentation } from '../telemetry/otel.js';
-import { ValidationError, ServiceUnavailableError } from '../types.js';
+import { CsvProcessingError, ValidationError, FileUploadSchema, METADATA_KEYS } from '../types.js';
+import type {
+  AggregationResult,
+  ArchiveEntryResult,
+  ColumnMappingReport,
+  CompressionFormat,
+  CsvDialect,
+  PivotTable,
+  RegionSummary,
+  RejectedRowsLink,
+  RowError,
+  RowSchemaRef,
+  SchemaInferenceResult,
+  SheetResult,
+  TimeSeriesResult,
+} from '../types.js';
 
 // ============================================================================
 // Response Types
@@ -17,23 +38,30 @@ interface SuccessResponse {
     rowCount: number;
     successCount: number;
     errorCount: number;
-    summaries: Array<{
-      region: string;
-      country: string;
-      count: number;
-      amountSum: number;
-      amountAvg: number;
-    }>;
+    summaries: RegionSummary[];
     stats: {
       parseDurationMs: number;
       validateDurationMs: number;
       aggregateDurationMs: number;
       totalDurationMs: number;
+      encoding?: string;
     };
+    dialect?: CsvDialect;
+    sheets?: SheetResult[];
+    entries?: ArchiveEntryResult[];
+    columns?: ColumnMappingReport;
+    errors?: RowError[];
+    truncated?: boolean;
+    rejectedRows?: RejectedRowsLink;
+    schema?: RowSchemaRef;
+    aggregation?: AggregationResult;
+    timeSeries?: TimeSeriesResult;
+    pivot?: PivotTable;
   };
   requestId: string;
   fileName: string;
   fileType: string;
+  compression?: CompressionFormat;
 }
 
 interface ErrorResponse {
@@ -54,6 +82,25 @@ interface HealthCheckResponse {
   checks: Record<string, { status: string; message?: string }>;
 }
 
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Parse the optional `metadata` form field (a JSON object of string values)
+ */
+export function parseUploadMetadata(value: unknown): Record<string, string> {
+  if (value === undefined || value === null || value === '') {
+    return {};
+  }
+
+  try {
+    return FileUploadSchema.shape.metadata.parse(typeof value === 'string' ? JSON.parse(value) : value);
+  } catch {
+    throw new ValidationError('Invalid metadata. Expected a JSON object of string values.');
+  }
+}
+
 // ============================================================================
 // Handler Functions
 // ============================================================================
@@ -64,10 +111,13 @@ interface HealthCheckResponse {
 export async function handleFileImport(
   file: File,
   requestId: string,
-  auth?: { userId?: string; tenantId?: string }
+  auth?: { userId?: string; tenantId?: string },
+  metadata: Record<string, string> = {},
+  signal?: AbortSignal
 ): Promise<SuccessResponse> {
   const instrumentation = getCSVInstrumentation();
   const startTime = Date.now();
+  const processingSignal = createProcessingSignal(signal);
 
   // Increment active requests
   instrumentation.incrementActiveRequests({
@@ -76,6 +126,12 @@ export async function handleFileImport(
   });
 
   try {
+    const options = {
+      ...await resolveImportOptions(metadata, auth?.tenantId),
+      keepRejectedRows: true,
+      signal: processingSignal,
+    };
+
     // Validate file size
     const maxSize = parseInt(process.env.MAX_FILE_SIZE || '104857600', 10); // 100MB default
     if (file.size > maxSize) {
@@ -85,19 +141,10 @@ export async function handleFileImport(
       );
     }
 
-    // Detect file type
-    const buffer = Buffer.from(await file.arrayBuffer());
-    const detectedType = detectFileType(buffer);
+    // Decompress and detect the file type; unsupported types are rejected here
     const fileName = file.name;
-
-    // Validate file type
-    const validTypes = ['csv', 'xlsx'];
-    if (!validTypes.includes(detectedType)) {
-      throw new ValidationError(
-        `Invalid file type. Only CSV and Excel files are supported.`,
-        { detectedType, fileName }
-      );
-    }
+    const upload = await openUpload(file.stream(), { fileName });
+    const detectedType = upload.fileType;
 
     // Process file with OTEL tracing
     const result = await instrumentation.withFileProcessSpan(
@@ -115,11 +162,7 @@ export async function handleFileImport(
         }
 
         // Process based on file type
-        if (detectedType === 'csv') {
-          return await processCsvFile(buffer);
-        } else {
-          return await processExcelFile(buffer);
-        }
+        return await processUpload(upload, options);
       }
     );
 
@@ -151,10 +194,22 @@ export async function handleFileImport(
         errorCount: result.errorCount,
         summaries: result.summaries,
         stats: result.stats,
+        dialect: result.dialect,
+        sheets: result.sheets,
+        entries: result.entries,
+        columns: result.columns,
+        errors: result.errors,
+        truncated: result.truncated,
+        rejectedRows: toRejectedRowsLink(await rejectedRows.save(result.rejected, fileName, auth?.tenantId)),
+        schema: toRowSchemaRef(options.rowSchema),
+        aggregation: result.aggregator?.query?.toResult(),
+        timeSeries: result.aggregator?.timeSeries?.toResult(),
+        pivot: await pivotTables.save(result.aggregator?.toPivotTable(), fileName, auth?.tenantId),
       },
       requestId,
       fileName,
       fileType: detectedType,
+      compression: upload.compression,
     };
 
   } catch (error) {
@@ -163,12 +218,51 @@ export async function handleFileImport(
       tenant_id: auth?.tenantId,
     });
 
-    if (error instanceof ValidationError || error instanceof ServiceUnavailableError) {
+    if (error instanceof CsvProcessingError) {
       throw error;
     }
 
     throw new Error(error instanceof Error ? error.message : 'An unknown error occurred');
+  } finally {
+    releaseProcessingSignal(processingSignal);
+  }
+}
+
+/**
+ * Handle schema inference: sample an uploaded file and return its detected
+ * columns with a draft row schema
+ */
+export async function handleSchemaInference(
+  file: File,
+  requestId: string,
+  auth?: { userId?: string; tenantId?: string },
+  metadata: Record<string, string> = {}
+): Promise<{ success: true; data: SchemaInferenceResult; requestId: string }> {
+  const options = await resolveImportOptions(metadata, auth?.tenantId);
+  const sampleRows = parseSampleRows(metadata[METADATA_KEYS.SAMPLE_ROWS]);
+
+  const maxSize = parseInt(process.env.MAX_FILE_SIZE || '104857600', 10); // 100MB default
+  if (file.size > maxSize) {
+    throw new ValidationError(
+      `File size exceeds maximum allowed size of ${maxSize / 1024 / 1024}MB`,
+      { fileSize: file.size, maxSize }
+    );
   }
+
+  const upload = await openUpload(file.stream(), { fileName: file.name });
+  const inference = await inferSchema(upload, options, sampleRows);
+
+  return {
+    success: true,
+    data: {
+      requestId,
+      fileName: file.name,
+      fileType: upload.fileType,
+      compression: upload.compression,
+      ...inference,
+    },
+    requestId,
+  };
 }
 
 /**
@@ -228,6 +322,11 @@ export function handleServiceInfo() {
       http: {
         import: 'POST /api/v1/import',
         batchImport: 'POST /api/v1/batch',
+        columnMappings: 'GET/PUT/DELETE /api/v1/mappings/:name',
+        rowSchemas: 'GET/PUT/DELETE /api/v1/schemas/:name',
+        schemaInference: 'POST /api/v1/schemas/infer',
+        rejectedRows: 'GET /api/v1/results/:id/rejected',
+        pivotTable: 'GET /api/v1/results/:id/pivot',
         health: 'GET /api/v1/health',
         metrics: 'GET /metrics',
       },
@@ -7,8 +7,27 @@ import * as grpc from '@grpc/grpc-js';
 import * as protoLoader from '@grpc/proto-loader';
 import path from 'path';
 import { fileURLToPath } from 'url';
-import { processCsvFile, processExcelFile } from '../utils/csv-parser.js';
+import { resolveImportOptions, toPercentileKey } from '../utils/csv-parser.js';
+import type { ParseResult } from '../utils/csv-parser.js';
+import { openUpload, processUpload } from '../utils/upload.js';
+import { DEFAULT_ROW_SCHEMA, toRowSchemaRef } from '../utils/row-schema.js';
+import { createProcessingSignal, PROCESSING_LIMITS, releaseProcessingSignal, timeUntil } from '../utils/processing-limits.js';
 import { getCSVInstrumentation } from '../telemetry/otel.js';
+import { CsvProcessingError, ProcessingTimeoutError, ValidationThresholdExceededError } from '../types.js';
+import type {
+  AggregationResult as AggregationQueryResult,
+  ArchiveEntryResult,
+  ColumnMappingReport,
+  CompressionFormat,
+  CsvDialect,
+  ImportOptions,
+  PivotTable,
+  RowError,
+  RowSchemaRef,
+  SheetResult,
+  RegionSummary as RegionSummaryResult,
+  TimeSeriesResult,
+} from '../types.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -36,6 +55,18 @@ interface ProcessFileResponse {
   summaries: RegionSummary[];
   stats: ProcessingStatsResponse;
   request_id: string;
+  file_type: string;
+  dialect?: CsvDialectResponse;
+  sheets: SheetResultResponse[];
+  compression?: string;
+  entries: ArchiveEntryResponse[];
+  columns?: ColumnMappingReportResponse;
+  errors: RowErrorResponse[];
+  schema?: RowSchemaRef;
+  truncated: boolean;
+  aggregation?: AggregationResultResponse;
+  time_series?: TimeSeriesResponse;
+  pivot?: PivotTableResponse;
 }
 
 interface RegionSummary {
@@ -44,6 +75,101 @@ interface RegionSummary {
   count: number;
   amount_sum: number;
   amount_avg: number;
+  dimensions: Record<string, string>;
+  measures: Record<string, MeasureSummary>;
+  amount_stats?: MeasureStats;
+}
+
+interface MeasureSummary {
+  sum: number;
+  avg: number;
+  stats?: MeasureStats;
+  exact_sum?: string;
+  exact_avg?: string;
+}
+
+interface MeasureStats {
+  min: number;
+  max: number;
+  stddev: number;
+  percentiles: Record<string, number>;
+}
+
+interface SheetResultResponse {
+  sheet_name: string;
+  row_count: number;
+  success_count: number;
+  error_count: number;
+  summaries: RegionSummary[];
+}
+
+interface ArchiveEntryResponse {
+  file_name: string;
+  file_type?: string;
+  row_count: number;
+  success_count: number;
+  error_count: number;
+  summaries: RegionSummary[];
+  dialect?: CsvDialectResponse;
+  sheets: SheetResultResponse[];
+  columns?: ColumnMappingReportResponse;
+  errors: RowErrorResponse[];
+  truncated: boolean;
+  error?: string;
+}
+
+interface AggregationResultResponse {
+  group_by: string[];
+  measures: string[];
+  rows: Array<{ groups: Record<string, string>; values: Record<string, number> }>;
+  group_count: number;
+}
+
+interface TimeSeriesResponse {
+  granularity: string;
+  field: string;
+  week: string;
+  fiscal_year_start_month: number;
+  time_zone: string;
+  series: Array<{
+    dimensions: Record<string, string>;
+    buckets: Array<{ start: string; label: string; count: number; measures: Record<string, MeasureSummary> }>;
+  }>;
+  undated_count: number;
+}
+
+interface PivotTableResponse {
+  row_dimension: string;
+  column_dimension: string;
+  measure: string;
+  op: string;
+  columns: string[];
+  rows: Array<{ value: string; cells: Record<string, number>; total: number }>;
+  column_totals: number[];
+  grand_total: number;
+}
+
+interface CsvDialectResponse {
+  delimiter: string;
+  quote: string;
+  escape: string;
+  has_header: boolean;
+}
+
+interface ColumnMappingReportResponse {
+  mapped: Record<string, string>;
+  unmapped: string[];
+  ambiguous: Array<{ field: string; columns: string[] }>;
+}
+
+interface RowErrorResponse {
+  row: number;
+  sheet?: string;
+  field?: string;
+  column?: string;
+  value?: string;
+  code: string;
+  message: string;
 }
 
 interface ProcessingStatsResponse {
@@ -51,6 +177,7 @@ interface ProcessingStatsResponse {
   validate_duration_ms: number;
   aggregate_duration_ms: number;
   total_duration_ms: number;
+  encoding?: string;
 }
 
 interface HealthCheckRequest {
@@ -63,6 +190,215 @@ interface HealthCheckResponse {
   details: Record<string, string>;
 }
 
+// ============================================================================
+// Response Mapping
+// ============================================================================
+
+/**
+ * The dimensions and measures of the row schema an import was read with,
+ * and the percentiles it asked for: the keys its summaries and time series
+ * buckets hold
+ */
+interface SummaryLayout {
+  dimensions: string[];
+  measures: string[];
+  percentiles?: number[];
+}
+
+function toSummaryLayout(options: ImportOptions): SummaryLayout {
+  const definition = options.rowSchema?.definition ?? DEFAULT_ROW_SCHEMA;
+  return {
+    dimensions: definition.dimensions,
+    measures: definition.measures,
+    percentiles: options.summaryStats?.percentiles,
+  };
+}
+
+/**
+ * Map a group summary onto its proto message shape, reading the keys the
+ * layout gives for each dimension and measure. Decimal string sums and
+ * averages are also kept as they are in `exact_sum` and `exact_avg`.
+ */
+function toRegionSummary(summary: RegionSummaryResult, layout: SummaryLayout): RegionSummary {
+  const response: RegionSummary = {
+    region: String(summary.region ?? ''),
+    country: String(summary.country ?? ''),
+    count: summary.count,
+    amount_sum: Number(summary.amountSum ?? 0),
+    amount_avg: Number(summary.amountAvg ?? 0),
+    dimensions: {},
+    measures: {},
+  };
+
+  for (const dimension of layout.dimensions) {
+    response.dimensions[dimension] = String(summary[dimension]);
+  }
+  for (const measure of layout.measures) {
+    const target = toMeasureSummary(summary, measure);
+    if (layout.percentiles) {
+      target.stats = {
+        min: Number(summary[`${measure}Min`]),
+        max: Number(summary[`${measure}Max`]),
+        stddev: Number(summary[`${measure}Stddev`]),
+        percentiles: Object.fromEntries(layout.percentiles.map(percentile => {
+          const key = toPercentileKey(percentile);
+          return [key.toLowerCase(), Number(summary[`${measure}${key}`])];
+        })),
+      };
+    }
+    response.measures[measure] = target;
+  }
+  response.amount_stats = response.measures.amount?.stats;
+
+  return response;
+}
+
+/**
+ * The `<measure>Sum` and `<measure>Avg` of a summary or time series bucket
+ */
+function toMeasureSummary(values: Record<string, unknown>, measure: string): MeasureSummary {
+  const sum = values[`${measure}Sum`];
+  const avg = values[`${measure}Avg`];
+  const target: MeasureSummary = { sum: Number(sum), avg: Number(avg) };
+  if (typeof sum === 'string') target.exact_sum = sum;
+  if (typeof avg === 'string') target.exact_avg = avg;
+  return target;
+}
+
+function toSheetResult(sheet: SheetResult, layout: SummaryLayout): SheetResultResponse {
+  return {
+    sheet_name: sheet.sheetName,
+    row_count: sheet.rowCount,
+    success_count: sheet.successCount,
+    error_count: sheet.errorCount,
+    summaries: sheet.summaries.map(summary => toRegionSummary(summary, layout)),
+  };
+}
+
+/**
+ * Map an aggregation query result onto its proto message shape. Proto maps
+ * cannot hold nulls, so blank groups and empty measures are left out.
+ */
+function toAggregationResult(result: AggregationQueryResult | undefined): AggregationResultResponse | undefined {
+  return result && {
+    group_by: result.groupBy,
+    measures: result.measures,
+    rows: result.rows.map(row => {
+      const groups: Record<string, string> = {};
+      const values: Record<string, number> = {};
+      for (const column of result.groupBy) {
+        if (row[column] !== null) groups[column] = String(row[column]);
+      }
+      for (const column of result.measures) {
+        if (row[column] !== null) values[column] = Number(row[column]);
+      }
+      return { groups, values };
+    }),
+    group_count: result.groupCount,
+  };
+}
+
+/**
+ * Map the time series of an import onto its proto message shape, with the
+ * `<measure>Sum` and `<measure>Avg` of every bucket under its measure
+ */
+function toTimeSeries(result: TimeSeriesResult | undefined, layout: SummaryLayout): TimeSeriesResponse | undefined {
+  return result && {
+    granularity: result.granularity,
+    field: result.field,
+    week: result.week ?? '',
+    fiscal_year_start_month: result.fiscalYearStartMonth,
+    time_zone: result.timeZone,
+    series: result.series.map(({ dimensions, buckets }) => ({
+      dimensions: Object.fromEntries(Object.entries(dimensions).map(([key, value]) => [key, String(value)])),
+      buckets: buckets.map(({ start, label, count, ...values }) => ({
+        start,
+        label,
+        count,
+        measures: Object.fromEntries(layout.measures.map(measure => [measure, toMeasureSummary(values, measure)])),
+      })),
+    })),
+    undated_count: result.undatedCount,
+  };
+}
+
+/**
+ * Map a pivot table onto its proto message shape; empty cells are left
+ * out of the row's cell map, and decimal strings become doubles
+ */
+function toPivotTable(table: PivotTable | undefined): PivotTableResponse | undefined {
+  return table && {
+    row_dimension: table.rowDimension,
+    column_dimension: table.columnDimension,
+    measure: table.measure ?? '',
+    op: table.op,
+    columns: table.columns.map(String),
+    rows: table.rows.map(row => {
+      const cells: Record<string, number> = {};
+      row.cells.forEach((cell, index) => {
+        if (cell !== null) cells[String(table.columns[index])] = Number(cell);
+      });
+      return { value: String(row.value), cells, total: Number(row.total) };
+    }),
+    column_totals: table.columnTotals.map(Number),
+    grand_total: Number(table.grandTotal),
+  };
+}
+
+function toCsvDialect(dialect: CsvDialect | undefined): CsvDialectResponse | undefined {
+  return dialect && {
+    delimiter: dialect.delimiter,
+    quote: dialect.quote,
+    escape: dialect.escape,
+    has_header: dialect.hasHeader,
+  };
+}
+
+function toColumnMappingReport(
+  report: ColumnMappingReport | undefined
+): ColumnMappingReportResponse | undefined {
+  return report && {
+    mapped: report.mapped,
+    unmapped: report.unmapped,
+    ambiguous: report.ambiguous,
+  };
+}
+
+function toRowError(error: RowError): RowErrorResponse {
+  return { ...error };
+}
+
+function toArchiveEntry(entry: ArchiveEntryResult, layout: SummaryLayout): ArchiveEntryResponse {
+  return {
+    file_name: entry.fileName,
+    file_type: entry.fileType,
+    row_count: entry.rowCount,
+    success_count: entry.successCount,
+    error_count: entry.errorCount,
+    summaries: entry.summaries.map(summary => toRegionSummary(summary, layout)),
+    dialect: toCsvDialect(entry.dialect),
+    sheets: (entry.sheets ?? []).map(sheet => toSheetResult(sheet, layout)),
+    columns: toColumnMappingReport(entry.columns),
+    errors: (entry.errors ?? []).map(toRowError),
+    truncated: entry.truncated ?? false,
+    error: entry.error,
+  };
+}
+
+/**
+ * Signal a call is processed under: the processing time limit, cut short by
+ * the call deadline, and aborted when the client cancels the call
+ */
+function toProcessingSignal(call: grpc.ServerUnaryCall<any, any> | grpc.ServerDuplexStream<any, any>): AbortSignal {
+  const cancelled = new AbortController();
+  call.on('cancelled', () => cancelled.abort(new Error('Call cancelled by the client')));
+
+  return createProcessingSignal(
+    cancelled.signal,
+    Math.min(PROCESSING_LIMITS.timeoutMs, timeUntil(call.getDeadline()))
+  );
+}
+
 // ============================================================================
 // gRPC Service Handler
 // ============================================================================
@@ -209,17 +545,29 @@ export class GrpcServiceHandler {
 
     console.log(`[gRPC] ProcessFile request: ${request.file_name}, size: ${request.file_data.length}, type: ${request.file_type}`);
 
+    let fileType = request.file_type;
+    let compression: CompressionFormat | undefined;
+    const signal = toProcessingSignal(call);
+
     try {
       // Parse and process file
-      let result: any;
-
-      if (request.file_type === 'csv') {
-        result = await processCsvFile(request.file_data);
-      } else if (request.file_type === 'xlsx') {
-        result = await processExcelFile(request.file_data);
-      } else {
-        throw new Error(`Unsupported file type: ${request.file_type}`);
-      }
+      let result: ParseResult;
+
+      const options = {
+        ...await resolveImportOptions(request.metadata, tenantId?.toString()),
+        signal,
+      };
+
+      // The content decides the reader; the declared type only rescues CSV
+      // that has no delimiter to recognise it by
+      const upload = await openUpload(request.file_data, {
+        fileName: request.file_name,
+        declaredType: request.file_type,
+      });
+      fileType = upload.fileType;
+      compression = upload.compression;
+
+      result = await processUpload(upload, options);
 
       const duration = Date.now() - startTime;
 
@@ -231,30 +579,38 @@ export class GrpcServiceHandler {
         {
           user_id: userId || 'unknown',
           tenant_id: tenantId || 'unknown',
-          file_type: request.file_type,
+          file_type: fileType,
           request_id: requestId,
         }
       );
 
       // Build response
+      const layout = toSummaryLayout(options);
       const response: ProcessFileResponse = {
         row_count: result.rowCount,
         success_count: result.successCount,
         error_count: result.errorCount,
-        summaries: result.summaries.map((s: any) => ({
-          region: s.region,
-          country: s.country,
-          count: s.count,
-          amount_sum: s.amountSum,
-          amount_avg: s.amountAvg,
-        })),
+        summaries: result.summaries.map(summary => toRegionSummary(summary, layout)),
         stats: {
           parse_duration_ms: result.stats.parseDurationMs,
           validate_duration_ms: result.stats.validateDurationMs,
           aggregate_duration_ms: result.stats.aggregateDurationMs,
           total_duration_ms: duration,
+          encoding: result.stats.encoding,
         },
         request_id: requestId,
+        file_type: fileType,
+        dialect: toCsvDialect(result.dialect),
+        sheets: (result.sheets ?? []).map(sheet => toSheetResult(sheet, layout)),
+        compression,
+        entries: (result.entries ?? []).map(entry => toArchiveEntry(entry, layout)),
+        columns: toColumnMappingReport(result.columns),
+        errors: (result.errors ?? []).map(toRowError),
+        schema: toRowSchemaRef(options.rowSchema),
+        truncated: result.truncated ?? false,
+        aggregation: toAggregationResult(result.aggregator?.query?.toResult()),
+        time_series: toTimeSeries(result.aggregator?.timeSeries?.toResult(), layout),
+        pivot: toPivotTable(result.aggregator?.toPivotTable()),
       };
 
       callback(null, response);
@@ -270,16 +626,39 @@ export class GrpcServiceHandler {
         {
           user_id: userId || 'unknown',
           tenant_id: tenantId || 'unknown',
-          file_type: request.file_type,
+          file_type: fileType,
           error: errorMessage,
         }
       );
 
+      // A file rejected by its validation policy or stopped at its time
+      // limit was partly read; the partial counts travel as trailing metadata
+      if (error instanceof ValidationThresholdExceededError || error instanceof ProcessingTimeoutError) {
+        const metadata = new grpc.Metadata();
+        metadata.set('error-code', error.code);
+        metadata.set('row-count', String(error.details?.rowCount ?? 0));
+        metadata.set('success-count', String(error.details?.successCount ?? 0));
+        metadata.set('error-count', String(error.details?.errorCount ?? 0));
+
+        callback({
+          code: error instanceof ProcessingTimeoutError ? grpc.status.DEADLINE_EXCEEDED : grpc.status.FAILED_PRECONDITION,
+          message: errorMessage,
+          details: errorMessage,
+          metadata,
+        });
+        return;
+      }
+
+      // Problems with the submitted file are the caller's to fix
+      const isClientError = error instanceof CsvProcessingError && error.statusCode < 500;
+
       callback({
-        code: grpc.status.INTERNAL,
+        code: isClientError ? grpc.status.INVALID_ARGUMENT : grpc.status.INTERNAL,
         message: errorMessage,
         details: errorMessage,
       });
+    } finally {
+      releaseProcessingSignal(signal);
     }
   }
 
@@ -306,21 +685,23 @@ export class GrpcServiceHandler {
 
   /**
    * ProcessFileStream RPC handler (for large files)
+   *
+   * CSV chunks are handed to the parser as they arrive, so the file is never
+   * assembled in memory. Excel workbooks need random access and are still
+   * buffered before parsing.
    */
   private async processFileStream(
     call: grpc.ServerDuplexStream<any, any>
   ): Promise<void> {
-    const chunks: Buffer[] = [];
-    let fileType = 'csv';
-    let fileName = 'unknown';
+    const tenantId = call.metadata.get('tenant-id')?.[0];
+    let metadata: Record<string, string> | undefined;
     let totalChunks = 0;
 
-    // Collect incoming chunks
-    call.on('data', (chunk: any) => {
-      if (chunk.chunk_data) {
-        chunks.push(Buffer.from(chunk.chunk_data));
-        fileType = chunk.file_type || 'csv';
-        fileName = chunk.file_name || 'unknown';
+    async function* receive(): AsyncGenerator<Buffer> {
+      for await (const chunk of call) {
+        // Import options travel on the first chunk
+        metadata ??= chunk.metadata;
+        if (!chunk.chunk_data) continue;
         totalChunks++;
 
         // Send progress update
@@ -328,48 +709,44 @@ export class GrpcServiceHandler {
           processed_rows: 0,
           total_rows: totalChunks,
           status: 'receiving',
-          message: `Received chunk ${chunks.length}`,
+          message: `Received chunk ${totalChunks}`,
         });
+
+        yield Buffer.from(chunk.chunk_data);
       }
-    });
+    }
 
-    call.on('end', async () => {
-      try {
-        // Combine chunks
-        const fileData = Buffer.concat(chunks);
-
-        // Process file
-        let result: any;
-        if (fileType === 'csv') {
-          result = await processCsvFile(fileData);
-        } else if (fileType === 'xlsx') {
-          result = await processExcelFile(fileData);
-        } else {
-          throw new Error(`Unsupported file type: ${fileType}`);
-        }
+    const signal = toProcessingSignal(call);
 
-        // Send final result
-        call.write({
-          processed_rows: result.rowCount,
-          total_rows: result.rowCount,
-          status: 'complete',
-          message: 'Processing complete',
-        });
+    try {
+      // Sniff the leading chunks to choose the reader; CSV keeps streaming,
+      // anything else is collected first
+      const upload = await openUpload(receive());
+      const options = {
+        ...await resolveImportOptions(metadata, tenantId?.toString()),
+        signal,
+      };
+      const result = await processUpload(upload, options);
 
-        call.end();
-      } catch (error) {
-        call.emit('error', error);
-      }
-    });
+      // Send final result
+      call.write({
+        processed_rows: result.rowCount,
+        total_rows: result.rowCount,
+        status: 'complete',
+        message: result.truncated ? 'Processing stopped at the row limit' : 'Processing complete',
+      });
 
-    call.on('error', (error: Error) => {
+      call.end();
+    } catch (error) {
       console.error('Stream error:', error);
       call.write({
         status: 'error',
-        message: error.message,
+        message: error instanceof Error ? error.message : 'Unknown error',
       });
       call.end();
-    });
+    } finally {
+      releaseProcessingSignal(signal);
+    }
   }
 
   /**
@@ -0,0 +1,63 @@
+import { beforeAll, describe, expect, test } from 'bun:test';
+import * as XLSX from 'xlsx';
+import { NotFoundError } from '../types.js';
+
+// Telemetry reads its switch when first imported, so the handlers are imported after it is off
+process.env.OTEL_ENABLED = 'false';
+const { initializeOpenTelemetry } = await import('../telemetry/otel.js');
+const { handleFileImport } = await import('./csv-import.js');
+const { handleDownloadPivotTable } = await import('./pivot-table.js');
+
+beforeAll(async () => {
+  await initializeOpenTelemetry();
+});
+
+const CSV = 'region,country,amount\nEU,DE,10\nEU,FR,2.5\nUS,US,5\nUS,DE,1\n';
+
+/**
+ * Import the file with a pivot of amount by region and country and return
+ * the pivot table of the response
+ */
+async function importPivot(tenantId?: string) {
+  const metadata = { pivot: JSON.stringify({ rows: 'region', columns: 'country' }) };
+  const { data } = await handleFileImport(new File([CSV], 'sales.csv'), 'http_test', { userId: 'tester', tenantId }, metadata);
+  return data.pivot!;
+}
+
+describe('handleDownloadPivotTable', () => {
+  test('downloads the pivot table of an import as a workbook', async () => {
+    const pivot = await importPivot();
+    expect(pivot).toMatchObject({
+      columns: ['DE', 'FR', 'US'],
+      rows: [
+        { value: 'EU', cells: [10, 2.5, null], total: 12.5 },
+        { value: 'US', cells: [1, null, 5], total: 6 },
+      ],
+      columnTotals: [11, 2.5, 5],
+      grandTotal: 18.5,
+    });
+
+    const response = await handleDownloadPivotTable(pivot.download!.id);
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Content-Type')).toBe('application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+    expect(response.headers.get('Content-Disposition')).toBe('attachment; filename="sales.pivot.xlsx"');
+    const workbook = XLSX.read(await response.arrayBuffer());
+    expect(XLSX.utils.sheet_to_json(workbook.Sheets.Pivot, { header: 1, defval: null })).toEqual([
+      ['sum of amount: region \\ country', 'DE', 'FR', 'US', 'Total'],
+      ['EU', 10, 2.5, null, 12.5],
+      ['US', 1, null, 5, 6],
+      ['Total', 11, 2.5, 5, 18.5],
+    ]);
+  });
+
+  test('throws a 404 outside the tenant of the import', async () => {
+    const pivot = await importPivot('acme');
+    expect((await handleDownloadPivotTable(pivot.download!.id, 'acme')).status).toBe(200);
+
+    const error = await handleDownloadPivotTable(pivot.download!.id, 'globex').catch(e => e);
+
+    expect(error).toBeInstanceOf(NotFoundError);
+    expect(error).toMatchObject({ statusCode: 404, code: 'NOT_FOUND', message: `Pivot table not found or expired: ${pivot.download!.id}` });
+  });
+});
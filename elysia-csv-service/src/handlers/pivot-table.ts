@@ -0,0 +1,25 @@
+/**
+ * Pivot Table Handler for Elysia
+ * Serves the pivot table of an import as an XLSX download
+ */
+
+import { downloadPivotTable } from '../utils/pivot-table.js';
+
+// ============================================================================
+// Handler Functions
+// ============================================================================
+
+/**
+ * Download the pivot table of an import result as a one-sheet workbook
+ */
+export async function handleDownloadPivotTable(id: string, tenantId?: string): Promise<Response> {
+  const download = await downloadPivotTable(id, tenantId);
+
+  return new Response(download.body, {
+    status: 200,
+    headers: {
+      'Content-Type': download.contentType,
+      'Content-Disposition': `attachment; filename="${download.fileName.replace(/["\\]/g, '_')}"`,
+    },
+  });
+}
@@ -0,0 +1,26 @@
+/**
+ * Rejected Rows Handler for Elysia
+ * Serves the rows of an import that failed validation as a CSV or XLSX download
+ */
+
+import { downloadRejectedRows } from '../utils/rejected-rows.js';
+
+// ============================================================================
+// Handler Functions
+// ============================================================================
+
+/**
+ * Download the rejected rows of an import result, as `csv` or `xlsx`
+ * (default: the format of the uploaded file)
+ */
+export async function handleDownloadRejectedRows(id: string, format?: string, tenantId?: string): Promise<Response> {
+  const download = await downloadRejectedRows(id, format, tenantId);
+
+  return new Response(download.body, {
+    status: 200,
+    headers: {
+      'Content-Type': download.contentType,
+      'Content-Disposition': `attachment; filename="${download.fileName.replace(/["\\]/g, '_')}"`,
+    },
+  });
+}
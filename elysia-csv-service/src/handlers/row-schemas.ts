@@ -0,0 +1,73 @@
+/**
+ * Row Schema Handlers for Elysia
+ * Registers and retrieves versioned named row schemas per tenant
+ */
+
+import { rowSchemas } from '../utils/row-schema.js';
+import { NotFoundError, ValidationError } from '../types.js';
+import type { NamedRowSchema } from '../types.js';
+
+// ============================================================================
+// Handler Functions
+// ============================================================================
+
+/**
+ * List the latest version of each of the tenant's row schemas
+ */
+export async function handleListRowSchemas(tenantId?: string): Promise<NamedRowSchema[]> {
+  return rowSchemas.list(tenantId);
+}
+
+/**
+ * Get a row schema at its latest version, or the given one
+ */
+export async function handleGetRowSchema(
+  name: string,
+  versionValue?: string,
+  tenantId?: string
+): Promise<NamedRowSchema> {
+  let version: number | undefined;
+  if (versionValue !== undefined && versionValue !== '') {
+    version = Number(versionValue);
+    if (!Number.isInteger(version) || version < 1) {
+      throw new ValidationError('Invalid version: expected a positive whole number', { value: versionValue });
+    }
+  }
+
+  const entry = await rowSchemas.get(name, version, tenantId);
+  if (!entry) {
+    throw new NotFoundError(
+      version === undefined ? `Row schema not found: ${name}` : `Row schema version not found: ${name} v${version}`,
+      { name, version }
+    );
+  }
+  return entry;
+}
+
+/**
+ * List every version of a row schema
+ */
+export async function handleListRowSchemaVersions(name: string, tenantId?: string): Promise<NamedRowSchema[]> {
+  const versions = await rowSchemas.versions(name, tenantId);
+  if (!versions) {
+    throw new NotFoundError(`Row schema not found: ${name}`, { name });
+  }
+  return versions;
+}
+
+/**
+ * Register a new version of a row schema
+ */
+export async function handlePutRowSchema(name: string, body: unknown, tenantId?: string): Promise<NamedRowSchema> {
+  return rowSchemas.register(name, body, tenantId);
+}
+
+/**
+ * Delete a row schema with all its versions
+ */
+export async function handleDeleteRowSchema(name: string, tenantId?: string): Promise<{ name: string }> {
+  if (!(await rowSchemas.delete(name, tenantId))) {
+    throw new NotFoundError(`Row schema not found: ${name}`, { name });
+  }
+  return { name };
+}
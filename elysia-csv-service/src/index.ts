@@ -15,6 +15,8 @@ import {
 } from './middleware/cors-security.js';
 import {
   handleFileImport,
+  handleSchemaInference,
+  parseUploadMetadata,
   handleHealthCheck,
   handleServiceInfo,
   handleLiveness,
@@ -22,9 +24,26 @@ import {
   handleMetrics,
   handleConsulHealth,
 } from './handlers/csv-import.js';
+import {
+  handleListColumnMappings,
+  handleGetColumnMapping,
+  handlePutColumnMapping,
+  handleDeleteColumnMapping,
+} from './handlers/column-mappings.js';
+import {
+  handleListRowSchemas,
+  handleGetRowSchema,
+  handleListRowSchemaVersions,
+  handlePutRowSchema,
+  handleDeleteRowSchema,
+} from './handlers/row-schemas.js';
+import { handleDownloadRejectedRows } from './handlers/rejected-rows.js';
+import { handleDownloadPivotTable } from './handlers/pivot-table.js';
 import { createGrpcServer } from './handlers/grpc-service.js';
 import { createConsulClient, buildServiceConfig } from './discovery/consul.js';
-import { ERROR_CODES, REQUIRED_SCOPES } from './types.js';
+import { sharedStore } from './utils/shared-store.js';
+import { ERROR_CODES, REQUIRED_SCOPES, CsvProcessingError, ValidationError } from './types.js';
+import type { RowSchemaRef } from './types.js';
 
 // ============================================================================
 // Environment Configuration
@@ -119,7 +138,7 @@ app.get('/metrics', () => handleMetrics());
 const apiV1 = new Elysia({
   prefix: '/api/v1',
   name: 'api-v1',
-});
+}).use(requestIdPlugin());
 // Auth and rate limiting disabled for benchmarking
 
 // ============================================================================
@@ -153,21 +172,23 @@ apiV1.post(
     }
 
     try {
-      const result = await handleFileImport(file, requestId, { userId: 'anonymous' });
+      const metadata = parseUploadMetadata(formData.get('metadata'));
+      const result = await handleFileImport(file, requestId, { userId: 'anonymous' }, metadata, request.signal);
       set.status = 200;
       return result;
     } catch (error) {
       const statusCode = error instanceof Error && error.message.includes('size')
         ? 413
-        : 500;
+        : error instanceof CsvProcessingError ? error.statusCode : 500;
 
       set.status = statusCode;
 
       return {
         success: false,
         error: {
-          code: 'INTERNAL_ERROR',
+          code: error instanceof CsvProcessingError ? error.code : 'INTERNAL_ERROR',
           message: error instanceof Error ? error.message : 'Unknown error',
+          details: error instanceof CsvProcessingError ? error.details : undefined,
         },
         requestId,
       };
@@ -194,28 +215,57 @@ apiV1.post(
       };
     }
 
+    let metadata: Record<string, string>;
+    try {
+      metadata = parseUploadMetadata(formData.get('metadata'));
+    } catch (error) {
+      set.status = 400;
+      return {
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: error instanceof Error ? error.message : 'Invalid metadata',
+        },
+        requestId,
+      };
+    }
+
     const results: unknown[] = [];
     let totalRows = 0;
     let totalErrors = 0;
+    let schema: RowSchemaRef | undefined;
 
     for (const file of files) {
       if (!(file instanceof File)) continue;
 
       try {
-        const result = await handleFileImport(file, requestId, { userId: 'anonymous' });
+        const result = await handleFileImport(file, requestId, { userId: 'anonymous' }, metadata, request.signal);
         totalRows += result.data.rowCount;
         totalErrors += result.data.errorCount;
+        schema ??= result.data.schema;
         results.push({
           fileName: result.fileName,
           fileType: result.fileType,
+          compression: result.compression,
           rowCount: result.data.rowCount,
           successCount: result.data.successCount,
           errorCount: result.data.errorCount,
+          dialect: result.data.dialect,
+          sheets: result.data.sheets,
+          entries: result.data.entries,
+          columns: result.data.columns,
+          errors: result.data.errors,
+          truncated: result.data.truncated,
+          rejectedRows: result.data.rejectedRows,
+          aggregation: result.data.aggregation,
+          timeSeries: result.data.timeSeries,
+          pivot: result.data.pivot,
         });
       } catch (error) {
         results.push({
           fileName: file.name,
           error: error instanceof Error ? error.message : 'Processing failed',
+          details: error instanceof CsvProcessingError ? error.details : undefined,
         });
       }
     }
@@ -227,6 +277,7 @@ apiV1.post(
         processedFiles: results.length,
         totalRows,
         totalErrors,
+        schema,
         results,
       },
       requestId,
@@ -234,8 +285,146 @@ apiV1.post(
   }
 );
 
-// Mount API v1 routes
-app.mount(apiV1);
+// ============================================================================
+// Column Mapping Endpoints
+// ============================================================================
+
+/**
+ * Run a column mapping or row schema handler and shape its result or error
+ * as a response
+ */
+async function respondWithEntry<T>(
+  handler: () => T | Promise<T>,
+  set: { status?: number | string },
+  requestId: string
+) {
+  try {
+    return { success: true, data: await handler(), requestId };
+  } catch (error) {
+    set.status = error instanceof CsvProcessingError ? error.statusCode : 500;
+    return {
+      success: false,
+      error: {
+        code: error instanceof CsvProcessingError ? error.code : 'INTERNAL_ERROR',
+        message: error instanceof Error ? error.message : 'Unknown error',
+        details: error instanceof CsvProcessingError ? error.details : undefined,
+      },
+      requestId,
+    };
+  }
+}
+
+// Named column mappings, referenced from imports by `column_mapping_name`
+// (no auth for benchmarking, so every mapping belongs to the default tenant)
+apiV1.get('/mappings', ({ set, requestId }) =>
+  respondWithEntry(() => handleListColumnMappings(), set, requestId)
+);
+
+apiV1.get('/mappings/:name', ({ params, set, requestId }) =>
+  respondWithEntry(() => handleGetColumnMapping(params.name), set, requestId)
+);
+
+apiV1.put('/mappings/:name', ({ params, body, set, requestId }) =>
+  respondWithEntry(() => handlePutColumnMapping(params.name, body), set, requestId)
+);
+
+apiV1.delete('/mappings/:name', ({ params, set, requestId }) =>
+  respondWithEntry(() => handleDeleteColumnMapping(params.name), set, requestId)
+);
+
+// ============================================================================
+// Row Schema Endpoints
+// ============================================================================
+
+// Versioned row schemas, referenced from imports by `schema_name`
+// (no auth for benchmarking, so every schema belongs to the default tenant)
+apiV1.get('/schemas', ({ set, requestId }) =>
+  respondWithEntry(() => handleListRowSchemas(), set, requestId)
+);
+
+apiV1.get('/schemas/:name', ({ params, query, set, requestId }) =>
+  respondWithEntry(() => handleGetRowSchema(params.name, query.version), set, requestId)
+);
+
+apiV1.get('/schemas/:name/versions', ({ params, set, requestId }) =>
+  respondWithEntry(() => handleListRowSchemaVersions(params.name), set, requestId)
+);
+
+apiV1.put('/schemas/:name', ({ params, body, set, requestId }) =>
+  respondWithEntry(() => handlePutRowSchema(params.name, body), set, requestId)
+);
+
+apiV1.delete('/schemas/:name', ({ params, set, requestId }) =>
+  respondWithEntry(() => handleDeleteRowSchema(params.name), set, requestId)
+);
+
+// Draft a row schema from a sample of an uploaded file
+apiV1.post('/schemas/infer', async ({ request, set, requestId }) => {
+  try {
+    const formData = await request.formData();
+    const file = formData.get('file');
+    if (!(file instanceof File)) {
+      throw new ValidationError('No file provided. Please upload a sample file.');
+    }
+
+    const metadata = parseUploadMetadata(formData.get('metadata'));
+    return await handleSchemaInference(file, requestId, { userId: 'anonymous' }, metadata);
+  } catch (error) {
+    set.status = error instanceof CsvProcessingError ? error.statusCode : 500;
+    return {
+      success: false,
+      error: {
+        code: error instanceof CsvProcessingError ? error.code : 'INTERNAL_ERROR',
+        message: error instanceof Error ? error.message : 'Unknown error',
+        details: error instanceof CsvProcessingError ? error.details : undefined,
+      },
+      requestId,
+    };
+  }
+});
+
+// ============================================================================
+// Result Endpoints
+// ============================================================================
+
+// Rows of an import that failed validation, linked from its `rejectedRows`
+apiV1.get('/results/:id/rejected', async ({ params, query, set, requestId }) => {
+  try {
+    return await handleDownloadRejectedRows(params.id, query.format);
+  } catch (error) {
+    set.status = error instanceof CsvProcessingError ? error.statusCode : 500;
+    return {
+      success: false,
+      error: {
+        code: error instanceof CsvProcessingError ? error.code : 'INTERNAL_ERROR',
+        message: error instanceof Error ? error.message : 'Unknown error',
+        details: error instanceof CsvProcessingError ? error.details : undefined,
+      },
+      requestId,
+    };
+  }
+});
+
+// XLSX sheet of the pivot table of an import, linked from its `pivot.download`
+apiV1.get('/results/:id/pivot', async ({ params, set, requestId }) => {
+  try {
+    return await handleDownloadPivotTable(params.id);
+  } catch (error) {
+    set.status = error instanceof CsvProcessingError ? error.statusCode : 500;
+    return {
+      success: false,
+      error: {
+        code: error instanceof CsvProcessingError ? error.code : 'INTERNAL_ERROR',
+        message: error instanceof Error ? error.message : 'Unknown error',
+        details: error instanceof CsvProcessingError ? error.details : undefined,
+      },
+      requestId,
+    };
+  }
+});
+
+// Add API v1 routes (use, not mount: a mounted app gets none of the request context)
+app.use(apiV1);
 
 // ============================================================================
 // Error Handling
@@ -363,6 +552,9 @@ async function gracefulShutdown(signal: string) {
     // Cleanup rate limiter
     await cleanupRateLimiter();
 
+    // Close the shared store connection
+    await sharedStore.close();
+
     console.log('[Shutdown] Graceful shutdown complete');
     clearTimeout(shutdownTimeout);
     process.exit(0);
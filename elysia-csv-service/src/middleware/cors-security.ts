@@ -3,7 +3,7 @@
  * Production-ready security configuration
  */
 
-import type { Elysia } from 'elysia';
+import { Elysia } from 'elysia';
 
 // ============================================================================
 // Configuration
@@ -207,9 +207,13 @@ export const securityHeadersPlugin = () => {
 // Request ID Plugin for Elysia
 // ============================================================================
 
+/**
+ * Named so the app and every sub-app that needs `requestId` in its context
+ * can use it while it runs once per request
+ */
 export const requestIdPlugin = () => {
-  return (app: Elysia) =>
-    app.derive(({ request, set }) => {
+  return new Elysia({ name: 'request-id' })
+    .derive({ as: 'global' }, ({ request, set }) => {
       const existingRequestId = request.headers.get('X-Request-ID');
       const requestId = existingRequestId || generateRequestId();
 
@@ -271,7 +271,8 @@ export class GrpcClientPool {
     target: string,
     chunks: Buffer[],
     fileType: string,
-    fileName: string
+    fileName: string,
+    metadata: Record<string, string> = {}
   ): Promise<any> {
     const connection = this.getConnection(target);
 
@@ -285,6 +286,7 @@ export class GrpcClientPool {
             chunk_data: chunks[i],
             chunk_index: i,
             is_last: i === chunks.length - 1,
+            ...(i === 0 && { metadata }),
           });
         }
 
@@ -0,0 +1,269 @@
+/**
+ * Compressed and Archived Uploads
+ * Bounded decompression of gzip/deflate/zstd payloads and ZIP entry extraction
+ */
+
+import { createGunzip, createInflate, createZstdDecompress, inflateRawSync } from 'zlib';
+import { Readable } from 'stream';
+import type { Transform } from 'stream';
+import { CsvProcessingError, DecompressionLimitError, InvalidFileTypeError, ERROR_CODES } from '../types.js';
+import type { CompressionFormat } from '../types.js';
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+export interface DecompressionLimits {
+  /**
+   * Most bytes a payload (or all entries of an archive together) may expand to
+   */
+  maxBytes: number;
+  /**
+   * Largest allowed ratio of decompressed to compressed size
+   */
+  maxRatio: number;
+}
+
+export const DECOMPRESSION_LIMITS: DecompressionLimits = {
+  maxBytes: parseInt(process.env.MAX_DECOMPRESSED_SIZE || '1073741824', 10), // 1GB default
+  maxRatio: parseInt(process.env.MAX_DECOMPRESSION_RATIO || '100', 10),
+};
+
+/**
+ * Output below this size is never rejected for its ratio: small files of
+ * repetitive data legitimately compress very well
+ */
+const RATIO_CHECK_FLOOR = 1024 * 1024;
+
+/**
+ * Second byte of the zlib headers encoders emit with the default 32K window
+ * (levels fastest, fast, default and best)
+ */
+const ZLIB_LEVEL_BYTES = [0x01, 0x5e, 0x9c, 0xda];
+
+const ZIP_LOCAL_HEADER = 0x04034b50;
+const ZIP_CENTRAL_HEADER = 0x02014b50;
+const ZIP_END_OF_DIRECTORY = Buffer.from([0x50, 0x4b, 0x05, 0x06]);
+const ZIP_STORED = 0;
+const ZIP_DEFLATED = 8;
+const ZIP_ENCRYPTED_FLAG = 0x01;
+const ZIP_DATA_DESCRIPTOR_FLAG = 0x08;
+
+export interface ZipEntry {
+  name: string;
+  flags: number;
+  method: number;
+  compressedSize: number;
+  localOffset: number;
+}
+
+// ============================================================================
+// Compression
+// ============================================================================
+
+/**
+ * Detect a compressed payload from its leading bytes
+ */
+export function detectCompression(head: Uint8Array): CompressionFormat | null {
+  if (head[0] === 0x1f && head[1] === 0x8b) {
+    return 'gzip';
+  }
+  if (head[0] === 0x28 && head[1] === 0xb5 && head[2] === 0x2f && head[3] === 0xfd) {
+    return 'zstd';
+  }
+  if (head[0] === 0x78 && ZLIB_LEVEL_BYTES.includes(head[1])) {
+    return 'deflate';
+  }
+  return null;
+}
+
+/**
+ * Decompress a byte stream, failing with a DecompressionLimitError as soon
+ * as the output outgrows the limits rather than after inflating it all
+ */
+export async function* decompressStream(
+  source: AsyncIterable<Uint8Array>,
+  format: CompressionFormat,
+  limits: DecompressionLimits = DECOMPRESSION_LIMITS
+): AsyncIterable<Uint8Array> {
+  let inputBytes = 0;
+  let outputBytes = 0;
+
+  const input = Readable.from((async function* () {
+    for await (const chunk of source) {
+      inputBytes += chunk.length;
+      yield chunk;
+    }
+  })());
+  const decompressor = createDecompressor(format);
+  input.on('error', (error) => decompressor.destroy(error));
+  input.pipe(decompressor);
+
+  try {
+    for await (const chunk of decompressor as AsyncIterable<Buffer>) {
+      outputBytes += chunk.length;
+      assertWithinLimits(outputBytes, inputBytes, limits);
+      yield chunk;
+    }
+  } catch (error) {
+    if (error instanceof CsvProcessingError) throw error;
+    throw new CsvProcessingError(
+      `Failed to decompress ${format} data: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      ERROR_CODES.PARSE_ERROR,
+      400,
+      { compression: format }
+    );
+  } finally {
+    input.destroy();
+    decompressor.destroy();
+  }
+}
+
+function createDecompressor(format: CompressionFormat): Transform {
+  switch (format) {
+    case 'gzip':
+      return createGunzip();
+    case 'deflate':
+      return createInflate();
+    case 'zstd':
+      return createZstdDecompress();
+  }
+}
+
+function assertWithinLimits(outputBytes: number, inputBytes: number, limits: DecompressionLimits): void {
+  if (outputBytes > limits.maxBytes) {
+    throw new DecompressionLimitError(
+      `Decompressed content exceeds the maximum of ${limits.maxBytes} bytes`,
+      { maxBytes: limits.maxBytes }
+    );
+  }
+  if (outputBytes > RATIO_CHECK_FLOOR && outputBytes > inputBytes * limits.maxRatio) {
+    throw new DecompressionLimitError(
+      `Compression ratio exceeds the maximum of ${limits.maxRatio}:1`,
+      { maxRatio: limits.maxRatio }
+    );
+  }
+}
+
+// ============================================================================
+// ZIP Archives
+// ============================================================================
+
+/**
+ * List entries from the central directory, falling back to walking the
+ * local file headers when the end-of-directory record is missing (a
+ * truncated buffer) or points outside it
+ */
+export function listZipEntries(buffer: Buffer): ZipEntry[] {
+  const entries: ZipEntry[] = [];
+
+  const end = buffer.lastIndexOf(ZIP_END_OF_DIRECTORY);
+  if (end !== -1 && end + 22 <= buffer.length) {
+    const count = buffer.readUInt16LE(end + 10);
+    let offset = buffer.readUInt32LE(end + 16);
+
+    for (let i = 0; i < count && offset + 46 <= buffer.length; i++) {
+      if (buffer.readUInt32LE(offset) !== ZIP_CENTRAL_HEADER) break;
+      const nameLength = buffer.readUInt16LE(offset + 28);
+      const extraLength = buffer.readUInt16LE(offset + 30);
+      const commentLength = buffer.readUInt16LE(offset + 32);
+      entries.push({
+        name: buffer.toString('utf-8', offset + 46, offset + 46 + nameLength),
+        flags: buffer.readUInt16LE(offset + 8),
+        method: buffer.readUInt16LE(offset + 10),
+        compressedSize: buffer.readUInt32LE(offset + 20),
+        localOffset: buffer.readUInt32LE(offset + 42),
+      });
+      offset += 46 + nameLength + extraLength + commentLength;
+    }
+
+    if (entries.length > 0) {
+      return entries;
+    }
+  }
+
+  let offset = 0;
+  while (offset + 30 <= buffer.length && buffer.readUInt32LE(offset) === ZIP_LOCAL_HEADER) {
+    const flags = buffer.readUInt16LE(offset + 6);
+    const compressedSize = buffer.readUInt32LE(offset + 18);
+    const nameLength = buffer.readUInt16LE(offset + 26);
+    const extraLength = buffer.readUInt16LE(offset + 28);
+    entries.push({
+      name: buffer.toString('utf-8', offset + 30, offset + 30 + nameLength),
+      flags,
+      method: buffer.readUInt16LE(offset + 8),
+      compressedSize,
+      localOffset: offset,
+    });
+
+    // Sizes trail the data when bit 3 is set, so the next header cannot be found
+    if (flags & ZIP_DATA_DESCRIPTOR_FLAG) break;
+    offset += 30 + nameLength + extraLength + compressedSize;
+  }
+
+  return entries;
+}
+
+/**
+ * Whether an entry holds file content: not a directory and not metadata
+ * added by the archiver (macOS resource forks, hidden files)
+ */
+export function isZipFileEntry(entry: ZipEntry): boolean {
+  const baseName = entry.name.split('/').pop() ?? '';
+  return !entry.name.endsWith('/') && !entry.name.startsWith('__MACOSX/') && !baseName.startsWith('.');
+}
+
+/**
+ * Extract one entry. The declared size in the archive is not trusted:
+ * inflation stops once the output outgrows the limits.
+ */
+export function readZipEntry(
+  buffer: Buffer,
+  entry: ZipEntry,
+  limits: DecompressionLimits = DECOMPRESSION_LIMITS
+): Buffer {
+  const header = entry.localOffset;
+  if (header + 30 > buffer.length || buffer.readUInt32LE(header) !== ZIP_LOCAL_HEADER) {
+    throw new CsvProcessingError(`Corrupt ZIP entry: ${entry.name}`, ERROR_CODES.PARSE_ERROR, 400, { entry: entry.name });
+  }
+  if (entry.flags & ZIP_ENCRYPTED_FLAG) {
+    throw new InvalidFileTypeError(`Encrypted ZIP entries are not supported: ${entry.name}`, { entry: entry.name });
+  }
+
+  const start = header + 30 + buffer.readUInt16LE(header + 26) + buffer.readUInt16LE(header + 28);
+  const data = buffer.subarray(start, start + entry.compressedSize);
+
+  if (entry.method === ZIP_STORED) {
+    assertWithinLimits(data.length, data.length, limits);
+    return data;
+  }
+
+  if (entry.method !== ZIP_DEFLATED) {
+    throw new InvalidFileTypeError(
+      `Unsupported ZIP compression method ${entry.method}: ${entry.name}`,
+      { entry: entry.name, method: entry.method }
+    );
+  }
+
+  const maxOutputLength = Math.min(
+    limits.maxBytes,
+    Math.max(RATIO_CHECK_FLOOR, data.length * limits.maxRatio)
+  );
+
+  try {
+    return inflateRawSync(data, { maxOutputLength });
+  } catch (error) {
+    if (error instanceof RangeError) {
+      throw new DecompressionLimitError(
+        `ZIP entry ${entry.name} expands beyond the decompression limits`,
+        { entry: entry.name, maxBytes: limits.maxBytes, maxRatio: limits.maxRatio }
+      );
+    }
+    throw new CsvProcessingError(
+      `Failed to decompress ZIP entry ${entry.name}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      ERROR_CODES.PARSE_ERROR,
+      400,
+      { entry: entry.name }
+    );
+  }
+}
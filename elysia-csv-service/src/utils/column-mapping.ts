@@ -0,0 +1,344 @@
+/**
+ * Column Mapping
+ * Resolves source columns onto row schema fields through positions, synonyms and regex aliases
+ */
+
+import { ColumnMappingSchema, METADATA_KEYS, ValidationError } from '../types.js';
+import type { ColumnMapping, ColumnMappingReport } from '../types.js';
+import { sharedStore } from './shared-store.js';
+import type { SharedStore } from './shared-store.js';
+import { checkPattern } from './safe-pattern.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * A mapping ready for matching: synonyms normalized, patterns compiled
+ */
+export interface CompiledColumnMapping {
+  positions: Record<string, number>;
+  synonyms: Record<string, Set<string>>;
+  patterns: Record<string, RegExp[]>;
+}
+
+/**
+ * Row key for every source column (null drops the column) and how the
+ * columns were resolved
+ */
+export interface ResolvedColumns {
+  keys: Array<string | null>;
+  report: ColumnMappingReport;
+}
+
+export interface NamedColumnMapping {
+  name: string;
+  mapping: ColumnMapping;
+  updatedAt: string;
+}
+
+type ColumnMatcher = (index: number) => boolean;
+
+const DEFAULT_TENANT = 'default';
+const MAPPING_NAME_PATTERN = /^[A-Za-z0-9][A-Za-z0-9_.-]{0,63}$/;
+
+// ============================================================================
+// Header Matching
+// ============================================================================
+
+/**
+ * Normalize a header into a row key
+ */
+export function normalizeKey(header: string): string {
+  return header.toLowerCase().replace(/[^a-z0-9]/g, '_');
+}
+
+/**
+ * Reduce a header to the form names are compared in: lower case, runs of
+ * punctuation collapsed, no leading or trailing separators
+ * ("Amount (USD)" and "amount_usd" compare equal)
+ */
+export function toComparable(header: string): string {
+  return header.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '');
+}
+
+/**
+ * Resolve source column headers onto the fields of a row schema.
+ *
+ * Every field takes the first column matched by, in order of
+ * precedence, its position, a synonym, a pattern or simply its own name;
+ * explicit rules win over a column that happens to carry the field's name.
+ * A column fills at most one field. Columns that match no field keep their
+ * normalized header as key, unless that would shadow a field another
+ * column was mapped to.
+ */
+export function resolveColumns(
+  headers: string[],
+  fields: readonly string[],
+  mapping?: CompiledColumnMapping
+): ResolvedColumns {
+  const names = headers.map(header => header.trim());
+  const comparable = names.map(toComparable);
+  const keys: Array<string | null> = names.map(normalizeKey);
+  const assigned = new Map<number, string>();
+  const report: ColumnMappingReport = { mapped: {}, unmapped: [], ambiguous: [] };
+
+  const rules: Array<(field: string) => ColumnMatcher> = [
+    field => index => mapping?.positions[field] === index,
+    field => index => mapping?.synonyms[field]?.has(comparable[index]) ?? false,
+    field => index => mapping?.patterns[field]?.some(pattern => pattern.test(names[index])) ?? false,
+    field => index => comparable[index] === field,
+  ];
+
+  // Each rule is applied to every field before the next one, so a column
+  // named after one field cannot take a column another field's rule names
+  for (const rule of rules) {
+    for (const field of fields) {
+      if (field in report.mapped) {
+        continue;
+      }
+
+      const matches = rule(field);
+      const candidates = names
+        .map((_, index) => index)
+        .filter(index => !assigned.has(index) && matches(index));
+      if (candidates.length === 0) {
+        continue;
+      }
+
+      assigned.set(candidates[0], field);
+      report.mapped[field] = names[candidates[0]];
+      if (candidates.length > 1) {
+        report.ambiguous.push({ field, columns: candidates.map(index => names[index]) });
+      }
+    }
+  }
+
+  names.forEach((name, index) => {
+    const field = assigned.get(index);
+    if (field) {
+      keys[index] = field;
+      return;
+    }
+
+    report.unmapped.push(name);
+    if (fields.includes(keys[index] as string)) {
+      keys[index] = null;
+    }
+  });
+
+  return { keys, report };
+}
+
+/**
+ * Fold one resolution report into another, e.g. across the sheets of a
+ * workbook or the differently shaped records of a JSON file. The first
+ * column seen for a field is the one reported as mapped.
+ */
+export function mergeColumnReports(
+  target: ColumnMappingReport | undefined,
+  report: ColumnMappingReport
+): ColumnMappingReport {
+  if (!target) {
+    return {
+      mapped: { ...report.mapped },
+      unmapped: [...report.unmapped],
+      ambiguous: [...report.ambiguous],
+    };
+  }
+
+  for (const [field, column] of Object.entries(report.mapped)) {
+    target.mapped[field] ??= column;
+  }
+  for (const column of report.unmapped) {
+    if (!target.unmapped.includes(column)) target.unmapped.push(column);
+  }
+  for (const entry of report.ambiguous) {
+    const seen = target.ambiguous.some(
+      existing => existing.field === entry.field && existing.columns.join('\0') === entry.columns.join('\0')
+    );
+    if (!seen) target.ambiguous.push(entry);
+  }
+
+  return target;
+}
+
+// ============================================================================
+// Mapping Definitions
+// ============================================================================
+
+/**
+ * Validate a column mapping definition, including its patterns
+ */
+export function parseColumnMapping(value: unknown): ColumnMapping {
+  const result = ColumnMappingSchema.safeParse(value);
+  if (!result.success) {
+    throw new ValidationError('Invalid column mapping', { issues: result.error.issues });
+  }
+
+  compileColumnMapping(result.data);
+  return result.data;
+}
+
+/**
+ * Prepare a mapping for matching
+ */
+export function compileColumnMapping(mapping: ColumnMapping): CompiledColumnMapping {
+  const compiled: CompiledColumnMapping = {
+    positions: { ...mapping.positions },
+    synonyms: {},
+    patterns: {},
+  };
+
+  for (const [field, synonyms] of Object.entries(mapping.synonyms ?? {})) {
+    compiled.synonyms[field] = new Set(synonyms.map(toComparable));
+  }
+
+  for (const [field, patterns] of Object.entries(mapping.patterns ?? {})) {
+    compiled.patterns[field] = patterns.map(source => {
+      const problem = checkPattern(source, 'i');
+      if (problem) {
+        throw new ValidationError(`Invalid column pattern for ${field}: ${problem}`, {
+          field,
+          pattern: source,
+        });
+      }
+      return new RegExp(source, 'i');
+    });
+  }
+
+  return compiled;
+}
+
+/**
+ * Layer a per-request mapping over a stored one: positions are replaced,
+ * synonyms and patterns are added
+ */
+export function mergeColumnMappings(base: ColumnMapping, override: ColumnMapping): ColumnMapping {
+  const merged: ColumnMapping = {
+    positions: { ...base.positions, ...override.positions },
+    synonyms: { ...base.synonyms },
+    patterns: { ...base.patterns },
+  };
+
+  for (const [field, synonyms] of Object.entries(override.synonyms ?? {})) {
+    merged.synonyms![field] = [...(base.synonyms?.[field] ?? []), ...synonyms];
+  }
+  for (const [field, patterns] of Object.entries(override.patterns ?? {})) {
+    merged.patterns![field] = [...(base.patterns?.[field] ?? []), ...patterns];
+  }
+
+  return merged;
+}
+
+/**
+ * Check that a mapping only names fields of the row schema it is applied
+ * with (a stored mapping is not tied to one schema)
+ */
+export function checkColumnMappingFields(mapping: ColumnMapping, fields: readonly string[]): void {
+  const named = new Set([
+    ...Object.keys(mapping.positions ?? {}),
+    ...Object.keys(mapping.synonyms ?? {}),
+    ...Object.keys(mapping.patterns ?? {}),
+  ]);
+  const unknown = [...named].filter(field => !fields.includes(field));
+  if (unknown.length > 0) {
+    throw new ValidationError(`Column mapping names fields the row schema does not have: ${unknown.join(', ')}`, {
+      fields: unknown,
+    });
+  }
+}
+
+/**
+ * Resolve the mapping a request asks for: the stored mapping named by
+ * `column_mapping_name`, the JSON mapping in `column_mapping`, or the
+ * inline one layered over the stored one when both are given
+ */
+export async function resolveColumnMapping(
+  metadata: Record<string, string>,
+  tenantId?: string
+): Promise<ColumnMapping | undefined> {
+  const name = metadata[METADATA_KEYS.COLUMN_MAPPING_NAME];
+  const inline = metadata[METADATA_KEYS.COLUMN_MAPPING];
+
+  let stored: ColumnMapping | undefined;
+  if (name) {
+    stored = (await columnMappings.get(name, tenantId))?.mapping;
+    if (!stored) {
+      throw new ValidationError(`Unknown column mapping: ${name}`, { name });
+    }
+  }
+
+  if (!inline) {
+    return stored;
+  }
+
+  let value: unknown;
+  try {
+    value = JSON.parse(inline);
+  } catch {
+    throw new ValidationError(`Invalid ${METADATA_KEYS.COLUMN_MAPPING}: expected a JSON object`);
+  }
+
+  const mapping = parseColumnMapping(value);
+  return stored ? mergeColumnMappings(stored, mapping) : mapping;
+}
+
+// ============================================================================
+// Named Mappings
+// ============================================================================
+
+/**
+ * Store of reusable named mappings, kept in the shared store as one hash
+ * per tenant so every replica sees the same mappings
+ */
+export class ColumnMappingRegistry {
+  constructor(private readonly store: SharedStore = sharedStore) {}
+
+  async list(tenantId: string = DEFAULT_TENANT): Promise<NamedColumnMapping[]> {
+    const entries = await this.store.hashGetAll(mappingsKey(tenantId));
+    return Object.values(entries)
+      .map(value => JSON.parse(value) as NamedColumnMapping)
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async get(name: string, tenantId: string = DEFAULT_TENANT): Promise<NamedColumnMapping | undefined> {
+    const value = await this.store.hashGet(mappingsKey(tenantId), name);
+    return value === undefined ? undefined : JSON.parse(value) as NamedColumnMapping;
+  }
+
+  /**
+   * Create or replace a named mapping
+   */
+  async set(name: string, value: unknown, tenantId: string = DEFAULT_TENANT): Promise<NamedColumnMapping> {
+    if (!MAPPING_NAME_PATTERN.test(name)) {
+      throw new ValidationError(
+        'Invalid mapping name. Use up to 64 letters, digits, ".", "_" or "-", starting with a letter or digit.',
+        { name }
+      );
+    }
+
+    const entry: NamedColumnMapping = {
+      name,
+      mapping: parseColumnMapping(value),
+      updatedAt: new Date().toISOString(),
+    };
+    await this.store.hashSet(mappingsKey(tenantId), name, JSON.stringify(entry));
+
+    return entry;
+  }
+
+  async delete(name: string, tenantId: string = DEFAULT_TENANT): Promise<boolean> {
+    return this.store.hashDelete(mappingsKey(tenantId), name);
+  }
+}
+
+/**
+ * Hash of a tenant's mappings; the version is bumped when the stored form
+ * of a mapping changes
+ */
+function mappingsKey(tenantId: string): string {
+  return `column-mappings:v1:${tenantId}`;
+}
+
+export const columnMappings = new ColumnMappingRegistry();
@@ -0,0 +1,114 @@
+import { describe, expect, test } from 'bun:test';
+import { Decimal, Int64, Table, makeData, makeVector, tableToIPC, vectorFromArray } from 'apache-arrow';
+import { processColumnarFile, resolveImportOptions } from './csv-parser.js';
+import { CsvProcessingError } from '../types.js';
+
+/**
+ * A Parquet file of four rows: region and country strings, price as a
+ * DECIMAL(38, 2) byte array, fee as an INT32 DECIMAL(9, 3) and units as an
+ * INT64. The first price and units are 2^53 + 1 cents and units; the last
+ * price is null.
+ */
+const PARQUET = Buffer.from([
+  'UEFSMRUGFTAVMFwVCBUAFQgVABUAFQAAAAIAAABFVQIAAABFVQIAAABVUwIAAABVUxUGFTAVMFwVCBUAFQgVABUAFQAAAAIAAABE',
+  'RQIAAABERQIAAABVUwIAAABVUxUGFWQVZFwVCBUCFQgVABUEFQAAAAMHAAAAAAAAAAAAIAAAAAAAAQAAAAAAAAAAAAAAAAAAAAH/',
+  '///////////////////7FQYVIBUgXBUIFQAVCBUAFQAVAAAA0gQAAPv///8AAAAA+gAAABUGFUAVQFwVCBUAFQgVABUAFQAAAAEA',
+  'AAAAACAAAQAAAAAAAAD+/////////wMAAAAAAAAAFQQZbEgGc2NoZW1hFQoAFQwlABgGcmVnaW9uJQAAFQwlABgHY291bnRyeSUA',
+  'ABUOFSAVAhgFcHJpY2UlChUEFUwsXBUEFUwAAAAVAiUAGANmZWUlChUGFRIsXBUGFRIAAAAVBCUAGAV1bml0cwAWCBkcGVwmCBwV',
+  'DBkVABkYBnJlZ2lvbhUAFggWWhZaJggAACZiHBUMGRUAGRgHY291bnRyeRUAFggWWhZaJmIAACa8ARwVDhkVABkYBXByaWNlFQAW',
+  'CBaOARaOASa8AQAAJsoCHBUCGRUAGRgDZmVlFQAWCBZKFkomygIAACaUAxwVBBkVABkYBXVuaXRzFQAWCBZqFmomlAMAABb2AxYI',
+  'ACgJaHlwYXJxdWV0ABsBAABQQVIx',
+].join(''), 'base64');
+
+/**
+ * An Arrow Decimal128 vector of unscaled values
+ */
+function decimalVector(units: bigint[], scale: number) {
+  const words = new Uint32Array(units.length * 4);
+  units.forEach((value, index) => {
+    let rest = BigInt.asUintN(128, value);
+    for (let word = 0; word < 4; word++) {
+      words[index * 4 + word] = Number(rest & 0xffffffffn);
+      rest >>= 32n;
+    }
+  });
+  return makeVector(makeData({ type: new Decimal(scale, 38, 128), length: units.length, data: words }));
+}
+
+const ARROW_TABLE = new Table({
+  region: vectorFromArray(['EU', 'EU', 'US']),
+  country: vectorFromArray(['DE', 'DE', 'US']),
+  price: decimalVector([9007199254740993n, 1n, -5n], 2),
+  units: vectorFromArray([9007199254740993n, 1n, -2n], new Int64()),
+});
+
+/**
+ * Import options that read the amount from the given column
+ */
+function amountFrom(column: string, metadata: Record<string, string> = {}) {
+  return resolveImportOptions({ ...metadata, column_mapping: JSON.stringify({ synonyms: { amount: [column] } }) });
+}
+
+function sums(result: { summaries: Array<Record<string, unknown>> }) {
+  return result.summaries.map(summary => [summary.region, summary.count, summary.amountSum, summary.amountAvg]);
+}
+
+describe('Parquet', () => {
+  test('sums decimals exactly past the precision of a number', async () => {
+    const result = await processColumnarFile(PARQUET, 'parquet', await amountFrom('price', { minor_units: '2' }));
+
+    expect([result.rowCount, result.successCount, result.errorCount]).toEqual([4, 3, 1]);
+    expect(sums(result)).toEqual([['EU', 2, '90071992547409.94', '45035996273704.97'], ['US', 1, '-0.05', '-0.05']]);
+  });
+
+  test('reads INT32 decimals at their scale', async () => {
+    const result = await processColumnarFile(PARQUET, 'parquet', await amountFrom('fee', { minor_units: '3' }));
+
+    expect(sums(result)).toEqual([['EU', 2, '1.229', '0.615'], ['US', 2, '0.250', '0.125']]);
+  });
+
+  test('sums 64-bit integers exactly', async () => {
+    const result = await processColumnarFile(PARQUET, 'parquet', await amountFrom('units', { minor_units: '0' }));
+
+    expect(sums(result)).toEqual([['EU', 2, '9007199254740994', '4503599627370497'], ['US', 2, '1', '1']]);
+  });
+
+  test('reads decimals by value whatever the locale', async () => {
+    const result = await processColumnarFile(PARQUET, 'parquet', await amountFrom('fee', { locale: 'de-DE' }));
+
+    expect(sums(result)).toEqual([['EU', 2, 1.23, 0.61], ['US', 2, 0.25, 0.13]]);
+  });
+
+  test.each([
+    ['a truncated file', PARQUET.subarray(0, PARQUET.length - 40)],
+    ['a file with a damaged footer', Buffer.concat([Buffer.from('PAR1'), Buffer.alloc(64, 7), Buffer.from([64, 0, 0, 0]), Buffer.from('PAR1')])],
+  ])('rejects %s with a 400', async (_, buffer) => {
+    const error = await processColumnarFile(buffer, 'parquet', await resolveImportOptions({})).catch(e => e);
+
+    expect(error).toBeInstanceOf(CsvProcessingError);
+    expect(error).toMatchObject({ statusCode: 400, code: 'PARSE_ERROR' });
+    expect(error.message).toStartWith('Failed to read Parquet file: ');
+  });
+});
+
+describe('Arrow IPC', () => {
+  test.each([
+    ['stream', Buffer.from(tableToIPC(ARROW_TABLE, 'stream'))],
+    ['file', Buffer.from(tableToIPC(ARROW_TABLE, 'file'))],
+  ])('sums decimals and 64-bit integers exactly from an IPC %s', async (_, buffer) => {
+    const price = await processColumnarFile(buffer, 'arrow', await amountFrom('price', { minor_units: '2' }));
+    expect(sums(price)).toEqual([['EU', 2, '90071992547409.94', '45035996273704.97'], ['US', 1, '-0.05', '-0.05']]);
+
+    const units = await processColumnarFile(buffer, 'arrow', await amountFrom('units', { minor_units: '0' }));
+    expect(sums(units)).toEqual([['EU', 2, '9007199254740994', '4503599627370497'], ['US', 1, '-2', '-2']]);
+  });
+
+  test('rejects a corrupt stream with a 400', async () => {
+    const buffer = Buffer.from(tableToIPC(ARROW_TABLE, 'stream')).subarray(0, 200);
+    const error = await processColumnarFile(buffer, 'arrow', await resolveImportOptions({})).catch(e => e);
+
+    expect(error).toBeInstanceOf(CsvProcessingError);
+    expect(error).toMatchObject({ statusCode: 400, code: 'PARSE_ERROR' });
+    expect(error.message).toStartWith('Failed to read Arrow IPC file: ');
+  });
+});
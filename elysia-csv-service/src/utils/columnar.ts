@@ -0,0 +1,281 @@
+/**
+ * Columnar File Readers
+ * Parquet and Arrow IPC readers that decode only the columns the aggregation uses
+ */
+
+import { brotliDecompressSync, gunzipSync, zstdDecompressSync } from 'zlib';
+import { parquetMetadata, parquetReadObjects, parquetSchema } from 'hyparquet';
+import type { Compressors, FileMetaData, SchemaElement } from 'hyparquet';
+import { DataType, RecordBatchReader, util as arrowUtil } from 'apache-arrow';
+import type { Vector } from 'apache-arrow';
+import { formatMinorUnits } from './decimal-sum.js';
+import { CsvProcessingError, ERROR_CODES } from '../types.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type ColumnarFormat = 'parquet' | 'arrow';
+
+/**
+ * A decoded cell: numbers stay numbers, decimals and 64-bit integers become
+ * their exact decimal text, temporal values become ISO-8601 strings and
+ * missing values are null
+ */
+export type ColumnarValue = string | number | boolean | null;
+
+/**
+ * Map the column names in the file to the row key each one fills, or
+ * undefined to skip a column without decoding it
+ */
+export type ColumnProjection = (columns: string[]) => Array<string | undefined>;
+
+/**
+ * Receives each row and the exact decimal text of its decimal and 64-bit
+ * integer cells, which a number cannot always hold; returning false stops
+ * reading
+ */
+type RowHandler = (row: Record<string, ColumnarValue>, exact: Record<string, string>) => boolean;
+
+/**
+ * An Arrow decimal as a vector returns it: the unscaled value in 32-bit words
+ */
+type BigNum = InstanceType<typeof arrowUtil.BN>;
+
+/**
+ * Codecs the Parquet reader does not bundle (it decodes Snappy itself)
+ */
+const PARQUET_COMPRESSORS: Compressors = {
+  GZIP: (input) => gunzipSync(input),
+  BROTLI: (input) => brotliDecompressSync(input),
+  ZSTD: (input) => zstdDecompressSync(input),
+};
+
+// ============================================================================
+// Readers
+// ============================================================================
+
+/**
+ * Read a Parquet file one row group at a time, decoding only the projected
+ * columns
+ */
+export async function readParquetRows(
+  buffer: Buffer,
+  project: ColumnProjection,
+  onRow: RowHandler
+): Promise<void> {
+  const file = toArrayBuffer(buffer);
+
+  let metadata;
+  try {
+    metadata = parquetMetadata(file);
+  } catch (error) {
+    throw corruptFile('Parquet', error);
+  }
+
+  const elements = parquetSchema(metadata).children.map(child => child.element);
+  const keys = project(elements.map(element => element.name));
+  const columns = new Map<string, string>();
+  const scales = new Map<string, number>();
+  elements.forEach((element, index) => {
+    const key = keys[index];
+    if (!key) return;
+    columns.set(element.name, key);
+    if (element.converted_type === 'DECIMAL') scales.set(element.name, element.scale ?? 0);
+  });
+  if (columns.size === 0) {
+    return;
+  }
+
+  // The reader would scale decimals through a float, so they are read
+  // unscaled and scaled here
+  const unscaled = withoutDecimalTypes(metadata, elements.filter(element => scales.has(element.name)));
+
+  let rowStart = 0;
+  for (const rowGroup of metadata.row_groups) {
+    const rowEnd = rowStart + Number(rowGroup.num_rows);
+    let rows;
+    try {
+      rows = await parquetReadObjects({
+        file,
+        metadata: unscaled,
+        columns: [...columns.keys()],
+        rowStart,
+        rowEnd,
+        compressors: PARQUET_COMPRESSORS,
+        // Unscaled decimals can be byte arrays; text columns are decoded below
+        utf8: false,
+      });
+    } catch (error) {
+      throw corruptFile('Parquet', error);
+    }
+
+    for (const record of rows) {
+      const row: Record<string, ColumnarValue> = {};
+      const exact: Record<string, string> = {};
+      for (const [column, key] of columns) {
+        const value = fromParquetValue(record[column], scales.get(column));
+        row[key] = value;
+        if (typeof value === 'string' && (scales.has(column) || typeof record[column] === 'bigint')) {
+          exact[key] = value;
+        }
+      }
+      if (!onRow(row, exact)) return;
+    }
+    rowStart = rowEnd;
+  }
+}
+
+/**
+ * Read an Arrow IPC stream or file one record batch at a time, touching
+ * only the projected columns
+ */
+export async function readArrowRows(
+  buffer: Buffer,
+  project: ColumnProjection,
+  onRow: RowHandler
+): Promise<void> {
+  let reader;
+  try {
+    reader = RecordBatchReader.from(buffer);
+  } catch (error) {
+    throw corruptFile('Arrow IPC', error);
+  }
+
+  try {
+    // Every batch of a stream shares the schema, so project it once
+    let keys: Array<string | undefined> | undefined;
+    for (const batch of reader) {
+      keys ??= project(batch.schema.fields.map(field => field.name));
+      const columns: Array<[string, Vector]> = [];
+      batch.schema.fields.forEach((_, index) => {
+        const key = keys![index];
+        const vector = key ? batch.getChildAt(index) : null;
+        if (key && vector) columns.push([key, vector]);
+      });
+      if (columns.length === 0) {
+        continue;
+      }
+
+      for (let index = 0; index < batch.numRows; index++) {
+        const row: Record<string, ColumnarValue> = {};
+        const exact: Record<string, string> = {};
+        for (const [key, vector] of columns) {
+          const cell = vector.get(index);
+          const value = fromArrowValue(cell, vector.type);
+          row[key] = value;
+          if (typeof value === 'string' && (isBigNum(cell) || typeof cell === 'bigint')) {
+            exact[key] = value;
+          }
+        }
+        if (!onRow(row, exact)) return;
+      }
+    }
+  } catch (error) {
+    throw corruptFile('Arrow IPC', error);
+  }
+}
+
+// ============================================================================
+// Value Conversion
+// ============================================================================
+
+/**
+ * Convert a Parquet cell; `scale` is given for decimal columns, which are
+ * read unscaled
+ */
+function fromParquetValue(value: unknown, scale?: number): ColumnarValue {
+  if (value === null || value === undefined) return null;
+  if (scale !== undefined && (typeof value === 'number' || typeof value === 'bigint' || value instanceof Uint8Array)) {
+    return formatDecimal(toUnscaled(value), scale);
+  }
+  if (typeof value === 'bigint') return value.toString();
+  if (value instanceof Date) return formatDate(value);
+  if (value instanceof Uint8Array) return TEXT_DECODER.decode(value);
+  if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') return value;
+  return String(value);
+}
+
+function fromArrowValue(value: unknown, type: DataType): ColumnarValue {
+  if (value === null || value === undefined) return null;
+  if (DataType.isDecimal(type) && isBigNum(value)) return formatDecimal(arrowUtil.bigNumToBigInt(value), type.scale);
+  // Dates and timestamps are read as epoch milliseconds
+  if ((DataType.isDate(type) || DataType.isTimestamp(type)) && typeof value === 'number') {
+    return formatDate(new Date(value));
+  }
+  if (typeof value === 'bigint') return value.toString();
+  if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') return value;
+  return String(value);
+}
+
+const TEXT_DECODER = new TextDecoder();
+
+function isBigNum(value: unknown): value is BigNum {
+  return typeof value === 'object' && value !== null && arrowUtil.isArrowBigNumSymbol in value;
+}
+
+/**
+ * The unscaled value of a Parquet decimal: an INT32, an INT64 or a
+ * big-endian two's complement byte array
+ */
+function toUnscaled(value: number | bigint | Uint8Array): bigint {
+  if (typeof value !== 'object') return BigInt(value);
+
+  let units = 0n;
+  for (const byte of value) {
+    units = (units << 8n) | BigInt(byte);
+  }
+  return value.length > 0 && value[0] >= 0x80 ? units - (1n << BigInt(value.length * 8)) : units;
+}
+
+/**
+ * An unscaled decimal as exact decimal text: 12345 at scale 2 is 123.45
+ */
+function formatDecimal(units: bigint, scale: number): string {
+  return scale >= 0 ? formatMinorUnits(units, scale) : (units * 10n ** BigInt(-scale)).toString();
+}
+
+/**
+ * Metadata that reads the given decimal columns as their unscaled values
+ */
+function withoutDecimalTypes(metadata: FileMetaData, decimals: SchemaElement[]): FileMetaData {
+  if (decimals.length === 0) {
+    return metadata;
+  }
+  return {
+    ...metadata,
+    schema: metadata.schema.map(element => decimals.includes(element)
+      ? { ...element, converted_type: undefined, logical_type: undefined }
+      : element),
+  };
+}
+
+/**
+ * Calendar dates (midnight UTC) as YYYY-MM-DD, anything else as a full timestamp
+ */
+function formatDate(date: Date): string {
+  const iso = date.toISOString();
+  return iso.endsWith('T00:00:00.000Z') ? iso.slice(0, 10) : iso;
+}
+
+/**
+ * The reader wants an ArrayBuffer of exactly the file; copy only when the
+ * Buffer is a view into a larger allocation
+ */
+function toArrayBuffer(buffer: Buffer): ArrayBuffer {
+  if (buffer.byteOffset === 0 && buffer.length === buffer.buffer.byteLength) {
+    return buffer.buffer as ArrayBuffer;
+  }
+  return buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.length) as ArrayBuffer;
+}
+
+function corruptFile(format: string, error: unknown): CsvProcessingError {
+  if (error instanceof CsvProcessingError) {
+    return error;
+  }
+  return new CsvProcessingError(
+    `Failed to read ${format} file: ${error instanceof Error ? error.message : 'Unknown error'}`,
+    ERROR_CODES.PARSE_ERROR,
+    400
+  );
+}
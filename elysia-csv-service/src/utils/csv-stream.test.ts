@@ -0,0 +1,272 @@
+import { describe, expect, test } from 'bun:test';
+import { CsvRecordSplitter, CsvStreamParser, isSplittable, peekSource, readChunks, tokenizeCsvString } from './csv-stream.js';
+import type { CsvTokenizerOptions } from './csv-stream.js';
+import { CsvParseError } from '../types.js';
+
+interface ParsedRecord {
+  fields: string[];
+  line: number;
+  quoted: boolean[];
+}
+
+/**
+ * Tokenize the chunks one write() at a time
+ */
+function parseChunks(chunks: Uint8Array[], options: CsvTokenizerOptions = {}): ParsedRecord[] {
+  const records: ParsedRecord[] = [];
+  const parser = new CsvStreamParser((fields, line, quoted) => records.push({ fields, line, quoted }), options);
+  chunks.forEach(chunk => parser.write(chunk));
+  parser.end();
+  return records;
+}
+
+/**
+ * Tokenize the input cut into two chunks at every byte offset
+ */
+function parseAtEverySplit(input: string, options: CsvTokenizerOptions = {}): ParsedRecord[][] {
+  const bytes = new TextEncoder().encode(input);
+  const results: ParsedRecord[][] = [];
+  for (let at = 0; at <= bytes.length; at++) {
+    results.push(parseChunks([bytes.subarray(0, at), bytes.subarray(at)], options));
+  }
+  return results;
+}
+
+function fieldsOf(records: ParsedRecord[]): string[][] {
+  return records.map(record => record.fields);
+}
+
+describe('CsvStreamParser', () => {
+  test('emits each record with the line it starts on', () => {
+    const records = parseChunks([Buffer.from('region,amount\nEU,10\nUS,20\n')]);
+
+    expect(fieldsOf(records)).toEqual([['region', 'amount'], ['EU', '10'], ['US', '20']]);
+    expect(records.map(record => record.line)).toEqual([1, 2, 3]);
+  });
+
+  test('emits the last record without a trailing newline', () => {
+    expect(fieldsOf(parseChunks([Buffer.from('a,b\r\n1,2')]))).toEqual([['a', 'b'], ['1', '2']]);
+  });
+
+  test('keeps delimiters, newlines and doubled quotes inside quoted fields', () => {
+    const records = parseChunks([Buffer.from('name,note\n"Smith, J","line one\nline ""two"""\nnext,row\n')]);
+
+    expect(fieldsOf(records)).toEqual([
+      ['name', 'note'],
+      ['Smith, J', 'line one\nline "two"'],
+      ['next', 'row'],
+    ]);
+    expect(records[1].quoted).toEqual([true, true]);
+    expect(records.map(record => record.line)).toEqual([1, 2, 4]);
+  });
+
+  test('gives the same records wherever a chunk boundary falls', () => {
+    const input = 'id,text\r\n1,"a,b"\r\n2,"multi\r\nline, ""quoted"""\r\n3,"é, ü"\r\n4,plain\r\n';
+    const expected = fieldsOf(parseChunks([Buffer.from(input)]));
+
+    expect(expected).toEqual([
+      ['id', 'text'],
+      ['1', 'a,b'],
+      ['2', 'multi\r\nline, "quoted"'],
+      ['3', 'é, ü'],
+      ['4', 'plain'],
+    ]);
+    for (const records of parseAtEverySplit(input)) {
+      expect(fieldsOf(records)).toEqual(expected);
+      expect(records.map(record => record.line)).toEqual([1, 2, 3, 5, 6]);
+    }
+  });
+
+  test('gives the same records when fed one byte at a time', () => {
+    const input = '"a\nb",c\n"d""e",f\n';
+    const bytes = Buffer.from(input);
+    const chunks = [...bytes].map(byte => Uint8Array.of(byte));
+
+    expect(fieldsOf(parseChunks(chunks))).toEqual([['a\nb', 'c'], ['d"e', 'f']]);
+  });
+
+  test('uses the configured delimiter, quote and escape characters', () => {
+    const options = { delimiter: ';', quote: "'", escape: '\\' };
+    const input = "a;'b;c';'it\\'s'\n";
+
+    for (const records of parseAtEverySplit(input, options)) {
+      expect(fieldsOf(records)).toEqual([['a', 'b;c', "it's"]]);
+    }
+  });
+
+  test('keeps a stray quote as a literal character in lenient mode', () => {
+    const records = parseChunks([Buffer.from('a,b"c\n"d"e,f\n')]);
+
+    expect(fieldsOf(records)).toEqual([['a', 'b"c'], ['d"e', 'f']]);
+  });
+
+  test('decodes the configured encoding across chunk boundaries', () => {
+    // "Zürich" in windows-1252 and in UTF-16LE with a byte order mark
+    const latin1 = Uint8Array.of(0x5a, 0xfc, 0x72, 0x69, 0x63, 0x68, 0x0a);
+    expect(fieldsOf(parseChunks([latin1.subarray(0, 2), latin1.subarray(2)], { encoding: 'windows-1252' })))
+      .toEqual([['Zürich']]);
+
+    const utf16 = Buffer.concat([Uint8Array.of(0xff, 0xfe), Buffer.from('a,Zürich\n', 'utf16le')]);
+    expect(fieldsOf(parseChunks([utf16.subarray(0, 5), utf16.subarray(5)], { encoding: 'utf-16le' })))
+      .toEqual([['a', 'Zürich']]);
+  });
+
+  test('strips a byte order mark only at the start of the file', () => {
+    const input = Buffer.concat([Uint8Array.of(0xef, 0xbb, 0xbf), Buffer.from('a,b\n')]);
+
+    expect(fieldsOf(parseChunks([input]))).toEqual([['a', 'b']]);
+    expect(fieldsOf(parseChunks([input], { firstLine: 10 }))).toEqual([['\uFEFFa', 'b']]);
+  });
+
+  test('numbers lines from firstLine', () => {
+    const records = parseChunks([Buffer.from('x\ny\n')], { firstLine: 41 });
+
+    expect(records.map(record => record.line)).toEqual([41, 42]);
+  });
+});
+
+describe('CsvStreamParser strict mode', () => {
+  /**
+   * The CsvParseError the input raises, with the input cut at every offset
+   */
+  function errorsAtEverySplit(input: string): CsvParseError[] {
+    const bytes = new TextEncoder().encode(input);
+    const errors: CsvParseError[] = [];
+    for (let at = 0; at <= bytes.length; at++) {
+      try {
+        parseChunks([bytes.subarray(0, at), bytes.subarray(at)], { strict: true });
+      } catch (error) {
+        if (error instanceof CsvParseError) errors.push(error);
+      }
+    }
+    expect(errors).toHaveLength(bytes.length + 1);
+    return errors;
+  }
+
+  test.each([
+    ['a stray quote in an unquoted field', 'id,name\n1,ab"c\n', 'Unexpected quote in unquoted field', 2, 5],
+    ['a character after a closing quote', 'id,name\n1,"ab"c\n', 'Unexpected character after closing quote', 2, 7],
+    ['an unterminated quoted field, at its opening quote', 'id,name\n1,"open\nstill open', 'Unterminated quoted field', 2, 3],
+    ['a quote after a multi-line field', '"a\nb",c\r\nd,e"f\r\n', 'Unexpected quote in unquoted field', 3, 4],
+    ['a quote after non-ASCII text', 'é,ü"\n', 'Unexpected quote in unquoted field', 1, 4],
+  ])('reports %s with its line and column', (_, input, message, line, column) => {
+    for (const error of errorsAtEverySplit(input)) {
+      expect(error.message).toBe(`${message} at line ${line}, column ${column}`);
+      expect([error.line, error.column]).toEqual([line, column]);
+      expect(error.details).toEqual({ line, column });
+      expect(error.statusCode).toBe(400);
+    }
+  });
+
+  test('counts lines from firstLine', () => {
+    expect(() => parseChunks([Buffer.from('ok\nx"\n')], { strict: true, firstLine: 100 }))
+      .toThrow('Unexpected quote in unquoted field at line 101, column 2');
+  });
+
+  test('accepts well-formed quoting', () => {
+    const records = parseChunks([Buffer.from('"a ""b""",c\r\n"",d\r\n')], { strict: true });
+
+    expect(fieldsOf(records)).toEqual([['a "b"', 'c'], ['', 'd']]);
+  });
+});
+
+describe('CsvRecordSplitter', () => {
+  /**
+   * Feed the input in pieces of `size` bytes and cut at the last record
+   * boundary after each, as the parallel reader does
+   */
+  function split(input: Uint8Array, size: number, options: CsvTokenizerOptions = {}) {
+    const splitter = new CsvRecordSplitter(options);
+    const segments: Array<{ bytes: Uint8Array; firstLine: number }> = [];
+    let start = 0;
+    let nextLine = 1;
+
+    for (let offset = 0; offset < input.length; offset += size) {
+      splitter.scan(input.subarray(offset, offset + size));
+      if (splitter.boundary === 0) continue;
+
+      const { bytes, lines } = splitter.cut();
+      segments.push({ bytes: input.subarray(start, start + bytes), firstLine: nextLine });
+      start += bytes;
+      nextLine += lines;
+    }
+    segments.push({ bytes: input.subarray(start), firstLine: nextLine });
+    return segments;
+  }
+
+  function parseSegments(segments: Array<{ bytes: Uint8Array; firstLine: number }>, options: CsvTokenizerOptions = {}) {
+    return segments.flatMap(({ bytes, firstLine }) => parseChunks([bytes], { ...options, firstLine }));
+  }
+
+  test('cuts only at record boundaries, with the line each chunk starts on', () => {
+    const input = new TextEncoder().encode('id,text\r\n1,"a,b"\r\n2,"multi\nline\n""x"""\n3,é\n"4",plain\n5,"end"');
+    const expected = parseChunks([input]);
+
+    for (let size = 1; size <= input.length; size++) {
+      const segments = split(input, size);
+
+      expect(Buffer.concat(segments.map(segment => segment.bytes))).toEqual(Buffer.from(input));
+      expect(parseSegments(segments)).toEqual(expected);
+    }
+  });
+
+  test('follows the dialect quote and escape characters', () => {
+    const options = { delimiter: ';', quote: "'", escape: '\\' };
+    const input = new TextEncoder().encode("a;'b\n\\'c'\nd;'e;f'\n");
+    const expected = parseChunks([input], options);
+
+    expect(fieldsOf(expected)).toEqual([['a', "b\n'c"], ['d', 'e;f']]);
+    for (let size = 1; size <= input.length; size++) {
+      expect(parseSegments(split(input, size, options), options)).toEqual(expected);
+    }
+  });
+
+  test('isSplittable accepts only encodings that keep ASCII bytes apart', () => {
+    expect(isSplittable('utf-8')).toBe(true);
+    expect(isSplittable('windows-1252')).toBe(true);
+    expect(isSplittable('utf-16le')).toBe(false);
+    expect(isSplittable('shift_jis')).toBe(false);
+    expect(isSplittable('utf-8', { delimiter: '§' })).toBe(false);
+  });
+});
+
+describe('tokenizeCsvString', () => {
+  test('tokenizes a whole string', () => {
+    const records: string[][] = [];
+    tokenizeCsvString('a,"b\nc"\n', fields => records.push(fields));
+
+    expect(records).toEqual([['a', 'b\nc']]);
+  });
+});
+
+describe('source helpers', () => {
+  test('readChunks slices a buffer and passes streams through', async () => {
+    const buffer = new Uint8Array(200 * 1024);
+    const sizes: number[] = [];
+    for await (const chunk of readChunks(buffer)) sizes.push(chunk.length);
+    expect(sizes).toEqual([65536, 65536, 65536, 8192]);
+
+    async function* stream() {
+      yield Buffer.from('ab');
+      yield Buffer.from('c');
+    }
+    const chunks: string[] = [];
+    for await (const chunk of readChunks(stream())) chunks.push(Buffer.from(chunk).toString());
+    expect(chunks).toEqual(['ab', 'c']);
+  });
+
+  test('peekSource returns the head and replays the whole stream', async () => {
+    async function* stream() {
+      yield Buffer.from('abc');
+      yield Buffer.from('def');
+      yield Buffer.from('ghi');
+    }
+
+    const { head, chunks } = await peekSource(stream(), 4);
+    const replayed: Uint8Array[] = [];
+    for await (const chunk of chunks) replayed.push(chunk);
+
+    expect(Buffer.from(head).toString()).toBe('abcd');
+    expect(Buffer.concat(replayed).toString()).toBe('abcdefghi');
+  });
+});
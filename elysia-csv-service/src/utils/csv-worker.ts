@@ -0,0 +1,18 @@
+/**
+ * CSV Parse Worker
+ * Worker thread entry point: validates and aggregates the chunks posted by the parse worker pool
+ */
+
+import { parentPort } from 'worker_threads';
+import { processCsvChunk } from './csv-parser.js';
+import type { CsvChunkTask } from './csv-parser.js';
+
+parentPort?.on('message', async (task: CsvChunkTask) => {
+  try {
+    parentPort?.postMessage({ result: await processCsvChunk(task) });
+  } catch (error) {
+    parentPort?.postMessage({ error: error instanceof Error ? error.message : 'Unknown error' });
+  }
+});
+
+parentPort?.postMessage({ ready: true });
@@ -0,0 +1,97 @@
+import { describe, expect, test } from 'bun:test';
+import { createDateNormalizer, getDateOrder, resolveDateOptions, toCalendarDate } from './date-normalizer.js';
+import { ValidationError } from '../types.js';
+
+describe('createDateNormalizer', () => {
+  test.each([
+    ['2024-03-05', '2024-03-05'],
+    ['2024-03-05T10:20:30Z', '2024-03-05T10:20:30.000Z'],
+    ['2024-03-05 10:20', '2024-03-05T10:20:00.000Z'],
+    ['2024-03-05T10:20:30.5+02:00', '2024-03-05T08:20:30.500Z'],
+    ['20240305', '2024-03-05'],
+    ['2024/3/5', '2024-03-05'],
+    ['3 Apr 2025', '2025-04-03'],
+    ['Apr 3, 2025', '2025-04-03'],
+    ['45000', '2023-03-15'],
+    ['45000.5', '2023-03-15T12:00:00.000Z'],
+  ])('reads %s by default', (text, expected) => {
+    expect(createDateNormalizer()(text)).toBe(expected);
+  });
+
+  test.each([
+    '2024-02-30',
+    '2023-02-29',
+    '2024-03-05T25:00',
+    // Lotus 1-2-3's 29 February 1900
+    '60',
+    'hello',
+  ])('rejects %s', text => {
+    expect(createDateNormalizer()(text)).toBeNull();
+  });
+
+  test('reads typed numbers as serials unless they are compact dates', () => {
+    const normalize = createDateNormalizer();
+
+    expect(normalize(45000)).toBe('2023-03-15');
+    expect(normalize(20240305)).toBe('2024-03-05');
+  });
+
+  test('follows the day/month order of the locale', () => {
+    const german = createDateNormalizer({}, 'de-DE');
+    expect(german('05.03.2024')).toBe('2024-03-05');
+    expect(german('5/3/24')).toBe('2024-03-05');
+    expect(german('05.03.2024 14:30')).toBe('2024-03-05T14:30:00.000Z');
+    expect(german('31.04.2024')).toBeNull();
+
+    const american = createDateNormalizer({}, 'en-US');
+    expect(american('3/5/2024')).toBe('2024-03-05');
+    expect(american('12/31/69')).toBe('2069-12-31');
+    expect(american('1/1/70')).toBe('1970-01-01');
+  });
+
+  test('reads local times in the source timezone, across DST changes', () => {
+    const newYork = createDateNormalizer({ timeZone: 'America/New_York' });
+
+    expect(newYork('2024-07-01 12:00')).toBe('2024-07-01T16:00:00.000Z');
+    // Skipped at the spring change: read with the offset before it
+    expect(newYork('2024-03-10 02:30')).toBe('2024-03-10T07:30:00.000Z');
+    // Repeated at the autumn change: the first occurrence
+    expect(newYork('2024-11-03 01:30')).toBe('2024-11-03T05:30:00.000Z');
+    expect(newYork('2024-07-01')).toBe('2024-07-01');
+    expect(newYork('45000.5')).toBe('2023-03-15T16:00:00.000Z');
+  });
+
+  test('accepts only the configured formats', () => {
+    const normalize = createDateNormalizer({ formats: ['DD/MM/YYYY HH:mm Z', 'excel'] });
+
+    expect(normalize('05/03/2024 10:00 +0130')).toBe('2024-03-05T08:30:00.000Z');
+    expect(normalize('45000')).toBe('2023-03-15');
+    expect(normalize('2024-03-05')).toBeNull();
+  });
+});
+
+describe('date helpers', () => {
+  test('getDateOrder reads the order of a locale', () => {
+    expect(['de-DE', 'en-US', 'ja-JP'].map(getDateOrder)).toEqual(['dmy', 'mdy', 'ymd']);
+  });
+
+  test('toCalendarDate gives the day a date-time falls on in a timezone', () => {
+    expect(toCalendarDate('2024-03-05T03:00:00.000Z', 'America/New_York')).toBe('2024-03-04');
+    expect(toCalendarDate('2024-03-05', 'Asia/Tokyo')).toBe('2024-03-05');
+  });
+});
+
+describe('resolveDateOptions', () => {
+  test('reads formats, order and a canonical timezone', () => {
+    expect(resolveDateOptions({ date_formats: 'iso,DD/MM/YYYY', date_order: 'dmy', date_timezone: 'europe/berlin' }))
+      .toEqual({ formats: ['iso', 'DD/MM/YYYY'], order: 'dmy', timeZone: 'Europe/Berlin' });
+  });
+
+  test.each([
+    [{ date_order: 'xyz' }, 'Invalid date_order: expected one of dmy, mdy, ymd'],
+    [{ date_timezone: 'Mars/Base' }, 'Unsupported timezone: Mars/Base'],
+    [{ date_formats: '[1]' }, 'Invalid date_formats: expected a JSON array of formats'],
+  ])('rejects %o', (metadata, message) => {
+    expect(() => resolveDateOptions(metadata)).toThrow(new ValidationError(message));
+  });
+});
@@ -0,0 +1,477 @@
+/**
+ * Date Normalization
+ * Reads dates in configurable formats, Excel serials and local times of a source timezone into ISO-8601
+ */
+
+import { ValidationError, METADATA_KEYS } from '../types.js';
+import type { DateOptions, DateOrder } from '../types.js';
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+/**
+ * Normalize a date cell to ISO-8601, returning null when it is not a date
+ * in any accepted format
+ */
+export type DateNormalizer = (value: string | number) => string | null;
+
+export const DATE_CONFIG = {
+  defaultTimeZone: process.env.DEFAULT_TIMEZONE || 'UTC',
+};
+
+/**
+ * Day/month order of numeric dates when neither the request nor the locale
+ * decides it
+ */
+const DEFAULT_ORDER: DateOrder = 'ymd';
+const DATE_ORDERS: readonly DateOrder[] = ['dmy', 'mdy', 'ymd'];
+
+/**
+ * Built-in format names: any ISO-8601 calendar date or date-time, and
+ * Excel serial day numbers
+ */
+const ISO_FORMAT = 'iso';
+const EXCEL_FORMAT = 'excel';
+
+const ISO_DATE = /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2})(?:[.,](\d{1,9}))?)?\s*(Z|[+-]\d{2}(?::?\d{2})?)?)?$/i;
+
+/**
+ * Serials a text cell may hold: whole days up to 99999 (the year 2173),
+ * with an optional time-of-day fraction
+ */
+const EXCEL_SERIAL = /^\d{1,5}(?:\.\d+)?$/;
+const EXCEL_MAX_SERIAL = 2958465; // 9999-12-31
+const EXCEL_EPOCH = Date.UTC(1899, 11, 30);
+const DAY_MS = 86_400_000;
+
+/**
+ * Two-digit years below the pivot are read as 20xx, the rest as 19xx
+ */
+const TWO_DIGIT_YEAR_PIVOT = 70;
+
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+const FORMAT_TOKENS = /YYYY|YY|MMM|MM|M|DD|D|HH|H|mm|ss|SSS|Z/g;
+
+const TOKEN_PATTERNS: Record<string, string> = {
+  YYYY: '(\\d{4})',
+  YY: '(\\d{2})',
+  MMM: '([A-Za-z]{3})[A-Za-z]*\\.?',
+  MM: '(\\d{2})',
+  M: '(\\d{1,2})',
+  DD: '(\\d{2})',
+  D: '(\\d{1,2})',
+  HH: '(\\d{2})',
+  H: '(\\d{1,2})',
+  mm: '(\\d{2})',
+  ss: '(\\d{2})',
+  SSS: '(\\d{1,9})',
+  Z: '(Z|[+-]\\d{2}(?::?\\d{2})?)',
+};
+
+interface DateFields {
+  year: number;
+  month: number;
+  day: number;
+  hour?: number;
+  minute?: number;
+  second?: number;
+  millisecond?: number;
+  /**
+   * Explicit UTC offset in minutes; without one a time is local to the
+   * source timezone
+   */
+  offset?: number;
+}
+
+type FieldReader = (text: string) => DateFields | null;
+
+const zoneFormatters = new Map<string, Intl.DateTimeFormat>();
+
+// ============================================================================
+// Normalizer
+// ============================================================================
+
+/**
+ * Build the normalizer for a request.
+ *
+ * Formats are tried in order and the first one that reads the value as a
+ * real calendar date wins. Without configured formats, ISO-8601, compact
+ * YYYYMMDD, numeric dates with `/`, `.` or `-` in the request's day/month
+ * order (optionally followed by a time), dates with English month names and
+ * Excel serials are accepted. Dates without a time stay calendar dates
+ * (YYYY-MM-DD); times without an offset are read in the source timezone and
+ * returned in UTC.
+ */
+export function createDateNormalizer(options: DateOptions = {}, locale?: string): DateNormalizer {
+  const order = options.order ?? (locale ? getDateOrder(locale) : DEFAULT_ORDER);
+  const timeZone = options.timeZone ?? DATE_CONFIG.defaultTimeZone;
+  const formats = options.formats ?? defaultFormats(order);
+  const acceptsSerials = formats.includes(EXCEL_FORMAT);
+  const readers = formats.filter(format => format !== EXCEL_FORMAT).map(compileDateFormat);
+
+  return (value: string | number) => {
+    // Typed numbers only come from spreadsheet cells and JSON, where they
+    // are serials unless they read as a compact date
+    if (typeof value === 'number') {
+      const serial = fromExcelSerial(value, timeZone);
+      if (serial !== null) return serial;
+      value = String(value);
+    }
+
+    const text = value.trim();
+    for (const read of readers) {
+      const fields = read(text);
+      if (fields) {
+        const iso = toIso(fields, timeZone);
+        if (iso !== null) return iso;
+      }
+    }
+
+    if (acceptsSerials && EXCEL_SERIAL.test(text)) {
+      return fromExcelSerial(Number(text), timeZone);
+    }
+    return null;
+  };
+}
+
+/**
+ * Day/month order of a locale's numeric dates
+ */
+export function getDateOrder(locale: string): DateOrder {
+  const parts = new Intl.DateTimeFormat(locale, { timeZone: 'UTC' }).formatToParts(Date.UTC(2001, 1, 3));
+  const order = parts
+    .filter(part => part.type === 'year' || part.type === 'month' || part.type === 'day')
+    .map(part => part.type[0])
+    .join('');
+
+  return (DATE_ORDERS as readonly string[]).includes(order) ? order as DateOrder : DEFAULT_ORDER;
+}
+
+/**
+ * Formats accepted when a request configures none
+ */
+function defaultFormats(order: DateOrder): string[] {
+  const numeric = ['/', '.', '-'].flatMap(separator => {
+    const date = order === 'dmy'
+      ? [`D${separator}M${separator}YYYY`, `D${separator}M${separator}YY`]
+      : order === 'mdy'
+        ? [`M${separator}D${separator}YYYY`, `M${separator}D${separator}YY`]
+        : [`YYYY${separator}M${separator}D`];
+    return date.flatMap(format => [format, `${format} H:mm`, `${format} H:mm:ss`]);
+  });
+
+  return [ISO_FORMAT, 'YYYYMMDD', ...numeric, 'D MMM YYYY', 'D-MMM-YYYY', 'D-MMM-YY', 'MMM D, YYYY', EXCEL_FORMAT];
+}
+
+// ============================================================================
+// Formats
+// ============================================================================
+
+/**
+ * Compile a format into a reader. Besides the built-in names `iso` and
+ * `excel`, a format is a pattern of YYYY, YY, MMM (English month name),
+ * MM, M, DD, D, HH, H, mm, ss, SSS (fraction of a second) and Z (UTC
+ * offset) tokens; everything else is matched literally.
+ */
+export function compileDateFormat(format: string): FieldReader {
+  if (format === ISO_FORMAT) {
+    return readIsoDate;
+  }
+
+  const tokens: string[] = [];
+  let source = '';
+  let last = 0;
+  for (const match of format.matchAll(FORMAT_TOKENS)) {
+    source += escapeLiteral(format.slice(last, match.index)) + TOKEN_PATTERNS[match[0]];
+    tokens.push(match[0]);
+    last = match.index! + match[0].length;
+  }
+  source += escapeLiteral(format.slice(last));
+
+  const has = (...names: string[]) => names.some(name => tokens.includes(name));
+  if (!has('YYYY', 'YY') || !has('MMM', 'MM', 'M') || !has('DD', 'D')) {
+    throw new ValidationError(`Invalid date format "${format}": it needs a year, a month and a day`, { format });
+  }
+
+  const pattern = new RegExp(`^${source}$`, 'i');
+
+  return (text: string) => {
+    const match = pattern.exec(text);
+    if (!match) {
+      return null;
+    }
+
+    const fields: DateFields = { year: 0, month: 0, day: 0 };
+    for (let i = 0; i < tokens.length; i++) {
+      const value = match[i + 1];
+      switch (tokens[i]) {
+        case 'YYYY': fields.year = Number(value); break;
+        case 'YY': fields.year = fromTwoDigitYear(Number(value)); break;
+        case 'MMM': fields.month = MONTH_NAMES.indexOf(value.toLowerCase()) + 1; break;
+        case 'MM': case 'M': fields.month = Number(value); break;
+        case 'DD': case 'D': fields.day = Number(value); break;
+        case 'HH': case 'H': fields.hour = Number(value); break;
+        case 'mm': fields.minute = Number(value); break;
+        case 'ss': fields.second = Number(value); break;
+        case 'SSS': fields.millisecond = fromFraction(value); break;
+        case 'Z': fields.offset = parseOffset(value); break;
+      }
+    }
+    return fields;
+  };
+}
+
+function readIsoDate(text: string): DateFields | null {
+  const match = ISO_DATE.exec(text);
+  if (!match) {
+    return null;
+  }
+
+  const [, year, month, day, hour, minute, second, fraction, offset] = match;
+  return {
+    year: Number(year),
+    month: Number(month),
+    day: Number(day),
+    hour: hour === undefined ? undefined : Number(hour),
+    minute: minute === undefined ? undefined : Number(minute),
+    second: second === undefined ? undefined : Number(second),
+    millisecond: fraction === undefined ? undefined : fromFraction(fraction),
+    offset: offset === undefined ? undefined : parseOffset(offset),
+  };
+}
+
+function escapeLiteral(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/\s+/g, '\\s+');
+}
+
+function fromTwoDigitYear(year: number): number {
+  return year < TWO_DIGIT_YEAR_PIVOT ? 2000 + year : 1900 + year;
+}
+
+/**
+ * Fractional seconds to whole milliseconds ("5" is 500, "123456" is 123)
+ */
+function fromFraction(digits: string): number {
+  return Math.floor(Number(`0.${digits}`) * 1000);
+}
+
+/**
+ * UTC offset in minutes from Z, +HH, +HHmm or +HH:mm
+ */
+function parseOffset(value: string): number {
+  if (value.toUpperCase() === 'Z') {
+    return 0;
+  }
+  const digits = value.slice(1).replace(':', '');
+  const minutes = Number(digits.slice(0, 2)) * 60 + Number(digits.slice(2) || 0);
+  return value[0] === '-' ? -minutes : minutes;
+}
+
+// ============================================================================
+// Conversion
+// ============================================================================
+
+/**
+ * Render read fields as ISO-8601, or null when they are not a real date
+ * and time (31 April, 25:00)
+ */
+function toIso(fields: DateFields, timeZone: string): string | null {
+  const { year, month, day } = fields;
+  if (month < 1 || month > 12 || day < 1 || day > daysInMonth(year, month)) {
+    return null;
+  }
+
+  if (fields.hour === undefined && fields.offset === undefined) {
+    return formatCalendarDate(year, month, day);
+  }
+
+  const hour = fields.hour ?? 0;
+  const minute = fields.minute ?? 0;
+  const second = fields.second ?? 0;
+  if (hour > 23 || minute > 59 || second > 59) {
+    return null;
+  }
+
+  const local = utcMs(year, month, day, hour, minute, second, fields.millisecond ?? 0);
+  const instant = fields.offset === undefined
+    ? fromZonedTime(local, timeZone)
+    : local - fields.offset * 60_000;
+  return new Date(instant).toISOString();
+}
+
+/**
+ * Excel serial day number to ISO-8601: whole days are calendar dates, a
+ * fraction is a time of day in the source timezone. Serials count from
+ * 1900-01-01 as day 1 and include Lotus 1-2-3's nonexistent 29 February
+ * 1900 (day 60), which is rejected.
+ */
+function fromExcelSerial(serial: number, timeZone: string): string | null {
+  if (!Number.isFinite(serial) || serial < 1 || serial >= EXCEL_MAX_SERIAL + 1 || Math.floor(serial) === 60) {
+    return null;
+  }
+
+  const days = Math.floor(serial);
+  const local = EXCEL_EPOCH + (serial < 60 ? days + 1 : days) * DAY_MS;
+  if (days === serial) {
+    return new Date(local).toISOString().slice(0, 10);
+  }
+
+  const time = Math.round((serial - days) * DAY_MS / 1000) * 1000;
+  return new Date(fromZonedTime(local + time, timeZone)).toISOString();
+}
+
+/**
+ * Calendar date (YYYY-MM-DD) of a normalized date in a timezone: calendar
+ * dates are returned as they are, date-times as the day they fall on there
+ */
+export function toCalendarDate(value: string, timeZone: string): string {
+  if (value.length === 10) {
+    return value;
+  }
+
+  const instant = Date.parse(value);
+  const offset = timeZone === 'UTC' ? 0 : zoneOffsetMs(instant, timeZone);
+  return new Date(instant + offset).toISOString().slice(0, 10);
+}
+
+/**
+ * The instant at which wall-clock time `local` (as UTC milliseconds) is
+ * shown in a timezone. Repeated times resolve to their first occurrence;
+ * times skipped by a DST change are read with the offset in force before
+ * it, which moves them forward (02:30 becomes 03:30).
+ */
+function fromZonedTime(local: number, timeZone: string): number {
+  if (timeZone === 'UTC') {
+    return local;
+  }
+
+  const offset = zoneOffsetMs(local, timeZone);
+  const instant = local - offset;
+  const actual = zoneOffsetMs(instant, timeZone);
+  if (actual === offset) {
+    return instant;
+  }
+
+  const retried = local - actual;
+  return zoneOffsetMs(retried, timeZone) === actual ? retried : Math.max(instant, retried);
+}
+
+/**
+ * Offset of a timezone from UTC at an instant
+ */
+function zoneOffsetMs(instant: number, timeZone: string): number {
+  let formatter = zoneFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+    zoneFormatters.set(timeZone, formatter);
+  }
+
+  const parts: Record<string, number> = {};
+  for (const part of formatter.formatToParts(instant)) {
+    if (part.type !== 'literal') parts[part.type] = Number(part.value);
+  }
+
+  const wallClock = utcMs(parts.year, parts.month, parts.day, parts.hour, parts.minute, parts.second, 0);
+  return wallClock - (instant - ((instant % 1000) + 1000) % 1000);
+}
+
+/**
+ * Date.UTC for any four-digit year (Date.UTC maps 0-99 to 1900-1999)
+ */
+function utcMs(
+  year: number,
+  month: number,
+  day: number,
+  hour: number,
+  minute: number,
+  second: number,
+  millisecond: number
+): number {
+  const date = new Date(0);
+  date.setUTCFullYear(year, month - 1, day);
+  date.setUTCHours(hour, minute, second, millisecond);
+  return date.getTime();
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(utcMs(year, month + 1, 0, 0, 0, 0, 0)).getUTCDate();
+}
+
+function formatCalendarDate(year: number, month: number, day: number): string {
+  return `${String(year).padStart(4, '0')}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+// ============================================================================
+// Option Resolution
+// ============================================================================
+
+/**
+ * Read date options from request metadata: `date_formats` (a JSON array or
+ * a comma-separated list), `date_order` and `date_timezone`
+ */
+export function resolveDateOptions(metadata: Record<string, string>): DateOptions {
+  const options: DateOptions = {};
+
+  const formats = metadata[METADATA_KEYS.DATE_FORMATS];
+  if (formats !== undefined && formats.trim() !== '') {
+    options.formats = parseFormatList(formats);
+    options.formats.filter(format => format !== EXCEL_FORMAT).forEach(compileDateFormat);
+  }
+
+  const order = metadata[METADATA_KEYS.DATE_ORDER];
+  if (order !== undefined && order !== '') {
+    if (!(DATE_ORDERS as readonly string[]).includes(order)) {
+      throw new ValidationError(
+        `Invalid ${METADATA_KEYS.DATE_ORDER}: expected one of ${DATE_ORDERS.join(', ')}`,
+        { value: order }
+      );
+    }
+    options.order = order as DateOrder;
+  }
+
+  const timeZone = metadata[METADATA_KEYS.DATE_TIMEZONE];
+  if (timeZone !== undefined && timeZone !== '') {
+    options.timeZone = resolveTimeZone(timeZone);
+  }
+
+  return options;
+}
+
+function parseFormatList(value: string): string[] {
+  if (!value.trimStart().startsWith('[')) {
+    return value.split(',').map(format => format.trim()).filter(Boolean);
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(value);
+  } catch {
+    parsed = undefined;
+  }
+  if (!Array.isArray(parsed) || parsed.length === 0 || !parsed.every(format => typeof format === 'string')) {
+    throw new ValidationError(`Invalid ${METADATA_KEYS.DATE_FORMATS}: expected a JSON array of formats`);
+  }
+  return parsed;
+}
+
+/**
+ * Canonical name of an IANA timezone
+ */
+export function resolveTimeZone(timeZone: string): string {
+  try {
+    return new Intl.DateTimeFormat('en-US', { timeZone }).resolvedOptions().timeZone;
+  } catch {
+    throw new ValidationError(`Unsupported timezone: ${timeZone}`, { timeZone });
+  }
+}
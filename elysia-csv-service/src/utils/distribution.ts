@@ -0,0 +1,238 @@
+/**
+ * Measure Distributions
+ * Min, max, standard deviation and t-digest percentiles of a measure, mergeable across chunks and files
+ */
+
+import { ExactSum } from './exact-sum.js';
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+/**
+ * Percentiles reported when a request asks for summary statistics without
+ * naming any
+ */
+export const DEFAULT_PERCENTILES = [50, 90, 95, 99];
+
+/**
+ * Compression of the digests: larger keeps more centroids and gives
+ * tighter percentiles (at most about 1.6 times as many centroids are kept)
+ */
+const DIGEST_COMPRESSION = 200;
+
+/**
+ * Values a digest holds before it compresses them into centroids. Groups
+ * with no more values than this have exact percentiles.
+ */
+const DIGEST_BUFFER_SIZE = 500;
+
+// ============================================================================
+// T-Digest
+// ============================================================================
+
+/**
+ * Centroids of a digest in a form that can be posted between threads
+ */
+export interface DigestSnapshot {
+  means: number[];
+  weights: number[];
+}
+
+/**
+ * Merging t-digest (Dunning & Ertl): a bounded summary of a distribution
+ * as weighted centroids, small near the tails and larger in the middle, so
+ * extreme percentiles stay accurate. Values are buffered and compressed
+ * into the centroids once the buffer fills; digests merge by adding each
+ * other's centroids.
+ */
+export class TDigest {
+  private means: number[] = [];
+  private weights: number[] = [];
+  private compressed = 0;
+
+  constructor(
+    private readonly compression = DIGEST_COMPRESSION,
+    private readonly bufferSize = DIGEST_BUFFER_SIZE
+  ) {}
+
+  add(value: number, weight = 1): void {
+    this.means.push(value);
+    this.weights.push(weight);
+    if (this.means.length - this.compressed > this.bufferSize) {
+      this.compress();
+    }
+  }
+
+  snapshot(): DigestSnapshot {
+    return { means: [...this.means], weights: [...this.weights] };
+  }
+
+  mergeSnapshot(snapshot: DigestSnapshot): void {
+    snapshot.means.forEach((mean, index) => this.add(mean, snapshot.weights[index]));
+  }
+
+  /**
+   * Value at quantile `q` (0 to 1), interpolated between the centroids and
+   * the smallest and largest values seen
+   */
+  quantile(q: number, min: number, max: number): number {
+    const centroids = this.sorted();
+    const total = centroids.reduce((sum, [, weight]) => sum + weight, 0);
+    if (total === 0) {
+      return NaN;
+    }
+
+    const target = q * total;
+    let cumulative = 0;
+    let previous = { center: 0, mean: min };
+    for (const [mean, weight] of centroids) {
+      const center = cumulative + weight / 2;
+      if (target < center) {
+        return interpolate(previous.mean, mean, (target - previous.center) / (center - previous.center));
+      }
+      cumulative += weight;
+      previous = { center, mean };
+    }
+
+    return interpolate(previous.mean, max, (target - previous.center) / (total - previous.center));
+  }
+
+  /**
+   * Merge buffered values and centroids that fit together under the size
+   * limit of their position in the distribution
+   */
+  private compress(): void {
+    const centroids = this.sorted();
+    const total = centroids.reduce((sum, [, weight]) => sum + weight, 0);
+    const means: number[] = [];
+    const weights: number[] = [];
+
+    let [mean, weight] = centroids[0];
+    let before = 0;
+    let limit = total * this.inverseScale(this.scale(0) + 1);
+    for (const [nextMean, nextWeight] of centroids.slice(1)) {
+      if (before + weight + nextWeight <= limit) {
+        mean += (nextMean - mean) * nextWeight / (weight + nextWeight);
+        weight += nextWeight;
+        continue;
+      }
+
+      means.push(mean);
+      weights.push(weight);
+      before += weight;
+      limit = total * this.inverseScale(this.scale(before / total) + 1);
+      [mean, weight] = [nextMean, nextWeight];
+    }
+    means.push(mean);
+    weights.push(weight);
+
+    this.means = means;
+    this.weights = weights;
+    this.compressed = means.length;
+  }
+
+  private sorted(): Array<[number, number]> {
+    return this.means
+      .map((mean, index): [number, number] => [mean, this.weights[index]])
+      .sort((a, b) => a[0] - b[0] || a[1] - b[1]);
+  }
+
+  /**
+   * The k1 scale function: centroid sizes shrink towards q = 0 and q = 1
+   */
+  private scale(q: number): number {
+    return (this.compression / (2 * Math.PI)) * Math.asin(2 * q - 1);
+  }
+
+  private inverseScale(k: number): number {
+    return k >= this.compression / 4 ? 1 : (Math.sin((k * 2 * Math.PI) / this.compression) + 1) / 2;
+  }
+}
+
+function interpolate(from: number, to: number, fraction: number): number {
+  return from + (to - from) * Math.min(1, Math.max(0, fraction));
+}
+
+// ============================================================================
+// Measure Distribution
+// ============================================================================
+
+/**
+ * Distribution of a measure in a form that can be posted between threads
+ */
+export interface DistributionSnapshot {
+  count: number;
+  min: number;
+  max: number;
+  sum: number[];
+  squares: number[];
+  digest: DigestSnapshot;
+}
+
+/**
+ * Running distribution of one measure in one group. Sums are exact, so
+ * min, max and standard deviation do not depend on how the rows were split
+ * up; percentiles are exact up to DIGEST_BUFFER_SIZE values and estimated
+ * by the digest above that.
+ */
+export class MeasureDistribution {
+  private count = 0;
+  private min = Infinity;
+  private max = -Infinity;
+  private readonly sum = new ExactSum();
+  private readonly squares = new ExactSum();
+  private readonly digest = new TDigest();
+
+  add(value: number): void {
+    if (!Number.isFinite(value)) {
+      return;
+    }
+
+    this.count++;
+    this.min = Math.min(this.min, value);
+    this.max = Math.max(this.max, value);
+    this.sum.add(value);
+    this.squares.add(value * value);
+    this.digest.add(value);
+  }
+
+  snapshot(): DistributionSnapshot {
+    return {
+      count: this.count,
+      min: this.min,
+      max: this.max,
+      sum: this.sum.terms(),
+      squares: this.squares.terms(),
+      digest: this.digest.snapshot(),
+    };
+  }
+
+  mergeSnapshot(snapshot: DistributionSnapshot): void {
+    this.count += snapshot.count;
+    this.min = Math.min(this.min, snapshot.min);
+    this.max = Math.max(this.max, snapshot.max);
+    snapshot.sum.forEach(term => this.sum.add(term));
+    snapshot.squares.forEach(term => this.squares.add(term));
+    this.digest.mergeSnapshot(snapshot.digest);
+  }
+
+  /**
+   * Min, max, population standard deviation and the given percentiles (0
+   * to 100), or undefined when the measure had no values
+   */
+  describe(percentiles: number[]): { min: number; max: number; stddev: number; percentiles: number[] } | undefined {
+    if (this.count === 0) {
+      return undefined;
+    }
+
+    const mean = this.sum.value() / this.count;
+    const variance = Math.max(0, this.squares.value() / this.count - mean * mean);
+    return {
+      min: this.min,
+      max: this.max,
+      stddev: Math.sqrt(variance),
+      percentiles: percentiles.map(p => this.digest.quantile(p / 100, this.min, this.max)),
+    };
+  }
+}
@@ -0,0 +1,137 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test';
+import { createDecoder, decodeChunk, detectEncoding, resolveEncodingLabel } from './encoding.js';
+import { processCsvFile, processCsvFileParallel, processJsonFile, resolveImportOptions } from './csv-parser.js';
+import { PARALLEL_PARSE_CONFIG } from './worker-pool.js';
+import { CsvParseError, ValidationError } from '../types.js';
+
+const HEADER = 'region,country,amount\n';
+
+/**
+ * A CSV file whose rows are ASCII up to a row naming Côte d'Ivoire in
+ * windows-1252, well after the sampled head
+ */
+function lateLatin1Csv(asciiRows: number): Buffer {
+  const rows = Array.from({ length: asciiRows }, (_, i) => `AF,Country ${i},${i}\n`).join('');
+  return Buffer.concat([Buffer.from(HEADER + rows + 'AF,C'), Uint8Array.of(0xf4), Buffer.from("te d'Ivoire,5\n")]);
+}
+
+describe('detectEncoding', () => {
+  test.each([
+    ['a UTF-8 BOM', [0xef, 0xbb, 0xbf, 0x61], 'utf-8'],
+    ['a UTF-16LE BOM', [0xff, 0xfe, 0x61, 0x00], 'utf-16le'],
+    ['a UTF-16BE BOM', [0xfe, 0xff, 0x00, 0x61], 'utf-16be'],
+    ['UTF-16LE without a BOM', [0x61, 0x00, 0x2c, 0x00, 0x62, 0x00, 0x0a, 0x00], 'utf-16le'],
+    ['UTF-16BE without a BOM', [0x00, 0x61, 0x00, 0x2c, 0x00, 0x62, 0x00, 0x0a], 'utf-16be'],
+    ['valid UTF-8', [...Buffer.from('Zürich')], 'utf-8'],
+    ['a UTF-8 character cut off by the sample end', [0x5a, 0xc3], 'utf-8'],
+    ['windows-1252 text', [0x5a, 0xfc, 0x72, 0x69, 0x63, 0x68], 'windows-1252'],
+  ])('reads %s', (_, bytes, encoding) => {
+    expect(detectEncoding(Uint8Array.from(bytes))).toBe(encoding);
+  });
+
+  test('canonicalizes encoding labels', () => {
+    expect(resolveEncodingLabel(' Latin1 ')).toBe('windows-1252');
+    expect(resolveEncodingLabel('UTF8')).toBe('utf-8');
+    expect(() => resolveEncodingLabel('klingon')).toThrow(new ValidationError('Unsupported encoding: klingon'));
+  });
+});
+
+describe('decodeChunk', () => {
+  test('joins characters cut between chunks', () => {
+    const decoder = createDecoder('utf-8', { fatal: true });
+    const bytes = Buffer.from('aé€b');
+
+    expect([bytes.subarray(0, 2), bytes.subarray(2, 4), bytes.subarray(4)].map(chunk => decodeChunk(decoder, chunk)))
+      .toEqual([{ text: 'a', valid: true }, { text: 'é', valid: true }, { text: '€b', valid: true }]);
+    expect(decodeChunk(decoder)).toEqual({ text: '', valid: true });
+  });
+
+  test('returns the text before an invalid byte', () => {
+    const decoder = createDecoder('utf-8', { fatal: true });
+
+    expect(decodeChunk(decoder, Uint8Array.of(0x43, 0xf4, 0x74, 0x65))).toEqual({ text: 'C', valid: false });
+  });
+
+  test('skips the rest of a character cut off by the previous chunk', () => {
+    const decoder = createDecoder('utf-8', { fatal: true });
+    const bytes = Buffer.concat([Buffer.from('é'), Buffer.from('ab'), Uint8Array.of(0xff)]);
+
+    expect(decodeChunk(decoder, bytes.subarray(0, 1))).toEqual({ text: '', valid: true });
+    expect(decodeChunk(decoder, bytes.subarray(1))).toEqual({ text: 'ab', valid: false });
+  });
+
+  test('fails a flush that leaves a character unfinished', () => {
+    const decoder = createDecoder('utf-8', { fatal: true });
+    decodeChunk(decoder, Uint8Array.of(0xc3));
+
+    expect(decodeChunk(decoder)).toEqual({ text: '', valid: false });
+  });
+});
+
+describe('transcoding uploads', () => {
+  test('rejects a file that stops being UTF-8 after the sampled head', async () => {
+    const csv = lateLatin1Csv(400);
+    expect(csv.length).toBeGreaterThan(4096);
+
+    const error = await processCsvFile(csv, await resolveImportOptions({})).catch(e => e);
+
+    expect(error).toBeInstanceOf(CsvParseError);
+    expect(error).toMatchObject({ statusCode: 400, line: 402, column: 5 });
+    expect(error.message).toBe('Invalid utf-8 byte sequence at line 402, column 5');
+  });
+
+  describe('on the parse workers', () => {
+    const config = { ...PARALLEL_PARSE_CONFIG };
+    beforeAll(() => Object.assign(PARALLEL_PARSE_CONFIG, { workers: 2, minBytes: 1, chunkBytes: 1024 }));
+    afterAll(() => Object.assign(PARALLEL_PARSE_CONFIG, config));
+
+    test('rejects it at the same position', async () => {
+      const error = await processCsvFileParallel(lateLatin1Csv(400), await resolveImportOptions({})).catch(e => e);
+
+      expect(error).toBeInstanceOf(CsvParseError);
+      expect(error.message).toBe('Invalid utf-8 byte sequence at line 402, column 5');
+    });
+  });
+
+  test('reads the same file with a declared encoding', async () => {
+    const result = await processCsvFile(lateLatin1Csv(400), await resolveImportOptions({ encoding: 'latin1' }));
+
+    expect(result.stats.encoding).toBe('windows-1252');
+    expect(result.successCount).toBe(401);
+    expect(result.summaries.map(summary => summary.country)).toContain("Côte d'Ivoire");
+  });
+
+  test('falls back to windows-1252 when the head is not UTF-8', async () => {
+    const csv = Buffer.concat([Buffer.from(HEADER + 'AF,C'), Uint8Array.of(0xf4), Buffer.from("te d'Ivoire,5\n")]);
+    const result = await processCsvFile(csv, await resolveImportOptions({}));
+
+    expect(result.stats.encoding).toBe('windows-1252');
+    expect(result.summaries[0].country).toBe("Côte d'Ivoire");
+  });
+
+  test('strips a UTF-8 byte order mark from the first header', async () => {
+    const csv = Buffer.concat([Uint8Array.of(0xef, 0xbb, 0xbf), Buffer.from(HEADER + 'EU,Zürich,10\n')]);
+    const result = await processCsvFile(csv, await resolveImportOptions({}));
+
+    expect(result.stats.encoding).toBe('utf-8');
+    expect(result.summaries).toEqual([{ region: 'EU', country: 'Zürich', count: 1, amountSum: 10, amountAvg: 10 }]);
+  });
+
+  test.each([
+    ['with a BOM', Buffer.concat([Uint8Array.of(0xff, 0xfe), Buffer.from(HEADER + 'EU,Zürich,10\n', 'utf16le')])],
+    ['without a BOM', Buffer.from(HEADER + 'EU,Zürich,10\n', 'utf16le')],
+  ])('reads UTF-16LE %s', async (_, csv) => {
+    const result = await processCsvFile(csv, await resolveImportOptions({}));
+
+    expect(result.stats.encoding).toBe('utf-16le');
+    expect(result.summaries).toEqual([{ region: 'EU', country: 'Zürich', count: 1, amountSum: 10, amountAvg: 10 }]);
+  });
+
+  test('rejects JSON that is not valid in its encoding', async () => {
+    const json = Buffer.concat([Buffer.from('{"region":"AF","country":"C'), Uint8Array.of(0xf4), Buffer.from('te","amount":5}\n')]);
+    const error = await processJsonFile(json, 'ndjson', await resolveImportOptions({ encoding: 'utf-8' })).catch(e => e);
+
+    expect(error).toBeInstanceOf(CsvParseError);
+    expect(error.message).toBe('Invalid utf-8 byte sequence at line 1, column 28');
+  });
+});
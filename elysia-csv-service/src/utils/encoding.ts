@@ -0,0 +1,138 @@
+/**
+ * Character Encoding Detection
+ * BOM sniffing and charset heuristics for uploaded text files
+ */
+
+import { ValidationError } from '../types.js';
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+/**
+ * Number of leading bytes sampled for detection
+ */
+export const ENCODING_SAMPLE_BYTES = 4096;
+
+/**
+ * Fallback for text that is not valid UTF-8. Windows-1252 is a superset of
+ * the printable Latin-1 range, which is what older ERP exports produce.
+ */
+const FALLBACK_ENCODING = 'windows-1252';
+
+/**
+ * Share of NUL bytes in one byte lane that marks BOM-less UTF-16
+ */
+const UTF16_NUL_RATIO = 0.3;
+
+// ============================================================================
+// Detection
+// ============================================================================
+
+/**
+ * Detect the encoding of a byte sample. Returns a WHATWG encoding name
+ * that TextDecoder accepts.
+ */
+export function detectEncoding(sample: Uint8Array): string {
+  // Byte order marks
+  if (sample[0] === 0xef && sample[1] === 0xbb && sample[2] === 0xbf) {
+    return 'utf-8';
+  }
+  if (sample[0] === 0xff && sample[1] === 0xfe) {
+    return 'utf-16le';
+  }
+  if (sample[0] === 0xfe && sample[1] === 0xff) {
+    return 'utf-16be';
+  }
+
+  // UTF-16 without a BOM: ASCII text leaves every other byte zero
+  const utf16 = detectUtf16(sample);
+  if (utf16) {
+    return utf16;
+  }
+
+  if (isValidUtf8(sample)) {
+    return 'utf-8';
+  }
+
+  return FALLBACK_ENCODING;
+}
+
+/**
+ * Create a decoder for an encoding label. Labels are validated at runtime:
+ * an unknown label throws a RangeError.
+ */
+export function createDecoder(encoding: string, options?: { fatal?: boolean; ignoreBOM?: boolean }): TextDecoder {
+  return new TextDecoder(encoding as Bun.Encoding, options);
+}
+
+/**
+ * Decode the next chunk of a stream with a fatal decoder (no chunk flushes
+ * it). When the chunk holds a byte sequence that is not valid in the
+ * encoding, `text` is what comes before it and `valid` is false, so the
+ * caller can point at the bad bytes instead of reading on in mojibake.
+ */
+export function decodeChunk(decoder: TextDecoder, chunk?: Uint8Array): { text: string; valid: boolean } {
+  try {
+    return { text: chunk ? decoder.decode(chunk, { stream: true }) : decoder.decode(), valid: true };
+  } catch {
+    if (!chunk) {
+      return { text: '', valid: false };
+    }
+
+    // Decode again leniently and stop at the first replacement character.
+    // A UTF-8 character cut off by the previous chunk leaves continuation
+    // bytes at the start that the fresh decoder cannot join up.
+    const text = createDecoder(decoder.encoding, { ignoreBOM: true }).decode(chunk, { stream: true });
+    let cut = 0;
+    while (decoder.encoding === 'utf-8' && cut < 3 && chunk[cut] >= 0x80 && chunk[cut] < 0xc0) {
+      cut++;
+    }
+    const invalid = text.indexOf('\uFFFD', cut);
+    return { text: text.slice(cut, invalid < 0 ? text.length : invalid), valid: false };
+  }
+}
+
+/**
+ * Canonicalize a caller-supplied encoding label ("latin1", "UTF8", ...)
+ */
+export function resolveEncodingLabel(label: string): string {
+  try {
+    return createDecoder(label.trim()).encoding;
+  } catch {
+    throw new ValidationError(`Unsupported encoding: ${label}`, { encoding: label });
+  }
+}
+
+function detectUtf16(sample: Uint8Array): string | null {
+  const pairs = Math.floor(sample.length / 2);
+  if (pairs === 0) {
+    return null;
+  }
+
+  let evenNuls = 0;
+  let oddNuls = 0;
+  for (let i = 0; i < pairs * 2; i += 2) {
+    if (sample[i] === 0) evenNuls++;
+    if (sample[i + 1] === 0) oddNuls++;
+  }
+
+  if (oddNuls / pairs > UTF16_NUL_RATIO && evenNuls / pairs < UTF16_NUL_RATIO / 3) {
+    return 'utf-16le';
+  }
+  if (evenNuls / pairs > UTF16_NUL_RATIO && oddNuls / pairs < UTF16_NUL_RATIO / 3) {
+    return 'utf-16be';
+  }
+
+  return null;
+}
+
+function isValidUtf8(sample: Uint8Array): boolean {
+  try {
+    // Streaming mode tolerates a multi-byte sequence cut off by the sample end
+    createDecoder('utf-8', { fatal: true }).decode(sample, { stream: true });
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,124 @@
+import { describe, expect, test } from 'bun:test';
+import { ExactSum } from './exact-sum.js';
+
+/**
+ * Deterministic pseudo-random numbers in [0, 1) (mulberry32)
+ */
+function random(seed: number): () => number {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t ^= t + Math.imul(t ^ (t >>> 7), 61 | t);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * A finite double as an exact integer count of 2^-1074, the smallest
+ * subnormal, so that sums of doubles are exact bigint sums
+ */
+function toUnits(value: number): bigint {
+  const view = new DataView(new ArrayBuffer(8));
+  view.setFloat64(0, value);
+  const bits = view.getBigUint64(0);
+  const exponent = Number((bits >> 52n) & 0x7ffn);
+  const fraction = bits & ((1n << 52n) - 1n);
+  const mantissa = exponent === 0 ? fraction : fraction | (1n << 52n);
+  const units = mantissa << BigInt(Math.max(exponent, 1) - 1);
+  return bits >> 63n ? -units : units;
+}
+
+/**
+ * The double next to a finite value, towards +Infinity or -Infinity
+ */
+function adjacent(value: number, direction: 1 | -1): number {
+  if (value === 0) {
+    return direction * Number.MIN_VALUE;
+  }
+  const view = new DataView(new ArrayBuffer(8));
+  view.setFloat64(0, value);
+  const away = (value > 0) === (direction > 0);
+  view.setBigUint64(0, view.getBigUint64(0) + (away ? 1n : -1n));
+  return view.getFloat64(0);
+}
+
+function abs(value: bigint): bigint {
+  return value < 0n ? -value : value;
+}
+
+/**
+ * Assert that `result` is the double nearest the exact sum of `values`
+ */
+function expectNearest(result: number, values: number[]): void {
+  const exact = values.reduce((sum, value) => sum + toUnits(value), 0n);
+  const error = abs(exact - toUnits(result));
+
+  expect(error <= abs(exact - toUnits(adjacent(result, 1)))).toBe(true);
+  expect(error <= abs(exact - toUnits(adjacent(result, -1)))).toBe(true);
+}
+
+function sumOf(values: number[]): number {
+  const sum = new ExactSum();
+  values.forEach(value => sum.add(value));
+  return sum.value();
+}
+
+describe('ExactSum', () => {
+  test.each([
+    [[0.1, 0.1, 0.1, 0.1, 0.1, 0.1, 0.1, 0.1, 0.1, 0.1], 1],
+    [[1e100, 1, -1e100], 1],
+    [[1e16, 1, 1e-16], 10000000000000002],
+    // The exact sum is just above half-way between 1 and the next double
+    [[1, 2 ** -53, 2 ** -80], 1 + 2 ** -52],
+    [[1.7976931348623157e308, -1.7976931348623157e308, 5e-324], 5e-324],
+    [[], 0],
+  ])('sums %p to %p', (values, expected) => {
+    expect(sumOf(values)).toBe(expected);
+    expectNearest(sumOf(values), values);
+  });
+
+  test('rounds random terms of every magnitude to the nearest double of their exact sum', () => {
+    const next = random(7);
+    for (let run = 0; run < 200; run++) {
+      const values = Array.from({ length: 50 }, () => {
+        const value = (next() - 0.5) * 2 ** Math.floor(next() * 200 - 100);
+        // Cancel earlier terms now and then
+        return next() < 0.2 ? -value * 2 ** 60 : value;
+      });
+
+      expectNearest(sumOf(values), values);
+    }
+  });
+
+  test('gives the same sum in any order', () => {
+    const next = random(11);
+    const values = Array.from({ length: 1000 }, () => (next() - 0.5) * 10 ** Math.floor(next() * 30 - 10));
+    const reversed = [...values].reverse();
+    const shuffled = [...values].sort(() => next() - 0.5);
+
+    expect(sumOf(reversed)).toBe(sumOf(values));
+    expect(sumOf(shuffled)).toBe(sumOf(values));
+  });
+
+  test('rebuilds the same sum from its terms', () => {
+    const next = random(13);
+    const parts = [new ExactSum(), new ExactSum(), new ExactSum()];
+    const values = Array.from({ length: 300 }, () => (next() - 0.5) * 1e6);
+    values.forEach((value, index) => parts[index % 3].add(value));
+
+    const merged = new ExactSum();
+    parts.forEach(part => part.terms().forEach(term => merged.add(term)));
+
+    expect(merged.value()).toBe(sumOf(values));
+  });
+
+  test('keeps infinities and NaN out of the partials', () => {
+    expect(sumOf([1, Infinity, 2])).toBe(Infinity);
+    expect(sumOf([Infinity, -Infinity])).toBeNaN();
+    expect(sumOf([1, NaN])).toBeNaN();
+
+    const sum = new ExactSum();
+    [1, -Infinity].forEach(value => sum.add(value));
+    expect(sum.terms()).toEqual([1, -Infinity]);
+  });
+});
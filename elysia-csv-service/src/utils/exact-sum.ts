@@ -0,0 +1,78 @@
+/**
+ * Exact Sums
+ * Order-independent floating point sums for aggregates merged across chunks and files
+ */
+
+/**
+ * Exactly rounded running sum (Shewchuk's algorithm, as in Python's
+ * math.fsum). The value is held as non-overlapping partial sums, so it does
+ * not depend on the order the terms were added in: partial aggregates of a
+ * file read in parallel merge to the same totals as a sequential read.
+ */
+export class ExactSum {
+  private partials: number[] = [];
+  private special = 0;
+
+  add(value: number): void {
+    // Infinities and NaN would poison the partials
+    if (!Number.isFinite(value)) {
+      this.special += value;
+      return;
+    }
+
+    let x = value;
+    let count = 0;
+    for (let y of this.partials) {
+      if (Math.abs(x) < Math.abs(y)) {
+        [x, y] = [y, x];
+      }
+      const hi = x + y;
+      const lo = y - (hi - x);
+      if (lo !== 0) {
+        this.partials[count++] = lo;
+      }
+      x = hi;
+    }
+    this.partials.length = count;
+    this.partials.push(x);
+  }
+
+  /**
+   * Terms whose exact sum is this sum, to rebuild it elsewhere
+   */
+  terms(): number[] {
+    return this.special === 0 ? [...this.partials] : [...this.partials, this.special];
+  }
+
+  value(): number {
+    if (this.special !== 0) {
+      return this.special;
+    }
+
+    const partials = this.partials;
+    let n = partials.length;
+    if (n === 0) {
+      return 0;
+    }
+
+    let hi = partials[--n];
+    let lo = 0;
+    while (n > 0) {
+      const x = hi;
+      const y = partials[--n];
+      hi = x + y;
+      lo = y - (hi - x);
+      if (lo !== 0) break;
+    }
+
+    // Round half-way cases the way the full-precision sum would
+    if (n > 0 && ((lo < 0 && partials[n - 1] < 0) || (lo > 0 && partials[n - 1] > 0))) {
+      const y = lo * 2;
+      const x = hi + y;
+      if (y === x - hi) {
+        hi = x;
+      }
+    }
+    return hi;
+  }
+}
@@ -0,0 +1,159 @@
+import { describe, expect, setSystemTime, test } from 'bun:test';
+import * as XLSX from 'xlsx';
+import { PIVOT_TABLE_CONFIG, downloadPivotTable, pivotTables, resolvePivot } from './pivot-table.js';
+import { DEFAULT_ROW_SCHEMA } from './row-schema.js';
+import { processCsvFile, resolveImportOptions } from './csv-parser.js';
+import { NotFoundError, ValidationError } from '../types.js';
+import type { PivotSpec, PivotTable } from '../types.js';
+
+// Germany sells in two regions and no region sells in every country, so
+// some cells stay empty
+const CSV = [
+  'region,country,amount',
+  'EU,DE,10',
+  'EU,DE,0.1',
+  'EU,FR,0.2',
+  'US,US,5',
+  'US,DE,1',
+  'APAC,JP,3',
+  'US,US,x',
+].join('\n') + '\n';
+
+async function pivotOf(spec: Partial<PivotSpec>, metadata: Record<string, string> = {}): Promise<PivotTable> {
+  const options = await resolveImportOptions({ ...metadata, pivot: JSON.stringify({ rows: 'region', columns: 'country', ...spec }) });
+  const result = await processCsvFile(Buffer.from(CSV), options);
+  return result.aggregator!.toPivotTable()!;
+}
+
+/**
+ * The single sheet of a workbook as rows of formatted cell text, blank
+ * cells as null
+ */
+function sheetOf(body: Uint8Array): unknown[][] {
+  const workbook = XLSX.read(body);
+  expect(workbook.SheetNames).toEqual(['Pivot']);
+  return XLSX.utils.sheet_to_json(workbook.Sheets.Pivot, { header: 1, raw: false, defval: null });
+}
+
+describe('resolvePivot', () => {
+  test('sums the first measure unless the request names an op', () => {
+    const resolve = (spec: object) => resolvePivot({ pivot: JSON.stringify(spec) }, DEFAULT_ROW_SCHEMA);
+
+    expect(resolve({ rows: 'region', columns: 'country' })).toEqual({ rows: 'region', columns: 'country', measure: 'amount', op: 'sum' });
+    expect(resolve({ rows: 'country', columns: 'region', op: 'count' })).toEqual({ rows: 'country', columns: 'region', op: 'count' });
+    expect(resolvePivot({}, DEFAULT_ROW_SCHEMA)).toBeUndefined();
+  });
+
+  test.each([
+    ['not JSON', '{', 'Invalid pivot: expected a JSON object'],
+    ['an unknown op', { rows: 'region', columns: 'country', op: 'max' }, 'Invalid pivot'],
+    ['a row field that is not a dimension', { rows: 'amount', columns: 'country' }, 'Invalid pivot: amount is not a dimension of the row schema'],
+    ['one dimension twice', { rows: 'region', columns: 'region' }, 'Invalid pivot: rows and columns must be different dimensions'],
+    ['a measure outside the schema', { rows: 'region', columns: 'country', measure: 'region' }, 'Invalid pivot: region is not a measure of the row schema'],
+  ])('rejects %s', (_, spec, message) => {
+    const pivot = typeof spec === 'string' ? spec : JSON.stringify(spec);
+
+    expect(() => resolvePivot({ pivot }, DEFAULT_ROW_SCHEMA)).toThrow(new ValidationError(message));
+  });
+});
+
+describe('buildPivotTable', () => {
+  test('totals rows, columns and the whole table, leaving empty cells null', async () => {
+    expect(await pivotOf({})).toEqual({
+      rowDimension: 'region',
+      columnDimension: 'country',
+      measure: 'amount',
+      op: 'sum',
+      columns: ['DE', 'FR', 'JP', 'US'],
+      rows: [
+        { value: 'APAC', cells: [null, null, 3, null], total: 3 },
+        { value: 'EU', cells: [10.1, 0.2, null, null], total: 10.3 },
+        { value: 'US', cells: [1, null, null, 5], total: 6 },
+      ],
+      columnTotals: [11.1, 0.2, 3, 5],
+      grandTotal: 19.3,
+    });
+  });
+
+  test('counts and averages the valid rows of every cell', async () => {
+    const count = await pivotOf({ op: 'count' });
+    const avg = await pivotOf({ op: 'avg' });
+
+    expect(count.rows.map(row => [row.value, ...row.cells, row.total])).toEqual([
+      ['APAC', null, null, 1, null, 1],
+      ['EU', 2, 1, null, null, 3],
+      ['US', 1, null, null, 1, 2],
+    ]);
+    expect([count.columnTotals, count.grandTotal]).toEqual([[3, 1, 1, 1], 6]);
+    expect(avg.rows.map(row => [row.value, ...row.cells, row.total])).toEqual([
+      ['APAC', null, null, 3, null, 3],
+      ['EU', 5.05, 0.2, null, null, 3.43],
+      ['US', 1, null, null, 5, 3],
+    ]);
+    expect([avg.columnTotals, avg.grandTotal]).toEqual([[3.7, 0.2, 3, 5], 3.22]);
+  });
+
+  test('keeps exact decimal strings under minor units', async () => {
+    const table = await pivotOf({}, { minor_units: '2' });
+
+    expect(table.rows.map(row => row.total)).toEqual(['3.00', '10.30', '6.00']);
+    expect(table.rows[1].cells).toEqual(['10.10', '0.20', null, null]);
+    expect([table.columnTotals, table.grandTotal]).toEqual([['11.10', '0.20', '3.00', '5.00'], '19.30']);
+  });
+});
+
+describe('downloadPivotTable', () => {
+  test('lays the table out with a Total column and row and blank empty cells', async () => {
+    const saved = (await pivotTables.save(await pivotOf({}), 'sales.csv'))!;
+    const download = await downloadPivotTable(saved.download!.id);
+
+    expect(saved.download).toMatchObject({ url: `/api/v1/results/${saved.download!.id}/pivot` });
+    expect(download).toMatchObject({
+      contentType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      fileName: 'sales.pivot.xlsx',
+    });
+    expect(sheetOf(download.body)).toEqual([
+      ['sum of amount: region \\ country', 'DE', 'FR', 'JP', 'US', 'Total'],
+      ['APAC', null, null, '3', null, '3'],
+      ['EU', '10.1', '0.2', null, null, '10.3'],
+      ['US', '1', null, null, '5', '6'],
+      ['Total', '11.1', '0.2', '3', '5', '19.3'],
+    ]);
+  });
+
+  test('writes decimal strings as numbers shown with all their places', async () => {
+    const saved = (await pivotTables.save(await pivotOf({ op: 'avg' }, { minor_units: '2' }), 'sales.csv'))!;
+    const { body } = await downloadPivotTable(saved.download!.id);
+
+    expect(XLSX.read(body).Sheets.Pivot.C3).toMatchObject({ t: 'n', v: 0.2, w: '0.20' });
+    expect(sheetOf(body)).toEqual([
+      ['avg of amount: region \\ country', 'DE', 'FR', 'JP', 'US', 'Total'],
+      ['APAC', null, null, '3.00', null, '3.00'],
+      ['EU', '5.05', '0.20', null, null, '3.43'],
+      ['US', '1.00', null, null, '5.00', '3.00'],
+      ['Total', '3.70', '0.20', '3.00', '5.00', '3.22'],
+    ]);
+  });
+
+  test('answers 404 for another tenant, an unknown ID and an expired table', async () => {
+    const saved = (await pivotTables.save(await pivotOf({ op: 'count' }), 'sales.csv', 'acme'))!;
+    const id = saved.download!.id;
+    expect((await downloadPivotTable(id, 'acme')).fileName).toBe('sales.pivot.xlsx');
+
+    const misses: Array<[string, string | undefined]> = [[id, 'globex'], [id, undefined], ['unknown', 'acme']];
+    for (const [missId, tenantId] of misses) {
+      const error = await downloadPivotTable(missId, tenantId).catch(e => e);
+      expect(error).toBeInstanceOf(NotFoundError);
+      expect(error.statusCode).toBe(404);
+    }
+
+    setSystemTime(new Date(Date.now() + PIVOT_TABLE_CONFIG.ttlMs + 1));
+    try {
+      const error = await downloadPivotTable(id, 'acme').catch(e => e);
+      expect(error).toBeInstanceOf(NotFoundError);
+      expect(error).toMatchObject({ statusCode: 404, message: `Pivot table not found or expired: ${id}` });
+    } finally {
+      setSystemTime();
+    }
+  });
+});
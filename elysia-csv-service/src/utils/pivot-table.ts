@@ -0,0 +1,316 @@
+/**
+ * Pivot Tables
+ * Cross-tabulates the summary groups of an import by two dimensions, with totals and an XLSX download
+ */
+
+import { randomUUID } from 'crypto';
+import * as XLSX from 'xlsx';
+import { ExactSum } from './exact-sum.js';
+import { DecimalSum } from './decimal-sum.js';
+import { NotFoundError, PivotSpecSchema, ValidationError, METADATA_KEYS } from '../types.js';
+import type { PivotOptions, PivotTable, RowSchemaDefinition } from '../types.js';
+import { sharedStore } from './shared-store.js';
+import type { SharedStore } from './shared-store.js';
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+export const PIVOT_TABLE_CONFIG = {
+  ttlMs: parseInt(process.env.PIVOT_TABLE_TTL_MS || '3600000', 10),
+  maxTables: parseInt(process.env.MAX_PIVOT_TABLES || '1000', 10),
+};
+
+const XLSX_CONTENT_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+const TOTAL_LABEL = 'Total';
+
+type DimensionValue = string | number | boolean;
+
+/**
+ * A summary group as the region aggregator keeps it: its dimension values
+ * in row schema order, its row count and the exact sum of every measure
+ * (and its decimal sum with minor units)
+ */
+export interface PivotGroup {
+  dimensions: DimensionValue[];
+  count: number;
+  sums: ExactSum[];
+  decimals?: DecimalSum[];
+}
+
+export interface StoredPivotTable {
+  id: string;
+  tenantId?: string;
+  fileName: string;
+  table: PivotTable;
+  expiresAt: number;
+}
+
+export interface PivotTableDownload {
+  body: Uint8Array<ArrayBuffer>;
+  contentType: string;
+  fileName: string;
+}
+
+// ============================================================================
+// Option Resolution
+// ============================================================================
+
+/**
+ * Read the `pivot` metadata entry (a JSON pivot table request) and check
+ * it against the row schema
+ */
+export function resolvePivot(
+  metadata: Record<string, string>,
+  definition: RowSchemaDefinition
+): PivotOptions | undefined {
+  const value = metadata[METADATA_KEYS.PIVOT];
+  if (!value) {
+    return undefined;
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(value);
+  } catch {
+    throw new ValidationError(`Invalid ${METADATA_KEYS.PIVOT}: expected a JSON object`);
+  }
+
+  const result = PivotSpecSchema.safeParse(parsed);
+  if (!result.success) {
+    throw new ValidationError(`Invalid ${METADATA_KEYS.PIVOT}`, { issues: result.error.issues });
+  }
+
+  const { rows, columns, op } = result.data;
+  const fail = (message: string, details?: Record<string, unknown>): never => {
+    throw new ValidationError(`Invalid ${METADATA_KEYS.PIVOT}: ${message}`, details);
+  };
+
+  for (const field of [rows, columns]) {
+    if (!definition.dimensions.includes(field)) {
+      fail(`${field} is not a dimension of the row schema`, { field, dimensions: definition.dimensions });
+    }
+  }
+  if (rows === columns) {
+    fail('rows and columns must be different dimensions', { field: rows });
+  }
+
+  if (op === 'count') {
+    return { rows, columns, op };
+  }
+
+  const measure = result.data.measure ?? definition.measures[0] ?? fail('the row schema has no measure');
+  if (!definition.measures.includes(measure)) {
+    fail(`${measure} is not a measure of the row schema`, { measure, measures: definition.measures });
+  }
+  return { rows, columns, measure, op };
+}
+
+// ============================================================================
+// Pivoting
+// ============================================================================
+
+interface Cell {
+  count: number;
+  sum: ExactSum;
+  decimal?: DecimalSum;
+}
+
+/**
+ * Pivot the summary groups of an import. Cells, row and column totals and
+ * the grand total each add up the exact sums of their groups, so a cell
+ * over a single group equals its summary and totals carry no rounding of
+ * the cells they span. With minor units, sums and averages are decimal
+ * strings.
+ */
+export function buildPivotTable(
+  options: PivotOptions,
+  groups: PivotGroup[],
+  dimensions: string[],
+  measures: string[],
+  minorUnits?: number
+): PivotTable {
+  const rowIndex = dimensions.indexOf(options.rows);
+  const columnIndex = dimensions.indexOf(options.columns);
+  const measureIndex = options.measure === undefined ? -1 : measures.indexOf(options.measure);
+
+  const cells = new Map<string, Cell>();
+  const rowTotals = new Map<DimensionValue, Cell>();
+  const columnTotals = new Map<DimensionValue, Cell>();
+  const newCell = (): Cell => ({
+    count: 0,
+    sum: new ExactSum(),
+    decimal: minorUnits === undefined ? undefined : new DecimalSum(minorUnits),
+  });
+  const grandTotal = newCell();
+
+  for (const group of groups) {
+    const row = group.dimensions[rowIndex];
+    const column = group.dimensions[columnIndex];
+    const key = JSON.stringify([row, column]);
+    if (!cells.has(key)) cells.set(key, newCell());
+    if (!rowTotals.has(row)) rowTotals.set(row, newCell());
+    if (!columnTotals.has(column)) columnTotals.set(column, newCell());
+
+    for (const cell of [cells.get(key)!, rowTotals.get(row)!, columnTotals.get(column)!, grandTotal]) {
+      cell.count += group.count;
+      if (measureIndex >= 0) {
+        group.sums[measureIndex].terms().forEach(term => cell.sum.add(term));
+        const units = group.decimals?.[measureIndex].units();
+        if (units !== undefined) cell.decimal?.addUnits(units);
+      }
+    }
+  }
+
+  const rows = [...rowTotals.keys()].sort(compareDimension);
+  const columns = [...columnTotals.keys()].sort(compareDimension);
+  const valueOf = (cell: Cell): number | string => {
+    switch (options.op) {
+      case 'count':
+        return cell.count;
+      case 'sum':
+        return cell.decimal ? cell.decimal.toString() : round(cell.sum.value());
+      case 'avg':
+        if (cell.decimal) return cell.decimal.average(cell.count);
+        return cell.count > 0 ? round(cell.sum.value() / cell.count) : 0;
+    }
+  };
+
+  return {
+    rowDimension: options.rows,
+    columnDimension: options.columns,
+    measure: options.measure,
+    op: options.op,
+    columns,
+    rows: rows.map(value => ({
+      value,
+      cells: columns.map(column => {
+        const cell = cells.get(JSON.stringify([value, column]));
+        return cell ? valueOf(cell) : null;
+      }),
+      total: valueOf(rowTotals.get(value)!),
+    })),
+    columnTotals: columns.map(column => valueOf(columnTotals.get(column)!)),
+    grandTotal: valueOf(grandTotal),
+  };
+}
+
+// ============================================================================
+// Storage
+// ============================================================================
+
+/**
+ * Store of pivot tables by result ID for their XLSX download, kept in the
+ * shared store like rejected rows so the link works on every replica.
+ * Tables expire after PIVOT_TABLE_TTL_MS; in process memory the oldest are
+ * dropped beyond MAX_PIVOT_TABLES.
+ */
+export class PivotTableStore {
+  constructor(private readonly store: SharedStore = sharedStore) {}
+
+  /**
+   * Keep a pivot table and return it with its download link
+   */
+  async save(table: PivotTable | undefined, fileName: string, tenantId?: string): Promise<PivotTable | undefined> {
+    if (!table) {
+      return undefined;
+    }
+
+    const entry: StoredPivotTable = {
+      id: randomUUID(),
+      tenantId,
+      fileName,
+      table,
+      expiresAt: Date.now() + PIVOT_TABLE_CONFIG.ttlMs,
+    };
+    await this.store.set(pivotTableKey(entry.id), JSON.stringify(entry), {
+      ttlMs: PIVOT_TABLE_CONFIG.ttlMs,
+      maxEntries: PIVOT_TABLE_CONFIG.maxTables,
+    });
+
+    return {
+      ...table,
+      download: {
+        id: entry.id,
+        url: `/api/v1/results/${entry.id}/pivot`,
+        expiresAt: new Date(entry.expiresAt).toISOString(),
+      },
+    };
+  }
+
+  async get(id: string, tenantId?: string): Promise<StoredPivotTable | undefined> {
+    const value = await this.store.get(pivotTableKey(id));
+    if (value === undefined) {
+      return undefined;
+    }
+
+    const entry = JSON.parse(value) as StoredPivotTable;
+    return entry.tenantId === tenantId ? entry : undefined;
+  }
+}
+
+function pivotTableKey(id: string): string {
+  return `pivot-tables:v1:${id}`;
+}
+
+export const pivotTables = new PivotTableStore();
+
+/**
+ * Render the pivot table of a result as a one-sheet workbook
+ */
+export async function downloadPivotTable(id: string, tenantId?: string): Promise<PivotTableDownload> {
+  const entry = await pivotTables.get(id, tenantId);
+  if (!entry) {
+    throw new NotFoundError(`Pivot table not found or expired: ${id}`, { id });
+  }
+
+  const baseName = entry.fileName.replace(/\.[^./\\]*$/, '') || 'import';
+  return {
+    body: formatXlsx(entry.table),
+    contentType: XLSX_CONTENT_TYPE,
+    fileName: `${baseName}.pivot.xlsx`,
+  };
+}
+
+// ============================================================================
+// Rendering
+// ============================================================================
+
+/**
+ * Write the table the way a spreadsheet pivot lays it out: the row and
+ * column dimensions and the measure in the corner, a `Total` column and a
+ * `Total` row. Empty cells stay blank; decimal strings become numbers
+ * shown with all their places.
+ */
+function formatXlsx(table: PivotTable): Uint8Array<ArrayBuffer> {
+  const corner = `${table.op}${table.measure ? ` of ${table.measure}` : ''}: ${table.rowDimension} \\ ${table.columnDimension}`;
+  const data = [
+    [corner, ...table.columns, TOTAL_LABEL],
+    ...table.rows.map(row => [row.value, ...[...row.cells, row.total].map(toCell)]),
+    [TOTAL_LABEL, ...[...table.columnTotals, table.grandTotal].map(toCell)],
+  ];
+
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(data), 'Pivot');
+  return XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx' });
+}
+
+function toCell(value: number | string | null): number | XLSX.CellObject | null {
+  if (typeof value !== 'string') {
+    return value;
+  }
+
+  const places = value.split('.')[1]?.length ?? 0;
+  return { t: 'n', v: Number(value), z: places > 0 ? `0.${'0'.repeat(places)}` : '0' };
+}
+
+function compareDimension(a: DimensionValue, b: DimensionValue): number {
+  if (typeof a === 'number' && typeof b === 'number') {
+    return a - b;
+  }
+  return String(a).localeCompare(String(b));
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,656 @@
+/**
+ * Row Schemas
+ * Tenant-defined fields that rows are validated against, and the dimensions and measures they are aggregated by
+ */
+
+import { z } from 'zod';
+import { METADATA_KEYS, RowSchemaDefinitionSchema, ValidationError } from '../types.js';
+import type {
+  FieldSpec,
+  FieldType,
+  ImportOptions,
+  NamedRowSchema,
+  RowSchemaDefinition,
+  RowSchemaRef,
+} from '../types.js';
+import type { DateNormalizer } from './date-normalizer.js';
+import { sharedStore } from './shared-store.js';
+import type { SharedStore } from './shared-store.js';
+import { checkPattern } from './safe-pattern.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * A row that passed validation, keyed by field
+ */
+export type ValidatedRow = Record<string, unknown>;
+
+/**
+ * A row schema ready for validation
+ */
+export interface CompiledRowSchema {
+  /**
+   * Field names in column order, which is also the column order assumed
+   * for files without a header row
+   */
+  fields: string[];
+  types: Record<string, FieldType>;
+  validator: z.ZodType<ValidatedRow, z.ZodTypeDef, unknown>;
+  /**
+   * Validate a row without throwing. Compiled from the same definition as
+   * `validator` and accepts exactly the rows it accepts.
+   */
+  validate: (row: Record<string, unknown>) => RowValidationResult;
+  dimensions: string[];
+  measures: string[];
+}
+
+/**
+ * A validated row, or the Zod error listing every field that failed
+ */
+export type RowValidationResult =
+  | { success: true; data: ValidatedRow }
+  | { success: false; error: z.ZodError };
+
+/**
+ * Checks one field: returns the validated value, or INVALID
+ */
+type FieldCheck = (value: unknown) => unknown;
+
+const INVALID = Symbol('invalid');
+
+const DEFAULT_TENANT = 'default';
+const SCHEMA_NAME_PATTERN = /^[A-Za-z0-9][A-Za-z0-9_.-]{0,63}$/;
+
+/**
+ * JSON Schema keywords that are translated into the field DSL, and those
+ * that are only annotations. Anything else is rejected rather than
+ * silently not enforced.
+ */
+const JSON_SCHEMA_ANNOTATIONS = ['$schema', '$id', '$comment', 'title', 'description', 'examples', 'default'];
+const JSON_SCHEMA_OBJECT_KEYWORDS = ['type', 'properties', 'required', 'additionalProperties'];
+const JSON_SCHEMA_FIELD_KEYWORDS: Record<FieldType, string[]> = {
+  string: ['type', 'enum', 'minLength', 'maxLength', 'pattern'],
+  number: ['type', 'enum', 'minimum', 'maximum'],
+  integer: ['type', 'enum', 'minimum', 'maximum'],
+  boolean: ['type'],
+  date: ['type', 'format'],
+};
+
+/**
+ * The schema imports use unless they name one: sales rows summed by
+ * region and country
+ */
+export const DEFAULT_ROW_SCHEMA: RowSchemaDefinition = {
+  fields: {
+    id: { type: 'string' },
+    region: { type: 'string', required: true },
+    country: { type: 'string', required: true },
+    amount: { type: 'number', required: true },
+    date: { type: 'date' },
+    category: { type: 'string' },
+  },
+  dimensions: ['region', 'country'],
+  measures: ['amount'],
+};
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+/**
+ * Build the validator for a row schema. Blank optional fields are left
+ * out; dates are normalized to ISO-8601 during validation.
+ */
+export function compileRowSchema(definition: RowSchemaDefinition, normalizeDate: DateNormalizer): CompiledRowSchema {
+  const shape: Record<string, z.ZodTypeAny> = {};
+  const types: Record<string, FieldType> = {};
+  const checks: Array<[string, FieldCheck]> = [];
+
+  for (const [name, spec] of Object.entries(definition.fields)) {
+    shape[name] = fieldValidator(name, spec, normalizeDate);
+    types[name] = spec.type;
+    checks.push([name, fieldCheck(spec, normalizeDate)]);
+  }
+
+  const validator = z.object(shape);
+  return {
+    fields: Object.keys(definition.fields),
+    types,
+    validator,
+    validate: compileValidate(checks, validator),
+    dimensions: definition.dimensions,
+    measures: definition.measures,
+  };
+}
+
+/**
+ * Build the validation function of a row schema from its field checks.
+ * The checks decide whether a row passes and produce the same row the Zod
+ * schema would (its fields in schema order, blank optional ones left
+ * undefined). Only a row that fails is handed to the Zod schema, for the
+ * issues that describe it.
+ */
+function compileValidate(
+  checks: Array<[string, FieldCheck]>,
+  validator: z.ZodType<ValidatedRow, z.ZodTypeDef, unknown>
+): (row: Record<string, unknown>) => RowValidationResult {
+  return row => {
+    const data: ValidatedRow = {};
+
+    for (const [name, check] of checks) {
+      const value = check(row[name]);
+      if (value === INVALID) {
+        const result = validator.safeParse(row);
+        return result.success ? { success: true, data: result.data } : { success: false, error: result.error };
+      }
+      if (value !== undefined || name in row) {
+        data[name] = value;
+      }
+    }
+
+    return { success: true, data };
+  };
+}
+
+/**
+ * Compiled counterpart of fieldValidator()
+ */
+function fieldCheck(spec: FieldSpec, normalizeDate: DateNormalizer): FieldCheck {
+  let check: FieldCheck;
+  switch (spec.type) {
+    case 'string':
+      check = stringCheck(spec);
+      break;
+    case 'number':
+    case 'integer':
+      check = numberCheck(spec);
+      break;
+    case 'boolean':
+      check = value => (typeof value === 'boolean' ? value : INVALID);
+      break;
+    case 'date':
+      check = value => {
+        if (!(typeof value === 'string' || (typeof value === 'number' && !Number.isNaN(value))) || isBlank(value)) {
+          return INVALID;
+        }
+        const iso = normalizeDate(value);
+        return iso === null ? INVALID : iso;
+      };
+      break;
+  }
+
+  if (spec.required) {
+    return check;
+  }
+  return value => (isBlank(value) ? undefined : check(value));
+}
+
+function stringCheck(spec: FieldSpec): FieldCheck {
+  const minLength = Math.max(spec.required ? 1 : 0, spec.min ?? 0);
+  const maxLength = spec.max ?? Infinity;
+  const pattern = spec.pattern ? new RegExp(spec.pattern) : undefined;
+  const values = spec.enum && new Set<unknown>(spec.enum);
+
+  return value => (
+    typeof value === 'string'
+    && value.length >= minLength
+    && value.length <= maxLength
+    && (!pattern || pattern.test(value))
+    && (!values || values.has(value))
+      ? value
+      : INVALID
+  );
+}
+
+function numberCheck(spec: FieldSpec): FieldCheck {
+  const integer = spec.type === 'integer';
+  const min = spec.min ?? -Infinity;
+  const max = spec.max ?? Infinity;
+  const values = spec.enum && new Set<unknown>(spec.enum);
+
+  return value => (
+    typeof value === 'number'
+    && Number.isFinite(value)
+    && (!integer || Number.isInteger(value))
+    && value >= min
+    && value <= max
+    && (!values || values.has(value))
+      ? value
+      : INVALID
+  );
+}
+
+function fieldValidator(name: string, spec: FieldSpec, normalizeDate: DateNormalizer): z.ZodTypeAny {
+  const label = toLabel(name);
+
+  let validator: z.ZodTypeAny;
+  switch (spec.type) {
+    case 'string':
+      validator = stringValidator(label, spec);
+      break;
+    case 'number':
+    case 'integer':
+      validator = numberValidator(label, spec);
+      break;
+    case 'boolean':
+      validator = z.boolean();
+      break;
+    case 'date':
+      validator = dateValidator(label, normalizeDate);
+      break;
+  }
+
+  if (spec.required) {
+    return validator;
+  }
+  return z.preprocess(value => (isBlank(value) ? undefined : value), validator.optional());
+}
+
+function stringValidator(label: string, spec: FieldSpec): z.ZodTypeAny {
+  let validator = z.string();
+  if (spec.required) validator = validator.min(1, `${label} is required`);
+  if (spec.min !== undefined) validator = validator.min(spec.min, `${label} must be at least ${spec.min} characters`);
+  if (spec.max !== undefined) validator = validator.max(spec.max, `${label} must be at most ${spec.max} characters`);
+  if (spec.pattern) validator = validator.regex(new RegExp(spec.pattern), `${label} does not match ${spec.pattern}`);
+
+  if (!spec.enum) {
+    return validator;
+  }
+  const values = spec.enum as [string, ...string[]];
+  return validator.pipe(z.enum(values, {
+    errorMap: () => ({ message: `${label} must be one of ${values.join(', ')}` }),
+  }));
+}
+
+function numberValidator(label: string, spec: FieldSpec): z.ZodTypeAny {
+  let validator = z.number().finite(`${label} must be a valid number`);
+  if (spec.type === 'integer') validator = validator.int(`${label} must be a whole number`);
+  if (spec.min !== undefined) validator = validator.gte(spec.min, `${label} must be at least ${spec.min}`);
+  if (spec.max !== undefined) validator = validator.lte(spec.max, `${label} must be at most ${spec.max}`);
+
+  if (!spec.enum) {
+    return validator;
+  }
+  const values = spec.enum as number[];
+  return validator.refine(value => values.includes(value), `${label} must be one of ${values.join(', ')}`);
+}
+
+/**
+ * A date in no accepted format fails with an `invalid_date` issue
+ */
+function dateValidator(label: string, normalizeDate: DateNormalizer): z.ZodTypeAny {
+  return z.union([z.string(), z.number()]).transform((value, ctx) => {
+    if (isBlank(value)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `${label} is required` });
+      return z.NEVER;
+    }
+    const iso = normalizeDate(value);
+    if (iso === null) {
+      ctx.addIssue({ code: z.ZodIssueCode.invalid_date, message: `${label} is not in an accepted format` });
+      return z.NEVER;
+    }
+    return iso;
+  });
+}
+
+function isBlank(value: unknown): boolean {
+  return value === undefined || value === null || (typeof value === 'string' && value.trim() === '');
+}
+
+/**
+ * Field name as used in messages: "unit_cost" reads "Unit cost"
+ */
+function toLabel(name: string): string {
+  return name.charAt(0).toUpperCase() + name.slice(1).replace(/_/g, ' ');
+}
+
+// ============================================================================
+// Schema Definitions
+// ============================================================================
+
+/**
+ * Validate a row schema, given either in the field DSL
+ * (`{ fields, dimensions, measures }`) or as a JSON Schema object schema
+ * (`{ jsonSchema, dimensions, measures }`)
+ */
+export function parseRowSchemaDefinition(value: unknown): RowSchemaDefinition {
+  const input = isRecord(value) && 'jsonSchema' in value ? fromJsonSchemaInput(value) : value;
+
+  const result = RowSchemaDefinitionSchema.safeParse(input);
+  if (!result.success) {
+    throw new ValidationError('Invalid row schema', { issues: result.error.issues });
+  }
+
+  checkRowSchema(result.data);
+  return result.data;
+}
+
+/**
+ * Checks that span fields: constraints that fit the field type, and
+ * dimensions and measures that name fields
+ */
+function checkRowSchema(definition: RowSchemaDefinition): void {
+  const fields = Object.entries(definition.fields);
+  if (fields.length === 0) {
+    throw new ValidationError('Invalid row schema: at least one field is required');
+  }
+
+  for (const [name, spec] of fields) {
+    const fail = (message: string): never => {
+      throw new ValidationError(`Invalid row schema field ${name}: ${message}`, { field: name });
+    };
+
+    const isNumber = spec.type === 'number' || spec.type === 'integer';
+    if (spec.enum) {
+      const expected = spec.type === 'string' ? 'string' : isNumber ? 'number' : fail(`enum does not apply to ${spec.type} fields`);
+      if (spec.enum.some(value => typeof value !== expected)) {
+        fail(`enum values must be ${expected}s`);
+      }
+    }
+    if ((spec.min !== undefined || spec.max !== undefined) && spec.type !== 'string' && !isNumber) {
+      fail(`min and max do not apply to ${spec.type} fields`);
+    }
+    if (spec.min !== undefined && spec.max !== undefined && spec.min > spec.max) {
+      fail('min is greater than max');
+    }
+    if (spec.type === 'string' && [spec.min, spec.max].some(n => n !== undefined && (!Number.isInteger(n) || n < 0))) {
+      fail('min and max of a string are lengths, whole numbers from 0');
+    }
+    if (spec.pattern !== undefined) {
+      if (spec.type !== 'string') {
+        fail(`pattern does not apply to ${spec.type} fields`);
+      }
+      const problem = checkPattern(spec.pattern);
+      if (problem) {
+        fail(`invalid pattern: ${problem}`);
+      }
+    }
+  }
+
+  const seen = new Set<string>();
+  for (const dimension of definition.dimensions) {
+    if (!(dimension in definition.fields)) {
+      throw new ValidationError(`Invalid row schema: dimension ${dimension} is not a field`, { dimension });
+    }
+    if (dimension === 'count') {
+      throw new ValidationError('Invalid row schema: "count" cannot be a dimension, it is the row count of each summary');
+    }
+    if (seen.has(dimension)) {
+      throw new ValidationError(`Invalid row schema: dimension ${dimension} is listed twice`, { dimension });
+    }
+    seen.add(dimension);
+  }
+
+  seen.clear();
+  for (const measure of definition.measures) {
+    const spec = definition.fields[measure];
+    if (!spec || (spec.type !== 'number' && spec.type !== 'integer') || !spec.required) {
+      throw new ValidationError(
+        `Invalid row schema: measure ${measure} must be a required number or integer field`,
+        { measure }
+      );
+    }
+    if (seen.has(measure)) {
+      throw new ValidationError(`Invalid row schema: measure ${measure} is listed twice`, { measure });
+    }
+    seen.add(measure);
+  }
+}
+
+/**
+ * Translate `{ jsonSchema, ...rest }` into the field DSL. Properties become
+ * fields in their listed order; `format: "date"` or `"date-time"` strings
+ * become date fields.
+ */
+function fromJsonSchemaInput(value: Record<string, unknown>): Record<string, unknown> {
+  const { jsonSchema, ...rest } = value;
+  const fail = (message: string, details?: Record<string, unknown>): never => {
+    throw new ValidationError(`Invalid jsonSchema: ${message}`, details);
+  };
+
+  if (!isRecord(jsonSchema) || (jsonSchema.type !== undefined && jsonSchema.type !== 'object')
+    || !isRecord(jsonSchema.properties)) {
+    return fail('expected an object schema with properties');
+  }
+  checkKeywords(jsonSchema, JSON_SCHEMA_OBJECT_KEYWORDS, fail);
+
+  const required = jsonSchema.required ?? [];
+  if (!Array.isArray(required) || required.some(name => typeof name !== 'string')) {
+    return fail('required must be an array of property names');
+  }
+
+  const fields: Record<string, FieldSpec> = {};
+  for (const [name, property] of Object.entries(jsonSchema.properties)) {
+    if (!isRecord(property)) {
+      return fail(`property ${name} must be a schema object`, { field: name });
+    }
+
+    const type = jsonSchemaType(property.type);
+    if (!type) {
+      return fail(`property ${name} must have type string, number, integer or boolean`, { field: name });
+    }
+
+    let fieldType: FieldType = type;
+    if (property.format !== undefined) {
+      if (type !== 'string' || (property.format !== 'date' && property.format !== 'date-time')) {
+        return fail(`property ${name} has unsupported format ${String(property.format)}`, { field: name });
+      }
+      fieldType = 'date';
+    }
+    checkKeywords(property, JSON_SCHEMA_FIELD_KEYWORDS[fieldType], message => fail(`property ${name}: ${message}`, { field: name }));
+
+    fields[name] = {
+      type: fieldType,
+      required: required.includes(name) || undefined,
+      enum: property.enum as FieldSpec['enum'],
+      min: (fieldType === 'string' ? property.minLength : property.minimum) as number | undefined,
+      max: (fieldType === 'string' ? property.maxLength : property.maximum) as number | undefined,
+      pattern: property.pattern as string | undefined,
+    };
+    for (const key of Object.keys(fields[name]) as Array<keyof FieldSpec>) {
+      if (fields[name][key] === undefined) delete fields[name][key];
+    }
+  }
+
+  return { ...rest, fields };
+}
+
+/**
+ * A JSON Schema type, allowing a nullable one such as ["string", "null"]
+ */
+function jsonSchemaType(type: unknown): Exclude<FieldType, 'date'> | undefined {
+  const types = Array.isArray(type) ? type.filter(t => t !== 'null') : [type];
+  if (types.length !== 1) {
+    return undefined;
+  }
+  return (['string', 'number', 'integer', 'boolean'] as const).find(t => t === types[0]);
+}
+
+function checkKeywords(
+  schema: Record<string, unknown>,
+  supported: string[],
+  fail: (message: string) => never
+): void {
+  const unsupported = Object.keys(schema).filter(
+    key => !supported.includes(key) && !JSON_SCHEMA_ANNOTATIONS.includes(key)
+  );
+  if (unsupported.length > 0) {
+    fail(`unsupported keyword ${unsupported.join(', ')}`);
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Resolve the row schema a request asks for: the stored schema named by
+ * `schema_name`, at its latest version unless `schema_version` pins one,
+ * or the definition given in `schema` as JSON
+ */
+export async function resolveRowSchema(
+  metadata: Record<string, string>,
+  tenantId?: string
+): Promise<ImportOptions['rowSchema']> {
+  const name = metadata[METADATA_KEYS.SCHEMA_NAME];
+  const versionValue = metadata[METADATA_KEYS.SCHEMA_VERSION];
+  const inline = metadata[METADATA_KEYS.SCHEMA];
+
+  if (inline) {
+    if (name) {
+      throw new ValidationError(`Use either ${METADATA_KEYS.SCHEMA} or ${METADATA_KEYS.SCHEMA_NAME}, not both`);
+    }
+
+    let value: unknown;
+    try {
+      value = JSON.parse(inline);
+    } catch {
+      throw new ValidationError(`Invalid ${METADATA_KEYS.SCHEMA}: expected a JSON object`);
+    }
+    return { definition: parseRowSchemaDefinition(value) };
+  }
+
+  if (!name) {
+    if (versionValue) {
+      throw new ValidationError(`${METADATA_KEYS.SCHEMA_VERSION} requires ${METADATA_KEYS.SCHEMA_NAME}`);
+    }
+    return undefined;
+  }
+
+  let version: number | undefined;
+  if (versionValue) {
+    version = Number(versionValue);
+    if (!Number.isInteger(version) || version < 1) {
+      throw new ValidationError(`Invalid ${METADATA_KEYS.SCHEMA_VERSION}: expected a positive whole number`, {
+        value: versionValue,
+      });
+    }
+  }
+
+  const schema = await rowSchemas.get(name, version, tenantId);
+  if (!schema) {
+    throw new ValidationError(
+      version === undefined ? `Unknown row schema: ${name}` : `Unknown row schema version: ${name} v${version}`,
+      { name, version }
+    );
+  }
+  return schema;
+}
+
+/**
+ * Name and version of the stored schema an import used (none for an
+ * inline schema)
+ */
+export function toRowSchemaRef(schema: ImportOptions['rowSchema']): RowSchemaRef | undefined {
+  return schema && 'name' in schema ? { name: schema.name, version: schema.version } : undefined;
+}
+
+// ============================================================================
+// Named Schemas
+// ============================================================================
+
+/**
+ * Store of named row schemas, kept separately per tenant in the shared store
+ * so every replica resolves the same versions. Every change registers a new
+ * version; earlier versions stay available to imports that pin them.
+ */
+export class RowSchemaRegistry {
+  constructor(private readonly store: SharedStore = sharedStore) {}
+
+  /**
+   * The latest version of every schema
+   */
+  async list(tenantId: string = DEFAULT_TENANT): Promise<NamedRowSchema[]> {
+    const names = Object.keys(await this.store.hashGetAll(schemaIndexKey(tenantId)));
+    const versions = await Promise.all(names.map(name => this.versions(name, tenantId)));
+
+    return versions
+      .flatMap(entries => entries ? [entries[entries.length - 1]] : [])
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /**
+   * A schema at the given version, or its latest one
+   */
+  async get(name: string, version?: number, tenantId: string = DEFAULT_TENANT): Promise<NamedRowSchema | undefined> {
+    const versions = await this.versions(name, tenantId);
+    if (!versions) {
+      return undefined;
+    }
+    return version === undefined
+      ? versions[versions.length - 1]
+      : versions.find(entry => entry.version === version);
+  }
+
+  /**
+   * Every version of a schema. Versions are kept as a list, so a version
+   * is its position and replicas registering at once get distinct ones.
+   */
+  async versions(name: string, tenantId: string = DEFAULT_TENANT): Promise<NamedRowSchema[] | undefined> {
+    const values = await this.store.range(schemaVersionsKey(tenantId, name));
+    if (values.length === 0) {
+      return undefined;
+    }
+
+    return values.map((value, index) => {
+      const stored = JSON.parse(value) as Pick<NamedRowSchema, 'definition' | 'createdAt'>;
+      return { name, version: index + 1, definition: stored.definition, createdAt: stored.createdAt };
+    });
+  }
+
+  /**
+   * Register a new version of a schema. Registering the definition the
+   * latest version already has returns that version.
+   */
+  async register(name: string, value: unknown, tenantId: string = DEFAULT_TENANT): Promise<NamedRowSchema> {
+    if (!SCHEMA_NAME_PATTERN.test(name)) {
+      throw new ValidationError(
+        'Invalid schema name. Use up to 64 letters, digits, ".", "_" or "-", starting with a letter or digit.',
+        { name }
+      );
+    }
+
+    const definition = parseRowSchemaDefinition(value);
+
+    const versions = await this.versions(name, tenantId);
+    const latest = versions?.[versions.length - 1];
+    if (latest && JSON.stringify(latest.definition) === JSON.stringify(definition)) {
+      return latest;
+    }
+
+    const createdAt = new Date().toISOString();
+    const version = await this.store.append(
+      schemaVersionsKey(tenantId, name),
+      JSON.stringify({ definition, createdAt })
+    );
+    await this.store.hashSet(schemaIndexKey(tenantId), name, createdAt);
+
+    return { name, version, definition, createdAt };
+  }
+
+  /**
+   * Remove a schema with all its versions
+   */
+  async delete(name: string, tenantId: string = DEFAULT_TENANT): Promise<boolean> {
+    const deleted = await this.store.hashDelete(schemaIndexKey(tenantId), name);
+    await this.store.delete(schemaVersionsKey(tenantId, name));
+    return deleted;
+  }
+}
+
+/**
+ * Hash of the names of a tenant's schemas; the `v1` here and in the key of
+ * a schema's version list is bumped when the stored form changes
+ */
+function schemaIndexKey(tenantId: string): string {
+  return `row-schemas:v1:${tenantId}`;
+}
+
+function schemaVersionsKey(tenantId: string, name: string): string {
+  return `row-schema-versions:v1:${tenantId}:${name}`;
+}
+
+export const rowSchemas = new RowSchemaRegistry();
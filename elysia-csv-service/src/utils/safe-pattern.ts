@@ -0,0 +1,164 @@
+/**
+ * Safe Patterns
+ * Vets regular expressions from requests and tenants before they are compiled, so
+ * none can backtrack catastrophically on the headers, sheet names or values it is run on
+ */
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+export const PATTERN_LIMITS = {
+  maxLength: parseInt(process.env.MAX_PATTERN_LENGTH || '256', 10),
+};
+
+// ============================================================================
+// Checking
+// ============================================================================
+
+interface GroupFrame {
+  /**
+   * Whether anything inside the group repeats
+   */
+  repeats: boolean;
+}
+
+/**
+ * Say why a pattern given by a request or a tenant must not be compiled,
+ * if it must not: too long, not a valid regular expression, or a
+ * repetition of something that itself repeats, such as `(a+)+` or
+ * `(\d{1,3})*`, which can take exponential time to fail on a long input
+ */
+export function checkPattern(source: string, flags?: string): string | undefined {
+  if (source.length > PATTERN_LIMITS.maxLength) {
+    return `longer than ${PATTERN_LIMITS.maxLength} characters`;
+  }
+
+  try {
+    new RegExp(source, flags);
+  } catch {
+    return 'not a valid regular expression';
+  }
+
+  if (hasNestedRepetition(source)) {
+    return 'nested repetition such as (a+)+ can take exponential time';
+  }
+  return undefined;
+}
+
+/**
+ * Walk a valid pattern and find a quantified group with a quantifier
+ * inside it (star height above one, as safe-regex checks). Escapes and
+ * character classes are single atoms; `?` and `{0,1}` do not repeat.
+ */
+function hasNestedRepetition(source: string): boolean {
+  const frames: GroupFrame[] = [{ repeats: false }];
+  // Whether the atom just read was a group with a repetition inside
+  let lastGroupRepeats = false;
+  let i = 0;
+
+  while (i < source.length) {
+    const char = source[i];
+
+    if (char === '\\') {
+      lastGroupRepeats = false;
+      i += 2;
+    } else if (char === '[') {
+      lastGroupRepeats = false;
+      i = skipClass(source, i);
+    } else if (char === '(') {
+      frames.push({ repeats: false });
+      lastGroupRepeats = false;
+      i = skipGroupPrefix(source, i + 1);
+    } else if (char === ')') {
+      const frame = frames.pop()!;
+      lastGroupRepeats = frame.repeats;
+      if (frame.repeats) frames[frames.length - 1].repeats = true;
+      i++;
+    } else if (char === '*' || char === '+' || char === '?' || char === '{') {
+      const quantifier = readQuantifier(source, i);
+      if (!quantifier) {
+        // A brace that does not start a quantifier is a literal
+        lastGroupRepeats = false;
+        i++;
+        continue;
+      }
+
+      if (quantifier.repeats) {
+        if (lastGroupRepeats) {
+          return true;
+        }
+        frames[frames.length - 1].repeats = true;
+      }
+      lastGroupRepeats = false;
+      i = quantifier.end;
+      // Lazy quantifiers end in another ?
+      if (source[i] === '?') i++;
+    } else {
+      lastGroupRepeats = false;
+      i++;
+    }
+  }
+
+  return false;
+}
+
+/**
+ * Index after the character class starting at `start`
+ */
+function skipClass(source: string, start: number): number {
+  let i = start + 1;
+  if (source[i] === '^') i++;
+  // A leading ] is a literal
+  if (source[i] === ']') i++;
+
+  while (i < source.length && source[i] !== ']') {
+    i += source[i] === '\\' ? 2 : 1;
+  }
+  return i + 1;
+}
+
+/**
+ * Index after the `?:`, `?=`, `?!`, `?<=`, `?<!` or `?<name>` that may open
+ * a group
+ */
+function skipGroupPrefix(source: string, start: number): number {
+  if (source[start] !== '?') {
+    return start;
+  }
+
+  const next = source[start + 1];
+  if (next === ':' || next === '=' || next === '!') {
+    return start + 2;
+  }
+  if (next === '<') {
+    if (source[start + 2] === '=' || source[start + 2] === '!') {
+      return start + 3;
+    }
+    const close = source.indexOf('>', start + 2);
+    return close === -1 ? start + 2 : close + 1;
+  }
+  return start + 1;
+}
+
+/**
+ * The quantifier at `start`, if there is one, and whether it can match
+ * more than once
+ */
+function readQuantifier(source: string, start: number): { end: number; repeats: boolean } | undefined {
+  const char = source[start];
+  if (char === '*' || char === '+') {
+    return { end: start + 1, repeats: true };
+  }
+  if (char === '?') {
+    return { end: start + 1, repeats: false };
+  }
+
+  const match = /^\{(\d+)(,(\d*))?\}/.exec(source.slice(start));
+  if (!match) {
+    return undefined;
+  }
+
+  const max = match[2] === undefined ? Number(match[1]) : match[3] === '' ? Infinity : Number(match[3]);
+  return { end: start + match[0].length, repeats: max > 1 };
+}
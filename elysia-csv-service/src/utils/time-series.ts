@@ -0,0 +1,408 @@
+/**
+ * Time Series
+ * Buckets the measures of every group by day, week, month or fiscal quarter of a date field
+ */
+
+import { ExactSum } from './exact-sum.js';
+import { DecimalSum } from './decimal-sum.js';
+import type { ExactDecimals } from './decimal-sum.js';
+import { DATE_CONFIG, resolveTimeZone, toCalendarDate } from './date-normalizer.js';
+import type { ValidatedRow } from './row-schema.js';
+import {
+  AggregationLimitError,
+  TimeSeriesSpecSchema,
+  ValidationError,
+  METADATA_KEYS,
+} from '../types.js';
+import type {
+  DateOptions,
+  RowSchemaDefinition,
+  TimeSeriesBucket,
+  TimeSeriesOptions,
+  TimeSeriesResult,
+} from '../types.js';
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+export const TIME_SERIES_LIMITS = {
+  // Buckets of all series together, empty ones filled in included
+  maxPoints: parseInt(process.env.MAX_TIME_SERIES_POINTS || '100000', 10),
+};
+
+const DAY_MS = 86_400_000;
+
+type DimensionValue = string | number | boolean;
+
+// ============================================================================
+// Option Resolution
+// ============================================================================
+
+/**
+ * Read the `time_series` metadata entry (a JSON time series request) and
+ * check it against the row schema. The series are grouped by the schema
+ * dimensions and sum its measures unless told otherwise; date-times are
+ * bucketed in the request's date timezone unless the entry names one.
+ */
+export function resolveTimeSeries(
+  metadata: Record<string, string>,
+  definition: RowSchemaDefinition,
+  dates: DateOptions = {}
+): TimeSeriesOptions | undefined {
+  const value = metadata[METADATA_KEYS.TIME_SERIES];
+  if (!value) {
+    return undefined;
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(value);
+  } catch {
+    throw new ValidationError(`Invalid ${METADATA_KEYS.TIME_SERIES}: expected a JSON object`);
+  }
+
+  const result = TimeSeriesSpecSchema.safeParse(parsed);
+  if (!result.success) {
+    throw new ValidationError(`Invalid ${METADATA_KEYS.TIME_SERIES}`, { issues: result.error.issues });
+  }
+
+  const { field, groupBy, timeZone, ...spec } = result.data;
+  const fail = (message: string, details?: Record<string, unknown>): never => {
+    throw new ValidationError(`Invalid ${METADATA_KEYS.TIME_SERIES}: ${message}`, details);
+  };
+
+  const dateFields = Object.keys(definition.fields).filter(name => definition.fields[name].type === 'date');
+  const dateField = field ?? dateFields[0] ?? fail('the row schema has no date field');
+  if (!dateFields.includes(dateField)) {
+    fail(`${dateField} is not a date field`, { field: dateField, dateFields });
+  }
+
+  const unknown = (groupBy ?? []).filter(name => !(name in definition.fields));
+  if (unknown.length > 0) {
+    fail(`unknown groupBy field ${unknown[0]}`, { fields: unknown });
+  }
+
+  return {
+    ...spec,
+    field: dateField,
+    groupBy: groupBy ?? definition.dimensions,
+    measures: definition.measures,
+    timeZone: resolveTimeZone(timeZone ?? dates.timeZone ?? DATE_CONFIG.defaultTimeZone),
+  };
+}
+
+// ============================================================================
+// Buckets
+// ============================================================================
+
+interface Bucket {
+  start: string;
+  label: string;
+}
+
+/**
+ * The bucket a calendar date (YYYY-MM-DD) falls in
+ */
+function bucketOf(date: string, options: TimeSeriesOptions): Bucket {
+  const year = Number(date.slice(0, 4));
+  const month = Number(date.slice(5, 7));
+
+  switch (options.granularity) {
+    case 'day':
+      return { start: date, label: date };
+
+    case 'week': {
+      const day = Date.UTC(year, month - 1, Number(date.slice(8, 10)));
+      return options.week === 'iso' ? isoWeek(day) : calendarWeek(day);
+    }
+
+    case 'month': {
+      const label = date.slice(0, 7);
+      return { start: `${label}-01`, label };
+    }
+
+    case 'quarter': {
+      const first = options.fiscalYearStartMonth;
+      const offset = (month - first + 12) % 12;
+      const quarter = Math.floor(offset / 3) + 1;
+      // Fiscal years are named after the calendar year they end in
+      const fiscalStartYear = month >= first ? year : year - 1;
+      const startMonth = first + (quarter - 1) * 3;
+      const start = formatDate(Date.UTC(fiscalStartYear, startMonth - 1, 1));
+      const label = first === 1 ? `${year}-Q${quarter}` : `FY${fiscalStartYear + 1}-Q${quarter}`;
+      return { start, label };
+    }
+  }
+}
+
+/**
+ * ISO week: Monday to Sunday, in the week-year of its Thursday
+ */
+function isoWeek(day: number): Bucket {
+  const start = day - ((new Date(day).getUTCDay() + 6) % 7) * DAY_MS;
+  const thursday = new Date(start + 3 * DAY_MS);
+  const yearStart = Date.UTC(thursday.getUTCFullYear(), 0, 1);
+  const week = Math.floor((thursday.getTime() - yearStart) / DAY_MS / 7) + 1;
+  return { start: formatDate(start), label: `${thursday.getUTCFullYear()}-W${String(week).padStart(2, '0')}` };
+}
+
+/**
+ * Calendar week: Sunday to Saturday, week 1 being the one that holds
+ * 1 January of the year its Saturday is in
+ */
+function calendarWeek(day: number): Bucket {
+  const start = day - new Date(day).getUTCDay() * DAY_MS;
+  const year = new Date(start + 6 * DAY_MS).getUTCFullYear();
+  const january = Date.UTC(year, 0, 1);
+  const firstWeek = january - new Date(january).getUTCDay() * DAY_MS;
+  const week = Math.round((start - firstWeek) / DAY_MS / 7) + 1;
+  return { start: formatDate(start), label: `${year}-W${String(week).padStart(2, '0')}` };
+}
+
+/**
+ * Start of the bucket after the one starting on `start`
+ */
+function nextBucket(start: string, options: TimeSeriesOptions): Bucket {
+  const date = new Date(`${start}T00:00:00Z`);
+  switch (options.granularity) {
+    case 'day':
+      date.setUTCDate(date.getUTCDate() + 1);
+      break;
+    case 'week':
+      date.setUTCDate(date.getUTCDate() + 7);
+      break;
+    case 'month':
+      date.setUTCMonth(date.getUTCMonth() + 1);
+      break;
+    case 'quarter':
+      date.setUTCMonth(date.getUTCMonth() + 3);
+      break;
+  }
+  return bucketOf(formatDate(date.getTime()), options);
+}
+
+function formatDate(time: number): string {
+  return new Date(time).toISOString().slice(0, 10);
+}
+
+// ============================================================================
+// Time Series Aggregator
+// ============================================================================
+
+interface SeriesBucket extends Bucket {
+  count: number;
+  sums: ExactSum[];
+  decimals?: DecimalSum[];
+}
+
+interface Series {
+  dimensions: DimensionValue[];
+  buckets: Map<string, SeriesBucket>;
+}
+
+/**
+ * Series of a time series aggregator in a form that can be posted between
+ * threads
+ */
+export interface TimeSeriesSnapshot {
+  series: Array<{
+    dimensions: DimensionValue[];
+    buckets: Array<Bucket & { count: number; sums: number[][]; decimals?: string[] }>;
+  }>;
+  undatedCount: number;
+  overflowed: boolean;
+}
+
+/**
+ * Incremental time series of the groups of an import. Partial aggregators
+ * of chunks, sheets and archive entries merge into the same series as a
+ * single pass. Buckets past MAX_TIME_SERIES_POINTS are not kept, and the
+ * series fail once their result is asked for. With minor units, sums and
+ * averages are exact decimal strings.
+ */
+export class TimeSeriesAggregator {
+  private series = new Map<string, Series>();
+  private points = 0;
+  private undatedCount = 0;
+  private overflowed = false;
+
+  constructor(
+    private readonly options: TimeSeriesOptions,
+    private readonly minorUnits?: number,
+    private readonly maxPoints = TIME_SERIES_LIMITS.maxPoints
+  ) {}
+
+  add(row: ValidatedRow, exact?: ExactDecimals): void {
+    const date = row[this.options.field];
+    if (typeof date !== 'string') {
+      this.undatedCount++;
+      return;
+    }
+
+    const bucket = this.bucketFor(
+      this.options.groupBy.map(field => (row[field] ?? '') as DimensionValue),
+      bucketOf(toCalendarDate(date, this.options.timeZone), this.options)
+    );
+    if (!bucket) {
+      return;
+    }
+
+    bucket.count++;
+    this.options.measures.forEach((measure, index) => {
+      bucket.sums[index].add(row[measure] as number);
+      bucket.decimals?.[index].add(exact?.[measure] ?? row[measure] as number);
+    });
+  }
+
+  snapshot(): TimeSeriesSnapshot {
+    return {
+      series: [...this.series.values()].map(series => ({
+        dimensions: series.dimensions,
+        buckets: [...series.buckets.values()].map(({ start, label, count, sums, decimals }) => ({
+          start,
+          label,
+          count,
+          sums: sums.map(sum => sum.terms()),
+          decimals: decimals?.map(decimal => decimal.units()),
+        })),
+      })),
+      undatedCount: this.undatedCount,
+      overflowed: this.overflowed,
+    };
+  }
+
+  /**
+   * Fold in the series of another aggregator's snapshot (from a parse
+   * worker, another sheet or another archive entry)
+   */
+  mergeSnapshot(snapshot: TimeSeriesSnapshot): void {
+    this.undatedCount += snapshot.undatedCount;
+    this.overflowed ||= snapshot.overflowed;
+    for (const { dimensions, buckets } of snapshot.series) {
+      for (const { start, label, count, sums, decimals } of buckets) {
+        const bucket = this.bucketFor(dimensions, { start, label });
+        if (!bucket) continue;
+
+        bucket.count += count;
+        sums.forEach((terms, index) => {
+          terms.forEach(term => bucket.sums[index].add(term));
+        });
+        decimals?.forEach((units, index) => {
+          bucket.decimals?.[index].addUnits(units);
+        });
+      }
+    }
+  }
+
+  /**
+   * Series sorted by their group, with their buckets in time order. With
+   * `fillEmpty` every series runs from the first to the last bucket seen
+   * in any of them.
+   */
+  toResult(): TimeSeriesResult {
+    const starts = [...this.series.values()].flatMap(series => [...series.buckets.keys()]).sort();
+    const range = this.options.fillEmpty && starts.length > 0 ? this.bucketRange(starts[0], starts[starts.length - 1]) : undefined;
+    if (range && range.length * this.series.size > this.maxPoints) {
+      this.overflowed = true;
+    }
+    if (this.overflowed) {
+      throw new AggregationLimitError(
+        `Time series exceeded the limit of ${this.maxPoints} buckets`,
+        { maxPoints: this.maxPoints }
+      );
+    }
+
+    const series = [...this.series.values()].sort((a, b) => {
+      for (let index = 0; index < a.dimensions.length; index++) {
+        const order = compareDimension(a.dimensions[index], b.dimensions[index]);
+        if (order !== 0) return order;
+      }
+      return 0;
+    });
+
+    return {
+      granularity: this.options.granularity,
+      field: this.options.field,
+      week: this.options.granularity === 'week' ? this.options.week : undefined,
+      fiscalYearStartMonth: this.options.fiscalYearStartMonth,
+      timeZone: this.options.timeZone,
+      series: series.map(({ dimensions, buckets }) => {
+        const row: Record<string, DimensionValue> = {};
+        this.options.groupBy.forEach((field, index) => {
+          row[field] = dimensions[index];
+        });
+
+        const filled = range ?? [...buckets.values()].sort((a, b) => a.start.localeCompare(b.start));
+        return { dimensions: row, buckets: filled.map(bucket => this.toBucket(buckets.get(bucket.start) ?? bucket)) };
+      }),
+      undatedCount: this.undatedCount,
+    };
+  }
+
+  private toBucket(bucket: Bucket & Partial<SeriesBucket>): TimeSeriesBucket {
+    const count = bucket.count ?? 0;
+    const result: TimeSeriesBucket = { start: bucket.start, label: bucket.label, count };
+    this.options.measures.forEach((measure, index) => {
+      if (this.minorUnits !== undefined) {
+        const decimal = bucket.decimals?.[index] ?? new DecimalSum(this.minorUnits);
+        result[`${measure}Sum`] = decimal.toString();
+        result[`${measure}Avg`] = decimal.average(count);
+        return;
+      }
+
+      const sum = bucket.sums?.[index].value() ?? 0;
+      result[`${measure}Sum`] = Math.round(sum * 100) / 100;
+      result[`${measure}Avg`] = count > 0 ? Math.round((sum / count) * 100) / 100 : 0;
+    });
+    return result;
+  }
+
+  /**
+   * Every bucket from `first` to `last`, stopping once there are more than
+   * the points limit allows
+   */
+  private bucketRange(first: string, last: string): Bucket[] {
+    const range: Bucket[] = [];
+    let bucket = bucketOf(first, this.options);
+    while (bucket.start <= last && range.length <= this.maxPoints) {
+      range.push(bucket);
+      bucket = nextBucket(bucket.start, this.options);
+    }
+    return range;
+  }
+
+  private bucketFor(dimensions: DimensionValue[], { start, label }: Bucket): SeriesBucket | undefined {
+    const key = JSON.stringify(dimensions);
+    let series = this.series.get(key);
+    if (!series) {
+      series = { dimensions, buckets: new Map() };
+      this.series.set(key, series);
+    }
+
+    let bucket = series.buckets.get(start);
+    if (!bucket) {
+      if (this.points >= this.maxPoints) {
+        this.overflowed = true;
+        return undefined;
+      }
+      bucket = {
+        start,
+        label,
+        count: 0,
+        sums: this.options.measures.map(() => new ExactSum()),
+        decimals: this.minorUnits === undefined ? undefined : this.options.measures.map(() => new DecimalSum(this.minorUnits!)),
+      };
+      series.buckets.set(start, bucket);
+      this.points++;
+    }
+    return bucket;
+  }
+}
+
+function compareDimension(a: DimensionValue, b: DimensionValue): number {
+  if (typeof a === 'number' && typeof b === 'number') {
+    return a - b;
+  }
+  return String(a).localeCompare(String(b));
+}
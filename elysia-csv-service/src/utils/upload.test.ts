@@ -0,0 +1,161 @@
+import { describe, expect, test } from 'bun:test';
+import { deflateSync, gzipSync, zstdCompressSync } from 'zlib';
+import * as XLSX from 'xlsx';
+import { openUpload, processUpload, processZipArchive } from './upload.js';
+import { decompressStream, detectCompression, listZipEntries, readZipEntry } from './archive.js';
+import { resolveImportOptions } from './csv-parser.js';
+import { DecompressionLimitError, InvalidFileTypeError } from '../types.js';
+import type { CompressionFormat } from '../types.js';
+
+const CSV = 'region,country,amount\nEU,DE,10\nEU,FR,20\nUS,US,5\n';
+
+/**
+ * A ZIP archive of the given files
+ */
+function zipOf(files: Record<string, string | Buffer>): Buffer {
+  const archive = XLSX.CFB.utils.cfb_new();
+  for (const [name, content] of Object.entries(files)) {
+    XLSX.CFB.utils.cfb_add(archive, name, Buffer.from(content));
+  }
+  return Buffer.from(XLSX.CFB.write(archive, { fileType: 'zip', type: 'buffer', compression: true }));
+}
+
+async function readAll(chunks: AsyncIterable<Uint8Array>): Promise<string> {
+  const parts: Uint8Array[] = [];
+  for await (const chunk of chunks) parts.push(chunk);
+  return Buffer.concat(parts).toString();
+}
+
+async function* once(bytes: Uint8Array): AsyncIterable<Uint8Array> {
+  yield bytes;
+}
+
+describe('compressed uploads', () => {
+  test.each<[CompressionFormat, Buffer]>([
+    ['gzip', gzipSync(CSV)],
+    ['deflate', deflateSync(CSV)],
+    ['zstd', zstdCompressSync(CSV)],
+  ])('reads %s payloads transparently', async (format, payload) => {
+    expect(detectCompression(payload)).toBe(format);
+    expect(await readAll(decompressStream(once(payload), format))).toBe(CSV);
+
+    const upload = await openUpload(payload, { fileName: 'orders.csv.gz' });
+    expect(upload).toMatchObject({ fileType: 'csv', compression: format });
+
+    const result = await processUpload(upload, await resolveImportOptions({}));
+    expect(result.rowCount).toBe(3);
+    expect(result.summaries.map(summary => [summary.country, summary.amountSum])).toEqual([['DE', 10], ['FR', 20], ['US', 5]]);
+  });
+
+  test('leaves uncompressed payloads alone', () => {
+    expect(detectCompression(Buffer.from(CSV))).toBeNull();
+  });
+
+  test('fails with a 413 once the output passes maxBytes', async () => {
+    const payload = gzipSync(Buffer.alloc(64 * 1024, 'a'));
+    const error = await readAll(decompressStream(once(payload), 'gzip', { maxBytes: 16 * 1024, maxRatio: 1000 })).catch(e => e);
+
+    expect(error).toBeInstanceOf(DecompressionLimitError);
+    expect(error).toMatchObject({ statusCode: 413, code: 'FILE_TOO_LARGE', details: { maxBytes: 16 * 1024 } });
+  });
+
+  test('fails with a 413 when the ratio passes maxRatio', async () => {
+    // 8 MB of zeros compress to a few KB
+    const payload = gzipSync(Buffer.alloc(8 * 1024 * 1024));
+    const error = await openUpload(payload, { limits: { maxBytes: 1024 ** 3, maxRatio: 100 } }).catch(e => e);
+
+    expect(error).toBeInstanceOf(DecompressionLimitError);
+    expect(error).toMatchObject({ statusCode: 413, message: 'Compression ratio exceeds the maximum of 100:1' });
+  });
+
+  test('does not hold small repetitive files to the ratio', async () => {
+    const payload = gzipSync('region,country,amount\n' + 'EU,DE,1\n'.repeat(10_000));
+
+    expect((await openUpload(payload, { limits: { maxBytes: 1024 ** 2, maxRatio: 2 } })).fileType).toBe('csv');
+  });
+
+  test('rejects a corrupt payload with a 400', async () => {
+    const payload = gzipSync(CSV).subarray(0, 20);
+    const error = await readAll(decompressStream(once(payload), 'gzip')).catch(e => e);
+
+    expect(error).toMatchObject({ statusCode: 400, details: { compression: 'gzip' } });
+  });
+});
+
+describe('ZIP entries', () => {
+  test('readZipEntry stops inflating at the limits', () => {
+    const archive = zipOf({ 'big.csv': Buffer.alloc(4 * 1024 * 1024, 'a') });
+    const [entry] = listZipEntries(archive);
+
+    expect(readZipEntry(archive, entry, { maxBytes: 1024 ** 3, maxRatio: 1000 }).length).toBe(4 * 1024 * 1024);
+    expect(() => readZipEntry(archive, entry, { maxBytes: 1024 * 1024, maxRatio: 1000 })).toThrow(DecompressionLimitError);
+    expect(() => readZipEntry(archive, entry, { maxBytes: 1024 ** 3, maxRatio: 10 })).toThrow(DecompressionLimitError);
+  });
+
+  test('shares maxBytes between the entries of an archive', async () => {
+    const archive = zipOf({ 'a.csv': CSV + 'EU,DE,1\n'.repeat(1000), 'b.csv': CSV + 'EU,DE,1\n'.repeat(1000) });
+    const error = await processZipArchive(archive, await resolveImportOptions({}), { maxBytes: 12_000, maxRatio: 1000 }).catch(e => e);
+
+    expect(error).toBeInstanceOf(DecompressionLimitError);
+    expect(error.statusCode).toBe(413);
+  });
+});
+
+describe('ZIP batches', () => {
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet([['region', 'country', 'amount'], ['APAC', 'JP', 7]]), 'Sales');
+
+  const archive = zipOf({
+    'orders/eu.csv': CSV,
+    'orders/jp.xlsx': XLSX.write(workbook, { bookType: 'xlsx', type: 'buffer' }),
+    'orders/late.ndjson': '{"region":"EU","country":"DE","amount":1}\n',
+    'orders/gzipped.csv.gz': gzipSync('region,country,amount\nUS,CA,3\nUS,CA,4\n'),
+    'orders/broken.csv': 'region,country,amount\nEU,DE,x\nEU,DE,y\n',
+    'orders/nested.zip': zipOf({ 'inner.csv': CSV }),
+    'README.txt': 'Orders exported nightly.\nContact ops for access.\n',
+    'orders/manifest.xml': '<?xml version="1.0"?>\n<files>a,b</files>\n<files>c,d</files>\n',
+    'orders/logo.png': Buffer.concat([Buffer.from('89504e470d0a1a0a0000000d49484452', 'hex'), Buffer.from(',\n,\n')]),
+    '__MACOSX/orders/._eu.csv': 'a,b\nc,d\n',
+    'orders/.DS_Store': 'a,b\nc,d\n',
+  });
+
+  test('reads the supported entries and skips the rest', async () => {
+    const result = await processZipArchive(archive, await resolveImportOptions({}));
+    const entries = Object.fromEntries((result.entries ?? []).map(entry => [entry.fileName, entry]));
+
+    expect(Object.keys(entries).sort()).toEqual([
+      'orders/broken.csv',
+      'orders/eu.csv',
+      'orders/gzipped.csv.gz',
+      'orders/jp.xlsx',
+      'orders/late.ndjson',
+      'orders/nested.zip',
+    ]);
+    expect(entries['orders/eu.csv']).toMatchObject({ fileType: 'csv', rowCount: 3, successCount: 3 });
+    expect(entries['orders/jp.xlsx']).toMatchObject({ fileType: 'xlsx', rowCount: 1, successCount: 1 });
+    expect(entries['orders/late.ndjson']).toMatchObject({ fileType: 'ndjson', rowCount: 1 });
+    expect(entries['orders/gzipped.csv.gz']).toMatchObject({ fileType: 'csv', rowCount: 2 });
+    expect(entries['orders/broken.csv']).toMatchObject({ rowCount: 2, successCount: 0, errorCount: 2 });
+    expect(entries['orders/nested.zip']).toMatchObject({ error: 'Nested archives are not supported', rowCount: 0 });
+  });
+
+  test('rolls the entries up into the archive totals', async () => {
+    const result = await processZipArchive(archive, await resolveImportOptions({}));
+
+    expect([result.rowCount, result.successCount, result.errorCount]).toEqual([9, 7, 2]);
+    expect(result.summaries.map(summary => [summary.region, summary.country, summary.count, summary.amountSum])).toEqual([
+      ['APAC', 'JP', 1, 7],
+      ['EU', 'DE', 2, 11],
+      ['EU', 'FR', 1, 20],
+      ['US', 'CA', 2, 7],
+      ['US', 'US', 1, 5],
+    ]);
+  });
+
+  test('rejects an archive without supported entries', async () => {
+    const error = await processZipArchive(zipOf({ 'README.txt': 'nothing here\n', 'logo.xml': '<a/>' })).catch(e => e);
+
+    expect(error).toBeInstanceOf(InvalidFileTypeError);
+    expect(error).toMatchObject({ statusCode: 415, message: 'ZIP archive contains no supported files' });
+  });
+});
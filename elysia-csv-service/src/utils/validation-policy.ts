@@ -0,0 +1,236 @@
+/**
+ * Validation Policies
+ * How many rows of a file may fail validation before the whole file is rejected
+ */
+
+import {
+  METADATA_KEYS,
+  ValidationError,
+  ValidationPolicySchema,
+  ValidationThresholdExceededError,
+} from '../types.js';
+import type { RowError, ValidationPolicy } from '../types.js';
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+type ValidationMode = ValidationPolicy['mode'];
+
+const VALIDATION_MODES = ValidationPolicySchema.shape.mode.options;
+
+export const VALIDATION_POLICY_CONFIG = {
+  defaultPolicy: parsePolicyEnv('DEFAULT_VALIDATION_POLICY', process.env.DEFAULT_VALIDATION_POLICY),
+  tenantPolicies: parseTenantPolicies(process.env.TENANT_VALIDATION_POLICIES),
+};
+
+/**
+ * Rows a file must have reached before its error rate is checked while it
+ * is read; smaller files are checked once they are complete
+ */
+const ERROR_RATE_MIN_ROWS = 100;
+
+export interface ValidationCounts {
+  rowCount: number;
+  successCount: number;
+  errorCount: number;
+}
+
+// ============================================================================
+// Enforcement
+// ============================================================================
+
+/**
+ * Applies a validation policy while a file is read. Readers call
+ * afterError() for every failed row and finish() once the file is done;
+ * both throw a ValidationThresholdExceededError carrying the counts so far
+ * and the row errors collected when the policy rejects the file.
+ */
+export class ValidationGuard {
+  constructor(private readonly policy: ValidationPolicy = { mode: 'lenient' }) {}
+
+  afterError(counts: ValidationCounts, errors: RowError[]): void {
+    this.check(counts, errors, false);
+  }
+
+  finish(counts: ValidationCounts, errors: RowError[]): void {
+    this.check(counts, errors, true);
+  }
+
+  private check(counts: ValidationCounts, errors: RowError[], complete: boolean): void {
+    const reason = this.exceeded(counts, complete);
+    if (reason) {
+      throw new ValidationThresholdExceededError(reason, { policy: this.policy, ...counts, errors });
+    }
+  }
+
+  private exceeded({ rowCount, errorCount }: ValidationCounts, complete: boolean): string | undefined {
+    const { mode, maxErrors, maxErrorRate } = this.policy;
+    if (mode === 'lenient' || errorCount === 0) {
+      return undefined;
+    }
+    if (mode === 'strict') {
+      return 'File rejected by the strict validation policy: a row failed validation';
+    }
+
+    if (maxErrors !== undefined && errorCount > maxErrors) {
+      return `File rejected: ${errorCount} ${errorCount === 1 ? 'row' : 'rows'} failed validation, more than the ${maxErrors} allowed`;
+    }
+    if (
+      maxErrorRate !== undefined
+      && (complete || rowCount >= ERROR_RATE_MIN_ROWS)
+      && errorCount * 100 > maxErrorRate * rowCount
+    ) {
+      const rate = Math.round((errorCount / rowCount) * 10000) / 100;
+      return `File rejected: ${rate}% of rows failed validation, more than the ${maxErrorRate}% allowed`;
+    }
+    return undefined;
+  }
+}
+
+// ============================================================================
+// Policy Resolution
+// ============================================================================
+
+/**
+ * Pick the policy for a request. `validation_policy` selects the mode, and
+ * `max_errors` / `max_error_rate` set the limits of the threshold mode
+ * (giving either selects it). Whatever the request leaves open comes from
+ * the tenant's policy, else the service default.
+ */
+export function resolveValidationPolicy(metadata: Record<string, string>, tenantId?: string): ValidationPolicy {
+  const base = (tenantId && VALIDATION_POLICY_CONFIG.tenantPolicies[tenantId]) || VALIDATION_POLICY_CONFIG.defaultPolicy;
+
+  const modeValue = metadata[METADATA_KEYS.VALIDATION_POLICY];
+  if (modeValue && !(VALIDATION_MODES as readonly string[]).includes(modeValue)) {
+    throw new ValidationError(
+      `Invalid ${METADATA_KEYS.VALIDATION_POLICY}: expected one of ${VALIDATION_MODES.join(', ')}`,
+      { value: modeValue }
+    );
+  }
+
+  const maxErrors = parseMaxErrors(metadata[METADATA_KEYS.MAX_ERRORS]);
+  const maxErrorRate = parseMaxErrorRate(metadata[METADATA_KEYS.MAX_ERROR_RATE]);
+  const hasLimits = maxErrors !== undefined || maxErrorRate !== undefined;
+  const mode = (modeValue || (hasLimits ? 'threshold' : base.mode)) as ValidationMode;
+
+  if (mode !== 'threshold') {
+    if (hasLimits) {
+      throw new ValidationError(
+        `${METADATA_KEYS.MAX_ERRORS} and ${METADATA_KEYS.MAX_ERROR_RATE} only apply to the threshold ${METADATA_KEYS.VALIDATION_POLICY}`
+      );
+    }
+    return { mode };
+  }
+
+  const limits = hasLimits ? { maxErrors, maxErrorRate } : { maxErrors: base.maxErrors, maxErrorRate: base.maxErrorRate };
+  if (limits.maxErrors === undefined && limits.maxErrorRate === undefined) {
+    throw new ValidationError(
+      `The threshold ${METADATA_KEYS.VALIDATION_POLICY} needs ${METADATA_KEYS.MAX_ERRORS} or ${METADATA_KEYS.MAX_ERROR_RATE}`
+    );
+  }
+
+  return {
+    mode,
+    ...(limits.maxErrors !== undefined && { maxErrors: limits.maxErrors }),
+    ...(limits.maxErrorRate !== undefined && { maxErrorRate: limits.maxErrorRate }),
+  };
+}
+
+function parseMaxErrors(value: string | undefined): number | undefined {
+  if (value === undefined || value === '') {
+    return undefined;
+  }
+
+  const limit = Number(value);
+  if (!Number.isInteger(limit) || limit < 0) {
+    throw new ValidationError(`Invalid ${METADATA_KEYS.MAX_ERRORS}: expected a whole number from 0`, { value });
+  }
+  return limit;
+}
+
+/**
+ * Read a percentage from 0 to 100, with or without a `%` sign
+ */
+function parseMaxErrorRate(value: string | undefined): number | undefined {
+  if (value === undefined || value === '') {
+    return undefined;
+  }
+
+  const text = value.trim().replace(/%$/, '');
+  const rate = Number(text);
+  if (text === '' || !Number.isFinite(rate) || rate < 0 || rate > 100) {
+    throw new ValidationError(`Invalid ${METADATA_KEYS.MAX_ERROR_RATE}: expected a percentage from 0 to 100`, { value });
+  }
+  return rate;
+}
+
+/**
+ * Read a policy from the environment: a mode name or a JSON policy object
+ */
+function toPolicy(value: unknown): ValidationPolicy | undefined {
+  const result = ValidationPolicySchema.safeParse(typeof value === 'string' ? { mode: value } : value);
+  if (!result.success) {
+    return undefined;
+  }
+
+  const policy = result.data;
+  if (policy.mode === 'threshold' && policy.maxErrors === undefined && policy.maxErrorRate === undefined) {
+    return undefined;
+  }
+  return policy;
+}
+
+function parsePolicyEnv(name: string, value: string | undefined): ValidationPolicy {
+  if (!value) {
+    return { mode: 'lenient' };
+  }
+
+  let parsed: unknown = value;
+  if (value.trim().startsWith('{')) {
+    try {
+      parsed = JSON.parse(value);
+    } catch {
+      // Reported below
+    }
+  }
+
+  const policy = toPolicy(parsed);
+  if (!policy) {
+    console.warn(`Ignoring ${name}: expected strict, lenient or a JSON threshold policy`);
+    return { mode: 'lenient' };
+  }
+  return policy;
+}
+
+/**
+ * Read TENANT_VALIDATION_POLICIES, a JSON object of tenant ID to policy
+ */
+function parseTenantPolicies(value: string | undefined): Record<string, ValidationPolicy> {
+  if (!value) {
+    return {};
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(value);
+  } catch {
+    parsed = undefined;
+  }
+
+  const policies: Record<string, ValidationPolicy> = {};
+  if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+    for (const [tenantId, entry] of Object.entries(parsed)) {
+      const policy = toPolicy(entry);
+      if (policy) {
+        policies[tenantId] = policy;
+      } else {
+        console.warn(`Ignoring the TENANT_VALIDATION_POLICIES entry of ${tenantId}: not a valid policy`);
+      }
+    }
+    return policies;
+  }
+
+  console.warn('Ignoring TENANT_VALIDATION_POLICIES: expected a JSON object of tenant ID to policy');
+  return {};
+}
@@ -0,0 +1,87 @@
+import { afterAll, describe, expect, test } from 'bun:test';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { WorkerPool } from './worker-pool.js';
+
+const ROOT = join(import.meta.dir, '../..');
+
+describe('WorkerPool', () => {
+  test('is available only when its worker entry point loads', async () => {
+    const missing = new WorkerPool(new URL('./missing-worker.ts', import.meta.url), 1);
+    const present = new WorkerPool(new URL('./csv-worker.ts', import.meta.url), 1);
+
+    expect(await missing.available()).toBe(false);
+    expect(await present.available()).toBe(true);
+  });
+});
+
+describe('compiled binary', () => {
+  const dir = mkdtempSync(join(tmpdir(), 'csv-service-'));
+  afterAll(() => rmSync(dir, { recursive: true, force: true }));
+
+  const csv = 'region,country,amount\n' + Array.from({ length: 4000 }, (_, i) => `R${i % 3},C${i % 5},${i}`).join('\n') + '\n';
+
+  /**
+   * Compile the service with `bun build --compile`, start it with parallel
+   * parsing for every file, import the CSV and return the response and the log
+   */
+  async function importWithBinary(entryPoints: string[], port: number) {
+    const outfile = join(dir, `csv-service-${port}`);
+    const build = Bun.spawnSync([process.execPath, 'build', ...entryPoints, '--compile', '--outfile', outfile], { cwd: ROOT });
+    expect(build.exitCode).toBe(0);
+
+    const server = Bun.spawn([outfile], {
+      env: {
+        ...process.env,
+        PORT: String(port),
+        GRPC_PORT: String(port + 1),
+        OTEL_ENABLED: 'false',
+        PARSE_WORKERS: '2',
+        PARALLEL_PARSE_MIN_BYTES: '1',
+        PARALLEL_PARSE_CHUNK_BYTES: '4096',
+      },
+      stdout: 'pipe',
+      stderr: 'pipe',
+    });
+
+    try {
+      for (let attempt = 0; attempt < 100; attempt++) {
+        const ready = await fetch(`http://localhost:${port}/health`).then(res => res.ok, () => false);
+        if (ready) break;
+        await Bun.sleep(100);
+      }
+
+      const form = new FormData();
+      form.append('file', new File([csv], 'sales.csv'));
+      const res = await fetch(`http://localhost:${port}/api/v1/import`, { method: 'POST', body: form });
+      return { status: res.status, body: await res.json() as any, log: await stopAndRead(server) };
+    } finally {
+      server.kill();
+    }
+  }
+
+  async function stopAndRead(server: ReturnType<typeof Bun.spawn>): Promise<string> {
+    server.kill();
+    await server.exited;
+    return await new Response(server.stdout as ReadableStream).text() + await new Response(server.stderr as ReadableStream).text();
+  }
+
+  test('parses on workers bundled as a second entry point', async () => {
+    const { status, body, log } = await importWithBinary(['src/index.ts', 'src/utils/csv-worker.ts'], 39310);
+
+    expect(status).toBe(200);
+    expect(body.data.rowCount).toBe(4000);
+    expect(body.data.summaries).toHaveLength(15);
+    expect(log).not.toContain('Parse workers unavailable');
+  }, 60_000);
+
+  test('falls back to the main thread when the worker was not bundled', async () => {
+    const { status, body, log } = await importWithBinary(['src/index.ts'], 39320);
+
+    expect(status).toBe(200);
+    expect(body.data.rowCount).toBe(4000);
+    expect(body.data.summaries).toHaveLength(15);
+    expect(log).toContain('Parse workers unavailable');
+  }, 60_000);
+});
@@ -0,0 +1,113 @@
+/**
+ * Column Mapping HTTP Handlers
+ * Stores and retrieves reusable named column mappings per tenant
+ */
+
+import type { Context } from 'hono';
+import type { ContentfulStatusCode } from 'hono/utils/http-status';
+import { columnMappings } from '../utils/column-mapping.js';
+import { CsvProcessingError, NotFoundError, ValidationError } from '../types.js';
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function errorResponse(c: Context, error: unknown, requestId: string): Response {
+  if (!(error instanceof CsvProcessingError)) {
+    console.error('Column mapping error:', error);
+  }
+
+  return c.json({
+    success: false,
+    error: {
+      code: error instanceof CsvProcessingError ? error.code : 'INTERNAL_ERROR',
+      message: error instanceof Error ? error.message : 'An unknown error occurred',
+      details: error instanceof CsvProcessingError ? error.details : undefined,
+    },
+    requestId,
+  }, (error instanceof CsvProcessingError ? error.statusCode : 500) as ContentfulStatusCode);
+}
+
+// ============================================================================
+// Handler Functions
+// ============================================================================
+
+/**
+ * List the tenant's named column mappings
+ */
+export async function handleListColumnMappings(c: Context): Promise<Response> {
+  const requestId = c.get('requestId') || `http_${Date.now()}`;
+  const auth = c.get('auth');
+
+  try {
+    return c.json({
+      success: true,
+      data: await columnMappings.list(auth?.tenantId),
+      requestId,
+    }, 200);
+  } catch (error) {
+    return errorResponse(c, error, requestId);
+  }
+}
+
+/**
+ * Get a named column mapping
+ */
+export async function handleGetColumnMapping(c: Context<any, '/:name'>): Promise<Response> {
+  const requestId = c.get('requestId') || `http_${Date.now()}`;
+  const auth = c.get('auth');
+  const name = c.req.param('name');
+
+  try {
+    const entry = await columnMappings.get(name, auth?.tenantId);
+    if (!entry) {
+      throw new NotFoundError(`Column mapping not found: ${name}`, { name });
+    }
+
+    return c.json({ success: true, data: entry, requestId }, 200);
+  } catch (error) {
+    return errorResponse(c, error, requestId);
+  }
+}
+
+/**
+ * Create or replace a named column mapping from the JSON request body
+ */
+export async function handlePutColumnMapping(c: Context<any, '/:name'>): Promise<Response> {
+  const requestId = c.get('requestId') || `http_${Date.now()}`;
+  const auth = c.get('auth');
+  const name = c.req.param('name');
+
+  try {
+    let body: unknown;
+    try {
+      body = await c.req.json();
+    } catch {
+      throw new ValidationError('Invalid request body. Expected a JSON column mapping.');
+    }
+
+    const entry = await columnMappings.set(name, body, auth?.tenantId);
+    return c.json({ success: true, data: entry, requestId }, 200);
+  } catch (error) {
+    return errorResponse(c, error, requestId);
+  }
+}
+
+/**
+ * Delete a named column mapping
+ */
+export async function handleDeleteColumnMapping(c: Context<any, '/:name'>): Promise<Response> {
+  const requestId = c.get('requestId') || `http_${Date.now()}`;
+  const auth = c.get('auth');
+  const name = c.req.param('name');
+
+  try {
+    if (!(await columnMappings.delete(name, auth?.tenantId))) {
+      throw new NotFoundError(`Column mapping not found: ${name}`, { name });
+    }
+
+    return c.json({ success: true, data: { name }, requestId }, 200);
+  } catch (error) {
+    return errorResponse(c, error, requestId);
+  }
+}
@@ -0,0 +1,78 @@
+import { afterEach, beforeAll, describe, expect, test } from 'bun:test';
+import { Hono } from 'hono';
+import { PROCESSING_LIMITS } from '../utils/processing-limits.js';
+import type { SuccessResponse } from './csv-import.js';
+
+// Telemetry reads its switch when first imported, so the handler is imported after it is off
+process.env.OTEL_ENABLED = 'false';
+const { initializeOpenTelemetry } = await import('../telemetry/otel.js');
+const { handleFileImport } = await import('./csv-import.js');
+
+const app = new Hono();
+app.post('/import', handleFileImport);
+
+beforeAll(async () => {
+  await initializeOpenTelemetry();
+});
+
+/**
+ * Upload the file as a client would, with its metadata form field
+ */
+async function upload(fileName: string, content: string, metadata: Record<string, string> = {}) {
+  const form = new FormData();
+  form.append('file', new File([content], fileName));
+  form.append('metadata', JSON.stringify(metadata));
+  const response = await app.request('/import', { method: 'POST', body: form });
+  return { status: response.status, body: await response.json() as SuccessResponse };
+}
+
+describe('POST /import row errors', () => {
+  test('carry the line a record starts on, the source column, the value and the issue code', async () => {
+    // The quoted name spans lines 2 to 4, so the failing records start on lines 5 and 6
+    const csv = 'Region,Country,Amt\nEU,"Multi\nline\nname",10\nEU,FR,x\nUS,,5\n';
+    const { status, body } = await upload('sales.csv', csv, {
+      column_mapping: JSON.stringify({ synonyms: { amount: ['Amt'] } }),
+    });
+
+    expect(status).toBe(200);
+    expect(body.data).toMatchObject({ rowCount: 3, successCount: 1, errorCount: 2 });
+    expect(body.data.errors).toEqual([
+      { row: 5, field: 'amount', column: 'Amt', value: 'x', code: 'invalid_type', message: 'Expected number, received string' },
+      { row: 6, field: 'country', column: 'Country', value: '', code: 'too_small', message: 'Country is required' },
+    ]);
+  });
+
+  test('carry the line of an NDJSON record', async () => {
+    const { body } = await upload('orders.ndjson', '{"region":"EU","country":"DE","amount":1}\n{"region":"EU","country":"DE","amount":"y"}\n');
+
+    expect(body.data.errors).toEqual([
+      { row: 2, field: 'amount', column: 'amount', value: 'y', code: 'invalid_type', message: 'Expected number, received string' },
+    ]);
+  });
+});
+
+describe('POST /import processing limits', () => {
+  const limits = { ...PROCESSING_LIMITS };
+  afterEach(() => Object.assign(PROCESSING_LIMITS, limits));
+
+  const csv = 'region,country,amount\nEU,DE,1\nEU,DE,2\nEU,DE,3\n';
+
+  test('return a truncated result at MAX_ROWS_PER_FILE', async () => {
+    Object.assign(PROCESSING_LIMITS, { maxRowsPerFile: 2 });
+    const { status, body } = await upload('sales.csv', csv);
+
+    expect(status).toBe(200);
+    expect(body.data).toMatchObject({ rowCount: 2, successCount: 2, truncated: true });
+  });
+
+  test('answer 408 past PROCESSING_TIMEOUT_MS', async () => {
+    Object.assign(PROCESSING_LIMITS, { timeoutMs: 0 });
+    const { status, body } = await upload('sales.csv', csv);
+
+    expect(status).toBe(408);
+    expect(body).toMatchObject({
+      success: false,
+      error: { code: 'PROCESSING_TIMEOUT', details: { timeoutMs: 0, rowCount: 0 } },
+    });
+  });
+});
@@ -4,9 +4,33 @@
  */
 
 import type { Context } from 'hono';
-import { processCsvFile, processExcelFile, detectFileType } from '../utils/csv-parser.js';
+import type { ContentfulStatusCode } from 'hono/utils/http-status';
+import { resolveImportOptions } from '../utils/csv-parser.js';
+import type { ParseResult } from '../utils/csv-parser.js';
+import { openUpload, processUpload } from '../utils/upload.js';
+import { createProcessingSignal, releaseProcessingSignal } from '../utils/processing-limits.js';
+import { rejectedRows, toRejectedRowsLink } from '../utils/rejected-rows.js';
+import { pivotTables } from '../utils/pivot-table.js';
+import { toRowSchemaRef } from '../utils/row-schema.js';
+import { inferSchema, parseSampleRows } from '../utils/schema-inference.js';
+import type { Upload } from '../utils/upload.js';
 import { getCSVInstrumentation } from '../telemetry/otel.js';
-import { ValidationError, ServiceUnavailableError } from '../types.js';
+import { CsvProcessingError, ValidationError, FileUploadSchema, METADATA_KEYS } from '../types.js';
+import type {
+  AggregationResult,
+  ArchiveEntryResult,
+  ColumnMappingReport,
+  CompressionFormat,
+  CsvDialect,
+  PivotTable,
+  RegionSummary,
+  RejectedRowsLink,
+  RowError,
+  RowSchemaRef,
+  SchemaInferenceResult,
+  SheetResult,
+  TimeSeriesResult,
+} from '../types.js';
 
 // ============================================================================
 // Response Types
@@ -18,23 +42,30 @@ interface SuccessResponse {
     rowCount: number;
     successCount: number;
     errorCount: number;
-    summaries: Array<{
-      region: string;
-      country: string;
-      count: number;
-      amountSum: number;
-      amountAvg: number;
-    }>;
+    summaries: RegionSummary[];
     stats: {
       parseDurationMs: number;
       validateDurationMs: number;
       aggregateDurationMs: number;
       totalDurationMs: number;
+      encoding?: string;
     };
+    dialect?: CsvDialect;
+    sheets?: SheetResult[];
+    entries?: ArchiveEntryResult[];
+    columns?: ColumnMappingReport;
+    errors?: RowError[];
+    truncated?: boolean;
+    rejectedRows?: RejectedRowsLink;
+    schema?: RowSchemaRef;
+    aggregation?: AggregationResult;
+    timeSeries?: TimeSeriesResult;
+    pivot?: PivotTable;
   };
   requestId: string;
   fileName: string;
   fileType: string;
+  compression?: CompressionFormat;
 }
 
 interface ErrorResponse {
@@ -47,6 +78,25 @@ interface ErrorResponse {
   requestId: string;
 }
 
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Parse the optional `metadata` form field (a JSON object of string values)
+ */
+function parseUploadMetadata(value: unknown): Record<string, string> {
+  if (value === undefined || value === '') {
+    return {};
+  }
+
+  try {
+    return FileUploadSchema.shape.metadata.parse(typeof value === 'string' ? JSON.parse(value) : value);
+  } catch {
+    throw new ValidationError('Invalid metadata. Expected a JSON object of string values.');
+  }
+}
+
 // ============================================================================
 // Handler Functions
 // ============================================================================
@@ -59,6 +109,7 @@ export async function handleFileImport(c: Context): Promise<Response> {
   const requestId = c.get('requestId') || `http_${Date.now()}`;
   const auth = c.get('auth');
   const startTime = Date.now();
+  const signal = createProcessingSignal(c.req.raw.signal);
 
   // Increment active requests
   instrumentation.incrementActiveRequests({
@@ -75,6 +126,12 @@ export async function handleFileImport(c: Context): Promise<Response> {
       throw new ValidationError('No file provided. Please upload a CSV or Excel file.');
     }
 
+    const options = {
+      ...await resolveImportOptions(parseUploadMetadata(formData.metadata), auth?.tenantId),
+      keepRejectedRows: true,
+      signal,
+    };
+
     // Validate file size
     const maxSize = parseInt(process.env.MAX_FILE_SIZE || '104857600', 10); // 100MB default
     if (file.size > maxSize) {
@@ -84,19 +141,10 @@ export async function handleFileImport(c: Context): Promise<Response> {
       );
     }
 
-    // Detect file type
-    const buffer = Buffer.from(await file.arrayBuffer());
-    const detectedType = detectFileType(buffer);
+    // Decompress and detect the file type; unsupported types are rejected here
     const fileName = file.name;
-
-    // Validate file type
-    const validTypes = ['csv', 'xlsx'];
-    if (!validTypes.includes(detectedType)) {
-      throw new ValidationError(
-        `Invalid file type. Only CSV and Excel files are supported.`,
-        { detectedType, fileName }
-      );
-    }
+    const upload = await openUpload(file.stream(), { fileName });
+    const detectedType = upload.fileType;
 
     // Process file with OTEL tracing
     const result = await instrumentation.withFileProcessSpan(
@@ -114,11 +162,7 @@ export async function handleFileImport(c: Context): Promise<Response> {
         }
 
         // Process based on file type
-        if (detectedType === 'csv') {
-          return await processCsvFile(buffer);
-        } else {
-          return await processExcelFile(buffer);
-        }
+        return await processUpload(upload, options);
       }
     );
 
@@ -150,10 +194,22 @@ export async function handleFileImport(c: Context): Promise<Response> {
         errorCount: result.errorCount,
         summaries: result.summaries,
         stats: result.stats,
+        dialect: result.dialect,
+        sheets: result.sheets,
+        entries: result.entries,
+        columns: result.columns,
+        errors: result.errors,
+        truncated: result.truncated,
+        rejectedRows: toRejectedRowsLink(await rejectedRows.save(result.rejected, fileName, auth?.tenantId)),
+        schema: toRowSchemaRef(options.rowSchema),
+        aggregation: result.aggregator?.query?.toResult(),
+        timeSeries: result.aggregator?.timeSeries?.toResult(),
+        pivot: await pivotTables.save(result.aggregator?.toPivotTable(), fileName, auth?.tenantId),
       },
       requestId,
       fileName,
       fileType: detectedType,
+      compression: upload.compression,
     };
 
     return c.json(response, 200);
@@ -165,7 +221,7 @@ export async function handleFileImport(c: Context): Promise<Response> {
     });
 
     const duration = Date.now() - startTime;
-    const isKnownError = error instanceof ValidationError;
+    const isKnownError = error instanceof CsvProcessingError;
 
     if (!isKnownError) {
       console.error('Error processing file:', error);
@@ -174,17 +230,14 @@ export async function handleFileImport(c: Context): Promise<Response> {
     const response: ErrorResponse = {
       success: false,
       error: {
-        code: error instanceof ValidationError ? 'VALIDATION_ERROR' :
-              error instanceof ServiceUnavailableError ? 'SERVICE_UNAVAILABLE' :
-              'INTERNAL_ERROR',
+        code: error instanceof CsvProcessingError ? error.code : 'INTERNAL_ERROR',
         message: error instanceof Error ? error.message : 'An unknown error occurred',
-        details: error instanceof ValidationError ? error.details : undefined,
+        details: error instanceof CsvProcessingError ? error.details : undefined,
       },
       requestId,
     };
 
-    const statusCode = error instanceof ValidationError ? 400 :
-                      error instanceof ServiceUnavailableError ? 503 : 500;
+    const statusCode = (error instanceof CsvProcessingError ? error.statusCode : 500) as ContentfulStatusCode;
 
     instrumentation.recordHttpRequest(
       'POST',
@@ -199,6 +252,8 @@ export async function handleFileImport(c: Context): Promise<Response> {
     );
 
     return c.json(response, statusCode);
+  } finally {
+    releaseProcessingSignal(signal);
   }
 }
 
@@ -213,6 +268,10 @@ export async function handleBatchImport(c: Context): Promise<Response> {
   try {
     const formData = await c.req.parseBody({ all: true });
     const files = formData.files as File[] | File;
+    const options = {
+      ...await resolveImportOptions(parseUploadMetadata(formData.metadata), auth?.tenantId),
+      keepRejectedRows: true,
+    };
 
     const fileArray = Array.isArray(files) ? files : [files];
     const results: unknown[] = [];
@@ -222,20 +281,28 @@ export async function handleBatchImport(c: Context): Promise<Response> {
     for (const file of fileArray) {
       if (!(file instanceof File)) continue;
 
-      const buffer = Buffer.from(await file.arrayBuffer());
-      const detectedType = detectFileType(buffer);
-
-      let result: any;
-      if (detectedType === 'csv') {
-        result = await processCsvFile(buffer);
-      } else if (detectedType === 'xlsx') {
-        result = await processExcelFile(buffer);
-      } else {
+      let upload: Upload;
+      let result: ParseResult;
+      let aggregation: AggregationResult | undefined;
+      let timeSeries: TimeSeriesResult | undefined;
+      // Each file gets the full processing time limit
+      const signal = createProcessingSignal(c.req.raw.signal);
+      try {
+        upload = await openUpload(file.stream(), { fileName: file.name });
+        result = await processUpload(upload, { ...options, signal });
+        aggregation = result.aggregator?.query?.toResult();
+        timeSeries = result.aggregator?.timeSeries?.toResult();
+      } catch (error) {
+        // Malformed files are reported per file; anything else fails the batch
+        if (!(error instanceof CsvProcessingError)) throw error;
         results.push({
           fileName: file.name,
-          error: 'Unsupported file type',
+          error: error.message,
+          details: error.details,
         });
         continue;
+      } finally {
+        releaseProcessingSignal(signal);
       }
 
       totalRows += result.rowCount;
@@ -243,11 +310,22 @@ export async function handleBatchImport(c: Context): Promise<Response> {
 
       results.push({
         fileName: file.name,
-        fileType: detectedType,
+        fileType: upload.fileType,
+        compression: upload.compression,
         rowCount: result.rowCount,
         successCount: result.successCount,
         errorCount: result.errorCount,
         summaries: result.summaries,
+        dialect: result.dialect,
+        sheets: result.sheets,
+        entries: result.entries,
+        columns: result.columns,
+        errors: result.errors,
+        truncated: result.truncated,
+        rejectedRows: toRejectedRowsLink(await rejectedRows.save(result.rejected, file.name, auth?.tenantId)),
+        aggregation,
+        timeSeries,
+        pivot: await pivotTables.save(result.aggregator?.toPivotTable(), file.name, auth?.tenantId),
       });
     }
 
@@ -258,22 +336,83 @@ export async function handleBatchImport(c: Context): Promise<Response> {
         processedFiles: results.length,
         totalRows,
         totalErrors,
+        schema: toRowSchemaRef(options.rowSchema),
         results,
       },
       requestId,
     }, 200);
 
   } catch (error) {
-    console.error('Batch import error:', error);
+    if (!(error instanceof CsvProcessingError)) {
+      console.error('Batch import error:', error);
+    }
 
     return c.json({
       success: false,
       error: {
-        code: 'INTERNAL_ERROR',
+        code: error instanceof CsvProcessingError ? error.code : 'INTERNAL_ERROR',
         message: error instanceof Error ? error.message : 'Batch import failed',
       },
       requestId,
-    }, 500);
+    }, (error instanceof CsvProcessingError ? error.statusCode : 500) as ContentfulStatusCode);
+  }
+}
+
+/**
+ * Handle schema inference: sample an uploaded file and return its detected
+ * columns with a draft row schema
+ */
+export async function handleSchemaInference(c: Context): Promise<Response> {
+  const requestId = c.get('requestId') || `http_${Date.now()}`;
+  const auth = c.get('auth');
+
+  try {
+    const formData = await c.req.parseBody({ all: true });
+    const file = formData.file as File;
+
+    if (!file || !(file instanceof File)) {
+      throw new ValidationError('No file provided. Please upload a sample file.');
+    }
+
+    const metadata = parseUploadMetadata(formData.metadata);
+    const options = await resolveImportOptions(metadata, auth?.tenantId);
+    const sampleRows = parseSampleRows(metadata[METADATA_KEYS.SAMPLE_ROWS]);
+
+    const maxSize = parseInt(process.env.MAX_FILE_SIZE || '104857600', 10); // 100MB default
+    if (file.size > maxSize) {
+      throw new ValidationError(
+        `File size exceeds maximum allowed size of ${maxSize / 1024 / 1024}MB`,
+        { fileSize: file.size, maxSize }
+      );
+    }
+
+    const upload = await openUpload(file.stream(), { fileName: file.name });
+    const inference = await inferSchema(upload, options, sampleRows);
+
+    const data: SchemaInferenceResult = {
+      requestId,
+      fileName: file.name,
+      fileType: upload.fileType,
+      compression: upload.compression,
+      ...inference,
+    };
+    return c.json({ success: true, data, requestId }, 200);
+
+  } catch (error) {
+    if (!(error instanceof CsvProcessingError)) {
+      console.error('Schema inference error:', error);
+    }
+
+    const response: ErrorResponse = {
+      success: false,
+      error: {
+        code: error instanceof CsvProcessingError ? error.code : 'INTERNAL_ERROR',
+        message: error instanceof Error ? error.message : 'An unknown error occurred',
+        details: error instanceof CsvProcessingError ? error.details : undefined,
+      },
+      requestId,
+    };
+    return c.json(response, (error instanceof CsvProcessingError ? error.statusCode : 500) as ContentfulStatusCode);
   }
 }
 
@@ -440,6 +579,11 @@ export async function handleServiceInfo(c: Context): Promise<Response> {
       http: {
         import: 'POST /api/v1/import',
         batchImport: 'POST /api/v1/batch',
+        columnMappings: 'GET/PUT/DELETE /api/v1/mappings/:name',
+        rowSchemas: 'GET/PUT/DELETE /api/v1/schemas/:name',
+        schemaInference: 'POST /api/v1/schemas/infer',
+        rejectedRows: 'GET /api/v1/results/:id/rejected',
+        pivotTable: 'GET /api/v1/results/:id/pivot',
         health: 'GET /api/v1/health',
         metrics: 'GET /metrics',
       },
@@ -0,0 +1,117 @@
+import { beforeAll, describe, expect, test } from 'bun:test';
+import { EventEmitter } from 'events';
+import { Readable } from 'stream';
+import * as grpc from '@grpc/grpc-js';
+import * as XLSX from 'xlsx';
+
+// Telemetry reads its switch when first imported, so the handler is imported after it is off
+process.env.OTEL_ENABLED = 'false';
+const { initializeOpenTelemetry } = await import('../telemetry/otel.js');
+const { GrpcServiceHandler } = await import('./grpc-service.js');
+const { columnMappings } = await import('../utils/column-mapping.js');
+
+let handler: InstanceType<typeof GrpcServiceHandler>;
+
+beforeAll(async () => {
+  await initializeOpenTelemetry();
+  handler = new GrpcServiceHandler(0);
+});
+
+/**
+ * Call ProcessFile as the server would, without a network, and return the
+ * response as a client decodes it from the wire, 64-bit integers as strings
+ */
+async function processFile(fileName: string, fileData: Buffer, metadata: Record<string, string> = {}): Promise<any> {
+  const call = Object.assign(new EventEmitter(), {
+    request: { file_name: fileName, file_data: fileData, file_type: '', metadata },
+    metadata: new grpc.Metadata(),
+    getDeadline: () => Infinity,
+  });
+  const response = await new Promise((resolve, reject) => {
+    handler['processFile'](call as any, (error, value) => (error ? reject(error) : resolve(value)));
+  });
+
+  const method = handler['packageDefinition']['csvservice.CSVService'].ProcessFile;
+  return method.responseDeserialize(method.responseSerialize(response));
+}
+
+describe('ProcessFile row errors', () => {
+  test('carry the row, source column, value and issue code of each failed field', async () => {
+    const csv = 'Region,Country,Amt\nEU,"Multi\nline",10\nEU,FR,x\nUS,,5\n';
+    const response = await processFile('sales.csv', Buffer.from(csv), {
+      column_mapping: JSON.stringify({ synonyms: { amount: ['Amt'] } }),
+    });
+
+    expect(response.error_count).toBe('2');
+    expect(response.errors).toEqual([
+      { row: '4', sheet: '', field: 'amount', column: 'Amt', value: 'x', code: 'invalid_type', message: 'Expected number, received string' },
+      { row: '5', sheet: '', field: 'country', column: 'Country', value: '', code: 'too_small', message: 'Country is required' },
+    ]);
+  });
+
+  test('are reported per entry of a ZIP archive', async () => {
+    const archive = XLSX.CFB.utils.cfb_new();
+    XLSX.CFB.utils.cfb_add(archive, 'broken.csv', Buffer.from('region,country,amount\nEU,DE,1\nEU,DE,y\n'));
+    const zip = Buffer.from(XLSX.CFB.write(archive, { fileType: 'zip', type: 'buffer', compression: true }));
+
+    const response = await processFile('orders.zip', zip);
+
+    expect(response.errors).toEqual([]);
+    expect(response.entries[0].errors).toEqual([
+      { row: '3', sheet: '', field: 'amount', column: 'amount', value: 'y', code: 'invalid_type', message: 'Expected number, received string' },
+    ]);
+  });
+});
+
+/**
+ * Stream the chunks to ProcessFileStream as the given tenant and return the
+ * progress messages written back
+ */
+async function processFileStream(chunks: object[], tenantId?: string): Promise<Array<Record<string, unknown>>> {
+  const progress: Array<Record<string, unknown>> = [];
+  const metadata = new grpc.Metadata();
+  if (tenantId) metadata.set('tenant-id', tenantId);
+
+  const call = Object.assign(Readable.from(chunks), {
+    metadata,
+    getDeadline: () => Infinity,
+    write: (message: Record<string, unknown>) => progress.push(message),
+    end: () => {},
+  });
+  await handler['processFileStream'](call as any);
+  return progress;
+}
+
+describe('ProcessFileStream', () => {
+  const csv = 'Region,Country,Amt\nEU,DE,10\nEU,FR,x\n';
+  const chunks = [
+    { chunk_data: Buffer.from(csv.slice(0, 20)), chunk_index: 0, metadata: { column_mapping_name: 'sales', max_errors: '0' } },
+    { chunk_data: Buffer.from(csv.slice(20)), chunk_index: 1, is_last: true },
+  ];
+
+  beforeAll(async () => {
+    await columnMappings.set('sales', { synonyms: { amount: ['Amt'] } }, 'acme');
+  });
+
+  test('reads the import options of the first chunk with the mappings of the tenant', async () => {
+    const progress = await processFileStream(chunks, 'acme');
+
+    expect(progress.at(-1)).toEqual({
+      status: 'error',
+      message: 'File rejected: 1 row failed validation, more than the 0 allowed',
+    });
+  });
+
+  test('does not read the mappings of another tenant', async () => {
+    const progress = await processFileStream(chunks, 'globex');
+
+    expect(progress.at(-1)).toEqual({ status: 'error', message: 'Unknown column mapping: sales' });
+  });
+
+  test('reports the rows processed', async () => {
+    const progress = await processFileStream([{ ...chunks[0], metadata: { column_mapping_name: 'sales' } }, chunks[1]], 'acme');
+
+    expect(progress.map(message => message.status)).toEqual(['receiving', 'receiving', 'complete']);
+    expect(progress.at(-1)).toMatchObject({ processed_rows: 2, message: 'Processing complete' });
+  });
+});
@@ -0,0 +1,81 @@
+import { beforeAll, describe, expect, test } from 'bun:test';
+import { Hono } from 'hono';
+import * as XLSX from 'xlsx';
+import type { SuccessResponse } from './csv-import.js';
+import type { AuthContext } from '../types.js';
+
+// Telemetry reads its switch when first imported, so the handlers are imported after it is off
+process.env.OTEL_ENABLED = 'false';
+const { initializeOpenTelemetry } = await import('../telemetry/otel.js');
+const { handleFileImport } = await import('./csv-import.js');
+const { handleDownloadPivotTable } = await import('./pivot-table.js');
+
+// The tenant of a request comes from a test header in place of a token
+const app = new Hono<{ Variables: { auth: AuthContext } }>();
+app.use('*', async (c, next) => {
+  const tenantId = c.req.header('X-Test-Tenant');
+  c.set('auth', { isAuthenticated: tenantId !== undefined, userId: 'tester', tenantId, scopes: [] });
+  await next();
+});
+app.post('/import', handleFileImport);
+app.get('/results/:id/pivot', handleDownloadPivotTable);
+
+beforeAll(async () => {
+  await initializeOpenTelemetry();
+});
+
+const CSV = 'region,country,amount\nEU,DE,10\nEU,FR,2.5\nUS,US,5\nUS,DE,1\n';
+
+/**
+ * Import the file with a pivot of amount by region and country and return
+ * the pivot table of the response
+ */
+async function importPivot(headers: Record<string, string> = {}) {
+  const form = new FormData();
+  form.append('file', new File([CSV], 'sales.csv'));
+  form.append('metadata', JSON.stringify({ pivot: JSON.stringify({ rows: 'region', columns: 'country' }) }));
+  const response = await app.request('/import', { method: 'POST', body: form, headers });
+  return (await response.json() as SuccessResponse).data.pivot!;
+}
+
+describe('GET /results/:id/pivot', () => {
+  test('downloads the pivot table of an import as a workbook', async () => {
+    const pivot = await importPivot();
+    expect(pivot).toMatchObject({
+      columns: ['DE', 'FR', 'US'],
+      rows: [
+        { value: 'EU', cells: [10, 2.5, null], total: 12.5 },
+        { value: 'US', cells: [1, null, 5], total: 6 },
+      ],
+      columnTotals: [11, 2.5, 5],
+      grandTotal: 18.5,
+    });
+
+    const response = await app.request(pivot.download!.url.replace('/api/v1', ''));
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Content-Type')).toBe('application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+    expect(response.headers.get('Content-Disposition')).toBe('attachment; filename="sales.pivot.xlsx"');
+    const workbook = XLSX.read(await response.arrayBuffer());
+    expect(XLSX.utils.sheet_to_json(workbook.Sheets.Pivot, { header: 1, defval: null })).toEqual([
+      ['sum of amount: region \\ country', 'DE', 'FR', 'US', 'Total'],
+      ['EU', 10, 2.5, null, 12.5],
+      ['US', 1, null, 5, 6],
+      ['Total', 11, 2.5, 5, 18.5],
+    ]);
+  });
+
+  test('answers 404 in the error envelope outside the tenant of the import', async () => {
+    const pivot = await importPivot({ 'X-Test-Tenant': 'acme' });
+    const path = pivot.download!.url.replace('/api/v1', '');
+    expect((await app.request(path, { headers: { 'X-Test-Tenant': 'acme' } })).status).toBe(200);
+
+    const response = await app.request(path, { headers: { 'X-Test-Tenant': 'globex' } });
+
+    expect(response.status).toBe(404);
+    expect(await response.json()).toMatchObject({
+      success: false,
+      error: { code: 'NOT_FOUND', message: `Pivot table not found or expired: ${pivot.download!.id}` },
+    });
+  });
+});
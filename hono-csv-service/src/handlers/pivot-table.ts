@@ -0,0 +1,44 @@
+/**
+ * Pivot Table HTTP Handler
+ * Serves the pivot table of an import as an XLSX download
+ */
+
+import type { Context } from 'hono';
+import type { ContentfulStatusCode } from 'hono/utils/http-status';
+import { downloadPivotTable } from '../utils/pivot-table.js';
+import { CsvProcessingError } from '../types.js';
+
+// ============================================================================
+// Handler Functions
+// ============================================================================
+
+/**
+ * Download the pivot table of an import result as a one-sheet workbook
+ */
+export async function handleDownloadPivotTable(c: Context<any, '/:id/pivot'>): Promise<Response> {
+  const requestId = c.get('requestId') || `http_${Date.now()}`;
+  const auth = c.get('auth');
+
+  try {
+    const download = await downloadPivotTable(c.req.param('id'), auth?.tenantId);
+
+    return c.body(download.body, 200, {
+      'Content-Type': download.contentType,
+      'Content-Disposition': `attachment; filename="${download.fileName.replace(/["\\]/g, '_')}"`,
+    });
+  } catch (error) {
+    if (!(error instanceof CsvProcessingError)) {
+      console.error('Pivot table download error:', error);
+    }
+
+    return c.json({
+      success: false,
+      error: {
+        code: error instanceof CsvProcessingError ? error.code : 'INTERNAL_ERROR',
+        message: error instanceof Error ? error.message : 'An unknown error occurred',
+        details: error instanceof CsvProcessingError ? error.details : undefined,
+      },
+      requestId,
+    }, (error instanceof CsvProcessingError ? error.statusCode : 500) as ContentfulStatusCode);
+  }
+}
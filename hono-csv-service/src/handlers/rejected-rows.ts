@@ -0,0 +1,45 @@
+/**
+ * Rejected Rows HTTP Handler
+ * Serves the rows of an import that failed validation as a CSV or XLSX download
+ */
+
+import type { Context } from 'hono';
+import type { ContentfulStatusCode } from 'hono/utils/http-status';
+import { downloadRejectedRows } from '../utils/rejected-rows.js';
+import { CsvProcessingError } from '../types.js';
+
+// ============================================================================
+// Handler Functions
+// ============================================================================
+
+/**
+ * Download the rejected rows of an import result, as `?format=csv` or
+ * `?format=xlsx` (default: the format of the uploaded file)
+ */
+export async function handleDownloadRejectedRows(c: Context<any, '/:id/rejected'>): Promise<Response> {
+  const requestId = c.get('requestId') || `http_${Date.now()}`;
+  const auth = c.get('auth');
+
+  try {
+    const download = await downloadRejectedRows(c.req.param('id'), c.req.query('format'), auth?.tenantId);
+
+    return c.body(download.body, 200, {
+      'Content-Type': download.contentType,
+      'Content-Disposition': `attachment; filename="${download.fileName.replace(/["\\]/g, '_')}"`,
+    });
+  } catch (error) {
+    if (!(error instanceof CsvProcessingError)) {
+      console.error('Rejected rows download error:', error);
+    }
+
+    return c.json({
+      success: false,
+      error: {
+        code: error instanceof CsvProcessingError ? error.code : 'INTERNAL_ERROR',
+        message: error instanceof Error ? error.message : 'An unknown error occurred',
+        details: error instanceof CsvProcessingError ? error.details : undefined,
+      },
+      requestId,
+    }, (error instanceof CsvProcessingError ? error.statusCode : 500) as ContentfulStatusCode);
+  }
+}
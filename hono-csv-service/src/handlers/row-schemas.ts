@@ -0,0 +1,152 @@
+/**
+ * Row Schema HTTP Handlers
+ * Registers and retrieves versioned named row schemas per tenant
+ */
+
+import type { Context } from 'hono';
+import type { ContentfulStatusCode } from 'hono/utils/http-status';
+import { rowSchemas } from '../utils/row-schema.js';
+import { CsvProcessingError, NotFoundError, ValidationError } from '../types.js';
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function errorResponse(c: Context, error: unknown, requestId: string): Response {
+  if (!(error instanceof CsvProcessingError)) {
+    console.error('Row schema error:', error);
+  }
+
+  return c.json({
+    success: false,
+    error: {
+      code: error instanceof CsvProcessingError ? error.code : 'INTERNAL_ERROR',
+      message: error instanceof Error ? error.message : 'An unknown error occurred',
+      details: error instanceof CsvProcessingError ? error.details : undefined,
+    },
+    requestId,
+  }, (error instanceof CsvProcessingError ? error.statusCode : 500) as ContentfulStatusCode);
+}
+
+/**
+ * Read the optional `?version=` query parameter
+ */
+function parseVersion(value: string | undefined): number | undefined {
+  if (value === undefined || value === '') {
+    return undefined;
+  }
+
+  const version = Number(value);
+  if (!Number.isInteger(version) || version < 1) {
+    throw new ValidationError('Invalid version: expected a positive whole number', { value });
+  }
+  return version;
+}
+
+// ============================================================================
+// Handler Functions
+// ============================================================================
+
+/**
+ * List the latest version of each of the tenant's row schemas
+ */
+export async function handleListRowSchemas(c: Context): Promise<Response> {
+  const requestId = c.get('requestId') || `http_${Date.now()}`;
+  const auth = c.get('auth');
+
+  try {
+    return c.json({
+      success: true,
+      data: await rowSchemas.list(auth?.tenantId),
+      requestId,
+    }, 200);
+  } catch (error) {
+    return errorResponse(c, error, requestId);
+  }
+}
+
+/**
+ * Get a row schema at its latest version, or the one given by `?version=`
+ */
+export async function handleGetRowSchema(c: Context<any, '/:name'>): Promise<Response> {
+  const requestId = c.get('requestId') || `http_${Date.now()}`;
+  const auth = c.get('auth');
+  const name = c.req.param('name');
+
+  try {
+    const version = parseVersion(c.req.query('version'));
+    const entry = await rowSchemas.get(name, version, auth?.tenantId);
+    if (!entry) {
+      throw new NotFoundError(
+        version === undefined ? `Row schema not found: ${name}` : `Row schema version not found: ${name} v${version}`,
+        { name, version }
+      );
+    }
+
+    return c.json({ success: true, data: entry, requestId }, 200);
+  } catch (error) {
+    return errorResponse(c, error, requestId);
+  }
+}
+
+/**
+ * List every version of a row schema
+ */
+export async function handleListRowSchemaVersions(c: Context<any, '/:name/versions'>): Promise<Response> {
+  const requestId = c.get('requestId') || `http_${Date.now()}`;
+  const auth = c.get('auth');
+  const name = c.req.param('name');
+
+  try {
+    const versions = await rowSchemas.versions(name, auth?.tenantId);
+    if (!versions) {
+      throw new NotFoundError(`Row schema not found: ${name}`, { name });
+    }
+
+    return c.json({ success: true, data: versions, requestId }, 200);
+  } catch (error) {
+    return errorResponse(c, error, requestId);
+  }
+}
+
+/**
+ * Register a new version of a row schema from the JSON request body
+ */
+export async function handlePutRowSchema(c: Context<any, '/:name'>): Promise<Response> {
+  const requestId = c.get('requestId') || `http_${Date.now()}`;
+  const auth = c.get('auth');
+  const name = c.req.param('name');
+
+  try {
+    let body: unknown;
+    try {
+      body = await c.req.json();
+    } catch {
+      throw new ValidationError('Invalid request body. Expected a JSON row schema.');
+    }
+
+    const entry = await rowSchemas.register(name, body, auth?.tenantId);
+    return c.json({ success: true, data: entry, requestId }, 200);
+  } catch (error) {
+    return errorResponse(c, error, requestId);
+  }
+}
+
+/**
+ * Delete a row schema with all its versions
+ */
+export async function handleDeleteRowSchema(c: Context<any, '/:name'>): Promise<Response> {
+  const requestId = c.get('requestId') || `http_${Date.now()}`;
+  const auth = c.get('auth');
+  const name = c.req.param('name');
+
+  try {
+    if (!(await rowSchemas.delete(name, auth?.tenantId))) {
+      throw new NotFoundError(`Row schema not found: ${name}`, { name });
+    }
+
+    return c.json({ success: true, data: { name }, requestId }, 200);
+  } catch (error) {
+    return errorResponse(c, error, requestId);
+  }
+}
@@ -32,9 +32,26 @@ import {
   handleMetrics,
   handleConsulHealth,
   handleServiceInfo,
+  handleSchemaInference,
 } from './handlers/csv-import.js';
+import {
+  handleListColumnMappings,
+  handleGetColumnMapping,
+  handlePutColumnMapping,
+  handleDeleteColumnMapping,
+} from './handlers/column-mappings.js';
+import {
+  handleListRowSchemas,
+  handleGetRowSchema,
+  handleListRowSchemaVersions,
+  handlePutRowSchema,
+  handleDeleteRowSchema,
+} from './handlers/row-schemas.js';
+import { handleDownloadRejectedRows } from './handlers/rejected-rows.js';
+import { handleDownloadPivotTable } from './handlers/pivot-table.js';
 import { createGrpcServer } from './handlers/grpc-service.js';
 import { createConsulClient, buildServiceConfig } from './discovery/consul.js';
+import { sharedStore } from './utils/shared-store.js';
 import { ERROR_CODES, REQUIRED_SCOPES } from './types.js';
 
 // ============================================================================
@@ -142,6 +159,55 @@ importRoutes.post('/batch', handleBatchImport);
 // Mount import routes
 apiV1.route('/import', importRoutes);
 
+// ============================================================================
+// Column Mapping Endpoints
+// ============================================================================
+
+const mappingRoutes = new Hono();
+
+// Named column mappings, referenced from imports by `column_mapping_name`
+mappingRoutes.get('/', handleListColumnMappings);
+mappingRoutes.get('/:name', handleGetColumnMapping);
+mappingRoutes.put('/:name', handlePutColumnMapping);
+mappingRoutes.delete('/:name', handleDeleteColumnMapping);
+
+// Mount column mapping routes
+apiV1.route('/mappings', mappingRoutes);
+
+// ============================================================================
+// Row Schema Endpoints
+// ============================================================================
+
+const schemaRoutes = new Hono();
+
+// Versioned row schemas, referenced from imports by `schema_name`
+schemaRoutes.get('/', handleListRowSchemas);
+schemaRoutes.get('/:name', handleGetRowSchema);
+schemaRoutes.get('/:name/versions', handleListRowSchemaVersions);
+schemaRoutes.put('/:name', handlePutRowSchema);
+schemaRoutes.delete('/:name', handleDeleteRowSchema);
+
+// Draft a row schema from a sample of an uploaded file
+schemaRoutes.post('/infer', handleSchemaInference);
+
+// Mount row schema routes
+apiV1.route('/schemas', schemaRoutes);
+
+// ============================================================================
+// Result Endpoints
+// ============================================================================
+
+const resultRoutes = new Hono();
+
+// Rows of an import that failed validation, linked from its `rejectedRows`
+resultRoutes.get('/:id/rejected', handleDownloadRejectedRows);
+
+// XLSX sheet of the pivot table of an import, linked from its `pivot.download`
+resultRoutes.get('/:id/pivot', handleDownloadPivotTable);
+
+// Mount result routes
+apiV1.route('/results', resultRoutes);
+
 // ============================================================================
 // Mount API v1
 // ============================================================================
@@ -299,6 +365,9 @@ async function gracefulShutdown(signal: string) {
     // Cleanup rate limiter
     await cleanupRateLimiter();
 
+    // Close the shared store connection
+    await sharedStore.close();
+
     console.log('[Shutdown] Graceful shutdown complete');
     clearTimeout(shutdownTimeout);
     process.exit(0);
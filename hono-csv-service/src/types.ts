@@ -8,6 +8,22 @@ import { z } from 'zod';
 // Zod Schemas
 // ============================================================================
 
+/**
+ * File types with a reader. CSV and JSON are streamed; the spreadsheet
+ * formats are read as workbooks; Parquet and Arrow IPC are read column by
+ * column; a ZIP archive is processed as a batch of its entries.
+ */
+export const FileTypeSchema = z.enum(['csv', 'json', 'ndjson', 'xlsx', 'xls', 'ods', 'parquet', 'arrow', 'zip']);
+
+export type FileType = z.infer<typeof FileTypeSchema>;
+
+/**
+ * Compression formats that are transparently decompressed on upload
+ */
+export const CompressionFormatSchema = z.enum(['gzip', 'deflate', 'zstd']);
+
+export type CompressionFormat = z.infer<typeof CompressionFormatSchema>;
+
 /**
  * Schema for file upload validation
  */
@@ -16,8 +32,21 @@ export const FileUploadSchema = z.object({
     .refine((file) => file.size > 0, 'File cannot be empty')
     .refine((file) => file.size <= 100 * 1024 * 1024, 'File size cannot exceed 100MB')
     .refine(
-      (file) => ['text/csv', 'application/vnd.ms-excel', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'].includes(file.type),
-      'Only CSV and Excel files are supported'
+      (file) => [
+        'text/csv',
+        'application/json',
+        'application/x-ndjson',
+        'application/vnd.ms-excel',
+        'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+        'application/vnd.oasis.opendocument.spreadsheet',
+        'application/vnd.apache.parquet',
+        'application/vnd.apache.arrow.file',
+        'application/vnd.apache.arrow.stream',
+        'application/zip',
+        'application/gzip',
+        'application/zstd',
+      ].includes(file.type),
+      'Only CSV, JSON, Excel, OpenDocument, Parquet and Arrow files (optionally compressed or zipped) are supported'
     ),
   metadata: z.record(z.string()).optional().default({}),
 });
@@ -25,32 +54,360 @@ export const FileUploadSchema = z.object({
 export type FileUploadInput = z.infer<typeof FileUploadSchema>;
 
 /**
- * Schema for CSV row validation
+ * Names of row schema fields: lower case letters, digits and underscores,
+ * the form source headers are compared in
+ */
+export const FieldNameSchema = z.string().regex(
+  /^[a-z][a-z0-9_]{0,63}$/,
+  'Field names are up to 64 lower case letters, digits or "_", starting with a letter'
+);
+
+/**
+ * Value types of row schema fields. Numbers are read in the request locale
+ * and dates are normalized to ISO-8601.
+ */
+export const FieldTypeSchema = z.enum(['string', 'number', 'integer', 'boolean', 'date']);
+
+export type FieldType = z.infer<typeof FieldTypeSchema>;
+
+/**
+ * Schema for one field of a row schema. `min`/`max` bound the value of
+ * numbers and the length of strings; `pattern` is a regular expression a
+ * string must contain a match for.
+ */
+export const FieldSpecSchema = z.object({
+  type: FieldTypeSchema,
+  required: z.boolean().optional(),
+  enum: z.array(z.union([z.string(), z.number()])).min(1).optional(),
+  min: z.number().optional(),
+  max: z.number().optional(),
+  pattern: z.string().min(1).optional(),
+}).strict();
+
+export type FieldSpec = z.infer<typeof FieldSpecSchema>;
+
+/**
+ * Schema for a row schema: the fields rows are validated against, in
+ * source column order, and the dimensions rows are grouped by and the
+ * measures summed for every group
+ */
+export const RowSchemaDefinitionSchema = z.object({
+  fields: z.record(FieldNameSchema, FieldSpecSchema),
+  dimensions: z.array(FieldNameSchema).default([]),
+  measures: z.array(FieldNameSchema).default([]),
+}).strict();
+
+export type RowSchemaDefinition = z.infer<typeof RowSchemaDefinitionSchema>;
+
+/**
+ * Schema for the row schema an import was validated with
  */
-export const CsvRowSchema = z.object({
-  id: z.string().optional(),
-  region: z.string().min(1, 'Region is required'),
-  country: z.string().min(1, 'Country is required'),
-  amount: z.string().or(z.number()).transform((val) => typeof val === 'string' ? parseFloat(val) : val).refine((val) => !isNaN(val), 'Amount must be a valid number'),
-  date: z.string().optional(),
-  category: z.string().optional(),
+export const RowSchemaRefSchema = z.object({
+  name: z.string(),
+  version: z.number().int().positive(),
 });
 
-export type CsvRow = z.infer<typeof CsvRowSchema>;
+export type RowSchemaRef = z.infer<typeof RowSchemaRefSchema>;
 
 /**
- * Schema for region summary aggregation
+ * Schema for a column mapping: how source columns resolve onto row schema
+ * fields when their headers do not already name them. Positions are
+ * zero-based column indexes; synonyms are header names compared without
+ * regard to case or punctuation; patterns are case-insensitive regular
+ * expressions tested against the header.
+ */
+export const ColumnMappingSchema = z.object({
+  positions: z.record(FieldNameSchema, z.number().int().nonnegative()).optional(),
+  synonyms: z.record(FieldNameSchema, z.array(z.string().min(1))).optional(),
+  patterns: z.record(FieldNameSchema, z.array(z.string().min(1))).optional(),
+}).strict();
+
+export type ColumnMapping = z.infer<typeof ColumnMappingSchema>;
+
+/**
+ * Schema for the outcome of column mapping. `mapped` names the source
+ * column each field was read from; a field claimed by several columns is
+ * listed under `ambiguous` and read from the first of them.
+ */
+export const ColumnMappingReportSchema = z.object({
+  mapped: z.record(z.string()),
+  unmapped: z.array(z.string()),
+  ambiguous: z.array(z.object({
+    field: z.string(),
+    columns: z.array(z.string()),
+  })),
+});
+
+export type ColumnMappingReport = z.infer<typeof ColumnMappingReportSchema>;
+
+/**
+ * Schema for the summary of one group of rows: its value of every
+ * dimension, its row count and `<measure>Sum` and `<measure>Avg` for every
+ * measure. With the built-in schema that is `region`, `country`, `count`,
+ * `amountSum` and `amountAvg`, which are decimal strings (`"1234.50"`)
+ * when the import keeps exact sums in minor units. When summary statistics
+ * are requested every measure also has `<measure>Min`, `<measure>Max`,
+ * `<measure>Stddev` and a `<measure>P<n>` per percentile (`amountP95`,
+ * `amountP99_9`).
  */
 export const RegionSummarySchema = z.object({
-  region: z.string(),
-  country: z.string(),
   count: z.number().int().nonnegative(),
-  amountSum: z.number().nonnegative(),
-  amountAvg: z.number().nonnegative(),
-});
+}).catchall(z.union([z.string(), z.number(), z.boolean()]));
 
 export type RegionSummary = z.infer<typeof RegionSummarySchema>;
 
+/**
+ * Schema for the result of a single workbook sheet
+ */
+export const SheetResultSchema = z.object({
+  sheetName: z.string(),
+  rowCount: z.number().int().nonnegative(),
+  successCount: z.number().int().nonnegative(),
+  errorCount: z.number().int().nonnegative(),
+  summaries: z.array(RegionSummarySchema),
+});
+
+export type SheetResult = z.infer<typeof SheetResultSchema>;
+
+/**
+ * Schema for a validation failure of one row field. `row` is where the row
+ * starts in the source: its line in a CSV or JSON file, its spreadsheet row,
+ * or its 1-based position in a Parquet/Arrow file.
+ */
+export const RowErrorSchema = z.object({
+  row: z.number().int().positive(),
+  sheet: z.string().optional(),
+  field: z.string().optional(),
+  column: z.string().optional(),
+  value: z.string().optional(),
+  code: z.string(),
+  message: z.string(),
+});
+
+export type RowError = z.infer<typeof RowErrorSchema>;
+
+/**
+ * Schema for the downloadable file of rows that failed validation
+ */
+export const RejectedRowsLinkSchema = z.object({
+  id: z.string(),
+  rowCount: z.number().int().nonnegative(),
+  truncated: z.boolean(),
+  url: z.string(),
+  expiresAt: z.string(),
+});
+
+export type RejectedRowsLink = z.infer<typeof RejectedRowsLinkSchema>;
+
+/**
+ * Schema for how many failed rows a file may have: `strict` rejects the
+ * file at its first failed row, `lenient` accepts any number, and
+ * `threshold` rejects it once more than `maxErrors` rows, or more than
+ * `maxErrorRate` percent of its rows, have failed
+ */
+export const ValidationPolicySchema = z.object({
+  mode: z.enum(['strict', 'lenient', 'threshold']),
+  maxErrors: z.number().int().nonnegative().optional(),
+  maxErrorRate: z.number().min(0).max(100).optional(),
+}).strict();
+
+export type ValidationPolicy = z.infer<typeof ValidationPolicySchema>;
+
+/**
+ * Date parts a date field can be grouped by
+ */
+export const DatePartSchema = z.enum(['year', 'quarter', 'month', 'day']);
+
+export type DatePart = z.infer<typeof DatePartSchema>;
+
+/**
+ * Schema for an aggregation query run over the rows of an import. Rows are
+ * grouped by the `groupBy` fields (a date field by its year, quarter, month
+ * or day with `by`) and every measure is computed for each group. Columns
+ * are named by `as`, else after the field: `date_month`, `sum_amount`,
+ * `count`. Groups are sorted by `sort` (default: the group columns,
+ * ascending) and cut to the first `limit`.
+ */
+export const AggregationQuerySchema = z.object({
+  groupBy: z.array(z.union([
+    FieldNameSchema,
+    z.object({
+      field: FieldNameSchema,
+      by: DatePartSchema.optional(),
+      as: FieldNameSchema.optional(),
+    }).strict(),
+  ])).max(8).default([]),
+  measures: z.array(z.object({
+    op: z.enum(['count', 'sum', 'avg', 'min', 'max', 'count_distinct']),
+    field: FieldNameSchema.optional(),
+    as: FieldNameSchema.optional(),
+  }).strict()).min(1).max(32),
+  sort: z.array(z.object({
+    by: FieldNameSchema,
+    order: z.enum(['asc', 'desc']).default('asc'),
+  }).strict()).optional(),
+  limit: z.number().int().positive().optional(),
+}).strict();
+
+export type AggregationQueryInput = z.input<typeof AggregationQuerySchema>;
+
+/**
+ * Schema for the result of an aggregation query: one row per group with
+ * its group columns and measures. A measure with no values in its group
+ * (the average of an always-empty field) is null. `groupCount` is the
+ * number of groups before `limit`.
+ */
+export const AggregationResultSchema = z.object({
+  groupBy: z.array(z.string()),
+  measures: z.array(z.string()),
+  rows: z.array(z.record(z.union([z.string(), z.number(), z.boolean(), z.null()]))),
+  groupCount: z.number().int().nonnegative(),
+});
+
+export type AggregationResult = z.infer<typeof AggregationResultSchema>;
+
+/**
+ * Schema for a time series request: the rows of every group (the schema
+ * dimensions, or `groupBy`) are bucketed by a date field (the first one of
+ * the schema, or `field`) at a granularity, and the measures are summed
+ * per bucket. Weeks are ISO weeks (Monday to Sunday) or calendar weeks
+ * (Sunday to Saturday, week 1 holding 1 January); quarters follow the
+ * fiscal year starting in `fiscalYearStartMonth`. Date-times are bucketed by
+ * their day in `timeZone`. `fillEmpty` adds zero buckets so every series
+ * covers the same range without gaps.
+ */
+export const TimeSeriesSpecSchema = z.object({
+  granularity: z.enum(['day', 'week', 'month', 'quarter']),
+  field: FieldNameSchema.optional(),
+  groupBy: z.array(FieldNameSchema).max(8).optional(),
+  week: z.enum(['iso', 'calendar']).default('iso'),
+  fiscalYearStartMonth: z.number().int().min(1).max(12).default(1),
+  timeZone: z.string().min(1).optional(),
+  fillEmpty: z.boolean().default(false),
+}).strict();
+
+export type TimeSeriesSpec = z.infer<typeof TimeSeriesSpecSchema>;
+
+/**
+ * Schema for one bucket of a time series: the first day of the period,
+ * its label (`2025-03-31`, `2025-W14`, `2025-03`, `2025-Q2` or
+ * `FY2026-Q1`), its row count and `<measure>Sum` and `<measure>Avg` for
+ * every measure (decimal strings with minor units)
+ */
+export const TimeSeriesBucketSchema = z.object({
+  start: z.string(),
+  label: z.string(),
+  count: z.number().int().nonnegative(),
+}).catchall(z.union([z.string(), z.number()]));
+
+export type TimeSeriesBucket = z.infer<typeof TimeSeriesBucketSchema>;
+
+/**
+ * Schema for the time series of an import: one series of buckets per
+ * group, in the order of the summaries. Rows without a date are only
+ * counted in `undatedCount`.
+ */
+export const TimeSeriesResultSchema = z.object({
+  granularity: TimeSeriesSpecSchema.shape.granularity,
+  field: z.string(),
+  week: TimeSeriesSpecSchema.shape.week.optional(),
+  fiscalYearStartMonth: z.number().int().min(1).max(12),
+  timeZone: z.string(),
+  series: z.array(z.object({
+    dimensions: z.record(z.union([z.string(), z.number(), z.boolean()])),
+    buckets: z.array(TimeSeriesBucketSchema),
+  })),
+  undatedCount: z.number().int().nonnegative(),
+});
+
+export type TimeSeriesResult = z.infer<typeof TimeSeriesResultSchema>;
+
+/**
+ * Schema for a pivot table request: one row per value of the `rows`
+ * dimension, one column per value of the `columns` dimension, and the
+ * `op` of `measure` (default: the first measure of the row schema) in
+ * every cell. Both dimensions must be dimensions of the row schema, so
+ * the cells reconcile with the summaries.
+ */
+export const PivotSpecSchema = z.object({
+  rows: FieldNameSchema,
+  columns: FieldNameSchema,
+  measure: FieldNameSchema.optional(),
+  op: z.enum(['sum', 'avg', 'count']).default('sum'),
+}).strict();
+
+export type PivotSpec = z.infer<typeof PivotSpecSchema>;
+
+/**
+ * Schema for the downloadable XLSX sheet of a pivot table
+ */
+export const PivotTableLinkSchema = z.object({
+  id: z.string(),
+  url: z.string(),
+  expiresAt: z.string(),
+});
+
+export type PivotTableLink = z.infer<typeof PivotTableLinkSchema>;
+
+/**
+ * Schema for a pivot table: the column headers, one row of cells per row
+ * value (null where no row has both values) with its total, and the
+ * column totals and grand total. Totals are computed from the rows, not
+ * from the rounded cells. Sums and averages are decimal strings when the
+ * import keeps exact sums in minor units.
+ */
+export const PivotTableSchema = z.object({
+  rowDimension: z.string(),
+  columnDimension: z.string(),
+  measure: z.string().optional(),
+  op: PivotSpecSchema.shape.op,
+  columns: z.array(z.union([z.string(), z.number(), z.boolean()])),
+  rows: z.array(z.object({
+    value: z.union([z.string(), z.number(), z.boolean()]),
+    cells: z.array(z.union([z.number(), z.string()]).nullable()),
+    total: z.union([z.number(), z.string()]),
+  })),
+  columnTotals: z.array(z.union([z.number(), z.string()])),
+  grandTotal: z.union([z.number(), z.string()]),
+  download: PivotTableLinkSchema.optional(),
+});
+
+export type PivotTable = z.infer<typeof PivotTableSchema>;
+
+/**
+ * Schema for a CSV dialect (detected or supplied by the caller)
+ */
+export const CsvDialectSchema = z.object({
+  delimiter: z.string().length(1),
+  quote: z.string().length(1),
+  escape: z.string().length(1),
+  hasHeader: z.boolean(),
+});
+
+export type CsvDialect = z.infer<typeof CsvDialectSchema>;
+
+/**
+ * Schema for the result of a single file inside a ZIP archive. An entry
+ * that could not be processed has zero counts and an error.
+ */
+export const ArchiveEntryResultSchema = z.object({
+  fileName: z.string(),
+  fileType: FileTypeSchema.optional(),
+  rowCount: z.number().int().nonnegative(),
+  successCount: z.number().int().nonnegative(),
+  errorCount: z.number().int().nonnegative(),
+  summaries: z.array(RegionSummarySchema),
+  dialect: CsvDialectSchema.optional(),
+  sheets: z.array(SheetResultSchema).optional(),
+  columns: ColumnMappingReportSchema.optional(),
+  errors: z.array(RowErrorSchema).optional(),
+  truncated: z.boolean().optional(),
+  error: z.string().optional(),
+  details: z.record(z.unknown()).optional(),
+});
+
+export type ArchiveEntryResult = z.infer<typeof ArchiveEntryResultSchema>;
+
 /**
  * Schema for processing result
  */
@@ -64,14 +421,74 @@ export const ProcessingResultSchema = z.object({
     validateDurationMs: z.number().nonnegative(),
     aggregateDurationMs: z.number().nonnegative(),
     totalDurationMs: z.number().nonnegative(),
+    encoding: z.string().optional(),
   }),
   requestId: z.string(),
   fileName: z.string(),
-  fileType: z.string(),
+  fileType: FileTypeSchema,
+  compression: CompressionFormatSchema.optional(),
+  dialect: CsvDialectSchema.optional(),
+  sheets: z.array(SheetResultSchema).optional(),
+  entries: z.array(ArchiveEntryResultSchema).optional(),
+  columns: ColumnMappingReportSchema.optional(),
+  errors: z.array(RowErrorSchema).optional(),
+  truncated: z.boolean().optional(),
+  rejectedRows: RejectedRowsLinkSchema.optional(),
+  schema: RowSchemaRefSchema.optional(),
+  aggregation: AggregationResultSchema.optional(),
+  timeSeries: TimeSeriesResultSchema.optional(),
+  pivot: PivotTableSchema.optional(),
 });
 
 export type ProcessingResult = z.infer<typeof ProcessingResultSchema>;
 
+/**
+ * Value types detected in a sampled column. `enum` is a string column
+ * with few distinct values.
+ */
+export const InferredTypeSchema = z.enum(['integer', 'decimal', 'date', 'boolean', 'enum', 'string']);
+
+export type InferredType = z.infer<typeof InferredTypeSchema>;
+
+/**
+ * Schema for one column detected by schema inference: its header, the
+ * draft field it becomes, the share of sampled rows where it is blank and
+ * the first distinct values seen
+ */
+export const InferredColumnSchema = z.object({
+  column: z.string(),
+  field: FieldNameSchema,
+  type: InferredTypeSchema,
+  nullRatio: z.number().min(0).max(1),
+  distinctCount: z.number().int().nonnegative(),
+  enumValues: z.array(z.string()).optional(),
+  examples: z.array(z.union([z.string(), z.number(), z.boolean()])),
+});
+
+export type InferredColumn = z.infer<typeof InferredColumnSchema>;
+
+/**
+ * Schema for the result of schema inference. `schema` is a draft row
+ * schema for the sampled file; `columnMapping` is set when some columns
+ * cannot be matched to their field by header name.
+ */
+export const SchemaInferenceResultSchema = z.object({
+  requestId: z.string(),
+  fileName: z.string(),
+  fileType: FileTypeSchema,
+  compression: CompressionFormatSchema.optional(),
+  encoding: z.string().optional(),
+  dialect: CsvDialectSchema.optional(),
+  sheet: z.string().optional(),
+  sampledRows: z.number().int().nonnegative(),
+  truncated: z.boolean(),
+  columns: z.array(InferredColumnSchema),
+  schema: RowSchemaDefinitionSchema,
+  columnMapping: ColumnMappingSchema.optional(),
+});
+
+export type SchemaInferenceResult = z.infer<typeof SchemaInferenceResultSchema>;
+
 /**
  * Schema for health check response
  */
@@ -94,7 +511,7 @@ export type HealthCheckResponse = z.infer<typeof HealthCheckResponseSchema>;
  */
 export const GrpcProcessFileRequestSchema = z.object({
   fileData: z.instanceof(Buffer),
-  fileType: z.enum(['csv', 'xlsx']),
+  fileType: FileTypeSchema,
   fileName: z.string(),
   metadata: z.record(z.string()).optional(),
 });
@@ -197,6 +614,55 @@ export class ValidationError extends CsvProcessingError {
   }
 }
 
+export class CsvParseError extends CsvProcessingError {
+  constructor(message: string, public line: number, public column: number) {
+    super(message, 'PARSE_ERROR', 400, { line, column });
+    this.name = 'CsvParseError';
+  }
+}
+
+export class InvalidFileTypeError extends CsvProcessingError {
+  constructor(message: string = 'Unsupported file type', details?: Record<string, unknown>) {
+    super(message, 'INVALID_FILE_TYPE', 415, details);
+    this.name = 'InvalidFileTypeError';
+  }
+}
+
+export class DecompressionLimitError extends CsvProcessingError {
+  constructor(message: string, details?: Record<string, unknown>) {
+    super(message, 'FILE_TOO_LARGE', 413, details);
+    this.name = 'DecompressionLimitError';
+  }
+}
+
+export class ValidationThresholdExceededError extends CsvProcessingError {
+  constructor(message: string, details?: Record<string, unknown>) {
+    super(message, 'VALIDATION_THRESHOLD_EXCEEDED', 422, details);
+    this.name = 'ValidationThresholdExceededError';
+  }
+}
+
+export class AggregationLimitError extends CsvProcessingError {
+  constructor(message: string, details?: Record<string, unknown>) {
+    super(message, 'AGGREGATION_LIMIT_EXCEEDED', 422, details);
+    this.name = 'AggregationLimitError';
+  }
+}
+
+export class ProcessingTimeoutError extends CsvProcessingError {
+  constructor(message: string = 'File processing timed out', details?: Record<string, unknown>) {
+    super(message, 'PROCESSING_TIMEOUT', 408, details);
+    this.name = 'ProcessingTimeoutError';
+  }
+}
+
+export class NotFoundError extends CsvProcessingError {
+  constructor(message: string = 'Resource not found', details?: Record<string, unknown>) {
+    super(message, 'NOT_FOUND', 404, details);
+    this.name = 'NotFoundError';
+  }
+}
+
 export class AuthenticationError extends CsvProcessingError {
   constructor(message: string = 'Authentication failed') {
     super(message, 'AUTHENTICATION_ERROR', 401);
@@ -237,14 +703,173 @@ export interface ParsedFileResult {
 }
 
 /**
- * Aggregated summary by region
+ * Per-request parsing options, resolved from upload or gRPC metadata
+ */
+export interface ImportOptions {
+  strict?: boolean;
+  dialect?: Partial<CsvDialect>;
+  encoding?: string;
+  /**
+   * Workbook sheets to process by name, or '*' for all (default: first sheet)
+   */
+  sheets?: string[] | '*';
+  /**
+   * Additionally select every sheet whose name matches
+   */
+  sheetPattern?: RegExp;
+  /**
+   * Separator joining the keys of nested JSON objects into column names
+   * (default '.': `customer.address.city`)
+   */
+  jsonPathSeparator?: string;
+  /**
+   * Row schema the rows are validated and aggregated with: a stored tenant
+   * schema, or one given inline with the request (default: the built-in
+   * region/country/amount schema)
+   */
+  rowSchema?: NamedRowSchema | { definition: RowSchemaDefinition };
+  /**
+   * Column mapping applied on top of matching headers by name: a stored
+   * named mapping, a per-request one, or both merged
+   */
+  columnMapping?: ColumnMapping;
+  /**
+   * BCP 47 locale that text amounts are written in (separators, currency)
+   */
+  locale?: string;
+  /**
+   * How the date column is read; the day/month order defaults to the locale's
+   */
+  dates?: DateOptions;
+  /**
+   * Most row errors to report (rows past the cap are still counted)
+   */
+  maxRowErrors?: number;
+  /**
+   * How many failed rows a file may have before it is rejected as a whole
+   * (default: lenient, every row that passes is aggregated)
+   */
+  validationPolicy?: ValidationPolicy;
+  /**
+   * Most rows to read from a file; reading stops there and the result is
+   * flagged truncated
+   */
+  maxRows?: number;
+  /**
+   * Cancels processing when aborted; checked as the file is read
+   */
+  signal?: AbortSignal;
+  /**
+   * Keep the rows of CSV and spreadsheet files that fail validation for
+   * download (set by the HTTP import handlers)
+   */
+  keepRejectedRows?: boolean;
+  /**
+   * Aggregation query run over the validated rows next to the summaries
+   */
+  aggregation?: AggregationQuery;
+  /**
+   * Add the min, max, standard deviation and these percentiles of every
+   * measure to the summaries
+   */
+  summaryStats?: { percentiles: number[] };
+  /**
+   * Keep sums as whole numbers of this many decimal places (2 for cents)
+   * and report sums and averages as exact decimal strings
+   */
+  minorUnits?: number;
+  /**
+   * Time series of the measures per group, next to the summaries
+   */
+  timeSeries?: TimeSeriesOptions;
+  /**
+   * Pivot table of the summaries, with a downloadable XLSX sheet
+   */
+  pivot?: PivotOptions;
+}
+
+/**
+ * An aggregation query checked against the row schema, with every column
+ * named
+ */
+export interface AggregationQuery {
+  groupBy: Array<{ field: string; by?: DatePart; as: string }>;
+  measures: Array<{ op: AggregationOp; field?: string; as: string }>;
+  sort: Array<{ by: string; order: 'asc' | 'desc' }>;
+  limit?: number;
+}
+
+/**
+ * A time series request checked against the row schema, with its defaults
+ * filled in
+ */
+export interface TimeSeriesOptions extends Omit<TimeSeriesSpec, 'field' | 'groupBy' | 'timeZone'> {
+  field: string;
+  groupBy: string[];
+  measures: string[];
+  timeZone: string;
+}
+
+/**
+ * A pivot table request checked against the row schema; `measure` is unset
+ * for counts
+ */
+export interface PivotOptions {
+  rows: string;
+  columns: string;
+  measure?: string;
+  op: PivotSpec['op'];
+}
+
+export type AggregationOp = z.infer<typeof AggregationQuerySchema>['measures'][number]['op'];
+
+/**
+ * A stored version of a tenant's named row schema
+ */
+export interface NamedRowSchema {
+  name: string;
+  version: number;
+  definition: RowSchemaDefinition;
+  createdAt: string;
+}
+
+/**
+ * Day, month and year order of numeric dates such as 03/04/2025
+ */
+export type DateOrder = 'dmy' | 'mdy' | 'ymd';
+
+/**
+ * Date column normalization settings
+ */
+export interface DateOptions {
+  /**
+   * Accepted formats, tried in order: `iso`, `excel` or token patterns
+   * such as `DD/MM/YYYY HH:mm`
+   */
+  formats?: string[];
+  order?: DateOrder;
+  /**
+   * IANA timezone that times without a UTC offset are local to
+   */
+  timeZone?: string;
+}
+
+/**
+ * Aggregated summary by region. Sum and average are decimal strings when
+ * the import keeps exact sums in minor units. The distribution of the
+ * amount is set when summary statistics are requested; percentiles are
+ * keyed `amountP<n>`.
  */
 export interface AggregatedSummary {
   region: string;
   country: string;
   count: number;
-  amountSum: number;
-  amountAvg: number;
+  amountSum: number | string;
+  amountAvg: number | string;
+  amountMin?: number;
+  amountMax?: number;
+  amountStddev?: number;
+  [percentile: `amountP${string}`]: number | undefined;
 }
 
 /**
@@ -255,6 +880,7 @@ export interface ProcessingStats {
   validateDurationMs: number;
   aggregateDurationMs: number;
   totalDurationMs: number;
+  encoding?: string;
 }
 
 /**
@@ -371,17 +997,23 @@ export interface RetryConfig {
 
 export const ERROR_CODES = {
   VALIDATION_ERROR: 'VALIDATION_ERROR',
+  VALIDATION_THRESHOLD_EXCEEDED: 'VALIDATION_THRESHOLD_EXCEEDED',
+  AGGREGATION_LIMIT_EXCEEDED: 'AGGREGATION_LIMIT_EXCEEDED',
+  PROCESSING_TIMEOUT: 'PROCESSING_TIMEOUT',
   AUTHENTICATION_ERROR: 'AUTHENTICATION_ERROR',
   AUTHORIZATION_ERROR: 'AUTHORIZATION_ERROR',
   RATE_LIMIT_ERROR: 'RATE_LIMIT_ERROR',
   FILE_TOO_LARGE: 'FILE_TOO_LARGE',
   INVALID_FILE_TYPE: 'INVALID_FILE_TYPE',
+  NOT_FOUND: 'NOT_FOUND',
   PARSE_ERROR: 'PARSE_ERROR',
   PROCESSING_ERROR: 'PROCESSING_ERROR',
   SERVICE_UNAVAILABLE: 'SERVICE_UNAVAILABLE',
   INTERNAL_ERROR: 'INTERNAL_ERROR',
 } as const;
 
+export const SUPPORTED_FILE_TYPES = FileTypeSchema.options;
+
 export const REQUIRED_SCOPES = {
   CSV_READ: 'csv:read',
   CSV_PROCESS: 'csv:process',
@@ -396,4 +1028,33 @@ export const METADATA_KEYS = {
   FILE_NAME: 'file_name',
   FILE_TYPE: 'file_type',
   TRACE_ID: 'trace_id',
+  CSV_STRICT: 'csv_strict',
+  CSV_DELIMITER: 'csv_delimiter',
+  CSV_QUOTE: 'csv_quote',
+  CSV_ESCAPE: 'csv_escape',
+  CSV_HEADER: 'csv_header',
+  ENCODING: 'encoding',
+  SHEETS: 'sheets',
+  SHEET_PATTERN: 'sheet_pattern',
+  JSON_PATH_SEPARATOR: 'json_path_separator',
+  COLUMN_MAPPING: 'column_mapping',
+  COLUMN_MAPPING_NAME: 'column_mapping_name',
+  LOCALE: 'locale',
+  DATE_FORMATS: 'date_formats',
+  DATE_ORDER: 'date_order',
+  DATE_TIMEZONE: 'date_timezone',
+  MAX_ROW_ERRORS: 'max_row_errors',
+  SCHEMA_NAME: 'schema_name',
+  SCHEMA_VERSION: 'schema_version',
+  SCHEMA: 'schema',
+  SAMPLE_ROWS: 'sample_rows',
+  VALIDATION_POLICY: 'validation_policy',
+  MAX_ERRORS: 'max_errors',
+  MAX_ERROR_RATE: 'max_error_rate',
+  AGGREGATION: 'aggregation',
+  SUMMARY_STATS: 'summary_stats',
+  PERCENTILES: 'percentiles',
+  MINOR_UNITS: 'minor_units',
+  TIME_SERIES: 'time_series',
+  PIVOT: 'pivot',
 } as const;
@@ -0,0 +1,183 @@
+import { describe, expect, test } from 'bun:test';
+import { QueryAggregator, resolveAggregationQuery } from './aggregation-query.js';
+import { DEFAULT_ROW_SCHEMA } from './row-schema.js';
+import type { ValidatedRow } from './row-schema.js';
+import { processCsvFile, resolveImportOptions } from './csv-parser.js';
+import { AggregationLimitError, ValidationError } from '../types.js';
+import type { AggregationQuery, AggregationQueryInput } from '../types.js';
+
+const ROWS: ValidatedRow[] = [
+  { region: 'EU', country: 'DE', amount: 10, date: '2024-01-15', category: 'A' },
+  { region: 'EU', country: 'FR', amount: 2.5, date: '2024-02-01', category: 'B' },
+  { region: 'EU', country: 'DE', amount: 7.5, date: '2024-04-03', category: 'A' },
+  { region: 'US', country: 'US', amount: 5, date: '2024-05-20', category: 'A' },
+  { region: 'US', country: 'CA', amount: -1, date: '2024-11-30' },
+  { region: 'APAC', country: 'JP', amount: 3 },
+];
+
+function queryOf(input: AggregationQueryInput): AggregationQuery {
+  return resolveAggregationQuery({ aggregation: JSON.stringify(input) }, DEFAULT_ROW_SCHEMA)!;
+}
+
+function aggregate(input: AggregationQueryInput, rows: ValidatedRow[] = ROWS, minorUnits?: number) {
+  const aggregator = new QueryAggregator(queryOf(input), minorUnits);
+  rows.forEach(row => aggregator.add(row));
+  return aggregator.toResult();
+}
+
+describe('resolveAggregationQuery', () => {
+  test('names columns after their fields and sorts by the group columns', () => {
+    expect(queryOf({
+      groupBy: ['region', { field: 'date', by: 'month' }],
+      measures: [{ op: 'count' }, { op: 'sum', field: 'amount' }, { op: 'max', field: 'amount', as: 'largest' }],
+    })).toEqual({
+      groupBy: [{ field: 'region', as: 'region' }, { field: 'date', by: 'month', as: 'date_month' }],
+      measures: [{ op: 'count', as: 'count' }, { op: 'sum', field: 'amount', as: 'sum_amount' }, { op: 'max', field: 'amount', as: 'largest' }],
+      sort: [{ by: 'region', order: 'asc' }, { by: 'date_month', order: 'asc' }],
+      limit: undefined,
+    });
+  });
+
+  test('reads no query without the metadata entry', () => {
+    expect(resolveAggregationQuery({}, DEFAULT_ROW_SCHEMA)).toBeUndefined();
+  });
+
+  test.each([
+    ['not JSON', '{', 'Invalid aggregation: expected a JSON object'],
+    ['without measures', { groupBy: ['region'], measures: [] }, 'Invalid aggregation'],
+    ['an unknown field', { groupBy: ['city'], measures: [{ op: 'count' }] }, 'Invalid aggregation: unknown field city'],
+    ['a date part of a text field', { groupBy: [{ field: 'region', by: 'year' }], measures: [{ op: 'count' }] }, 'Invalid aggregation: region is not a date field and cannot be grouped by year'],
+    ['the sum of a text field', { measures: [{ op: 'sum', field: 'country' }] }, 'Invalid aggregation: sum does not apply to string field country'],
+    ['an average without a field', { measures: [{ op: 'avg' }] }, 'Invalid aggregation: avg requires a field'],
+    ['two columns of one name', { measures: [{ op: 'min', field: 'amount', as: 'x' }, { op: 'max', field: 'amount', as: 'x' }] }, 'Invalid aggregation: duplicate column x; name columns apart with "as"'],
+    ['a sort by another column', { groupBy: ['region'], measures: [{ op: 'count' }], sort: [{ by: 'amount' }] }, 'Invalid aggregation: cannot sort by amount: not a column of the result'],
+  ])('rejects %s', (_, input, message) => {
+    const aggregation = typeof input === 'string' ? input : JSON.stringify(input);
+
+    expect(() => resolveAggregationQuery({ aggregation }, DEFAULT_ROW_SCHEMA)).toThrow(new ValidationError(message));
+  });
+});
+
+describe('QueryAggregator', () => {
+  test('computes every measure per group', () => {
+    const result = aggregate({
+      groupBy: ['region'],
+      measures: [
+        { op: 'count' },
+        { op: 'count', field: 'category' },
+        { op: 'sum', field: 'amount' },
+        { op: 'avg', field: 'amount' },
+        { op: 'min', field: 'amount' },
+        { op: 'max', field: 'amount' },
+        { op: 'count_distinct', field: 'country' },
+      ],
+    });
+
+    expect(result).toEqual({
+      groupBy: ['region'],
+      measures: ['count', 'count_category', 'sum_amount', 'avg_amount', 'min_amount', 'max_amount', 'count_distinct_country'],
+      rows: [
+        { region: 'APAC', count: 1, count_category: 0, sum_amount: 3, avg_amount: 3, min_amount: 3, max_amount: 3, count_distinct_country: 1 },
+        { region: 'EU', count: 3, count_category: 3, sum_amount: 20, avg_amount: 6.67, min_amount: 2.5, max_amount: 10, count_distinct_country: 2 },
+        { region: 'US', count: 2, count_category: 1, sum_amount: 4, avg_amount: 2, min_amount: -1, max_amount: 5, count_distinct_country: 2 },
+      ],
+      groupCount: 3,
+    });
+  });
+
+  test('groups dates by their parts and rows without a date apart', () => {
+    const measures = [{ op: 'sum' as const, field: 'amount', as: 'total' }];
+
+    expect(aggregate({ groupBy: [{ field: 'date', by: 'quarter' }], measures }).rows).toEqual([
+      { date_quarter: '2024-Q1', total: 12.5 },
+      { date_quarter: '2024-Q2', total: 12.5 },
+      { date_quarter: '2024-Q4', total: -1 },
+      { date_quarter: null, total: 3 },
+    ]);
+    expect(aggregate({ groupBy: [{ field: 'date', by: 'year' }], measures }).rows).toEqual([
+      { date_year: '2024', total: 24 },
+      { date_year: null, total: 3 },
+    ]);
+  });
+
+  test('sorts by measures, breaks ties by the group columns and limits the rows', () => {
+    const result = aggregate({
+      groupBy: [{ field: 'date', by: 'quarter', as: 'quarter' }],
+      measures: [{ op: 'sum', field: 'amount', as: 'total' }],
+      sort: [{ by: 'total', order: 'desc' }],
+      limit: 3,
+    }, [...ROWS].reverse());
+
+    expect(result.rows.map(row => [row.quarter, row.total])).toEqual([['2024-Q1', 12.5], ['2024-Q2', 12.5], [null, 3]]);
+    expect(result.groupCount).toBe(4);
+  });
+
+  test('sorts exact decimal sums by value', () => {
+    const rows = [{ region: 'A', amount: 10 }, { region: 'B', amount: 9.5 }, { region: 'C', amount: 100 }];
+    const result = aggregate({
+      groupBy: ['region'],
+      measures: [{ op: 'sum', field: 'amount', as: 'total' }, { op: 'avg', field: 'amount', as: 'mean' }],
+      sort: [{ by: 'total', order: 'desc' }],
+    }, rows, 2);
+
+    expect(result.rows).toEqual([
+      { region: 'C', total: '100.00', mean: '100.00' },
+      { region: 'A', total: '10.00', mean: '10.00' },
+      { region: 'B', total: '9.50', mean: '9.50' },
+    ]);
+  });
+
+  test('merges partial aggregators and snapshots into the single-pass result', () => {
+    const input: AggregationQueryInput = {
+      groupBy: ['region'],
+      measures: [{ op: 'sum', field: 'amount' }, { op: 'min', field: 'amount' }, { op: 'count_distinct', field: 'country' }],
+    };
+    const [first, second, third] = [new QueryAggregator(queryOf(input)), new QueryAggregator(queryOf(input)), new QueryAggregator(queryOf(input))];
+    ROWS.forEach((row, index) => [first, second, third][index % 3].add(row));
+
+    first.merge(second);
+    first.mergeSnapshot(structuredClone(third.snapshot()));
+
+    expect(first.toResult()).toEqual(aggregate(input));
+  });
+
+  test('fails with a 422 past the group limit, also once merged', () => {
+    const query = queryOf({ groupBy: ['country'], measures: [{ op: 'count' }] });
+    const aggregator = new QueryAggregator(query, undefined, 3);
+    ROWS.forEach(row => aggregator.add(row));
+
+    let error: unknown;
+    try {
+      aggregator.toResult();
+    } catch (e) {
+      error = e;
+    }
+    expect(error).toBeInstanceOf(AggregationLimitError);
+    expect(error).toMatchObject({ statusCode: 422, code: 'AGGREGATION_LIMIT_EXCEEDED', details: { maxGroups: 3 } });
+
+    const [eu, us] = [new QueryAggregator(query, undefined, 3), new QueryAggregator(query, undefined, 3)];
+    ROWS.slice(0, 3).forEach(row => eu.add(row));
+    ROWS.slice(3).forEach(row => us.add(row));
+    expect(eu.toResult().groupCount).toBe(2);
+    eu.merge(us);
+    expect(() => eu.toResult()).toThrow(AggregationLimitError);
+  });
+});
+
+describe('aggregation metadata', () => {
+  test('runs the query over the validated rows of an import', async () => {
+    const csv = 'region,country,amount,date\nEU,DE,10,2024-01-15\nEU,FR,x,2024-01-20\nEU,FR,5,2024-03-02\nUS,US,1,2024-07-01\n';
+    const options = await resolveImportOptions({
+      aggregation: JSON.stringify({ groupBy: [{ field: 'date', by: 'month', as: 'month' }], measures: [{ op: 'count' }], limit: 2 }),
+    });
+
+    const result = await processCsvFile(Buffer.from(csv), options);
+
+    expect(result.aggregator?.query?.toResult()).toEqual({
+      groupBy: ['month'],
+      measures: ['count'],
+      rows: [{ month: '2024-01', count: 1 }, { month: '2024-03', count: 1 }],
+      groupCount: 3,
+    });
+  });
+});
@@ -0,0 +1,382 @@
+/**
+ * Aggregation Queries
+ * Ad-hoc group-by queries over the validated rows of an import: group fields, measures, sort and limit
+ */
+
+import { ExactSum } from './exact-sum.js';
+import { DecimalSum, compareDecimals } from './decimal-sum.js';
+import type { ExactDecimals } from './decimal-sum.js';
+import type { ValidatedRow } from './row-schema.js';
+import {
+  AggregationLimitError,
+  AggregationQuerySchema,
+  ValidationError,
+  METADATA_KEYS,
+} from '../types.js';
+import type {
+  AggregationOp,
+  AggregationQuery,
+  AggregationResult,
+  DatePart,
+  RowSchemaDefinition,
+} from '../types.js';
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+export const AGGREGATION_LIMITS = {
+  maxGroups: parseInt(process.env.MAX_AGGREGATION_GROUPS || '10000', 10),
+};
+
+/**
+ * Field types each measure applies to (count applies to any field, and to
+ * rows when it names none)
+ */
+const MEASURE_TYPES: Partial<Record<AggregationOp, string[]>> = {
+  sum: ['number', 'integer'],
+  avg: ['number', 'integer'],
+  min: ['number', 'integer'],
+  max: ['number', 'integer'],
+};
+
+type GroupValue = string | number | boolean | null;
+
+// ============================================================================
+// Query Resolution
+// ============================================================================
+
+/**
+ * Read the `aggregation` metadata entry (a JSON aggregation query) and
+ * check it against the row schema: fields must exist, be grouped by date
+ * parts only when they are dates and be summed, averaged or ranged only
+ * when they are numbers. Column names default to the field they are
+ * computed from and must be unique.
+ */
+export function resolveAggregationQuery(
+  metadata: Record<string, string>,
+  definition: RowSchemaDefinition
+): AggregationQuery | undefined {
+  const value = metadata[METADATA_KEYS.AGGREGATION];
+  if (!value) {
+    return undefined;
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(value);
+  } catch {
+    throw new ValidationError(`Invalid ${METADATA_KEYS.AGGREGATION}: expected a JSON object`);
+  }
+
+  const result = AggregationQuerySchema.safeParse(parsed);
+  if (!result.success) {
+    throw new ValidationError(`Invalid ${METADATA_KEYS.AGGREGATION}`, { issues: result.error.issues });
+  }
+
+  const fail = (message: string, details?: Record<string, unknown>): never => {
+    throw new ValidationError(`Invalid ${METADATA_KEYS.AGGREGATION}: ${message}`, details);
+  };
+  const typeOf = (field: string): string =>
+    definition.fields[field]?.type ?? fail(`unknown field ${field}`, { field, fields: Object.keys(definition.fields) });
+
+  const groupBy = result.data.groupBy.map(entry => {
+    const { field, by, as } = typeof entry === 'string' ? { field: entry, by: undefined, as: undefined } : entry;
+    if (typeOf(field) !== 'date' && by) {
+      fail(`${field} is not a date field and cannot be grouped by ${by}`, { field });
+    }
+    return { field, by, as: as ?? (by ? `${field}_${by}` : field) };
+  });
+
+  const measures = result.data.measures.map(({ op, field, as }) => {
+    if (field === undefined) {
+      if (op !== 'count') fail(`${op} requires a field`, { op });
+      return { op, as: as ?? 'count' };
+    }
+
+    const type = typeOf(field);
+    const types = MEASURE_TYPES[op];
+    if (types && !types.includes(type)) {
+      fail(`${op} does not apply to ${type} field ${field}`, { op, field });
+    }
+    return { op, field, as: as ?? `${op}_${field}` };
+  });
+
+  const names = [...groupBy, ...measures].map(column => column.as);
+  const duplicates = names.filter((name, index) => names.indexOf(name) !== index);
+  if (duplicates.length > 0) {
+    fail(`duplicate column ${duplicates[0]}; name columns apart with "as"`, { column: duplicates[0] });
+  }
+
+  const sort = result.data.sort ?? groupBy.map(({ as }) => ({ by: as, order: 'asc' as const }));
+  for (const { by } of sort) {
+    if (!names.includes(by)) fail(`cannot sort by ${by}: not a column of the result`, { column: by, columns: names });
+  }
+
+  return { groupBy, measures, sort, limit: result.data.limit };
+}
+
+// ============================================================================
+// Query Aggregator
+// ============================================================================
+
+interface MeasureState {
+  count: number;
+  sum?: number[];
+  decimal?: string;
+  min?: GroupValue;
+  max?: GroupValue;
+  distinct?: GroupValue[];
+}
+
+/**
+ * Groups of a query aggregator in a form that can be posted between
+ * threads
+ */
+export interface QuerySnapshot {
+  groups: Array<{ values: GroupValue[]; measures: MeasureState[] }>;
+  overflowed: boolean;
+}
+
+/**
+ * Running value of one measure in one group. Only the state the measure
+ * needs is kept: a distinct value set for count_distinct, an exact sum for
+ * sum and avg (a decimal one with minor units).
+ */
+class MeasureAccumulator {
+  private count = 0;
+  private readonly sum?: ExactSum;
+  private readonly decimal?: DecimalSum;
+  private min?: GroupValue;
+  private max?: GroupValue;
+  private readonly distinct?: Set<GroupValue>;
+
+  constructor(private readonly op: AggregationOp, minorUnits?: number) {
+    if ((op === 'sum' || op === 'avg') && minorUnits === undefined) this.sum = new ExactSum();
+    if ((op === 'sum' || op === 'avg') && minorUnits !== undefined) this.decimal = new DecimalSum(minorUnits);
+    if (op === 'count_distinct') this.distinct = new Set();
+  }
+
+  /**
+   * Add a value; `exact` is its exact decimal text, when it has one
+   */
+  add(value: GroupValue, exact?: string): void {
+    this.count++;
+    this.sum?.add(value as number);
+    this.decimal?.add(exact ?? value as number);
+    this.distinct?.add(value);
+    if (this.op === 'min' && (this.min === undefined || compareValues(value, this.min) < 0)) this.min = value;
+    if (this.op === 'max' && (this.max === undefined || compareValues(value, this.max) > 0)) this.max = value;
+  }
+
+  state(): MeasureState {
+    return {
+      count: this.count,
+      sum: this.sum?.terms(),
+      decimal: this.decimal?.units(),
+      min: this.min,
+      max: this.max,
+      distinct: this.distinct && [...this.distinct],
+    };
+  }
+
+  merge(state: MeasureState): void {
+    this.count += state.count;
+    state.sum?.forEach(term => this.sum?.add(term));
+    if (state.decimal !== undefined) this.decimal?.addUnits(state.decimal);
+    state.distinct?.forEach(value => this.distinct?.add(value));
+    if (state.min !== undefined && (this.min === undefined || compareValues(state.min, this.min) < 0)) this.min = state.min;
+    if (state.max !== undefined && (this.max === undefined || compareValues(state.max, this.max) > 0)) this.max = state.max;
+  }
+
+  result(): GroupValue {
+    switch (this.op) {
+      case 'count':
+        return this.count;
+      case 'sum':
+        return this.decimal ? this.decimal.toString() : round(this.sum!.value());
+      case 'avg':
+        if (this.count === 0) return null;
+        return this.decimal ? this.decimal.average(this.count) : round(this.sum!.value() / this.count);
+      case 'min':
+        return this.min ?? null;
+      case 'max':
+        return this.max ?? null;
+      case 'count_distinct':
+        return this.distinct!.size;
+    }
+  }
+}
+
+interface QueryGroup {
+  values: GroupValue[];
+  measures: MeasureAccumulator[];
+}
+
+/**
+ * Incremental aggregator of an aggregation query. Like the summaries, rows
+ * are added one at a time and partial aggregators of chunks, sheets and
+ * archive entries merge into the same result as a single pass.
+ *
+ * Groups past MAX_AGGREGATION_GROUPS are not kept; reading on is cheap,
+ * and the query fails once its result is asked for. With minor units, sums
+ * and averages are exact decimal strings.
+ */
+export class QueryAggregator {
+  private groups = new Map<string, QueryGroup>();
+  private overflowed = false;
+
+  constructor(
+    private readonly query: AggregationQuery,
+    private readonly minorUnits?: number,
+    private readonly maxGroups = AGGREGATION_LIMITS.maxGroups
+  ) {}
+
+  add(row: ValidatedRow, exact?: ExactDecimals): void {
+    const group = this.groupFor(this.query.groupBy.map(({ field, by }) => toGroupValue(row[field], by)));
+    this.query.measures.forEach(({ field }, index) => {
+      if (field === undefined) {
+        group?.measures[index].add(null);
+        return;
+      }
+      const value = toGroupValue(row[field]);
+      if (value !== null) group?.measures[index].add(value, exact?.[field]);
+    });
+  }
+
+  /**
+   * Fold another query aggregator's groups into this one (from another
+   * sheet or archive entry)
+   */
+  merge(other: QueryAggregator): void {
+    this.mergeSnapshot(other.snapshot());
+  }
+
+  snapshot(): QuerySnapshot {
+    return {
+      groups: [...this.groups.values()].map(group => ({
+        values: group.values,
+        measures: group.measures.map(measure => measure.state()),
+      })),
+      overflowed: this.overflowed,
+    };
+  }
+
+  /**
+   * Fold in the groups of another aggregator's snapshot (from a parse worker)
+   */
+  mergeSnapshot(snapshot: QuerySnapshot): void {
+    this.overflowed ||= snapshot.overflowed;
+    for (const { values, measures } of snapshot.groups) {
+      const group = this.groupFor(values);
+      measures.forEach((state, index) => group?.measures[index].merge(state));
+    }
+  }
+
+  /**
+   * Sorted and limited result rows
+   */
+  toResult(): AggregationResult {
+    if (this.overflowed) {
+      throw new AggregationLimitError(
+        `Aggregation exceeded the limit of ${this.maxGroups} groups`,
+        { maxGroups: this.maxGroups }
+      );
+    }
+
+    const rows = [...this.groups.values()].map(group => {
+      const row: Record<string, GroupValue> = {};
+      this.query.groupBy.forEach(({ as }, index) => {
+        row[as] = group.values[index];
+      });
+      this.query.measures.forEach(({ as }, index) => {
+        row[as] = group.measures[index].result();
+      });
+      return row;
+    });
+
+    // Ties are broken by the group columns so the order is stable
+    const order = [...this.query.sort, ...this.query.groupBy.map(({ as }) => ({ by: as, order: 'asc' as const }))];
+    const decimals = new Set(this.minorUnits === undefined
+      ? []
+      : this.query.measures.filter(({ op }) => op === 'sum' || op === 'avg').map(({ as }) => as));
+    rows.sort((a, b) => {
+      for (const { by, order: direction } of order) {
+        const comparison = compareValues(a[by], b[by], direction === 'desc', decimals.has(by));
+        if (comparison !== 0) return comparison;
+      }
+      return 0;
+    });
+
+    return {
+      groupBy: this.query.groupBy.map(({ as }) => as),
+      measures: this.query.measures.map(({ as }) => as),
+      rows: this.query.limit === undefined ? rows : rows.slice(0, this.query.limit),
+      groupCount: rows.length,
+    };
+  }
+
+  private groupFor(values: GroupValue[]): QueryGroup | undefined {
+    const key = JSON.stringify(values);
+    let group = this.groups.get(key);
+
+    if (!group) {
+      if (this.groups.size >= this.maxGroups) {
+        this.overflowed = true;
+        return undefined;
+      }
+      group = { values, measures: this.query.measures.map(({ op }) => new MeasureAccumulator(op, this.minorUnits)) };
+      this.groups.set(key, group);
+    }
+    return group;
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Value a row field contributes to a group or measure; blank values are
+ * null. Dates are ISO-8601 strings, so their parts are prefixes.
+ */
+function toGroupValue(value: unknown, by?: DatePart): GroupValue {
+  if (value === undefined || value === null || value === '') {
+    return null;
+  }
+  if (typeof value !== 'string') {
+    return value as GroupValue;
+  }
+
+  switch (by) {
+    case 'year':
+      return value.slice(0, 4);
+    case 'quarter':
+      return `${value.slice(0, 4)}-Q${Math.ceil(Number(value.slice(5, 7)) / 3)}`;
+    case 'month':
+      return value.slice(0, 7);
+    case 'day':
+      return value.slice(0, 10);
+    default:
+      return value;
+  }
+}
+
+/**
+ * Order of two column values; nulls sort last in either direction.
+ * Decimal strings of sums and averages compare by value.
+ */
+function compareValues(a: GroupValue, b: GroupValue, descending = false, decimal = false): number {
+  if (a === null || b === null) {
+    return a === b ? 0 : a === null ? 1 : -1;
+  }
+
+  const order = typeof a === 'number' && typeof b === 'number'
+    ? a - b
+    : decimal ? compareDecimals(String(a), String(b)) : String(a).localeCompare(String(b));
+  return descending ? -order : order;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,19 @@
+import { describe, expect, test } from 'bun:test';
+import { compileColumnMapping, parseColumnMapping } from './column-mapping.js';
+import { ValidationError } from '../types.js';
+
+describe('parseColumnMapping', () => {
+  test('compiles header patterns case-insensitively', () => {
+    const mapping = compileColumnMapping(parseColumnMapping({ patterns: { country: ['^country( code)?$'] } }));
+
+    expect(mapping.patterns.country.map(pattern => pattern.test('Country Code'))).toEqual([true]);
+  });
+
+  test('refuses patterns that can backtrack catastrophically', () => {
+    for (const pattern of ['^(\\w+\\s?)*$', '(', 'x'.repeat(1000)]) {
+      expect(() => parseColumnMapping({ patterns: { country: [pattern] } })).toThrow(ValidationError);
+    }
+    expect(() => parseColumnMapping({ patterns: { country: ['(a+)+'] } }))
+      .toThrow('Invalid column pattern for country: nested repetition such as (a+)+ can take exponential time');
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, expect, test } from 'bun:test';
+import { DEFAULT_DIALECT, detectDialect } from './csv-dialect.js';
+import { processCsvFile, resolveImportOptions } from './csv-parser.js';
+import { ValidationError } from '../types.js';
+
+describe('detectDialect', () => {
+  test.each([
+    ['commas', 'region,country,amount\nEU,DE,10\nUS,US,20\n', ','],
+    ['semicolons', 'region;country;amount\nEU;DE;10,5\nUS;US;20,25\n', ';'],
+    ['tabs', 'region\tcountry\tamount\nEU\tDE\t10\nUS\tUS\t20\n', '\t'],
+    ['pipes', 'region|country|amount\nEU|DE|10\nUS|US|20\n', '|'],
+    ['semicolons with commas in quoted fields', 'name;note\n"Smith, J";"a, b"\n"Doe, A";"c, d"\n', ';'],
+  ])('detects %s', (_, sample, delimiter) => {
+    expect(detectDialect(sample).delimiter).toBe(delimiter);
+  });
+
+  test('falls back to the default dialect for a single column', () => {
+    expect(detectDialect('amount\n10\n20\n')).toEqual(DEFAULT_DIALECT);
+  });
+
+  test('ignores the partial line a sample is cut at', () => {
+    expect(detectDialect('a;b;c\n1;2;3\n4;5;6\n7,8').delimiter).toBe(';');
+  });
+
+  test('detects single quotes and backslash escaping', () => {
+    const sample = "name,note\n'Smith','it\\'s'\n'Doe','say \\'hi\\''\n";
+
+    expect(detectDialect(sample)).toMatchObject({ quote: "'", escape: '\\' });
+  });
+
+  test('keeps doubled quotes as the escape when both appear', () => {
+    const sample = 'name,note\n"a","say ""hi"""\n"b","path C:\\"\n';
+
+    expect(detectDialect(sample)).toMatchObject({ quote: '"', escape: '"' });
+  });
+
+  test.each([
+    ['text above numbers', 'region,amount\nEU,10\nUS,20\n', true],
+    ['numbers all the way down', '1,10\n2,20\n3,30\n', false],
+    ['a cell longer than fixed-width values below', 'code,iso\nAB12,DE\nCD34,FR\n', true],
+    ['fixed-width values from the first row', 'AB12,DE\nCD34,FR\nEF56,IT\n', false],
+    ['a single record', 'region,amount\n', true],
+  ])('detects a header from %s', (_, sample, hasHeader) => {
+    expect(detectDialect(sample).hasHeader).toBe(hasHeader);
+  });
+
+  test('takes overrides as given', () => {
+    const sample = 'a;b\n1;2\n';
+
+    expect(detectDialect(sample, { delimiter: ',', hasHeader: false })).toEqual({
+      delimiter: ',',
+      quote: '"',
+      escape: '"',
+      hasHeader: false,
+    });
+  });
+});
+
+describe('dialect metadata', () => {
+  test('reads the overrides from request metadata', async () => {
+    const options = await resolveImportOptions({ csv_delimiter: 'tab', csv_quote: "'", csv_escape: '\\', csv_header: 'false' });
+
+    expect(options.dialect).toEqual({ delimiter: '\t', quote: "'", escape: '\\', hasHeader: false });
+    expect((await resolveImportOptions({})).dialect).toEqual({});
+  });
+
+  test.each([
+    [{ csv_delimiter: ';;' }, 'Invalid csv_delimiter: expected a single character'],
+    [{ csv_quote: 'ab' }, 'Invalid csv_quote: expected a single character'],
+    [{ csv_header: 'yes' }, 'Invalid csv_header: expected "true" or "false"'],
+  ])('rejects %o', async (metadata, message) => {
+    await expect(resolveImportOptions(metadata)).rejects.toThrow(new ValidationError(message));
+  });
+
+  test('an override wins over what the file looks like', async () => {
+    // Forced to commas, the decimal commas split the amounts and no row is valid
+    const csv = 'region;country;amount\nEU;DE;1,5\nEU;FR;2,5\n';
+
+    const sniffed = await processCsvFile(Buffer.from(csv), await resolveImportOptions({ locale: 'de-DE' }));
+    expect(sniffed.dialect?.delimiter).toBe(';');
+
+    const forced = await processCsvFile(Buffer.from(csv), await resolveImportOptions({ locale: 'de-DE', csv_delimiter: ',' }));
+    expect(forced.dialect?.delimiter).toBe(',');
+    expect(forced.successCount).toBe(0);
+  });
+
+  test('reads a headerless file with csv_header=false', async () => {
+    const csv = 'EU,DE,10\nEU,FR,20\n';
+    const result = await processCsvFile(Buffer.from(csv), await resolveImportOptions({ csv_header: 'false' }));
+
+    expect(result.dialect?.hasHeader).toBe(false);
+    expect(result.rowCount).toBe(2);
+  });
+});
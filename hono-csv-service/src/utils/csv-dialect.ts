@@ -0,0 +1,162 @@
+/**
+ * CSV Dialect Detection
+ * Sniffs delimiter, quote and escape characters and the presence of a header row
+ */
+
+import { tokenizeCsvString } from './csv-stream.js';
+import type { CsvDialect } from '../types.js';
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+/**
+ * Number of leading bytes sampled for detection
+ */
+export const DIALECT_SAMPLE_BYTES = 1024;
+
+const DELIMITER_CANDIDATES = [',', ';', '\t', '|'];
+const QUOTE_CANDIDATES = ['"', "'"];
+
+const NUMERIC_PATTERN = /^[-+(]?\s*[$€£¥]?\s*\d[\d.,\s]*\)?$/;
+
+export const DEFAULT_DIALECT: CsvDialect = {
+  delimiter: ',',
+  quote: '"',
+  escape: '"',
+  hasHeader: true,
+};
+
+// ============================================================================
+// Detection
+// ============================================================================
+
+/**
+ * Detect the dialect of a CSV sample. Any property present in `overrides`
+ * is taken as given and not sniffed.
+ */
+export function detectDialect(sample: string, overrides: Partial<CsvDialect> = {}): CsvDialect {
+  // The sample is cut at an arbitrary byte, so ignore its trailing partial line
+  const lastNewline = sample.lastIndexOf('\n');
+  const text = lastNewline > 0 ? sample.slice(0, lastNewline) : sample;
+
+  const quote = overrides.quote ?? detectQuote(text);
+  const delimiter = overrides.delimiter ?? detectDelimiter(text, quote);
+  const escape = overrides.escape ?? detectEscape(text, quote);
+  const hasHeader = overrides.hasHeader ?? detectHeader(sampleRecords(text, { delimiter, quote, escape }));
+
+  return { delimiter, quote, escape, hasHeader };
+}
+
+/**
+ * Pick the quote character that most often opens or closes a field
+ */
+function detectQuote(text: string): string {
+  let best = DEFAULT_DIALECT.quote;
+  let bestCount = 0;
+
+  for (const quote of QUOTE_CANDIDATES) {
+    const boundary = new RegExp(`(^|[,;\\t|])${quote}|${quote}([,;\\t|]|\\r?$)`, 'gm');
+    const count = text.match(boundary)?.length ?? 0;
+    if (count > bestCount) {
+      best = quote;
+      bestCount = count;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Pick the delimiter that splits the most records into the same number
+ * of fields (ties go to the earlier candidate, so comma wins by default)
+ */
+function detectDelimiter(text: string, quote: string): string {
+  let best = DEFAULT_DIALECT.delimiter;
+  let bestScore = 0;
+
+  for (const delimiter of DELIMITER_CANDIDATES) {
+    const counts = new Map<number, number>();
+    for (const record of sampleRecords(text, { delimiter, quote, escape: quote })) {
+      counts.set(record.length, (counts.get(record.length) || 0) + 1);
+    }
+
+    // Score the most common field count by how many records share it
+    let score = 0;
+    for (const [fields, records] of counts) {
+      if (fields > 1) {
+        score = Math.max(score, records * (fields - 1));
+      }
+    }
+
+    if (score > bestScore) {
+      best = delimiter;
+      bestScore = score;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Backslash escaping is assumed only when escaped quotes appear and
+ * doubled quotes do not. A pair right after a backslash (an escaped quote
+ * closing its field) or opening a field (an empty value) is not a doubled quote.
+ */
+function detectEscape(text: string, quote: string): string {
+  const backslashEscaped = text.includes(`\\${quote}`);
+  const doubled = new RegExp(`[^\\\\,;\\t|\\n]${quote}${quote}`).test(text);
+  return backslashEscaped && !doubled ? '\\' : quote;
+}
+
+/**
+ * Decide whether the first record is a header by comparing it with the
+ * records below it, column by column: a header cell tends to differ in type
+ * (text above numbers) or in length (above fixed-width values). Ties fall
+ * back to assuming a header.
+ */
+function detectHeader(records: string[][]): boolean {
+  if (records.length < 2) {
+    return DEFAULT_DIALECT.hasHeader;
+  }
+
+  const [first, ...rest] = records;
+  let votes = 0;
+
+  first.forEach((cell, column) => {
+    const values = rest
+      .map(record => record[column])
+      .filter((value): value is string => value !== undefined && value.trim() !== '');
+
+    if (values.length === 0) {
+      return;
+    }
+
+    if (values.every(value => NUMERIC_PATTERN.test(value.trim()))) {
+      votes += NUMERIC_PATTERN.test(cell.trim()) ? -1 : 1;
+      return;
+    }
+
+    const lengths = new Set(values.map(value => value.length));
+    if (lengths.size === 1) {
+      votes += lengths.has(cell.length) ? -1 : 1;
+    }
+  });
+
+  return votes >= 0;
+}
+
+/**
+ * Tokenize a sample with a candidate dialect, skipping blank records
+ */
+function sampleRecords(text: string, dialect: Omit<CsvDialect, 'hasHeader'>): string[][] {
+  const records: string[][] = [];
+
+  tokenizeCsvString(text, (fields) => {
+    if (fields.some(field => field.trim())) {
+      records.push(fields);
+    }
+  }, dialect);
+
+  return records;
+}
@@ -0,0 +1,187 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test';
+import * as XLSX from 'xlsx';
+import { processCsvFile, processCsvFileParallel, processExcelFile, resolveImportOptions } from './csv-parser.js';
+import { PARALLEL_PARSE_CONFIG } from './worker-pool.js';
+import { CsvParseError, CsvProcessingError, ValidationError } from '../types.js';
+import type { ImportOptions } from '../types.js';
+
+describe('processCsvFile', () => {
+  test('streams records from a web stream in small chunks', async () => {
+    const csv = 'region,country,amount,date,category\nEU,DE,"1,5",2024-01-01,A\nEU,FR,2,2024-01-02,A\n';
+    const bytes = Buffer.from(csv);
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        for (let offset = 0; offset < bytes.length; offset += 7) {
+          controller.enqueue(bytes.subarray(offset, offset + 7));
+        }
+        controller.close();
+      },
+    });
+
+    const result = await processCsvFile(stream, await resolveImportOptions({ locale: 'de-DE' }));
+
+    expect(result.rowCount).toBe(2);
+    expect(result.successCount).toBe(2);
+    expect(result.summaries).toEqual([
+      { region: 'EU', country: 'DE', count: 1, amountSum: 1.5, amountAvg: 1.5 },
+      { region: 'EU', country: 'FR', count: 1, amountSum: 2, amountAvg: 2 },
+    ]);
+  });
+
+  test('fails the file at the position of malformed quoting with csv_strict', async () => {
+    const csv = 'region,country,amount\nEU,DE,10\nEU,"FR"x,20\n';
+    const options = await resolveImportOptions({ csv_strict: 'true' });
+    const error = await processCsvFile(Buffer.from(csv), options).catch(e => e);
+
+    expect(error).toBeInstanceOf(CsvParseError);
+    expect(error).toMatchObject({ statusCode: 400, line: 3, column: 8 });
+
+    const lenient = await processCsvFile(Buffer.from(csv), await resolveImportOptions({}));
+    expect(lenient.rowCount).toBe(2);
+  });
+
+  test('rejects an empty file with a 400 validation error', async () => {
+    for (const csv of ['', '\n\n', '\r\n']) {
+      const error = await processCsvFile(Buffer.from(csv), await resolveImportOptions({})).catch(e => e);
+
+      expect(error).toBeInstanceOf(ValidationError);
+      expect((error as CsvProcessingError).statusCode).toBe(400);
+      expect((error as Error).message).toBe('CSV file is empty');
+    }
+  });
+});
+
+describe('resolveImportOptions', () => {
+  test('refuses a sheet_pattern that can backtrack catastrophically', async () => {
+    const error = await resolveImportOptions({ sheet_pattern: '^(\\w+\\s?)*$' }).catch(e => e);
+
+    expect(error).toBeInstanceOf(ValidationError);
+    expect((error as Error).message).toBe('Invalid sheet_pattern: nested repetition such as (a+)+ can take exponential time');
+
+    const options = await resolveImportOptions({ sheet_pattern: '^Sales \\d{4}$' });
+    expect(options.sheetPattern?.test('Sales 2024')).toBe(true);
+  });
+});
+
+describe('processCsvFileParallel', () => {
+  const config = { ...PARALLEL_PARSE_CONFIG };
+  beforeAll(() => Object.assign(PARALLEL_PARSE_CONFIG, { workers: 2, minBytes: 1, chunkBytes: 256 }));
+  afterAll(() => Object.assign(PARALLEL_PARSE_CONFIG, config));
+
+  // Quoted delimiters and newlines, failing rows and blank lines spread over many chunks
+  const lines = ['id,region,country,amount,date,note'];
+  for (let i = 0; i < 600; i++) {
+    const amount = i % 37 === 0 ? 'n/a' : `"${(i * 7.31).toFixed(2).replace('.', ',')}"`;
+    const note = i % 5 === 0 ? `"multi\nline, ""quoted"" ${i}"` : `plain ${i}`;
+    lines.push(`${i},R${i % 4},"C${i % 3}, x",${amount},2024-0${(i % 9) + 1}-1${i % 10},${note}`);
+    if (i % 97 === 0) lines.push('');
+  }
+  const csv = Buffer.from(lines.join('\r\n') + '\r\n');
+
+  /**
+   * What both readers must agree on: everything but the timings
+   */
+  async function outcome(read: typeof processCsvFile, options: ImportOptions) {
+    try {
+      const { rowCount, successCount, errorCount, summaries, errors, truncated, columns, aggregator } = await read(csv, options);
+      return {
+        rowCount,
+        successCount,
+        errorCount,
+        summaries,
+        errors,
+        truncated,
+        columns,
+        timeSeries: aggregator?.timeSeries?.toResult(),
+        pivot: aggregator?.toPivotTable(),
+      };
+    } catch (error) {
+      return { error: error instanceof CsvProcessingError ? [error.message, error.details] : error };
+    }
+  }
+
+  test.each([
+    ['defaults', {}],
+    ['a locale, a time series and a pivot table', {
+      locale: 'de-DE',
+      time_series: JSON.stringify({ granularity: 'month' }),
+      pivot: JSON.stringify({ rows: 'region', columns: 'country' }),
+    }],
+    ['exact decimal sums', { locale: 'de-DE', minor_units: '2' }],
+    ['an error threshold', { locale: 'de-DE', max_errors: '10' }],
+    ['an error rate', { locale: 'de-DE', max_error_rate: '3' }],
+  ])('gives the sequential result with %s', async (_, metadata) => {
+    const options = await resolveImportOptions(metadata);
+    const expected = await outcome(processCsvFile, options);
+
+    expect(await outcome(processCsvFileParallel, options)).toEqual(expected);
+  });
+
+  test('gives the sequential result with a row cap', async () => {
+    const options = { ...await resolveImportOptions({ locale: 'de-DE' }), maxRows: 333 };
+    const expected = await outcome(processCsvFile, options);
+
+    expect(expected).toMatchObject({ rowCount: 333, truncated: true });
+    expect(await outcome(processCsvFileParallel, options)).toEqual(expected);
+  });
+});
+
+describe('row errors', () => {
+  // The quoted name spans lines 3 to 5, so the failing records start on lines 6 to 8
+  const csv = Buffer.from([
+    'Region,Country,Amt,Date',
+    'EU,DE,10,2024-01-01',
+    'EU,"Multi',
+    'line',
+    'name",20,2024-01-02',
+    'EU,FR,x,2024-01-03',
+    'US,US,5,someday',
+    'US,,7,2024-01-04',
+  ].join('\n') + '\n');
+
+  const metadata = { column_mapping: JSON.stringify({ synonyms: { amount: ['Amt'] } }) };
+
+  const expected = [
+    { row: 6, field: 'amount', column: 'Amt', value: 'x', code: 'invalid_type', message: 'Expected number, received string' },
+    { row: 7, field: 'date', column: 'Date', value: 'someday', code: 'invalid_date', message: 'Date is not in an accepted format' },
+    { row: 8, field: 'country', column: 'Country', value: '', code: 'too_small', message: 'Country is required' },
+  ];
+
+  test('report the line a record starts on, the source column, the value and the issue code', async () => {
+    const result = await processCsvFile(csv, await resolveImportOptions(metadata));
+
+    expect([result.rowCount, result.successCount, result.errorCount]).toEqual([5, 2, 3]);
+    expect(result.errors).toEqual(expected);
+  });
+
+  test('stop at max_row_errors while errorCount keeps counting', async () => {
+    const result = await processCsvFile(csv, await resolveImportOptions({ ...metadata, max_row_errors: '1' }));
+
+    expect(result.errorCount).toBe(3);
+    expect(result.errors).toEqual(expected.slice(0, 1));
+  });
+
+  test('report the sheet and its row for a workbook', async () => {
+    const workbook = XLSX.utils.book_new();
+    const sheet = XLSX.utils.aoa_to_sheet([['region', 'country', 'amount'], ['EU', 'DE', 1], [], ['EU', 'FR', 'x']]);
+    XLSX.utils.book_append_sheet(workbook, sheet, 'Sales');
+
+    const result = await processExcelFile(XLSX.write(workbook, { bookType: 'xlsx', type: 'buffer' }), await resolveImportOptions({}));
+
+    expect(result.errors).toEqual([
+      { row: 4, sheet: 'Sales', field: 'amount', column: 'amount', value: 'x', code: 'invalid_type', message: 'Expected number, received string' },
+    ]);
+  });
+
+  describe('on the parse workers', () => {
+    const config = { ...PARALLEL_PARSE_CONFIG };
+    beforeAll(() => Object.assign(PARALLEL_PARSE_CONFIG, { workers: 2, minBytes: 1, chunkBytes: 32 }));
+    afterAll(() => Object.assign(PARALLEL_PARSE_CONFIG, config));
+
+    test('report the same rows when chunks cut through the quoted field', async () => {
+      const result = await processCsvFileParallel(csv, await resolveImportOptions(metadata));
+
+      expect(result.errors).toEqual(expected);
+    });
+  });
+});
@@ -3,25 +3,149 @@
  * Handles parsing, validation, and aggregation
  */
 
-import { readFileSync } from 'fs';
-import { pipeline } from 'node:stream/promises';
-import { Readable } from 'node:stream';
 import * as XLSX from 'xlsx';
 import { z } from 'zod';
-import type { CsvRow, RegionSummary, AggregatedSummary, ProcessingStats } from '../types.js';
+import {
+  CsvRecordSplitter,
+  CsvStreamParser,
+  isSplittable,
+  peekSource,
+  readChunks,
+  tokenizeCsvString,
+} from './csv-stream.js';
+import type { CsvSource } from './csv-stream.js';
+import { JsonRecordStream, flattenRecord } from './json-stream.js';
+import type { JsonFormat } from './json-stream.js';
+import { readArrowRows, readParquetRows } from './columnar.js';
+import type { ColumnarFormat, ColumnarValue } from './columnar.js';
+import {
+  checkColumnMappingFields,
+  compileColumnMapping,
+  mergeColumnReports,
+  resolveColumnMapping,
+  resolveColumns,
+} from './column-mapping.js';
+import type { CompiledColumnMapping, ResolvedColumns } from './column-mapping.js';
+import { getNumberParser, resolveLocale } from './locale-number.js';
+import type { NumberParser } from './locale-number.js';
+import { createDateNormalizer, resolveDateOptions } from './date-normalizer.js';
+import { compileRowSchema, DEFAULT_ROW_SCHEMA, resolveRowSchema } from './row-schema.js';
+import type { CompiledRowSchema, ValidatedRow } from './row-schema.js';
+import { RejectedRowsCollector } from './rejected-rows.js';
+import type { RejectedRow } from './rejected-rows.js';
+import { resolveValidationPolicy, ValidationGuard } from './validation-policy.js';
+import type { ValidationCounts } from './validation-policy.js';
+import { PROCESSING_LIMITS, throwIfAborted } from './processing-limits.js';
+import { getParseWorkerPool, PARALLEL_PARSE_CONFIG } from './worker-pool.js';
+import { detectDialect, DEFAULT_DIALECT, DIALECT_SAMPLE_BYTES } from './csv-dialect.js';
+import { checkPattern } from './safe-pattern.js';
+import { createDecoder, detectEncoding, resolveEncodingLabel, ENCODING_SAMPLE_BYTES } from './encoding.js';
+import { ExactSum } from './exact-sum.js';
+import { DecimalSum, MAX_MINOR_UNITS } from './decimal-sum.js';
+import type { ExactDecimals } from './decimal-sum.js';
+import { DEFAULT_PERCENTILES, MeasureDistribution } from './distribution.js';
+import type { DistributionSnapshot } from './distribution.js';
+import { QueryAggregator, resolveAggregationQuery } from './aggregation-query.js';
+import type { QuerySnapshot } from './aggregation-query.js';
+import { TimeSeriesAggregator, resolveTimeSeries } from './time-series.js';
+import type { TimeSeriesSnapshot } from './time-series.js';
+import { buildPivotTable, resolvePivot } from './pivot-table.js';
+import { CsvParseError, CsvProcessingError, ValidationError, METADATA_KEYS } from '../types.js';
+import type {
+  CsvDialect,
+  FieldType,
+  RegionSummary,
+  ProcessingStats,
+  ImportOptions,
+  SheetResult,
+  ArchiveEntryResult,
+  ColumnMappingReport,
+  RowError,
+  PivotOptions,
+  PivotTable,
+} from '../types.js';
 
 // ============================================================================
 // Validation Schema
 // ============================================================================
 
-const CSV_ROW_SCHEMA = z.object({
-  region: z.string().min(1, 'Region is required'),
-  country: z.string().min(1, 'Country is required'),
-  amount: z.number().finite('Amount must be a valid number'),
-  id: z.string().optional(),
-  date: z.string().optional(),
-  category: z.string().optional(),
-});
+/**
+ * Validator for a request: the tenant row schema it names, or the built-in
+ * one, with dates read per its date options and locale
+ */
+function rowSchemaFor(options: ImportOptions): CompiledRowSchema {
+  return compileRowSchema(
+    options.rowSchema?.definition ?? DEFAULT_ROW_SCHEMA,
+    createDateNormalizer(options.dates, options.locale)
+  );
+}
+
+/**
+ * Row errors reported when a request sets no cap, and the highest cap a
+ * request may set
+ */
+const DEFAULT_MAX_ROW_ERRORS = parseInt(process.env.MAX_ROW_ERRORS || '100', 10);
+const ROW_ERRORS_LIMIT = 10000;
+
+/**
+ * Collects why rows failed validation, one entry per failed field, up to
+ * a cap. Rows past the cap still count towards errorCount.
+ */
+class RowErrorReport {
+  readonly errors: RowError[] = [];
+
+  constructor(private readonly limit: number = DEFAULT_MAX_ROW_ERRORS) {}
+
+  /**
+   * Record a failed validation. Fields are reported together with the
+   * source column they were read from and the value as it was written.
+   */
+  addValidationError(
+    row: number,
+    error: unknown,
+    record: Record<string, unknown>,
+    columns?: ColumnMappingReport,
+    sheet?: string
+  ): void {
+    if (!(error instanceof z.ZodError)) {
+      this.add({ row, sheet, code: 'custom', message: error instanceof Error ? error.message : 'Unknown error' });
+      return;
+    }
+
+    for (const issue of error.issues) {
+      const field = issue.path.length > 0 ? issue.path.join('.') : undefined;
+      const value = field === undefined ? undefined : record[field];
+      this.add({
+        row,
+        sheet,
+        field,
+        column: field === undefined ? undefined : columns?.mapped[field],
+        value: value === undefined || value === null ? undefined : String(value),
+        code: issue.code,
+        message: issue.message,
+      });
+    }
+  }
+
+  add(error: RowError): void {
+    if (this.errors.length < this.limit) {
+      this.errors.push(error);
+    }
+  }
+}
+
+/**
+ * One-line reason a row failed validation, for the `_error` column of the
+ * rejected rows file
+ */
+function describeValidationError(error: unknown): string {
+  if (error instanceof z.ZodError) {
+    return error.issues
+      .map(issue => (issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message))
+      .join('; ');
+  }
+  return error instanceof Error ? error.message : 'Unknown error';
+}
 
 // ============================================================================
 // CSV Parser
@@ -33,119 +157,694 @@ interface ParseResult {
   errorCount: number;
   summaries: RegionSummary[];
   stats: ProcessingStats;
+  dialect?: CsvDialect;
+  sheets?: SheetResult[];
+  entries?: ArchiveEntryResult[];
+  columns?: ColumnMappingReport;
+  errors?: RowError[];
+  rejected?: RejectedRowsCollector;
+  /**
+   * Reading stopped at the row cap before the end of the file
+   */
+  truncated?: boolean;
+  /**
+   * Groups behind the summaries, the request's aggregation query and time
+   * series, kept mergeable so the entries of an archive roll up into one result
+   */
+  aggregator?: RegionAggregator;
 }
 
 /**
- * Parse CSV buffer
+ * Distinct record shapes of a JSON file whose column resolution is cached
  */
-async function parseCSVBuffer(buffer: Buffer): Promise<{ headers: string[]; rows: unknown[] }> {
-  const content = buffer.toString('utf-8');
+const JSON_SHAPE_CACHE_SIZE = 1000;
 
-  // Split into lines
-  const lines = content.split(/\r?\n/).filter(line => line.trim());
+/**
+ * Text accepted for boolean fields
+ */
+const BOOLEAN_VALUES: Record<string, boolean> = {
+  true: true, false: false, yes: true, no: false, y: true, n: false, '1': true, '0': false,
+};
 
-  if (lines.length === 0) {
-    throw new Error('CSV file is empty');
+/**
+ * Field types whose numeric spreadsheet and columnar cells are kept as
+ * numbers (dates as Excel serials)
+ */
+function isNumericType(type: FieldType | undefined): boolean {
+  return type === 'number' || type === 'integer' || type === 'date';
+}
+
+/**
+ * Coerce a cell to its field type. Typed values are taken as they are and
+ * number text is parsed for the request locale; everything else is
+ * treated like the CSV text it would have been exported as. Text that
+ * does not convert stays as it was written, so validation reports the
+ * original value.
+ */
+function coerceField(type: FieldType | undefined, value: ColumnarValue, parseNumber: NumberParser): unknown {
+  if ((typeof value === 'number' && isNumericType(type)) || (typeof value === 'boolean' && type === 'boolean')) {
+    return value;
   }
 
-  // Extract headers (first line)
-  const headers = parseCSVLine(lines[0]);
+  const text = value === null ? '' : String(value);
+  if (type === 'number' || type === 'integer') {
+    const num = parseNumber(text);
+    if (num !== null) return num;
+  } else if (type === 'boolean') {
+    const bool = BOOLEAN_VALUES[text.trim().toLowerCase()];
+    if (bool !== undefined) return bool;
+  }
+  return text;
+}
 
-  // Parse rows
-  const rows: unknown[] = [];
-  for (let i = 1; i < lines.length; i++) {
-    const values = parseCSVLine(lines[i]);
-    if (values.length > 0) {
-      const row: Record<string, unknown> = {};
-      headers.forEach((header, index) => {
-        row[header.toLowerCase().replace(/[^a-z0-9]/g, '_')] = values[index] || '';
-      });
-      rows.push(row);
+/**
+ * Build a row object from a record, coercing fields to their schema types.
+ * Columns without a key are left out.
+ */
+function buildRow(
+  keys: Array<string | null>,
+  values: ColumnarValue[],
+  types: Record<string, FieldType>,
+  parseNumber: NumberParser
+): Record<string, unknown> {
+  const row: Record<string, unknown> = {};
+
+  keys.forEach((key, index) => {
+    if (key !== null) row[key] = coerceField(types[key], values[index] ?? '', parseNumber);
+  });
+
+  return row;
+}
+
+/**
+ * Build a row object from typed columnar values. Exact decimal text is a
+ * number in any locale.
+ */
+function buildTypedRow(
+  values: Record<string, ColumnarValue>,
+  exact: ExactDecimals,
+  types: Record<string, FieldType>,
+  parseNumber: NumberParser
+): Record<string, unknown> {
+  const row: Record<string, unknown> = {};
+
+  for (const [key, value] of Object.entries(values)) {
+    const type = types[key];
+    row[key] = key in exact && isNumericType(type) ? Number(exact[key]) : coerceField(type, value, parseNumber);
+  }
+
+  return row;
+}
+
+/**
+ * Resolve row keys from the first record: either its header cells or,
+ * for headerless files, the schema's field order (so positional mappings
+ * still apply)
+ */
+function resolveKeys(
+  values: string[],
+  dialect: CsvDialect,
+  fields: string[],
+  mapping?: CompiledColumnMapping
+): ResolvedColumns {
+  const headers = dialect.hasHeader
+    ? values
+    : Array.from(
+      { length: Math.max(values.length, fields.length) },
+      (_, index) => fields[index] ?? `column_${index + 1}`
+    );
+  return resolveColumns(headers, fields, mapping);
+}
+
+/**
+ * Check whether a record carries any data (blank lines are skipped)
+ */
+export function isBlankRecord(values: string[]): boolean {
+  return !values.some(v => v.trim());
+}
+
+/**
+ * Validates and aggregates the data records of a CSV file once its columns
+ * are resolved, counting rows up to the row cap. processCsvFile reads a
+ * whole file through one; a parse worker reads one chunk of a large file.
+ */
+class CsvRowReader {
+  rowCount = 0;
+  successCount = 0;
+  errorCount = 0;
+  truncated = false;
+  validateMs = 0;
+  aggregateMs = 0;
+  private readonly parseNumber: NumberParser;
+  private readonly maxRows: number;
+
+  constructor(
+    readonly columns: ResolvedColumns,
+    private readonly rowSchema: CompiledRowSchema,
+    private readonly aggregator: RegionAggregator,
+    private readonly rowErrors: RowErrorReport,
+    private readonly rejected: RejectedRowsCollector | undefined,
+    options: ImportOptions,
+    private readonly onFailure: (counts: ValidationCounts) => void
+  ) {
+    this.parseNumber = getNumberParser(options.locale);
+    this.maxRows = options.maxRows ?? Infinity;
+  }
+
+  get counts(): ValidationCounts {
+    return { rowCount: this.rowCount, successCount: this.successCount, errorCount: this.errorCount };
+  }
+
+  read(values: string[], line: number, quoted: boolean[]): void {
+    if (this.rowCount === this.maxRows) {
+      this.truncated = true;
+      return;
+    }
+    this.rowCount++;
+    const row = buildRow(this.columns.keys, values, this.rowSchema.types, this.parseNumber);
+
+    // Validate
+    const validationStart = performance.now();
+    const result = this.rowSchema.validate(row);
+    this.validateMs += performance.now() - validationStart;
+    if (!result.success) {
+      this.errorCount++;
+      this.rowErrors.addValidationError(line, result.error, row, this.columns.report);
+      this.rejected?.add(values, describeValidationError(result.error), quoted);
+      this.onFailure(this.counts);
+      return;
     }
+    this.successCount++;
+
+    // Aggregate
+    const aggregateStart = performance.now();
+    this.aggregator.add(result.data);
+    this.aggregateMs += performance.now() - aggregateStart;
   }
+}
 
-  return { headers, rows };
+/**
+ * Sniff the encoding and dialect of a CSV file from its first bytes,
+ * unless the request sets them
+ */
+function detectCsvFormat(head: Uint8Array, options: ImportOptions): { encoding: string; dialect: CsvDialect } {
+  const encoding = options.encoding ?? detectEncoding(head.subarray(0, ENCODING_SAMPLE_BYTES));
+  const sample = createDecoder(encoding).decode(head.subarray(0, Math.min(ENCODING_SAMPLE_BYTES, DIALECT_SAMPLE_BYTES)));
+  return { encoding, dialect: detectDialect(sample, options.dialect) };
 }
 
 /**
- * Parse a single CSV line handling quoted values
+ * Process CSV file
+ *
+ * The source is tokenized incrementally and every record flows straight
+ * through validation into the aggregator, so memory use does not grow with
+ * the size of the file.
  */
-function parseCSVLine(line: string): string[] {
-  const result: string[] = [];
-  let current = '';
-  let inQuotes = false;
+export async function processCsvFile(source: CsvSource, options: ImportOptions = {}): Promise<ParseResult> {
+  const startTime = Date.now();
+  const stats: ProcessingStats = {
+    parseDurationMs: 0,
+    validateDurationMs: 0,
+    aggregateDurationMs: 0,
+    totalDurationMs: 0,
+  };
 
-  for (let i = 0; i < line.length; i++) {
-    const char = line[i];
+  const mapping = options.columnMapping && compileColumnMapping(options.columnMapping);
+  const rowSchema = rowSchemaFor(options);
+  const aggregator = new RegionAggregator(rowSchema, options);
+  const rowErrors = new RowErrorReport(options.maxRowErrors);
+  const guard = new ValidationGuard(options.validationPolicy);
+  let rejected: RejectedRowsCollector | undefined;
+  let dialect: CsvDialect = DEFAULT_DIALECT;
+  let reader: CsvRowReader | undefined;
+
+  const onRecord = (values: string[], line: number, quoted: boolean[]) => {
+    if (isBlankRecord(values)) {
+      return;
+    }
+
+    // First non-blank record is the header (unless the file has none)
+    if (!reader) {
+      reader = new CsvRowReader(
+        resolveKeys(values, dialect, rowSchema.fields, mapping),
+        rowSchema,
+        aggregator,
+        rowErrors,
+        rejected,
+        options,
+        counts => guard.afterError(counts, rowErrors.errors)
+      );
+      if (dialect.hasHeader) {
+        rejected?.startSection(values, quoted);
+        return;
+      }
+    }
+
+    reader.read(values, line, quoted);
+  };
 
-    if (char === '"') {
-      inQuotes = !inQuotes;
-    } else if (char === ',' && !inQuotes) {
-      result.push(current.trim());
-      current = '';
-    } else {
-      current += char;
+  const streamStart = performance.now();
+  try {
+    // Sniff encoding and dialect from the head of the stream, then
+    // transcode and tokenize all of it
+    const { head, chunks } = await peekSource(source, ENCODING_SAMPLE_BYTES);
+    ({ encoding: stats.encoding, dialect } = detectCsvFormat(head, options));
+    if (options.keepRejectedRows) {
+      rejected = new RejectedRowsCollector('csv', dialect);
+    }
+
+    const parser = new CsvStreamParser(onRecord, {
+      ...dialect,
+      strict: options.strict,
+      encoding: stats.encoding,
+    });
+    for await (const chunk of chunks) {
+      throwIfAborted(options.signal, { rowCount: 0, successCount: 0, errorCount: 0, ...reader?.counts });
+      parser.write(chunk);
+      if (reader?.truncated) break;
+    }
+    if (!reader?.truncated) {
+      parser.end();
+    }
+  } catch (error) {
+    if (error instanceof CsvProcessingError) {
+      throw error;
     }
+    throw new ValidationError(`Failed to parse CSV: ${error instanceof Error ? error.message : 'Unknown error'}`);
   }
+  const streamMs = performance.now() - streamStart;
 
-  result.push(current.trim());
+  if (!reader) {
+    throw new ValidationError('CSV file is empty');
+  }
+  guard.finish(reader.counts, rowErrors.errors);
 
-  return result;
+  const finalizeStart = performance.now();
+  const summaries = aggregator.toSummaries();
+  const aggregateMs = reader.aggregateMs + performance.now() - finalizeStart;
+
+  stats.parseDurationMs = Math.round(streamMs - reader.validateMs - reader.aggregateMs);
+  stats.validateDurationMs = Math.round(reader.validateMs);
+  stats.aggregateDurationMs = Math.round(aggregateMs);
+  stats.totalDurationMs = Date.now() - startTime;
+
+  return {
+    ...reader.counts,
+    summaries,
+    stats,
+    dialect,
+    columns: reader.columns.report,
+    errors: rowErrors.errors,
+    rejected,
+    truncated: reader.truncated,
+    aggregator,
+  };
+}
+
+// ============================================================================
+// Parallel CSV Parser
+// ============================================================================
+
+/**
+ * Request options a parse worker needs to read a chunk
+ */
+type CsvChunkOptions = Pick<
+  ImportOptions,
+  'strict' | 'rowSchema' | 'locale' | 'dates' | 'maxRowErrors' | 'maxRows' | 'keepRejectedRows' | 'aggregation' | 'summaryStats' | 'timeSeries' | 'minorUnits'
+>;
+
+/**
+ * A chunk of a large CSV file, cut at a record boundary, for a parse worker
+ */
+export interface CsvChunkTask {
+  bytes: Uint8Array;
+  /**
+   * Line of the file the chunk starts on
+   */
+  firstLine: number;
+  /**
+   * The first non-blank record of the chunk is the header row
+   */
+  hasHeader: boolean;
+  columns: ResolvedColumns;
+  dialect: CsvDialect;
+  encoding: string;
+  options: CsvChunkOptions;
+  /**
+   * Record the counts at every failed row, so the validation policy can be
+   * replayed over the merged counts
+   */
+  trackFailures: boolean;
+}
+
+export interface CsvChunkResult extends ValidationCounts {
+  truncated: boolean;
+  aggregates: AggregateSnapshot;
+  errors: RowError[];
+  /**
+   * Rows read up to each failed row, and the row errors collected by then
+   */
+  failures: Array<{ rowCount: number; errors: number }>;
+  rejected?: { rows: RejectedRow[]; rowCount: number };
+  /**
+   * Malformed quoting found in strict mode; the counts cover the rows
+   * before it
+   */
+  parseError?: { message: string; line: number; column: number };
+  parseMs: number;
+  validateMs: number;
+  aggregateMs: number;
 }
 
 /**
- * Parse CSV string content using regex (alternative approach)
+ * Validate and aggregate one chunk of a CSV file (run by a parse worker)
  */
-function parseCSVWithRegex(content: string): { headers: string[]; rows: unknown[] } {
-  const lines = content.split(/\r?\n/).filter(line => line.trim());
+export async function processCsvChunk(task: CsvChunkTask): Promise<CsvChunkResult> {
+  const streamStart = performance.now();
+  const rowSchema = rowSchemaFor(task.options);
+  const aggregator = new RegionAggregator(rowSchema, task.options);
+  const rowErrors = new RowErrorReport(task.options.maxRowErrors);
+  const rejected = task.options.keepRejectedRows ? new RejectedRowsCollector('csv', task.dialect) : undefined;
+  const failures: CsvChunkResult['failures'] = [];
+  const reader = new CsvRowReader(
+    task.columns,
+    rowSchema,
+    aggregator,
+    rowErrors,
+    rejected,
+    task.options,
+    ({ rowCount }) => {
+      if (task.trackFailures) failures.push({ rowCount, errors: rowErrors.errors.length });
+    }
+  );
 
-  if (lines.length === 0) {
-    throw new Error('CSV file is empty');
+  let header = task.hasHeader;
+  const parser = new CsvStreamParser((values, line, quoted) => {
+    if (isBlankRecord(values)) {
+      return;
+    }
+    if (header) {
+      header = false;
+      return;
+    }
+    reader.read(values, line, quoted);
+  }, {
+    ...task.dialect,
+    strict: task.options.strict,
+    encoding: task.encoding,
+    firstLine: task.firstLine,
+  });
+
+  let parseError: CsvChunkResult['parseError'];
+  try {
+    for await (const slice of readChunks(task.bytes)) {
+      parser.write(slice);
+      if (reader.truncated) break;
+    }
+    if (!reader.truncated) {
+      parser.end();
+    }
+  } catch (error) {
+    if (!(error instanceof CsvParseError)) {
+      throw error;
+    }
+    parseError = { message: error.message, line: error.line, column: error.column };
   }
 
-  // Parse CSV using regex for quoted values
-  const parseLine = (line: string): string[] => {
-    const pattern = /(?:^|,)(?:"([^"]*)"|([^",]*))/g;
-    const values: string[] = [];
-    let match;
+  return {
+    ...reader.counts,
+    truncated: reader.truncated,
+    aggregates: aggregator.snapshot(),
+    errors: rowErrors.errors,
+    failures,
+    rejected: rejected && { rows: rejected.sections[0]?.rows ?? [], rowCount: rejected.rowCount },
+    parseError,
+    parseMs: performance.now() - streamStart - reader.validateMs - reader.aggregateMs,
+    validateMs: reader.validateMs,
+    aggregateMs: reader.aggregateMs,
+  };
+}
+
+/**
+ * First non-blank record of a chunk, or undefined when it only has blank
+ * lines. Parse errors after that record are left to the worker that reads
+ * the chunk, so they surface in file order.
+ */
+async function readFirstRecord(
+  bytes: Uint8Array,
+  firstLine: number,
+  last: boolean,
+  dialect: CsvDialect,
+  encoding: string,
+  strict?: boolean
+): Promise<{ values: string[]; quoted: boolean[] } | undefined> {
+  let first: { values: string[]; quoted: boolean[] } | undefined;
+  const parser = new CsvStreamParser((values, _line, quoted) => {
+    if (!first && !isBlankRecord(values)) first = { values, quoted };
+  }, { ...dialect, strict, encoding, firstLine });
 
-    while ((match = pattern.exec(line)) !== null) {
-      values.push(match[1] !== undefined ? match[1] : match[2]);
+  try {
+    for await (const slice of readChunks(bytes)) {
+      parser.write(slice);
+      if (first) return first;
     }
+    if (last) {
+      parser.end();
+    }
+  } catch (error) {
+    if (!first) throw error;
+  }
+  return first;
+}
+
+/**
+ * Process a CSV file on the parse workers
+ *
+ * Files of at least PARALLEL_PARSE_MIN_BYTES are cut into chunks at record
+ * boundaries while they are read, and the workers validate and aggregate
+ * the chunks side by side. Chunk results are merged in file order, with
+ * the validation policy and row cap replayed over the running counts, so
+ * the result is the one processCsvFile gives. Smaller files, encodings that
+ * cannot be split and a service without parse workers, or whose workers
+ * fail to start, go to processCsvFile.
+ */
+export async function processCsvFileParallel(source: CsvSource, options: ImportOptions = {}): Promise<ParseResult> {
+  const { workers, minBytes, chunkBytes } = PARALLEL_PARSE_CONFIG;
+  const pool = workers < 1 ? undefined : getParseWorkerPool();
+  if (!pool || !(await pool.available())) {
+    return processCsvFile(source, options);
+  }
+
+  const { head, chunks } = await peekSource(source, Math.max(minBytes, ENCODING_SAMPLE_BYTES));
+  const { encoding, dialect } = detectCsvFormat(head, options);
+  if (head.length < minBytes || !isSplittable(encoding, dialect)) {
+    return processCsvFile(chunks, options);
+  }
 
-    return values;
+  const startTime = Date.now();
+  const stats: ProcessingStats = {
+    parseDurationMs: 0,
+    validateDurationMs: 0,
+    aggregateDurationMs: 0,
+    totalDurationMs: 0,
+    encoding,
   };
 
-  const headers = parseLine(lines[0]).map(h => h.trim());
-  const rows: unknown[] = [];
+  const mapping = options.columnMapping && compileColumnMapping(options.columnMapping);
+  const rowSchema = rowSchemaFor(options);
+  const aggregator = new RegionAggregator(rowSchema, options);
+  const rowErrors = new RowErrorReport(options.maxRowErrors);
+  const guard = new ValidationGuard(options.validationPolicy);
+  const maxRows = options.maxRows ?? Infinity;
+  const rejected = options.keepRejectedRows ? new RejectedRowsCollector('csv', dialect) : undefined;
+  const chunkOptions: CsvChunkOptions = {
+    strict: options.strict,
+    rowSchema: options.rowSchema,
+    locale: options.locale,
+    dates: options.dates,
+    maxRowErrors: options.maxRowErrors,
+    maxRows: options.maxRows,
+    keepRejectedRows: options.keepRejectedRows,
+    aggregation: options.aggregation,
+    summaryStats: options.summaryStats,
+    timeSeries: options.timeSeries,
+    minorUnits: options.minorUnits,
+  };
+  const trackFailures = (options.validationPolicy?.mode ?? 'lenient') !== 'lenient';
+  let columns: ResolvedColumns | undefined;
+  let rowCount = 0;
+  let successCount = 0;
+  let errorCount = 0;
+  let truncated = false;
+  let validateMs = 0;
+  let aggregateMs = 0;
+  let parseMs = 0;
+
+  // Chunks handed to the workers, merged in the order they were cut
+  const pending: Array<{ task: CsvChunkTask; result: Promise<CsvChunkResult> }> = [];
+  const run = (task: CsvChunkTask) => {
+    const result = pool.run(task);
+    // Results left behind after an error or the row cap are never awaited
+    result.catch(() => undefined);
+    return result;
+  };
 
-  for (let i = 1; i < lines.length; i++) {
-    const values = parseLine(lines[i]);
-    if (values.some(v => v.trim())) {
-      const row: Record<string, unknown> = {};
-      headers.forEach((header, index) => {
-        const key = header.toLowerCase().replace(/[^a-z0-9]/g, '_');
-        let value: string | number = values[index] || '';
-
-        // Try to convert to number for amount fields
-        if (key.includes('amount') || key.includes('price') || key.includes('value')) {
-          const num = parseFloat(value.replace(/[$,]/g, ''));
-          if (!isNaN(num)) value = num;
-        }
+  const dispatch = async (bytes: Uint8Array, firstLine: number, last: boolean) => {
+    let hasHeader = false;
+    if (!columns) {
+      const first = await readFirstRecord(bytes, firstLine, last, dialect, encoding, options.strict);
+      if (!first) {
+        return;
+      }
+      columns = resolveKeys(first.values, dialect, rowSchema.fields, mapping);
+      if (dialect.hasHeader) {
+        rejected?.startSection(first.values, first.quoted);
+        hasHeader = true;
+      }
+    }
 
-        row[key] = value;
-      });
-      rows.push(row);
+    const task: CsvChunkTask = {
+      bytes,
+      firstLine,
+      hasHeader,
+      columns,
+      dialect,
+      encoding,
+      options: chunkOptions,
+      trackFailures,
+    };
+    pending.push({ task, result: run(task) });
+  };
+
+  const mergeNext = async () => {
+    throwIfAborted(options.signal, { rowCount, successCount, errorCount });
+    const { task, result: next } = pending.shift()!;
+    let result = await next;
+
+    // A chunk that runs past the row cap is read again up to it
+    const remaining = maxRows - rowCount;
+    if (result.rowCount > remaining) {
+      result = await run({ ...task, options: { ...chunkOptions, maxRows: remaining } });
+    }
+
+    let merged = 0;
+    result.failures.forEach((failure, index) => {
+      result.errors.slice(merged, failure.errors).forEach(error => rowErrors.add(error));
+      merged = failure.errors;
+      guard.afterError({
+        rowCount: rowCount + failure.rowCount,
+        successCount: successCount + failure.rowCount - index - 1,
+        errorCount: errorCount + index + 1,
+      }, rowErrors.errors);
+    });
+    result.errors.slice(merged).forEach(error => rowErrors.add(error));
+
+    rowCount += result.rowCount;
+    successCount += result.successCount;
+    errorCount += result.errorCount;
+    truncated = result.truncated;
+    aggregator.mergeSnapshot(result.aggregates);
+    if (result.rejected) {
+      rejected?.addRows(result.rejected.rows, result.rejected.rowCount);
+    }
+    parseMs += result.parseMs;
+    validateMs += result.validateMs;
+    aggregateMs += result.aggregateMs;
+
+    if (result.parseError) {
+      const { message, line, column } = result.parseError;
+      throw new CsvParseError(message, line, column);
+    }
+  };
+
+  try {
+    const splitter = new CsvRecordSplitter(dialect);
+    let buffered: Uint8Array[] = [];
+    let bufferedBytes = 0;
+    let nextLine = 1;
+
+    // Take the first bytes of the buffer as a chunk of its own, copied so
+    // that posting it does not clone the rest of the buffer along
+    const take = (size: number): Uint8Array => {
+      const all = Buffer.concat(buffered, bufferedBytes);
+      buffered = size < all.length ? [all.subarray(size)] : [];
+      bufferedBytes -= size;
+      return new Uint8Array(all.subarray(0, size));
+    };
+
+    for await (const chunk of chunks) {
+      throwIfAborted(options.signal, { rowCount, successCount, errorCount });
+      splitter.scan(chunk);
+      buffered.push(chunk);
+      bufferedBytes += chunk.length;
+      if (bufferedBytes < chunkBytes || splitter.boundary === 0) {
+        continue;
+      }
+
+      const { bytes, lines } = splitter.cut();
+      await dispatch(take(bytes), nextLine, false);
+      nextLine += lines;
+      while (pending.length > workers * 2 && !truncated) {
+        await mergeNext();
+      }
+      if (truncated) break;
+    }
+
+    if (!truncated) {
+      await dispatch(take(bufferedBytes), nextLine, true);
     }
+    while (pending.length > 0 && !truncated) {
+      await mergeNext();
+    }
+
+    if (!columns) {
+      throw new ValidationError('CSV file is empty');
+    }
+  } catch (error) {
+    if (error instanceof CsvProcessingError) {
+      throw error;
+    }
+    throw new ValidationError(`Failed to parse CSV: ${error instanceof Error ? error.message : 'Unknown error'}`);
   }
+  guard.finish({ rowCount, successCount, errorCount }, rowErrors.errors);
 
-  return { headers, rows };
+  const finalizeStart = performance.now();
+  const summaries = aggregator.toSummaries();
+  aggregateMs += performance.now() - finalizeStart;
+
+  // Worker time, summed over the chunks
+  stats.parseDurationMs = Math.round(parseMs);
+  stats.validateDurationMs = Math.round(validateMs);
+  stats.aggregateDurationMs = Math.round(aggregateMs);
+  stats.totalDurationMs = Date.now() - startTime;
+
+  return {
+    rowCount,
+    successCount,
+    errorCount,
+    summaries,
+    stats,
+    dialect,
+    columns: columns.report,
+    errors: rowErrors.errors,
+    rejected,
+    truncated,
+    aggregator,
+  };
 }
 
 /**
- * Process CSV file
+ * Process a JSON array of records or newline-delimited JSON
+ *
+ * Records are split from the stream one at a time, nested objects are
+ * flattened into column names and every record then goes through the same
+ * row building, validation and aggregation as a CSV record.
  */
-export async function processCsvFile(buffer: Buffer): Promise<ParseResult> {
+export async function processJsonFile(
+  source: CsvSource,
+  format: JsonFormat,
+  options: ImportOptions = {}
+): Promise<ParseResult> {
   const startTime = Date.now();
   const stats: ProcessingStats = {
     parseDurationMs: 0,
@@ -154,58 +853,342 @@ export async function processCsvFile(buffer: Buffer): Promise<ParseResult> {
     totalDurationMs: 0,
   };
 
-  let rows: unknown[] = [];
+  const mapping = options.columnMapping && compileColumnMapping(options.columnMapping);
+  const parseNumber = getNumberParser(options.locale);
+  const rowSchema = rowSchemaFor(options);
+  const aggregator = new RegionAggregator(rowSchema, options);
+  const rowErrors = new RowErrorReport(options.maxRowErrors);
+  const guard = new ValidationGuard(options.validationPolicy);
+  const maxRows = options.maxRows ?? Infinity;
+  // Records of the same shape share one column resolution
+  const shapes = new Map<string, Array<string | null>>();
+  let columns: ColumnMappingReport | undefined;
+  let rowCount = 0;
+  let successCount = 0;
   let errorCount = 0;
+  let truncated = false;
+  let validateMs = 0;
+  let aggregateMs = 0;
+
+  const reject = (message: string, line: number, code: string) => {
+    if (rowCount === maxRows) {
+      truncated = true;
+      return;
+    }
+    rowCount++;
+    errorCount++;
+    rowErrors.add({ row: line, code, message });
+    guard.afterError({ rowCount, successCount, errorCount }, rowErrors.errors);
+  };
 
-  // Parse
+  const onRecord = (value: unknown, line: number) => {
+    if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+      reject(`Record at line ${line} is not a JSON object`, line, z.ZodIssueCode.invalid_type);
+      return;
+    }
+
+    const flat = flattenRecord(value as Record<string, unknown>, options.jsonPathSeparator);
+    const names = Object.keys(flat);
+    if (names.length === 0) {
+      return;
+    }
+
+    const shape = names.join('\0');
+    let keys = shapes.get(shape);
+    if (!keys) {
+      const resolved = resolveColumns(names, rowSchema.fields, mapping);
+      columns = mergeColumnReports(columns, resolved.report);
+      keys = resolved.keys;
+      if (shapes.size < JSON_SHAPE_CACHE_SIZE) shapes.set(shape, keys);
+    }
+
+    if (rowCount === maxRows) {
+      truncated = true;
+      return;
+    }
+    rowCount++;
+    const row = buildRow(keys, names.map(name => flat[name]), rowSchema.types, parseNumber);
+
+    // Validate
+    const validationStart = performance.now();
+    const result = rowSchema.validate(row);
+    validateMs += performance.now() - validationStart;
+    if (!result.success) {
+      errorCount++;
+      rowErrors.addValidationError(line, result.error, row, columns);
+      guard.afterError({ rowCount, successCount, errorCount }, rowErrors.errors);
+      return;
+    }
+    successCount++;
+
+    // Aggregate
+    const aggregateStart = performance.now();
+    aggregator.add(result.data);
+    aggregateMs += performance.now() - aggregateStart;
+  };
+
+  const streamStart = performance.now();
   try {
-    const parseStart = Date.now();
-    const result = parseCSVWithRegex(buffer.toString('utf-8'));
-    rows = result.rows;
-    stats.parseDurationMs = Date.now() - parseStart;
+    const { head, chunks } = await peekSource(source, ENCODING_SAMPLE_BYTES);
+    stats.encoding = options.encoding ?? detectEncoding(head);
+
+    const reader = new JsonRecordStream(onRecord, {
+      format,
+      strict: options.strict,
+      encoding: stats.encoding,
+      onInvalid: (message, line) => reject(message, line, 'invalid_json'),
+    });
+    for await (const chunk of chunks) {
+      throwIfAborted(options.signal, { rowCount, successCount, errorCount });
+      reader.write(chunk);
+      if (truncated) break;
+    }
+    if (!truncated) {
+      reader.end();
+    }
   } catch (error) {
-    throw new Error(`Failed to parse CSV: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    if (error instanceof CsvProcessingError) {
+      throw error;
+    }
+    throw new ValidationError(`Failed to parse JSON: ${error instanceof Error ? error.message : 'Unknown error'}`);
   }
+  const streamMs = performance.now() - streamStart;
+  guard.finish({ rowCount, successCount, errorCount }, rowErrors.errors);
 
-  // Validate
-  const validatedRows: CsvRow[] = [];
-  const validationStart = Date.now();
+  const finalizeStart = performance.now();
+  const summaries = aggregator.toSummaries();
+  aggregateMs += performance.now() - finalizeStart;
 
-  for (const row of rows) {
-    try {
-      const validated = CSV_ROW_SCHEMA.parse(row);
-      validatedRows.push(validated);
-    } catch (error) {
+  stats.parseDurationMs = Math.round(streamMs - validateMs - aggregateMs);
+  stats.validateDurationMs = Math.round(validateMs);
+  stats.aggregateDurationMs = Math.round(aggregateMs);
+  stats.totalDurationMs = Date.now() - startTime;
+
+  return {
+    rowCount,
+    successCount,
+    errorCount,
+    summaries,
+    stats,
+    columns,
+    errors: rowErrors.errors,
+    truncated,
+    aggregator,
+  };
+}
+
+/**
+ * Process a Parquet file or Arrow IPC stream/file
+ *
+ * Only the columns that map onto row schema fields are decoded. Values keep
+ * their column types up to row building, then go through the same
+ * validation and aggregation as CSV rows. Decimal and 64-bit integer
+ * measures are summed from their exact text, so sums to minor units stay
+ * exact past the precision of a number.
+ */
+export async function processColumnarFile(
+  buffer: Buffer,
+  format: ColumnarFormat,
+  options: ImportOptions = {}
+): Promise<ParseResult> {
+  const startTime = Date.now();
+  const stats: ProcessingStats = {
+    parseDurationMs: 0,
+    validateDurationMs: 0,
+    aggregateDurationMs: 0,
+    totalDurationMs: 0,
+  };
+
+  let rowCount = 0;
+  let successCount = 0;
+  let errorCount = 0;
+  let truncated = false;
+  let validateMs = 0;
+  let aggregateMs = 0;
+
+  const mapping = options.columnMapping && compileColumnMapping(options.columnMapping);
+  const parseNumber = getNumberParser(options.locale);
+  const rowSchema = rowSchemaFor(options);
+  const aggregator = new RegionAggregator(rowSchema, options);
+  const rowErrors = new RowErrorReport(options.maxRowErrors);
+  const guard = new ValidationGuard(options.validationPolicy);
+  const maxRows = options.maxRows ?? Infinity;
+  let columns: ColumnMappingReport | undefined;
+
+  const project = (names: string[]) => {
+    const resolved = resolveColumns(names, rowSchema.fields, mapping);
+    columns = mergeColumnReports(columns, resolved.report);
+    return resolved.keys.map(key => key !== null && rowSchema.fields.includes(key) ? key : undefined);
+  };
+
+  const onRow = (values: Record<string, ColumnarValue>, exact: ExactDecimals) => {
+    throwIfAborted(options.signal, { rowCount, successCount, errorCount });
+    if (rowCount === maxRows) {
+      truncated = true;
+      return false;
+    }
+    rowCount++;
+    const row = buildTypedRow(values, exact, rowSchema.types, parseNumber);
+
+    // Validate
+    const validationStart = performance.now();
+    const result = rowSchema.validate(row);
+    validateMs += performance.now() - validationStart;
+    if (!result.success) {
       errorCount++;
-      // Log error but continue processing
-      if (errorCount <= 10) {
-        console.warn('Validation error:', error);
-      }
+      rowErrors.addValidationError(rowCount, result.error, row, columns);
+      guard.afterError({ rowCount, successCount, errorCount }, rowErrors.errors);
+      return true;
     }
-  }
+    successCount++;
 
-  stats.validateDurationMs = Date.now() - validationStart;
+    // Aggregate
+    const aggregateStart = performance.now();
+    aggregator.add(result.data, exact);
+    aggregateMs += performance.now() - aggregateStart;
+    return true;
+  };
 
-  // Aggregate
-  const aggregateStart = Date.now();
-  const summaries = aggregateRegionData(validatedRows);
-  stats.aggregateDurationMs = Date.now() - aggregateStart;
+  const readStart = performance.now();
+  if (format === 'parquet') {
+    await readParquetRows(buffer, project, onRow);
+  } else {
+    await readArrowRows(buffer, project, onRow);
+  }
+  const readMs = performance.now() - readStart;
+  guard.finish({ rowCount, successCount, errorCount }, rowErrors.errors);
+
+  const finalizeStart = performance.now();
+  const summaries = aggregator.toSummaries();
+  aggregateMs += performance.now() - finalizeStart;
 
+  stats.parseDurationMs = Math.round(readMs - validateMs - aggregateMs);
+  stats.validateDurationMs = Math.round(validateMs);
+  stats.aggregateDurationMs = Math.round(aggregateMs);
   stats.totalDurationMs = Date.now() - startTime;
 
   return {
-    rowCount: rows.length,
-    successCount: validatedRows.length,
+    rowCount,
+    successCount,
     errorCount,
     summaries,
     stats,
+    columns,
+    errors: rowErrors.errors,
+    truncated,
+    aggregator,
   };
 }
 
 /**
- * Process Excel file
+ * A worksheet row, its 1-based spreadsheet row number and its cells as
+ * displayed
+ */
+interface SheetRow {
+  rowNumber: number;
+  row: Record<string, unknown>;
+  values: string[];
+}
+
+/**
+ * Read the cells of a worksheet, as displayed or as stored (numbers and
+ * booleans). Blank rows are read too, so that a record's index gives its
+ * row number.
+ */
+export function readSheetCells(worksheet: XLSX.WorkSheet, raw: boolean): unknown[][] {
+  return XLSX.utils.sheet_to_json<unknown[]>(worksheet, {
+    header: 1,
+    raw,
+    defval: '',
+    blankrows: true,
+  });
+}
+
+/**
+ * Read a worksheet into row objects keyed by its resolved header row
  */
-export async function processExcelFile(buffer: Buffer): Promise<ParseResult> {
+function readSheetRows(
+  worksheet: XLSX.WorkSheet,
+  rowSchema: CompiledRowSchema,
+  parseNumber: NumberParser,
+  mapping?: CompiledColumnMapping
+): { rows: SheetRow[]; header?: string[]; columns?: ColumnMappingReport } {
+  const records = readSheetCells(worksheet, false).map(values => values.map(v => String(v)));
+  const firstRow = worksheet['!ref'] ? XLSX.utils.decode_range(worksheet['!ref']).s.r + 1 : 1;
+
+  const headerIndex = records.findIndex(values => !isBlankRecord(values));
+  if (headerIndex === -1) {
+    return { rows: [] };
+  }
+
+  const { keys, report } = resolveColumns(records[headerIndex], rowSchema.fields, mapping);
+  const dataIndices: number[] = [];
+  for (let index = headerIndex + 1; index < records.length; index++) {
+    if (!isBlankRecord(records[index])) dataIndices.push(index);
+  }
+  const cells: ColumnarValue[][] = [...records];
+
+  // Numeric cells of number and date columns are taken as numbers (dates
+  // as serials): their display text follows the workbook's number format,
+  // not the request locale
+  const typedColumns = keys.flatMap((key, index) =>
+    key !== null && isNumericType(rowSchema.types[key]) ? [index] : []
+  );
+  if (typedColumns.length > 0) {
+    const rawRecords = readSheetCells(worksheet, true);
+    for (const index of dataIndices) {
+      const values: ColumnarValue[] = [...records[index]];
+      for (const column of typedColumns) {
+        const raw = rawRecords[index]?.[column];
+        if (typeof raw === 'number') values[column] = raw;
+      }
+      cells[index] = values;
+    }
+  }
+
+  const rows = dataIndices.map(index => ({
+    rowNumber: firstRow + index,
+    row: buildRow(keys, cells[index], rowSchema.types, parseNumber),
+    values: records[index],
+  }));
+
+  return { rows, header: records[headerIndex], columns: report };
+}
+
+/**
+ * Pick the sheets to process: the first one unless names or a pattern are given
+ */
+export function selectSheets(available: string[], options: ImportOptions): string[] {
+  if (options.sheets === '*') {
+    return available;
+  }
+
+  if (!options.sheets && !options.sheetPattern) {
+    return available.slice(0, 1);
+  }
+
+  const requested = new Set(options.sheets ?? []);
+  const missing = [...requested].filter(name => !available.includes(name));
+  if (missing.length > 0) {
+    throw new ValidationError(`Sheet not found: ${missing.join(', ')}`, { missing, available });
+  }
+
+  const selected = available.filter(name => requested.has(name) || options.sheetPattern?.test(name));
+  if (selected.length === 0) {
+    throw new ValidationError('No sheets match the requested selection', { available });
+  }
+
+  return selected;
+}
+
+/**
+ * Process a spreadsheet: Excel (xlsx, legacy xls) or OpenDocument (ods).
+ * The workbook reader recognises the container format itself.
+ *
+ * Each selected sheet is validated and aggregated on its own, and its
+ * aggregates are merged into the combined summaries for the whole workbook.
+ */
+export async function processExcelFile(buffer: Buffer, options: ImportOptions = {}): Promise<ParseResult> {
   const startTime = Date.now();
   const stats: ProcessingStats = {
     parseDurationMs: 0,
@@ -214,68 +1197,131 @@ export async function processExcelFile(buffer: Buffer): Promise<ParseResult> {
     totalDurationMs: 0,
   };
 
-  let rows: unknown[] = [];
+  const sheets: SheetResult[] = [];
+  const mapping = options.columnMapping && compileColumnMapping(options.columnMapping);
+  const parseNumber = getNumberParser(options.locale);
+  const rowSchema = rowSchemaFor(options);
+  const combined = new RegionAggregator(rowSchema, options);
+  const rowErrors = new RowErrorReport(options.maxRowErrors);
+  const guard = new ValidationGuard(options.validationPolicy);
+  const maxRows = options.maxRows ?? Infinity;
+  const rejected = options.keepRejectedRows ? new RejectedRowsCollector('xlsx') : undefined;
+  let columns: ColumnMappingReport | undefined;
+  let rowCount = 0;
+  let successCount = 0;
   let errorCount = 0;
+  let truncated = false;
 
   // Parse
+  const parseStart = Date.now();
+  let workbook: XLSX.WorkBook;
   try {
-    const parseStart = Date.now();
-    const workbook = XLSX.read(buffer, { type: 'buffer' });
-    const sheetName = workbook.SheetNames[0];
-    const worksheet = workbook.Sheets[sheetName];
-
-    // Convert to JSON
-    const rawData = XLSX.utils.sheet_toJSON(worksheet, {
-      raw: false,
-      defval: '',
-    });
-
-    // Normalize keys
-    rows = rawData.map((row: any) => {
-      const normalized: Record<string, unknown> = {};
-      for (const [key, value] of Object.entries(row)) {
-        const normalizedKey = key.toLowerCase().replace(/[^a-z0-9]/g, '_');
-        normalized[normalizedKey] = value;
-      }
-      return normalized;
-    });
-
-    stats.parseDurationMs = Date.now() - parseStart;
+    workbook = XLSX.read(buffer, { type: 'buffer' });
   } catch (error) {
-    throw new Error(`Failed to parse Excel file: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    throw new ValidationError(`Failed to parse Excel file: ${error instanceof Error ? error.message : 'Unknown error'}`);
   }
-
-  // Validate
-  const validatedRows: CsvRow[] = [];
-  const validationStart = Date.now();
-
-  for (const row of rows) {
+  const sheetNames = selectSheets(workbook.SheetNames, options);
+  stats.parseDurationMs += Date.now() - parseStart;
+
+  for (const sheetName of sheetNames) {
+    throwIfAborted(options.signal, { rowCount, successCount, errorCount });
+    const sheetParseStart = Date.now();
+    let rows: SheetRow[];
+    let sheetColumns: ColumnMappingReport | undefined;
     try {
-      const validated = CSV_ROW_SCHEMA.parse(row);
-      validatedRows.push(validated);
+      const sheet = readSheetRows(workbook.Sheets[sheetName], rowSchema, parseNumber, mapping);
+      rows = sheet.rows;
+      sheetColumns = sheet.columns;
+      rejected?.startSection(sheet.header, undefined, sheetName);
+      if (sheet.columns) columns = mergeColumnReports(columns, sheet.columns);
     } catch (error) {
-      errorCount++;
-      if (errorCount <= 10) {
-        console.warn('Validation error:', error);
+      if (error instanceof CsvProcessingError) {
+        throw error;
       }
+      throw new ValidationError(
+        `Failed to parse Excel sheet "${sheetName}": ${error instanceof Error ? error.message : 'Unknown error'}`,
+        { sheet: sheetName }
+      );
     }
-  }
+    stats.parseDurationMs += Date.now() - sheetParseStart;
+
+    // Rows past the row cap are not read
+    if (rows.length > maxRows - rowCount) {
+      rows = rows.slice(0, maxRows - rowCount);
+      truncated = true;
+      if (rows.length === 0) break;
+    }
+
+    // Validate
+    const validatedRows: ValidatedRow[] = [];
+    let sheetErrorCount = 0;
+    const validationStart = Date.now();
+
+    for (const { rowNumber, row, values } of rows) {
+      throwIfAborted(options.signal, {
+        rowCount: rowCount + validatedRows.length + sheetErrorCount,
+        successCount: successCount + validatedRows.length,
+        errorCount: errorCount + sheetErrorCount,
+      });
+      const result = rowSchema.validate(row);
+      if (result.success) {
+        validatedRows.push(result.data);
+      } else {
+        sheetErrorCount++;
+        rowErrors.addValidationError(rowNumber, result.error, row, sheetColumns, sheetName);
+        rejected?.add(values, describeValidationError(result.error));
+        guard.afterError({
+          rowCount: rowCount + validatedRows.length + sheetErrorCount,
+          successCount: successCount + validatedRows.length,
+          errorCount: errorCount + sheetErrorCount,
+        }, rowErrors.errors);
+      }
+    }
+
+    stats.validateDurationMs += Date.now() - validationStart;
+
+    // Aggregate
+    const aggregateStart = Date.now();
+    const aggregator = new RegionAggregator(rowSchema, options);
+    for (const row of validatedRows) {
+      aggregator.add(row);
+    }
+    combined.merge(aggregator);
+
+    sheets.push({
+      sheetName,
+      rowCount: rows.length,
+      successCount: validatedRows.length,
+      errorCount: sheetErrorCount,
+      summaries: aggregator.toSummaries(),
+    });
+    stats.aggregateDurationMs += Date.now() - aggregateStart;
 
-  stats.validateDurationMs = Date.now() - validationStart;
+    rowCount += rows.length;
+    successCount += validatedRows.length;
+    errorCount += sheetErrorCount;
+    if (truncated) break;
+  }
+  guard.finish({ rowCount, successCount, errorCount }, rowErrors.errors);
 
-  // Aggregate
   const aggregateStart = Date.now();
-  const summaries = aggregateRegionData(validatedRows);
-  stats.aggregateDurationMs = Date.now() - aggregateStart;
+  const summaries = combined.toSummaries();
+  stats.aggregateDurationMs += Date.now() - aggregateStart;
 
   stats.totalDurationMs = Date.now() - startTime;
 
   return {
-    rowCount: rows.length,
-    successCount: validatedRows.length,
+    rowCount,
+    successCount,
     errorCount,
     summaries,
     stats,
+    sheets,
+    columns,
+    errors: rowErrors.errors,
+    rejected,
+    truncated,
+    aggregator: combined,
   };
 }
 
@@ -284,62 +1330,222 @@ export async function processExcelFile(buffer: Buffer): Promise<ParseResult> {
 // ============================================================================
 
 /**
- * Aggregate data by region and country
+ * Dimensions rows are grouped by and measures summed for every group
+ */
+export interface AggregationSpec {
+  dimensions: string[];
+  measures: string[];
+}
+
+type DimensionValue = string | number | boolean;
+
+interface AggregateGroup {
+  dimensions: DimensionValue[];
+  count: number;
+  sums: ExactSum[];
+  decimals?: DecimalSum[];
+  distributions?: MeasureDistribution[];
+}
+
+/**
+ * Groups of an aggregator in a form that can be posted between threads:
+ * the terms of every sum instead of the sums themselves
  */
-function aggregateRegionData(rows: CsvRow[]): RegionSummary[] {
-  const aggregation = new Map<string, {
-    region: string;
-    country: string;
+export interface AggregateSnapshot {
+  groups: Array<{
+    dimensions: DimensionValue[];
     count: number;
-    amountSum: number;
-  }>();
+    sums: number[][];
+    decimals?: string[];
+    distributions?: DistributionSnapshot[];
+  }>;
+  query?: QuerySnapshot;
+  timeSeries?: TimeSeriesSnapshot;
+}
 
-  for (const row of rows) {
-    const key = `${row.region}:${row.country}`;
-    const existing = aggregation.get(key);
+/**
+ * Incremental aggregator over the dimensions and measures of a row schema
+ * (region/country and amount for the built-in one). Rows are added one at
+ * a time so callers never need to hold the validated rows in memory.
+ * Rows are also fed to the request's aggregation query and time series,
+ * when it has them, and to per-measure distributions when it asks for
+ * summary statistics. With minor units, measures are also summed exactly
+ * as decimals, and sums and averages are reported as decimal strings.
+ */
+export class RegionAggregator {
+  private groups = new Map<string, AggregateGroup>();
+  private readonly dimensions: string[];
+  private readonly measures: string[];
+  private readonly percentiles?: number[];
+  private readonly minorUnits?: number;
+  readonly query?: QueryAggregator;
+  readonly timeSeries?: TimeSeriesAggregator;
+  private readonly pivot?: PivotOptions;
+
+  constructor(
+    spec: AggregationSpec = DEFAULT_ROW_SCHEMA,
+    options: Pick<ImportOptions, 'aggregation' | 'summaryStats' | 'timeSeries' | 'pivot' | 'minorUnits'> = {}
+  ) {
+    this.dimensions = spec.dimensions;
+    this.measures = spec.measures;
+    this.percentiles = options.summaryStats?.percentiles;
+    this.minorUnits = options.minorUnits;
+    this.query = options.aggregation && new QueryAggregator(options.aggregation, options.minorUnits);
+    this.timeSeries = options.timeSeries && new TimeSeriesAggregator(options.timeSeries, options.minorUnits);
+    this.pivot = options.pivot;
+  }
 
-    if (existing) {
-      existing.count++;
-      existing.amountSum += row.amount;
-    } else {
-      aggregation.set(key, {
-        region: row.region,
-        country: row.country,
-        count: 1,
-        amountSum: row.amount,
+  /**
+   * Add a validated row; `exact` holds the exact decimal text of measures
+   * read from typed decimal columns, for the decimal sums
+   */
+  add(row: ValidatedRow, exact?: ExactDecimals): void {
+    this.query?.add(row, exact);
+    this.timeSeries?.add(row, exact);
+    const group = this.groupFor(this.dimensions.map(dimension => (row[dimension] ?? '') as DimensionValue));
+    group.count++;
+    this.measures.forEach((measure, index) => {
+      group.sums[index].add(row[measure] as number);
+      group.decimals?.[index].add(exact?.[measure] ?? row[measure] as number);
+      group.distributions?.[index].add(row[measure] as number);
+    });
+  }
+
+  /**
+   * Fold another aggregator's groups into this one (another sheet of a
+   * workbook, another file of an archive)
+   */
+  merge(other: RegionAggregator): void {
+    this.mergeSnapshot(other.snapshot());
+  }
+
+  snapshot(): AggregateSnapshot {
+    return {
+      groups: [...this.groups.values()].map(group => ({
+        dimensions: group.dimensions,
+        count: group.count,
+        sums: group.sums.map(sum => sum.terms()),
+        decimals: group.decimals?.map(decimal => decimal.units()),
+        distributions: group.distributions?.map(distribution => distribution.snapshot()),
+      })),
+      query: this.query?.snapshot(),
+      timeSeries: this.timeSeries?.snapshot(),
+    };
+  }
+
+  /**
+   * Fold in the groups of another aggregator's snapshot (from a parse worker)
+   */
+  mergeSnapshot(snapshot: AggregateSnapshot): void {
+    if (snapshot.query) {
+      this.query?.mergeSnapshot(snapshot.query);
+    }
+    if (snapshot.timeSeries) {
+      this.timeSeries?.mergeSnapshot(snapshot.timeSeries);
+    }
+    for (const { dimensions, count, sums, decimals, distributions } of snapshot.groups) {
+      const group = this.groupFor(dimensions);
+      group.count += count;
+      sums.forEach((terms, index) => {
+        terms.forEach(term => group.sums[index].add(term));
+      });
+      decimals?.forEach((units, index) => {
+        group.decimals?.[index].addUnits(units);
+      });
+      distributions?.forEach((distribution, index) => {
+        group.distributions?.[index].mergeSnapshot(distribution);
       });
     }
   }
 
-  // Convert to summaries with averages
-  const summaries: RegionSummary[] = [];
-  for (const [_, data] of aggregation) {
-    summaries.push({
-      region: data.region,
-      country: data.country,
-      count: data.count,
-      amountSum: Math.round(data.amountSum * 100) / 100,
-      amountAvg: Math.round((data.amountSum / data.count) * 100) / 100,
+  toSummaries(): RegionSummary[] {
+    // Sort by the dimensions in order
+    const groups = [...this.groups.values()].sort((a, b) => {
+      for (let index = 0; index < a.dimensions.length; index++) {
+        const order = compareDimension(a.dimensions[index], b.dimensions[index]);
+        if (order !== 0) return order;
+      }
+      return 0;
     });
+
+    // Convert to summaries with averages, and distributions when requested
+    return groups.map(group => {
+      const summary: Record<string, DimensionValue> = {};
+      this.dimensions.forEach((dimension, index) => {
+        summary[dimension] = group.dimensions[index];
+      });
+      summary.count = group.count;
+      this.measures.forEach((measure, index) => {
+        const sum = group.sums[index].value();
+        const decimal = group.decimals?.[index];
+        summary[`${measure}Sum`] = decimal ? decimal.toString() : Math.round(sum * 100) / 100;
+        summary[`${measure}Avg`] = decimal ? decimal.average(group.count) : Math.round((sum / group.count) * 100) / 100;
+
+        const stats = group.distributions?.[index].describe(this.percentiles!);
+        if (stats) {
+          summary[`${measure}Min`] = stats.min;
+          summary[`${measure}Max`] = stats.max;
+          summary[`${measure}Stddev`] = Math.round(stats.stddev * 100) / 100;
+          this.percentiles!.forEach((percentile, position) => {
+            summary[`${measure}${toPercentileKey(percentile)}`] = Math.round(stats.percentiles[position] * 100) / 100;
+          });
+        }
+      });
+      return summary as RegionSummary;
+    });
+  }
+
+  /**
+   * The request's pivot table, when it asked for one, cut from the same
+   * groups as the summaries
+   */
+  toPivotTable(): PivotTable | undefined {
+    return this.pivot && buildPivotTable(this.pivot, [...this.groups.values()], this.dimensions, this.measures, this.minorUnits);
+  }
+
+  private groupFor(dimensions: DimensionValue[]): AggregateGroup {
+    const key = JSON.stringify(dimensions);
+    let group = this.groups.get(key);
+
+    if (!group) {
+      group = {
+        dimensions,
+        count: 0,
+        sums: this.measures.map(() => new ExactSum()),
+        decimals: this.minorUnits === undefined ? undefined : this.measures.map(() => new DecimalSum(this.minorUnits!)),
+        distributions: this.percentiles && this.measures.map(() => new MeasureDistribution()),
+      };
+      this.groups.set(key, group);
+    }
+    return group;
   }
+}
 
-  // Sort by region name
-  summaries.sort((a, b) => a.region.localeCompare(b.region));
+/**
+ * Summary key suffix of a percentile: P50, P99_9
+ */
+export function toPercentileKey(percentile: number): string {
+  return `P${String(percentile).replace('.', '_')}`;
+}
 
-  return summaries;
+function compareDimension(a: DimensionValue, b: DimensionValue): number {
+  if (typeof a === 'number' && typeof b === 'number') {
+    return a - b;
+  }
+  return String(a).localeCompare(String(b));
 }
 
 /**
  * Aggregate by single field
  */
-export function aggregateByField(rows: unknown[], field: string): Map<string, number> {
+export function aggregateByField(rows: Array<Record<string, unknown>>, field: string): Map<string, number> {
   const aggregation = new Map<string, number>();
 
   for (const row of rows) {
-    const value = (row as any)[field];
+    const value = row[field];
     if (value) {
-      const count = aggregation.get(value) || 0;
-      aggregation.set(value, count + 1);
+      const key = String(value);
+      aggregation.set(key, (aggregation.get(key) || 0) + 1);
     }
   }
 
@@ -347,26 +1553,30 @@ export function aggregateByField(rows: unknown[], field: string): Map<string, nu
 }
 
 /**
- * Calculate statistics for numeric field
+ * Calculate statistics for numeric field. With `minorUnits` the sum is
+ * kept exactly to that many decimal places, and sum and average are
+ * decimal strings.
  */
-export function calculateNumericStats(rows: unknown[], field: string): {
+export function calculateNumericStats(rows: Array<Record<string, unknown>>, field: string, minorUnits?: number): {
   min: number;
   max: number;
-  sum: number;
-  avg: number;
+  sum: number | string;
+  avg: number | string;
   count: number;
 } {
   let min = Infinity;
   let max = -Infinity;
   let sum = 0;
   let count = 0;
+  const decimal = minorUnits === undefined ? undefined : new DecimalSum(minorUnits);
 
   for (const row of rows) {
-    const value = (row as any)[field];
+    const value = row[field];
     if (typeof value === 'number' && !isNaN(value)) {
       min = Math.min(min, value);
       max = Math.max(max, value);
       sum += value;
+      decimal?.add(value);
       count++;
     }
   }
@@ -374,44 +1584,47 @@ export function calculateNumericStats(rows: unknown[], field: string): {
   return {
     min: min === Infinity ? 0 : min,
     max: max === -Infinity ? 0 : max,
-    sum: Math.round(sum * 100) / 100,
-    avg: count > 0 ? Math.round((sum / count) * 100) / 100 : 0,
+    sum: decimal ? decimal.toString() : Math.round(sum * 100) / 100,
+    avg: decimal ? decimal.average(count) : count > 0 ? Math.round((sum / count) * 100) / 100 : 0,
     count,
   };
 }
 
 /**
- * Group by field and calculate sub-aggregations
+ * Group by field and calculate sub-aggregations, exactly to `minorUnits`
+ * decimal places when given (sums and averages are then decimal strings)
  */
 export function groupAndAggregate(
-  rows: unknown[],
+  rows: Array<Record<string, unknown>>,
   groupField: string,
-  aggField: string
-): Map<string, { count: number; sum: number; avg: number }> {
-  const groups = new Map<string, { count: number; sum: number }>();
+  aggField: string,
+  minorUnits?: number
+): Map<string, { count: number; sum: number | string; avg: number | string }> {
+  const groups = new Map<string, { count: number; sum: number; decimal?: DecimalSum }>();
 
   for (const row of rows) {
-    const groupKey = String((row as any)[groupField] || 'unknown');
-    const aggValue = (row as any)[aggField];
+    const groupKey = String(row[groupField] || 'unknown');
+    const aggValue = row[aggField];
 
     if (typeof aggValue === 'number' && !isNaN(aggValue)) {
-      const existing = groups.get(groupKey);
-      if (existing) {
-        existing.count++;
-        existing.sum += aggValue;
-      } else {
-        groups.set(groupKey, { count: 1, sum: aggValue });
+      let existing = groups.get(groupKey);
+      if (!existing) {
+        existing = { count: 0, sum: 0, decimal: minorUnits === undefined ? undefined : new DecimalSum(minorUnits) };
+        groups.set(groupKey, existing);
       }
+      existing.count++;
+      existing.sum += aggValue;
+      existing.decimal?.add(aggValue);
     }
   }
 
   // Calculate averages
-  const result = new Map<string, { count: number; sum: number; avg: number }>();
+  const result = new Map<string, { count: number; sum: number | string; avg: number | string }>();
   for (const [key, data] of groups) {
     result.set(key, {
       count: data.count,
-      sum: Math.round(data.sum * 100) / 100,
-      avg: Math.round((data.sum / data.count) * 100) / 100,
+      sum: data.decimal ? data.decimal.toString() : Math.round(data.sum * 100) / 100,
+      avg: data.decimal ? data.decimal.average(data.count) : Math.round((data.sum / data.count) * 100) / 100,
     });
   }
 
@@ -423,23 +1636,170 @@ export function groupAndAggregate(
 // ============================================================================
 
 /**
- * Detect file type from buffer
+ * Resolve parsing options from request metadata (multipart `metadata` field
+ * or the gRPC ProcessFileRequest.metadata map). Named row schemas and
+ * column mappings are looked up for the given tenant, falling back to the
+ * `tenant_id` entry.
  */
-export function detectFileType(buffer: Buffer): 'csv' | 'xlsx' | 'unknown' {
-  const header = buffer.slice(0, 8).toString('hex');
+export async function resolveImportOptions(
+  metadata: Record<string, string> = {},
+  tenantId?: string
+): Promise<ImportOptions> {
+  const dialect: Partial<CsvDialect> = {};
+
+  const delimiter = parseDialectChar(metadata, METADATA_KEYS.CSV_DELIMITER);
+  if (delimiter) dialect.delimiter = delimiter;
+
+  const quote = parseDialectChar(metadata, METADATA_KEYS.CSV_QUOTE);
+  if (quote) dialect.quote = quote;
 
-  // Excel magic numbers
-  if (header === '504b0304' || header === 'd0cf11e0a1b11ae1') {
-    return 'xlsx';
+  const escape = parseDialectChar(metadata, METADATA_KEYS.CSV_ESCAPE);
+  if (escape) dialect.escape = escape;
+
+  const header = metadata[METADATA_KEYS.CSV_HEADER];
+  if (header !== undefined) {
+    if (header !== 'true' && header !== 'false') {
+      throw new ValidationError(`Invalid ${METADATA_KEYS.CSV_HEADER}: expected "true" or "false"`, { value: header });
+    }
+    dialect.hasHeader = header === 'true';
   }
 
-  // Try to detect CSV by content
-  const content = buffer.toString('utf-8', 0, Math.min(1000, buffer.length));
-  if (content.includes(',') && content.includes('\n')) {
-    return 'csv';
+  const encoding = metadata[METADATA_KEYS.ENCODING];
+  const tenant = tenantId ?? metadata[METADATA_KEYS.TENANT_ID];
+  const rowSchema = await resolveRowSchema(metadata, tenant);
+  const definition = rowSchema?.definition ?? DEFAULT_ROW_SCHEMA;
+  const columnMapping = await resolveColumnMapping(metadata, tenant);
+  const dates = resolveDateOptions(metadata);
+  if (columnMapping) {
+    checkColumnMappingFields(columnMapping, Object.keys(definition.fields));
   }
 
-  return 'unknown';
+  return {
+    strict: metadata[METADATA_KEYS.CSV_STRICT] === 'true',
+    dialect,
+    encoding: encoding ? resolveEncodingLabel(encoding) : undefined,
+    sheets: parseSheetList(metadata[METADATA_KEYS.SHEETS]),
+    sheetPattern: parseSheetPattern(metadata[METADATA_KEYS.SHEET_PATTERN]),
+    jsonPathSeparator: metadata[METADATA_KEYS.JSON_PATH_SEPARATOR] || undefined,
+    rowSchema,
+    columnMapping,
+    locale: resolveLocale(metadata[METADATA_KEYS.LOCALE], tenant),
+    dates,
+    maxRowErrors: parseMaxRowErrors(metadata[METADATA_KEYS.MAX_ROW_ERRORS]),
+    validationPolicy: resolveValidationPolicy(metadata, tenant),
+    maxRows: PROCESSING_LIMITS.maxRowsPerFile,
+    aggregation: resolveAggregationQuery(metadata, definition),
+    summaryStats: parseSummaryStats(metadata),
+    timeSeries: resolveTimeSeries(metadata, definition, dates),
+    pivot: resolvePivot(metadata, definition),
+    minorUnits: parseMinorUnits(metadata[METADATA_KEYS.MINOR_UNITS]),
+  };
+}
+
+/**
+ * Read the sheet selection: "*" for all sheets or a comma-separated list of names
+ */
+function parseSheetList(value: string | undefined): string[] | '*' | undefined {
+  if (value === undefined || value.trim() === '') {
+    return undefined;
+  }
+
+  if (value.trim() === '*') {
+    return '*';
+  }
+
+  return value.split(',').map(name => name.trim()).filter(Boolean);
+}
+
+/**
+ * Read the row error cap: a whole number up to ROW_ERRORS_LIMIT
+ */
+function parseMaxRowErrors(value: string | undefined): number | undefined {
+  if (value === undefined || value === '') {
+    return undefined;
+  }
+
+  const limit = Number(value);
+  if (!Number.isInteger(limit) || limit < 0 || limit > ROW_ERRORS_LIMIT) {
+    throw new ValidationError(
+      `Invalid ${METADATA_KEYS.MAX_ROW_ERRORS}: expected a whole number from 0 to ${ROW_ERRORS_LIMIT}`,
+      { value }
+    );
+  }
+  return limit;
+}
+
+function parseMinorUnits(value: string | undefined): number | undefined {
+  if (value === undefined || value === '') {
+    return undefined;
+  }
+
+  const minorUnits = Number(value);
+  if (!Number.isInteger(minorUnits) || minorUnits < 0 || minorUnits > MAX_MINOR_UNITS) {
+    throw new ValidationError(
+      `Invalid ${METADATA_KEYS.MINOR_UNITS}: expected a whole number from 0 to ${MAX_MINOR_UNITS}`,
+      { value }
+    );
+  }
+  return minorUnits;
+}
+
+/**
+ * Read the summary statistics request: `summary_stats=true` for the
+ * default percentiles, or a `percentiles` list such as "50,95,99.9"
+ */
+function parseSummaryStats(metadata: Record<string, string>): ImportOptions['summaryStats'] {
+  const enabled = metadata[METADATA_KEYS.SUMMARY_STATS];
+  if (enabled !== undefined && enabled !== 'true' && enabled !== 'false') {
+    throw new ValidationError(`Invalid ${METADATA_KEYS.SUMMARY_STATS}: expected "true" or "false"`, { value: enabled });
+  }
+
+  const value = metadata[METADATA_KEYS.PERCENTILES];
+  if (value === undefined || value.trim() === '') {
+    return enabled === 'true' ? { percentiles: DEFAULT_PERCENTILES } : undefined;
+  }
+  if (enabled === 'false') {
+    return undefined;
+  }
+
+  const percentiles = value.split(',').map(entry => entry.trim());
+  const invalid = percentiles.filter(entry => !/^\d{1,2}(\.\d{1,3})?$/.test(entry) || Number(entry) === 0);
+  if (invalid.length > 0 || percentiles.length > 20) {
+    throw new ValidationError(
+      `Invalid ${METADATA_KEYS.PERCENTILES}: expected up to 20 comma-separated percentiles between 0 and 100`,
+      { value, invalid }
+    );
+  }
+  return { percentiles: [...new Set(percentiles.map(Number))].sort((a, b) => a - b) };
+}
+
+function parseSheetPattern(value: string | undefined): RegExp | undefined {
+  if (value === undefined || value === '') {
+    return undefined;
+  }
+
+  const problem = checkPattern(value);
+  if (problem) {
+    throw new ValidationError(`Invalid ${METADATA_KEYS.SHEET_PATTERN}: ${problem}`, { value });
+  }
+  return new RegExp(value);
+}
+
+/**
+ * Read a single dialect character from metadata ("tab" and "\\t" name a tab)
+ */
+function parseDialectChar(metadata: Record<string, string>, key: string): string | undefined {
+  const value = metadata[key];
+  if (value === undefined || value === '') {
+    return undefined;
+  }
+
+  const char = value === 'tab' || value === '\\t' ? '\t' : value;
+  if (char.length !== 1) {
+    throw new ValidationError(`Invalid ${key}: expected a single character`, { value });
+  }
+
+  return char;
 }
 
 /**
@@ -475,8 +1835,39 @@ export function generateSampleCsv(rows: number = 100): string {
 /**
  * Parse CSV from string
  */
-export function parseCsvString(content: string): { headers: string[]; rows: unknown[] } {
-  return parseCSVWithRegex(content);
+export function parseCsvString(
+  content: string,
+  options: ImportOptions = {}
+): { headers: string[]; rows: unknown[] } {
+  // Strings are already decoded; only a leftover BOM needs removing
+  content = content.replace(/^\uFEFF/, '');
+  const dialect = detectDialect(content.slice(0, DIALECT_SAMPLE_BYTES), options.dialect);
+  const mapping = options.columnMapping && compileColumnMapping(options.columnMapping);
+  const parseNumber = getNumberParser(options.locale);
+  const rowSchema = rowSchemaFor(options);
+  let headers: string[] | null = null;
+  let keys: Array<string | null> = [];
+  const rows: unknown[] = [];
+
+  tokenizeCsvString(content, (values) => {
+    if (isBlankRecord(values)) {
+      return;
+    }
+
+    if (!headers) {
+      headers = dialect.hasHeader ? values.map(h => h.trim()) : rowSchema.fields;
+      keys = resolveKeys(values, dialect, rowSchema.fields, mapping).keys;
+      if (dialect.hasHeader) return;
+    }
+
+    rows.push(buildRow(keys, values, rowSchema.types, parseNumber));
+  }, { ...dialect, strict: options.strict });
+
+  if (!headers) {
+    throw new ValidationError('CSV file is empty');
+  }
+
+  return { headers, rows };
 }
 
 export type { ParseResult };
@@ -0,0 +1,481 @@
+/**
+ * Incremental CSV Tokenizer
+ * Consumes a byte stream chunk by chunk and emits one record at a time (RFC 4180)
+ */
+
+import { createDecoder, decodeChunk } from './encoding.js';
+import { CsvParseError } from '../types.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Anything the tokenizer can be fed from: a whole buffer, a Node stream,
+ * a web ReadableStream (File.stream()) or any other async iterable of bytes
+ */
+export type CsvSource = Uint8Array | AsyncIterable<Uint8Array>;
+
+/**
+ * Receives each record with the line it starts on and which of its fields
+ * were quoted
+ */
+type RecordHandler = (fields: string[], line: number, quoted: boolean[]) => void;
+
+export interface CsvTokenizerOptions {
+  /**
+   * Reject malformed quoting with a CsvParseError instead of recovering
+   */
+  strict?: boolean;
+  /**
+   * Character encoding of the byte input (WHATWG label, default utf-8)
+   */
+  encoding?: string;
+  delimiter?: string;
+  quote?: string;
+  /**
+   * Escape character inside quoted fields; defaults to the quote character
+   * (RFC 4180 doubled quotes)
+   */
+  escape?: string;
+  /**
+   * Line the input starts on, when it continues a file that was split at a
+   * record boundary. A byte order mark is only stripped on line 1.
+   */
+  firstLine?: number;
+}
+
+enum ParserState {
+  FieldStart,
+  Unquoted,
+  Quoted,
+  QuoteInQuoted,
+  EscapeInQuoted,
+}
+
+const LF = 10;
+const CR = 13;
+
+/**
+ * Size of the slices a whole-buffer source is fed in, so decoding never
+ * materialises the complete file as a single string
+ */
+const BUFFER_SLICE_SIZE = 64 * 1024;
+
+// ============================================================================
+// Stream Parser
+// ============================================================================
+
+/**
+ * Push-based CSV tokenizer. Bytes go in through write(), complete records
+ * come out through the handler as soon as their terminating newline is seen.
+ * Only the current partial record is held in memory.
+ *
+ * Quoted fields may contain delimiters, newlines and doubled quotes. In
+ * lenient mode a stray quote is kept as a literal character; in strict mode
+ * it raises a CsvParseError with the line and column where it was found.
+ */
+export class CsvStreamParser {
+  private decoder: TextDecoder;
+  private onRecord: RecordHandler;
+  private strict: boolean;
+  private delimiter: number;
+  private quote: number;
+  private escape: number;
+  private state = ParserState.FieldStart;
+  private record: string[] = [];
+  private quoted: boolean[] = [];
+  private field = '';
+  private fieldQuoted = false;
+
+  // Position tracking for error reporting
+  private offset = 0;
+  private line = 1;
+  private lineStart = 0;
+  private recordLine = 1;
+  private quoteLine = 0;
+  private quoteColumn = 0;
+
+  constructor(onRecord: RecordHandler, options: CsvTokenizerOptions = {}) {
+    this.onRecord = onRecord;
+    this.line = this.recordLine = options.firstLine ?? 1;
+    this.decoder = createDecoder(options.encoding ?? 'utf-8', { fatal: true, ignoreBOM: this.line > 1 });
+    this.strict = options.strict ?? false;
+    this.delimiter = (options.delimiter ?? ',').charCodeAt(0);
+    this.quote = (options.quote ?? '"').charCodeAt(0);
+    this.escape = (options.escape ?? options.quote ?? '"').charCodeAt(0);
+  }
+
+  /**
+   * Feed a chunk of raw bytes
+   */
+  write(chunk: Uint8Array): void {
+    this.pushDecoded(decodeChunk(this.decoder, chunk));
+  }
+
+  /**
+   * Feed already decoded text
+   */
+  push(text: string): void {
+    const { delimiter, quote, escape } = this;
+    const length = text.length;
+    let start = 0;
+    let i = 0;
+
+    while (i < length) {
+      const char = text.charCodeAt(i);
+
+      switch (this.state) {
+        case ParserState.FieldStart:
+          if (char === quote) {
+            this.quoteLine = this.line;
+            this.quoteColumn = this.columnAt(i);
+            this.fieldQuoted = true;
+            this.state = ParserState.Quoted;
+            i++;
+          } else {
+            this.state = ParserState.Unquoted;
+          }
+          start = i;
+          break;
+
+        case ParserState.Unquoted:
+          if (char === delimiter) {
+            this.field += text.slice(start, i);
+            this.endField();
+            i = start = i + 1;
+          } else if (char === LF) {
+            this.field += text.slice(start, i);
+            // Strip the CR of a CRLF terminator
+            if (this.field.endsWith('\r')) {
+              this.field = this.field.slice(0, -1);
+            }
+            this.endRecord();
+            this.newLine(i);
+            i = start = i + 1;
+          } else {
+            if (char === quote && this.strict) {
+              this.fail('Unexpected quote in unquoted field', this.line, this.columnAt(i));
+            }
+            i++;
+          }
+          break;
+
+        case ParserState.Quoted:
+          if (char === escape && escape !== quote) {
+            this.field += text.slice(start, i);
+            this.state = ParserState.EscapeInQuoted;
+          } else if (char === quote) {
+            this.field += text.slice(start, i);
+            this.state = ParserState.QuoteInQuoted;
+          } else if (char === LF) {
+            this.newLine(i);
+          }
+          i++;
+          if (this.state !== ParserState.Quoted) {
+            start = i;
+          }
+          break;
+
+        case ParserState.EscapeInQuoted:
+          // Escaped character is taken literally
+          if (char === LF) {
+            this.newLine(i);
+          }
+          this.state = ParserState.Quoted;
+          start = i;
+          i++;
+          break;
+
+        case ParserState.QuoteInQuoted:
+          if (char === quote) {
+            // Doubled quote
+            this.field += text[i];
+            this.state = ParserState.Quoted;
+            i = start = i + 1;
+          } else if (char === delimiter) {
+            this.endField();
+            i = start = i + 1;
+          } else if (char === LF) {
+            this.endRecord();
+            this.newLine(i);
+            i = start = i + 1;
+          } else if (char === CR) {
+            i = start = i + 1;
+          } else {
+            if (this.strict) {
+              this.fail('Unexpected character after closing quote', this.line, this.columnAt(i));
+            }
+            // Keep the stray quote and read the rest of the field unquoted,
+            // so a malformed field cannot swallow the records after it
+            this.field += String.fromCharCode(quote);
+            this.state = ParserState.Unquoted;
+            start = i;
+          }
+          break;
+      }
+    }
+
+    if (this.state === ParserState.Unquoted || this.state === ParserState.Quoted) {
+      this.field += text.slice(start, length);
+    }
+    this.offset += length;
+  }
+
+  /**
+   * Flush the decoder and emit the final record if the input did not end
+   * with a newline
+   */
+  end(): void {
+    this.pushDecoded(decodeChunk(this.decoder));
+
+    const inQuotes = this.state === ParserState.Quoted || this.state === ParserState.EscapeInQuoted;
+    if (inQuotes && this.strict) {
+      this.fail('Unterminated quoted field', this.quoteLine, this.quoteColumn);
+    }
+
+    if (this.state === ParserState.Unquoted && this.field.endsWith('\r')) {
+      this.field = this.field.slice(0, -1);
+    }
+
+    if (this.state !== ParserState.FieldStart || this.record.length > 0) {
+      this.endRecord();
+    }
+  }
+
+  /**
+   * Push decoded text, failing where it stops being valid in the encoding
+   */
+  private pushDecoded({ text, valid }: { text: string; valid: boolean }): void {
+    this.push(text);
+    if (!valid) {
+      this.fail(`Invalid ${this.decoder.encoding} byte sequence`, this.line, this.columnAt(0));
+    }
+  }
+
+  private endField(): void {
+    this.record.push(this.field);
+    this.quoted.push(this.fieldQuoted);
+    this.field = '';
+    this.fieldQuoted = false;
+    this.state = ParserState.FieldStart;
+  }
+
+  private endRecord(): void {
+    this.endField();
+    const record = this.record;
+    const quoted = this.quoted;
+    this.record = [];
+    this.quoted = [];
+    this.onRecord(record, this.recordLine, quoted);
+    // Every record but the last is followed by its newline
+    this.recordLine = this.line + 1;
+  }
+
+  private newLine(index: number): void {
+    this.line++;
+    this.lineStart = this.offset + index + 1;
+  }
+
+  private columnAt(index: number): number {
+    return this.offset + index - this.lineStart + 1;
+  }
+
+  private fail(message: string, line: number, column: number): never {
+    throw new CsvParseError(`${message} at line ${line}, column ${column}`, line, column);
+  }
+}
+
+// ============================================================================
+// Record Splitter
+// ============================================================================
+
+/**
+ * Single-byte encodings, in which every ASCII character is one byte
+ */
+const SINGLE_BYTE_ENCODING = /^(windows-125\d|iso-8859-\d+)$/;
+
+/**
+ * Check whether a file can be split at record boundaries by scanning its
+ * bytes: the dialect characters are ASCII and the encoding keeps ASCII
+ * bytes from occurring inside other characters (UTF-8 and single-byte
+ * encodings do, UTF-16 and the East Asian multi-byte ones do not).
+ */
+export function isSplittable(encoding: string, options: CsvTokenizerOptions = {}): boolean {
+  const { delimiter = ',', quote = '"', escape = quote } = options;
+  return (encoding === 'utf-8' || SINGLE_BYTE_ENCODING.test(encoding))
+    && [delimiter, quote, escape].every(char => char.charCodeAt(0) < 0x80);
+}
+
+/**
+ * Finds the record boundaries of a CSV byte stream without decoding it, so
+ * a large file can be cut into chunks that tokenize on their own. It walks
+ * the same states as CsvStreamParser, only tracking where the last record
+ * ended and how many lines came before it. Only valid for input that
+ * isSplittable().
+ */
+export class CsvRecordSplitter {
+  private delimiter: number;
+  private quote: number;
+  private escape: number;
+  private state = ParserState.FieldStart;
+  private scanned = 0;
+  private lastBoundary = 0;
+  private linesBeforeBoundary = 0;
+  private linesSinceBoundary = 0;
+
+  constructor(options: CsvTokenizerOptions = {}) {
+    this.delimiter = (options.delimiter ?? ',').charCodeAt(0);
+    this.quote = (options.quote ?? '"').charCodeAt(0);
+    this.escape = (options.escape ?? options.quote ?? '"').charCodeAt(0);
+  }
+
+  /**
+   * Bytes scanned since the last cut up to the end of the last complete
+   * record (0 while no record has ended)
+   */
+  get boundary(): number {
+    return this.lastBoundary;
+  }
+
+  /**
+   * Scan the next bytes of the stream
+   */
+  scan(chunk: Uint8Array): void {
+    const { delimiter, quote, escape } = this;
+
+    for (let i = 0; i < chunk.length; i++) {
+      const byte = chunk[i];
+      if (byte === LF) {
+        this.linesSinceBoundary++;
+      }
+
+      switch (this.state) {
+        case ParserState.FieldStart:
+        case ParserState.Unquoted:
+          if (this.state === ParserState.FieldStart && byte === quote) {
+            this.state = ParserState.Quoted;
+          } else if (byte === delimiter) {
+            this.state = ParserState.FieldStart;
+          } else if (byte === LF) {
+            this.endRecord(i);
+          } else {
+            this.state = ParserState.Unquoted;
+          }
+          break;
+
+        case ParserState.Quoted:
+          if (byte === escape && escape !== quote) {
+            this.state = ParserState.EscapeInQuoted;
+          } else if (byte === quote) {
+            this.state = ParserState.QuoteInQuoted;
+          }
+          break;
+
+        case ParserState.EscapeInQuoted:
+          this.state = ParserState.Quoted;
+          break;
+
+        case ParserState.QuoteInQuoted:
+          if (byte === quote) {
+            this.state = ParserState.Quoted;
+          } else if (byte === delimiter) {
+            this.state = ParserState.FieldStart;
+          } else if (byte === LF) {
+            this.endRecord(i);
+          } else if (byte !== CR) {
+            this.state = ParserState.Unquoted;
+          }
+          break;
+      }
+    }
+
+    this.scanned += chunk.length;
+  }
+
+  /**
+   * Cut the stream at the last record boundary. Returns the number of bytes
+   * before it and the lines they span; scanning then carries on from the
+   * boundary as the new start.
+   */
+  cut(): { bytes: number; lines: number } {
+    const cut = { bytes: this.lastBoundary, lines: this.linesBeforeBoundary };
+    this.scanned -= this.lastBoundary;
+    this.lastBoundary = 0;
+    this.linesBeforeBoundary = 0;
+    return cut;
+  }
+
+  private endRecord(index: number): void {
+    this.state = ParserState.FieldStart;
+    this.lastBoundary = this.scanned + index + 1;
+    this.linesBeforeBoundary += this.linesSinceBoundary;
+    this.linesSinceBoundary = 0;
+  }
+}
+
+// ============================================================================
+// Source Helpers
+// ============================================================================
+
+/**
+ * Iterate a source as a sequence of byte chunks
+ */
+export async function* readChunks(source: CsvSource): AsyncIterable<Uint8Array> {
+  if (source instanceof Uint8Array) {
+    for (let offset = 0; offset < source.length; offset += BUFFER_SLICE_SIZE) {
+      yield source.subarray(offset, offset + BUFFER_SLICE_SIZE);
+    }
+    return;
+  }
+
+  for await (const chunk of source) {
+    yield chunk;
+  }
+}
+
+/**
+ * Read at least `size` leading bytes of a source (fewer if it is shorter)
+ * without consuming it: the returned chunks replay the head first
+ */
+export async function peekSource(
+  source: CsvSource,
+  size: number
+): Promise<{ head: Uint8Array; chunks: AsyncIterable<Uint8Array> }> {
+  if (source instanceof Uint8Array) {
+    return { head: source.subarray(0, size), chunks: readChunks(source) };
+  }
+
+  const iterator = readChunks(source)[Symbol.asyncIterator]();
+  const buffered: Uint8Array[] = [];
+  let bufferedBytes = 0;
+
+  while (bufferedBytes < size) {
+    const next = await iterator.next();
+    if (next.done) break;
+    buffered.push(next.value);
+    bufferedBytes += next.value.length;
+  }
+
+  async function* replay(): AsyncIterable<Uint8Array> {
+    yield* buffered;
+    for (let next = await iterator.next(); !next.done; next = await iterator.next()) {
+      yield next.value;
+    }
+  }
+
+  return { head: Buffer.concat(buffered).subarray(0, size), chunks: replay() };
+}
+
+/**
+ * Tokenize a complete string synchronously
+ */
+export function tokenizeCsvString(
+  content: string,
+  onRecord: RecordHandler,
+  options: CsvTokenizerOptions = {}
+): void {
+  const parser = new CsvStreamParser(onRecord, options);
+  parser.push(content);
+  parser.end();
+}
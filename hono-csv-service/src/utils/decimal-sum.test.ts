@@ -0,0 +1,137 @@
+import { describe, expect, test } from 'bun:test';
+import { compareDecimals, DecimalSum, formatMinorUnits, toMinorUnits } from './decimal-sum.js';
+import { processCsvFile, resolveImportOptions } from './csv-parser.js';
+
+/**
+ * Deterministic pseudo-random numbers in [0, 1) (mulberry32)
+ */
+function random(seed: number): () => number {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t ^= t + Math.imul(t ^ (t >>> 7), 61 | t);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * A ledger of amounts in cents, from -10 million to 10 million, with the
+ * decimal text each was written as
+ */
+function ledger(count: number, seed: number): Array<{ cents: bigint; text: string }> {
+  const next = random(seed);
+  return Array.from({ length: count }, () => {
+    const cents = BigInt(Math.floor((next() - 0.5) * 2e9));
+    return { cents, text: formatMinorUnits(cents, 2) };
+  });
+}
+
+/**
+ * Quotient rounded half away from zero, in bigints
+ */
+function roundedQuotient(total: bigint, count: bigint): bigint {
+  const magnitude = total < 0n ? -total : total;
+  const quotient = (magnitude * 2n + count) / (count * 2n);
+  return total < 0n ? -quotient : quotient;
+}
+
+describe('toMinorUnits', () => {
+  test.each([
+    [0.1, 2, 10n],
+    [1234.5, 2, 123450n],
+    [-0.05, 2, -5n],
+    [0.005, 2, 1n],
+    [-0.005, 2, -1n],
+    [0.0049, 2, 0n],
+    [1.005, 2, 101n],
+    [1e21, 2, 100000000000000000000000n],
+    [1.5e-7, 8, 15n],
+    [12.345, 0, 12n],
+    ['90071992547409.93', 2, 9007199254740993n],
+    ['-0.005', 2, -1n],
+    ['-9007199254740993', 0, -9007199254740993n],
+  ])('reads %p to %p places as %p', (value, minorUnits, expected) => {
+    expect(toMinorUnits(value, minorUnits)).toBe(expected);
+  });
+});
+
+describe('formatMinorUnits', () => {
+  test.each([
+    [123450n, 2, '1234.50'],
+    [-5n, 2, '-0.05'],
+    [0n, 2, '0.00'],
+    [7n, 0, '7'],
+    [15n, 8, '0.00000015'],
+  ])('writes %p to %p places as %p', (units, minorUnits, expected) => {
+    expect(formatMinorUnits(units, minorUnits)).toBe(expected);
+  });
+
+  test('compareDecimals orders decimal strings by value', () => {
+    expect(['10.00', '-0.05', '9.99', '-10.00'].sort(compareDecimals)).toEqual(['-10.00', '-0.05', '9.99', '10.00']);
+  });
+});
+
+describe('DecimalSum', () => {
+  const entries = ledger(100_000, 5);
+  const total = entries.reduce((sum, entry) => sum + entry.cents, 0n);
+
+  test('sums many amounts to the cent of the ledger', () => {
+    const sum = new DecimalSum(2);
+    entries.forEach(entry => sum.add(Number(entry.text)));
+
+    expect(sum.toString()).toBe(formatMinorUnits(total, 2));
+    expect(sum.units()).toBe(total.toString());
+  });
+
+  test('averages to the cent, rounding half away from zero', () => {
+    const sum = new DecimalSum(2);
+    entries.forEach(entry => sum.add(Number(entry.text)));
+
+    expect(sum.average(entries.length)).toBe(formatMinorUnits(roundedQuotient(total, BigInt(entries.length)), 2));
+
+    const half = new DecimalSum(2);
+    [0.01, 0.02].forEach(value => half.add(value));
+    expect(half.average(2)).toBe('0.02');
+    const negative = new DecimalSum(2);
+    [-0.01, -0.02].forEach(value => negative.add(value));
+    expect(negative.average(2)).toBe('-0.02');
+    expect(new DecimalSum(2).average(0)).toBe('0.00');
+  });
+
+  test('merges partial sums by their units', () => {
+    const parts = [new DecimalSum(2), new DecimalSum(2), new DecimalSum(2)];
+    entries.forEach((entry, index) => parts[index % 3].add(Number(entry.text)));
+
+    const merged = new DecimalSum(2);
+    parts.forEach(part => merged.addUnits(part.units()));
+
+    expect(merged.toString()).toBe(formatMinorUnits(total, 2));
+  });
+
+  test('skips values that are not finite', () => {
+    const sum = new DecimalSum(2);
+    [1.25, NaN, Infinity, 2].forEach(value => sum.add(value));
+
+    expect(sum.toString()).toBe('3.25');
+  });
+
+  test('gives an import the ledger totals of each group', async () => {
+    const regions = ['APAC', 'EU', 'US'];
+    const rows = entries.slice(0, 30_000).map((entry, index) => ({ ...entry, region: regions[index % 3] }));
+    const csv = 'region,country,amount\n' + rows.map(row => `${row.region},XX,${row.text}`).join('\n') + '\n';
+
+    const result = await processCsvFile(Buffer.from(csv), await resolveImportOptions({ minor_units: '2' }));
+
+    expect(result.summaries).toEqual(regions.map(region => {
+      const group = rows.filter(row => row.region === region);
+      const cents = group.reduce((sum, row) => sum + row.cents, 0n);
+      return {
+        region,
+        country: 'XX',
+        count: group.length,
+        amountSum: formatMinorUnits(cents, 2),
+        amountAvg: formatMinorUnits(roundedQuotient(cents, BigInt(group.length)), 2),
+      };
+    }));
+  });
+});
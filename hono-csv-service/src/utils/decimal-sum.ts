@@ -0,0 +1,126 @@
+/**
+ * Decimal Sums
+ * Exact sums of currency amounts as whole numbers of their minor unit
+ */
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+/**
+ * Most decimal places an import may ask sums to be kept to
+ */
+export const MAX_MINOR_UNITS = 8;
+
+/**
+ * Exact decimal text of the measures of a row, by field, where it was read
+ * from a typed decimal or 64-bit integer column that a number cannot
+ * always hold
+ */
+export type ExactDecimals = Record<string, string>;
+
+// ============================================================================
+// Conversion
+// ============================================================================
+
+/**
+ * A number or exact decimal text as a whole number of minor units (cents
+ * for 2). Numbers are taken at their shortest decimal form, the one they
+ * were read from, so 0.1 is 10 cents and not the binary fraction below it;
+ * digits past the minor unit are rounded half away from zero.
+ */
+export function toMinorUnits(value: number | string, minorUnits: number): bigint {
+  const text = String(value);
+  const negative = text.startsWith('-');
+  const [mantissa, exponent = '0'] = (negative ? text.slice(1) : text).split('e');
+  const [whole, fraction = ''] = mantissa.split('.');
+  const digits = BigInt(whole + fraction);
+  const shift = Number(exponent) - fraction.length + minorUnits;
+
+  const units = shift >= 0 ? digits * 10n ** BigInt(shift) : divideRounded(digits, 10n ** BigInt(-shift));
+  return negative ? -units : units;
+}
+
+/**
+ * A whole number of minor units as a decimal string with all its places:
+ * 1234.50, -0.05, 7
+ */
+export function formatMinorUnits(units: bigint, minorUnits: number): string {
+  const digits = (units < 0n ? -units : units).toString().padStart(minorUnits + 1, '0');
+  const sign = units < 0n ? '-' : '';
+  if (minorUnits === 0) {
+    return sign + digits;
+  }
+  return `${sign}${digits.slice(0, -minorUnits)}.${digits.slice(-minorUnits)}`;
+}
+
+/**
+ * Order of two decimal strings with the same number of places
+ */
+export function compareDecimals(a: string, b: string): number {
+  const difference = BigInt(a.replace('.', '')) - BigInt(b.replace('.', ''));
+  return difference < 0n ? -1 : difference > 0n ? 1 : 0;
+}
+
+/**
+ * Quotient of two non-negative integers, rounded half away from zero
+ */
+function divideRounded(dividend: bigint, divisor: bigint): bigint {
+  return (dividend * 2n + divisor) / (divisor * 2n);
+}
+
+// ============================================================================
+// Decimal Sum
+// ============================================================================
+
+/**
+ * Running sum of amounts kept as a whole number of minor units. Every
+ * amount is rounded to the minor unit once, when it is added; from there
+ * the sum is exact however many rows it spans and however they were split
+ * up, so it matches a ledger to the cent.
+ */
+export class DecimalSum {
+  private total = 0n;
+
+  constructor(readonly minorUnits: number) {}
+
+  /**
+   * Add an amount, as a number or as exact decimal text
+   */
+  add(value: number | string): void {
+    if (typeof value === 'string' || Number.isFinite(value)) {
+      this.total += toMinorUnits(value, this.minorUnits);
+    }
+  }
+
+  /**
+   * Add the units of another sum, as given by its `units()`
+   */
+  addUnits(units: string): void {
+    this.total += BigInt(units);
+  }
+
+  /**
+   * The sum in minor units, as a string that can be posted between threads
+   */
+  units(): string {
+    return this.total.toString();
+  }
+
+  toString(): string {
+    return formatMinorUnits(this.total, this.minorUnits);
+  }
+
+  /**
+   * The sum over `count` values, rounded half away from zero to the minor
+   * unit
+   */
+  average(count: number): string {
+    if (count === 0) {
+      return formatMinorUnits(0n, this.minorUnits);
+    }
+
+    const quotient = divideRounded(this.total < 0n ? -this.total : this.total, BigInt(count));
+    return formatMinorUnits(this.total < 0n ? -quotient : quotient, this.minorUnits);
+  }
+}
@@ -0,0 +1,129 @@
+import { describe, expect, test } from 'bun:test';
+import { MeasureDistribution, TDigest } from './distribution.js';
+
+/**
+ * Deterministic pseudo-random numbers in [0, 1) (mulberry32)
+ */
+function random(seed: number): () => number {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t ^= t + Math.imul(t ^ (t >>> 7), 61 | t);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Exponentially distributed values, skewed like amounts usually are
+ */
+function amounts(count: number, seed: number): number[] {
+  const next = random(seed);
+  return Array.from({ length: count }, () => -Math.log(1 - next()) * 100);
+}
+
+/**
+ * Fraction of the sorted values below `value`
+ */
+function rankOf(sorted: number[], value: number): number {
+  let low = 0;
+  let high = sorted.length;
+  while (low < high) {
+    const middle = (low + high) >> 1;
+    if (sorted[middle] < value) low = middle + 1;
+    else high = middle;
+  }
+  return low / sorted.length;
+}
+
+function digestOf(values: number[]): TDigest {
+  const digest = new TDigest();
+  values.forEach(value => digest.add(value));
+  return digest;
+}
+
+describe('TDigest', () => {
+  test('gives exact percentiles while the values fit in its buffer', () => {
+    const values = amounts(400, 1);
+    const sorted = [...values].sort((a, b) => a - b);
+    const digest = digestOf(values);
+    const min = sorted[0];
+    const max = sorted[sorted.length - 1];
+
+    // Value i sits at rank (i + 0.5) / n, interpolated in between
+    expect(digest.quantile(0.5, min, max)).toBeCloseTo((sorted[199] + sorted[200]) / 2, 10);
+    expect(digest.quantile(0.9, min, max)).toBeCloseTo((sorted[359] + sorted[360]) / 2, 10);
+    expect(digest.quantile(0, min, max)).toBe(min);
+    expect(digest.quantile(1, min, max)).toBe(max);
+  });
+
+  const values = amounts(100_000, 42);
+  const sorted = [...values].sort((a, b) => a - b);
+  const min = sorted[0];
+  const max = sorted[sorted.length - 1];
+
+  test.each([
+    [0.001, 0.0002],
+    [0.01, 0.001],
+    [0.1, 0.005],
+    [0.5, 0.005],
+    [0.9, 0.005],
+    [0.99, 0.001],
+    [0.999, 0.0002],
+  ])('estimates quantile %p within %p of its rank', (q, tolerance) => {
+    const digest = digestOf(values);
+    expect(Math.abs(rankOf(sorted, digest.quantile(q, min, max)) - q)).toBeLessThanOrEqual(tolerance);
+  });
+
+  test('keeps a bounded number of centroids', () => {
+    // About 1.6 times the compression of 200, plus a buffer of 500 values
+    expect(digestOf(values).snapshot().means.length).toBeLessThanOrEqual(320 + 500);
+  });
+
+  test('merges snapshots of partial digests into the same estimates', () => {
+    const parts = [new TDigest(), new TDigest(), new TDigest(), new TDigest()];
+    values.forEach((value, index) => parts[index % 4].add(value));
+    const merged = new TDigest();
+    parts.forEach(part => merged.mergeSnapshot(part.snapshot()));
+
+    const snapshot = merged.snapshot();
+    expect(snapshot.weights.reduce((sum, weight) => sum + weight, 0)).toBe(values.length);
+    for (const [q, tolerance] of [[0.01, 0.001], [0.5, 0.005], [0.99, 0.002]]) {
+      expect(Math.abs(rankOf(sorted, merged.quantile(q, min, max)) - q)).toBeLessThanOrEqual(tolerance);
+    }
+  });
+
+  test('has no quantiles when empty', () => {
+    expect(new TDigest().quantile(0.5, 0, 0)).toBeNaN();
+  });
+});
+
+describe('MeasureDistribution', () => {
+  test('describes min, max, standard deviation and percentiles', () => {
+    const distribution = new MeasureDistribution();
+    [2, 4, 4, 4, 5, 5, 7, 9, NaN].forEach(value => distribution.add(value));
+
+    expect(distribution.describe([0, 50, 100])).toEqual({ min: 2, max: 9, stddev: 2, percentiles: [2, 4.5, 9] });
+    expect(new MeasureDistribution().describe([50])).toBeUndefined();
+  });
+
+  test('merges chunk snapshots to the same min, max and standard deviation', () => {
+    const values = amounts(20_000, 7);
+    const sorted = [...values].sort((a, b) => a - b);
+    const whole = new MeasureDistribution();
+    values.forEach(value => whole.add(value));
+
+    const merged = new MeasureDistribution();
+    for (let start = 0; start < values.length; start += 3000) {
+      const chunk = new MeasureDistribution();
+      values.slice(start, start + 3000).forEach(value => chunk.add(value));
+      merged.mergeSnapshot(chunk.snapshot());
+    }
+
+    const expected = whole.describe([50, 99])!;
+    const actual = merged.describe([50, 99])!;
+    expect([actual.min, actual.max, actual.stddev]).toEqual([expected.min, expected.max, expected.stddev]);
+    // Percentiles are estimates either way
+    expect(Math.abs(rankOf(sorted, actual.percentiles[0]) - 0.5)).toBeLessThanOrEqual(0.01);
+    expect(Math.abs(rankOf(sorted, actual.percentiles[1]) - 0.99)).toBeLessThanOrEqual(0.002);
+  });
+});
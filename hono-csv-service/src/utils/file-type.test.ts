@@ -0,0 +1,132 @@
+import { describe, expect, test } from 'bun:test';
+import * as XLSX from 'xlsx';
+import { assertSupportedFileType, detectFileType } from './file-type.js';
+import type { DetectedFileType } from './file-type.js';
+import { openUpload } from './upload.js';
+import { InvalidFileTypeError } from '../types.js';
+
+/**
+ * A ZIP archive of the given files
+ */
+function zipOf(files: Record<string, string>): Buffer {
+  const archive = XLSX.CFB.utils.cfb_new();
+  for (const [name, content] of Object.entries(files)) {
+    XLSX.CFB.utils.cfb_add(archive, name, Buffer.from(content));
+  }
+  return Buffer.from(XLSX.CFB.write(archive, { fileType: 'zip', type: 'buffer', compression: true }));
+}
+
+function workbookOf(bookType: XLSX.BookType): Buffer {
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet([['region', 'amount'], ['EU', 10]]), 'Sales');
+  return XLSX.write(workbook, { bookType, type: 'buffer' });
+}
+
+const docx = zipOf({
+  '[Content_Types].xml': '<Types><Override PartName="/word/document.xml"/></Types>',
+  '_rels/.rels': '<Relationships/>',
+  'word/document.xml': '<w:document>\n<w:p>Region, amount</w:p>\n<w:p>EU, 10</w:p>\n</w:document>',
+});
+
+const pptx = zipOf({
+  '[Content_Types].xml': '<Types><Override PartName="/ppt/presentation.xml"/></Types>',
+  'ppt/presentation.xml': '<p:presentation>\n<p:sld>a,b</p:sld>\n<p:sld>c,d</p:sld>\n</p:presentation>',
+});
+
+const odt = zipOf({
+  mimetype: 'application/vnd.oasis.opendocument.text',
+  'content.xml': '<office:document>\na,b\nc,d\n</office:document>',
+});
+
+const pdf = Buffer.from([
+  '%PDF-1.4',
+  '1 0 obj << /Type /Catalog /Pages 2 0 R >> endobj',
+  '2 0 obj << /Type /Pages /Kids [3 0 R] /Count 1 >> endobj',
+  '3 0 obj << /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] >> endobj',
+  '4 0 obj << /Length 44 >> stream',
+  'BT /F1 24 Tf 72 720 Td (Hello, world) Tj ET',
+  'endstream endobj',
+  'xref',
+  '0 5',
+  'trailer << /Size 5 /Root 1 0 R >>',
+  '%%EOF',
+].join('\n'));
+
+describe('detectFileType', () => {
+  test.each<[string, Buffer, DetectedFileType]>([
+    ['an xlsx workbook', workbookOf('xlsx'), 'xlsx'],
+    ['an xls workbook', workbookOf('biff8'), 'xls'],
+    ['an ods spreadsheet', workbookOf('ods'), 'ods'],
+    ['a ZIP of data files', zipOf({ 'sales.csv': 'region,amount\nEU,10\n', 'notes/readme.txt': 'hi' }), 'zip'],
+    ['a docx document', docx, 'unknown'],
+    ['a pptx presentation', pptx, 'unknown'],
+    ['an odt document', odt, 'unknown'],
+    ['a PDF', pdf, 'unknown'],
+    ['an OLE2 file without a workbook stream', Buffer.from('d0cf11e0a1b11ae1' + '00'.repeat(64), 'hex'), 'unknown'],
+  ])('reads %s', (_, buffer, type) => {
+    expect(detectFileType(buffer)).toBe(type);
+  });
+
+  test.each([
+    ['comma', 'region,amount\nEU,10\n'],
+    ['semicolon', 'region;amount\nEU;10,5\n'],
+    ['tab', 'region\tamount\nEU\t10'],
+    ['pipe', 'region|amount\r\nEU|10\r\n'],
+  ])('reads %s separated values as CSV', (_, text) => {
+    expect(detectFileType(Buffer.from(text))).toBe('csv');
+  });
+
+  test.each([
+    ['a delimiter on one line only', 'Dear team,\nplease find the figures attached\n'],
+    ['different delimiters on each line', 'a,b\nc;d\n'],
+    ['a single line', 'region,amount'],
+    ['an XML document', '<?xml version="1.0"?>\n<row>a,b</row>\n<row>c,d</row>\n'],
+    ['binary data', '\x89PNG\r\n\x1a\n\x00\x00\x00\rIHDR,\n,\n'],
+  ])('does not read %s as CSV', (_, text) => {
+    expect(detectFileType(Buffer.from(text, 'latin1'))).toBe('unknown');
+  });
+
+  test('reads CSV in other encodings', () => {
+    expect(detectFileType(Buffer.from('region,country\nEU,Zürich\n', 'utf16le'))).toBe('csv');
+    expect(detectFileType(Buffer.from('region;country\nEU;Z\xfcrich\n\x1a', 'latin1'))).toBe('csv');
+  });
+
+  test.each<[string, DetectedFileType]>([
+    ['[{"amount":1}]', 'json'],
+    ['\uFEFF  []', 'json'],
+    ['{"amount":1}\n{"amount":2}\n', 'ndjson'],
+  ])('reads %s as JSON', (text, type) => {
+    expect(detectFileType(Buffer.from(text))).toBe(type);
+  });
+
+  test('identifies Parquet and Arrow by their magic numbers', () => {
+    expect(detectFileType(Buffer.from('PAR1\0\0\0\0'))).toBe('parquet');
+    expect(detectFileType(Buffer.from('ARROW1\0\0'))).toBe('arrow');
+    expect(detectFileType(Buffer.from('ffffffff10000000', 'hex'))).toBe('arrow');
+  });
+});
+
+describe('unsupported uploads', () => {
+  test.each([
+    ['report.docx', docx],
+    ['slides.pptx', pptx],
+    ['letter.odt', odt],
+  ])('rejects %s with a 415', async (fileName, buffer) => {
+    const error = await openUpload(buffer, { fileName }).catch(e => e);
+
+    expect(error).toBeInstanceOf(InvalidFileTypeError);
+    expect(error).toMatchObject({ statusCode: 415, code: 'INVALID_FILE_TYPE', details: { detectedType: 'unknown', fileName } });
+  });
+
+  test('rejects a PDF renamed to .csv', async () => {
+    const error = await openUpload(pdf, { fileName: 'sales.csv' }).catch(e => e);
+
+    expect(error).toBeInstanceOf(InvalidFileTypeError);
+    expect(error.statusCode).toBe(415);
+  });
+
+  test('reads text without a delimiter when the client declares CSV', async () => {
+    expect((await openUpload(Buffer.from('amount\n10\n'), { declaredType: 'csv' })).fileType).toBe('csv');
+    expect(() => assertSupportedFileType('unknown', 'notes.txt')).toThrow(InvalidFileTypeError);
+  });
+});
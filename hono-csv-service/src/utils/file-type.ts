@@ -0,0 +1,176 @@
+/**
+ * File Type Detection
+ * Magic-number and container sniffing for uploaded files
+ */
+
+import { listZipEntries, readZipEntry } from './archive.js';
+import { createDecoder, detectEncoding } from './encoding.js';
+import { InvalidFileTypeError, SUPPORTED_FILE_TYPES } from '../types.js';
+import type { ZipEntry } from './archive.js';
+import type { FileType } from '../types.js';
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+/**
+ * Every type detectFileType can report: the supported file types plus
+ * content that no reader accepts
+ */
+export type DetectedFileType = FileType | 'unknown';
+
+const ZIP_SIGNATURE = '504b0304';
+const OLE2_SIGNATURE = 'd0cf11e0a1b11ae1';
+const PARQUET_SIGNATURE = '50415231'; // "PAR1"
+const ARROW_FILE_SIGNATURE = '4152524f5731'; // "ARROW1"
+const ARROW_STREAM_SIGNATURE = 'ffffffff'; // continuation marker of the first IPC message
+
+/**
+ * Media type held in the `mimetype` entry of an OpenDocument spreadsheet,
+ * and how far into the file a conforming first entry puts it
+ */
+const ODS_MIMETYPE = 'application/vnd.oasis.opendocument.spreadsheet';
+const ODS_MIMETYPE_WINDOW = 128;
+
+/**
+ * Part listing the content types of an Office Open XML package (docx,
+ * pptx and xlsx alike)
+ */
+const OOXML_CONTENT_TYPES = '[Content_Types].xml';
+
+const CSV_DELIMITERS = [',', ';', '\t', '|'];
+
+/**
+ * Control characters that do not occur in text files but fill binary ones
+ * (images and the like), whatever bytes happen to look like delimiters.
+ * Ctrl-Z is left out: old DOS tools end text files with it.
+ */
+const BINARY_CHARACTERS = /[\u0000-\u0008\u000b\u000c\u000e-\u0019\u001b-\u001f]/;
+
+/**
+ * Directory entry names of the workbook stream in BIFF8 (Excel 97+) and
+ * BIFF5 (Excel 5/95) compound files, NUL-terminated UTF-16LE
+ */
+const OLE2_WORKBOOK_STREAMS = [
+  Buffer.from('Workbook\0', 'utf16le'),
+  Buffer.from('Book\0', 'utf16le'),
+];
+
+// ============================================================================
+// Detection
+// ============================================================================
+
+/**
+ * Detect file type from buffer. Parquet, Arrow, CSV and JSON are recognised from the leading bytes;
+ * ZIP and OLE2 containers are told apart by their directory, which for
+ * ZIP sits at the end of the file, so pass the whole file for those.
+ */
+export function detectFileType(buffer: Buffer): DetectedFileType {
+  const header = buffer.subarray(0, 8).toString('hex');
+
+  if (header.startsWith(ZIP_SIGNATURE)) {
+    return sniffZip(buffer);
+  }
+
+  if (header === OLE2_SIGNATURE) {
+    return OLE2_WORKBOOK_STREAMS.some(name => buffer.includes(name)) ? 'xls' : 'unknown';
+  }
+
+  if (header.startsWith(PARQUET_SIGNATURE)) {
+    return 'parquet';
+  }
+
+  if (header.startsWith(ARROW_FILE_SIGNATURE) || header.startsWith(ARROW_STREAM_SIGNATURE)) {
+    return 'arrow';
+  }
+
+  const sample = buffer.subarray(0, 1000);
+  const content = createDecoder(detectEncoding(sample)).decode(sample);
+  if (BINARY_CHARACTERS.test(content)) {
+    return 'unknown';
+  }
+
+  // JSON: an array of records, or one record per line
+  const text = content.replace(/^\uFEFF/, '').trimStart();
+  if (/^\[\s*(?:[{\]]|$)/.test(text)) {
+    return 'json';
+  }
+  if (text.startsWith('{')) {
+    return 'ndjson';
+  }
+
+  // Markup (XML, HTML) is not tabular data, commas or not
+  if (text.startsWith('<')) {
+    return 'unknown';
+  }
+
+  // CSV: a supported delimiter on more than one line. A single stray
+  // comma in some other text is not enough.
+  const lines = content.split('\n');
+  if (CSV_DELIMITERS.some(delimiter => lines.filter(line => line.includes(delimiter)).length > 1)) {
+    return 'csv';
+  }
+
+  return 'unknown';
+}
+
+/**
+ * Whether a detected type has a reader
+ */
+export function isSupportedFileType(type: DetectedFileType): type is FileType {
+  return (SUPPORTED_FILE_TYPES as readonly string[]).includes(type);
+}
+
+/**
+ * Throw unless a detected type has a reader
+ */
+export function assertSupportedFileType(type: DetectedFileType, fileName?: string): FileType {
+  if (!isSupportedFileType(type)) {
+    throw unsupportedFileType(type, fileName);
+  }
+  return type;
+}
+
+/**
+ * The error for content of a type no reader accepts
+ */
+export function unsupportedFileType(type: DetectedFileType, fileName?: string): InvalidFileTypeError {
+  return new InvalidFileTypeError(
+    `Unsupported file type. Supported types: ${SUPPORTED_FILE_TYPES.join(', ')}.`,
+    { detectedType: type, fileName }
+  );
+}
+
+function sniffZip(buffer: Buffer): DetectedFileType {
+  const entries = listZipEntries(buffer);
+  const names = entries.map(entry => entry.name);
+
+  // workbook.bin is the binary (xlsb) flavour of the same package layout
+  if (names.includes('xl/workbook.xml') || names.includes('xl/workbook.bin')) {
+    return 'xlsx';
+  }
+
+  // Conforming writers store `mimetype` first and uncompressed, but some
+  // put it elsewhere in the package
+  const head = buffer.toString('latin1', 0, Math.min(ODS_MIMETYPE_WINDOW, buffer.length));
+  const mimetype = entries.find(entry => entry.name === 'mimetype');
+  if (head.includes(ODS_MIMETYPE) || (mimetype && readMimetype(buffer, mimetype) === ODS_MIMETYPE)) {
+    return 'ods';
+  }
+
+  // Other Office and OpenDocument packages (documents, presentations) are
+  // not archives of data files
+  if (names.includes(OOXML_CONTENT_TYPES) || mimetype) {
+    return 'unknown';
+  }
+
+  return 'zip';
+}
+
+function readMimetype(buffer: Buffer, entry: ZipEntry): string | null {
+  try {
+    return readZipEntry(buffer, entry).toString('utf-8');
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,177 @@
+import { describe, expect, test } from 'bun:test';
+import { JsonRecordStream, flattenRecord } from './json-stream.js';
+import type { JsonFormat } from './json-stream.js';
+import { processJsonFile, resolveImportOptions } from './csv-parser.js';
+import { CsvParseError } from '../types.js';
+
+interface SplitResult {
+  records: Array<{ value: unknown; line: number }>;
+  invalid: number[];
+}
+
+/**
+ * Split the text into records, written in one piece or cut at the offset
+ */
+function split(text: string, format: JsonFormat, at?: number): SplitResult {
+  const result: SplitResult = { records: [], invalid: [] };
+  const reader = new JsonRecordStream((value, line) => result.records.push({ value, line }), {
+    format,
+    onInvalid: (_, line) => result.invalid.push(line),
+  });
+  const bytes = new TextEncoder().encode(text);
+  if (at === undefined) {
+    reader.write(bytes);
+  } else {
+    reader.write(bytes.subarray(0, at));
+    reader.write(bytes.subarray(at));
+  }
+  reader.end();
+  return result;
+}
+
+/**
+ * Split the text at every byte offset, expecting the same records each time
+ */
+function splitAtEveryOffset(text: string, format: JsonFormat): SplitResult {
+  const whole = split(text, format);
+  const length = new TextEncoder().encode(text).length;
+  for (let at = 0; at <= length; at++) {
+    expect(split(text, format, at)).toEqual(whole);
+  }
+  return whole;
+}
+
+describe('NDJSON', () => {
+  test('reads one record per line', () => {
+    const result = splitAtEveryOffset('{"amount":1}\n{"amount":2}\n"three"\n4', 'ndjson');
+
+    expect(result.records).toEqual([
+      { value: { amount: 1 }, line: 1 },
+      { value: { amount: 2 }, line: 2 },
+      { value: 'three', line: 3 },
+      { value: 4, line: 4 },
+    ]);
+  });
+
+  test('reports a malformed line as one invalid record', () => {
+    const result = splitAtEveryOffset('{"amount":1}\nnot json\n{"amount":2}\n', 'ndjson');
+
+    expect(result.records.map(record => record.line)).toEqual([1, 3]);
+    expect(result.invalid).toEqual([2]);
+  });
+
+  test.each([
+    ['trailing text', '{"a":1} junk'],
+    ['two values', '{"a":1} {"a":2}'],
+    ['a comma between values', '{"a":1},{"a":2}'],
+    ['an unclosed object', '{"a":'],
+    ['a stray bracket', ']'],
+  ])('does not split a line with %s', (_, line) => {
+    const result = splitAtEveryOffset(`${line}\n{"a":3}\n`, 'ndjson');
+
+    expect(result.invalid).toEqual([1]);
+    expect(result.records).toEqual([{ value: { a: 3 }, line: 2 }]);
+  });
+
+  test('skips blank lines and reads CRLF line endings', () => {
+    const result = splitAtEveryOffset('\r\n{"a":1}\r\n\r\n   \r\n\t{"a":2}  \r\n\r\n', 'ndjson');
+
+    expect(result.records).toEqual([{ value: { a: 1 }, line: 2 }, { value: { a: 2 }, line: 5 }]);
+    expect(result.invalid).toEqual([]);
+  });
+
+  test('raises the first malformed line in strict mode', () => {
+    const reader = new JsonRecordStream(() => {}, { format: 'ndjson', strict: true });
+
+    expect(() => reader.push('{"a":1}\n{"a":1} junk\n')).toThrow(CsvParseError);
+  });
+});
+
+describe('JSON arrays', () => {
+  test('reads the elements of the array', () => {
+    const result = splitAtEveryOffset('[\n  {"a":1,"b":[1,{"c":"]"}]},\n  {"a":"}\\""},\n  5\n]\n', 'json');
+
+    expect(result.records).toEqual([
+      { value: { a: 1, b: [1, { c: ']' }] }, line: 2 },
+      { value: { a: '}"' }, line: 3 },
+      { value: 5, line: 4 },
+    ]);
+  });
+
+  test('reports a malformed element and reads on', () => {
+    const result = splitAtEveryOffset('[{"a":1},\n{"a":},\n{"a":2}]', 'json');
+
+    expect(result.records.map(record => record.value)).toEqual([{ a: 1 }, { a: 2 }]);
+    expect(result.invalid).toEqual([2]);
+  });
+
+  test('reads CRLF line endings and blank lines between elements', () => {
+    const result = splitAtEveryOffset('[\r\n\r\n{"a":1},\r\n\r\n{"a":2}\r\n]\r\n', 'json');
+
+    expect(result.records).toEqual([{ value: { a: 1 }, line: 3 }, { value: { a: 2 }, line: 5 }]);
+  });
+
+  test.each([
+    ['{"a":1}', 'Expected a JSON array of records at line 1, column 1'],
+    ['[{"a":1} {"a":2}]', 'Expected a comma between array elements at line 1, column 10'],
+    ['[,{"a":1}]', 'Unexpected comma at line 1, column 2'],
+    ['[{"a":1}]\n[]', 'Unexpected content after the end of the JSON array at line 2, column 1'],
+  ])('rejects %s', (text, message) => {
+    expect(() => split(text, 'json')).toThrow(new CsvParseError(message, 0, 0));
+  });
+
+  test('rejects an empty file and, in strict mode, an unterminated array', () => {
+    expect(() => split('  \n', 'json')).toThrow('JSON file is empty');
+
+    const reader = new JsonRecordStream(() => {}, { format: 'json', strict: true });
+    reader.push('[{"a":1},');
+    expect(() => reader.end()).toThrow('Unterminated JSON array at line 1, column 10');
+  });
+});
+
+describe('flattenRecord', () => {
+  test('joins nested keys and array indices', () => {
+    const record = { customer: { address: { city: 'Berlin' }, vip: true }, items: [{ sku: 'A1', qty: 2 }], note: null };
+
+    expect(flattenRecord(record)).toEqual({
+      'customer.address.city': 'Berlin',
+      'customer.vip': true,
+      'items.0.sku': 'A1',
+      'items.0.qty': 2,
+      note: '',
+    });
+    expect(Object.keys(flattenRecord(record, '_'))).toEqual(['customer_address_city', 'customer_vip', 'items_0_sku', 'items_0_qty', 'note']);
+  });
+});
+
+describe('processJsonFile', () => {
+  test('counts one row per NDJSON line', async () => {
+    const ndjson = [
+      '{"region":"EU","country":"DE","amount":1}',
+      'not json',
+      '{"region":"EU","country":"DE","amount":2} junk',
+      '',
+      '{"region":"EU","country":"DE","amount":3}',
+    ].join('\r\n');
+
+    const result = await processJsonFile(Buffer.from(ndjson), 'ndjson', await resolveImportOptions({}));
+
+    expect([result.rowCount, result.successCount, result.errorCount]).toEqual([4, 2, 2]);
+    expect(result.errors?.map(error => [error.row, error.code])).toEqual([[2, 'invalid_json'], [3, 'invalid_json']]);
+    expect(result.summaries[0]).toMatchObject({ count: 2, amountSum: 4 });
+  });
+
+  test.each<[JsonFormat, string]>([
+    ['ndjson', '{"customer":{"region":"EU","country":"DE"},"total":{"amount":10}}\n{"customer":{"region":"EU","country":"DE"},"total":{"amount":5}}\n'],
+    ['json', '[{"customer":{"region":"EU","country":"DE"},"total":{"amount":10}},{"customer":{"region":"EU","country":"DE"},"total":{"amount":5}}]'],
+  ])('maps flattened %s paths onto fields', async (format, text) => {
+    const options = await resolveImportOptions({
+      column_mapping: JSON.stringify({ synonyms: { region: ['customer.region'], country: ['customer.country'], amount: ['total.amount'] } }),
+    });
+
+    const result = await processJsonFile(Buffer.from(text), format, options);
+
+    expect(result.successCount).toBe(2);
+    expect(result.summaries).toEqual([{ region: 'EU', country: 'DE', count: 2, amountSum: 15, amountAvg: 7.5 }]);
+  });
+});
@@ -0,0 +1,318 @@
+/**
+ * Incremental JSON Record Reader
+ * Splits a JSON array or newline-delimited JSON stream into records without loading the whole document
+ */
+
+import { createDecoder, decodeChunk } from './encoding.js';
+import { CsvParseError } from '../types.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * `json` is a single top-level array of records; `ndjson` is one record per
+ * non-blank line
+ */
+export type JsonFormat = 'json' | 'ndjson';
+
+type RecordHandler = (value: unknown, line: number) => void;
+type InvalidRecordHandler = (message: string, line: number) => void;
+
+export interface JsonRecordStreamOptions {
+  format: JsonFormat;
+  /**
+   * Reject invalid records and a truncated array with a CsvParseError
+   * instead of reporting them through onInvalid
+   */
+  strict?: boolean;
+  /**
+   * Character encoding of the byte input (WHATWG label, default utf-8)
+   */
+  encoding?: string;
+  onInvalid?: InvalidRecordHandler;
+}
+
+const LF = 10;
+const QUOTE = 34;
+const BACKSLASH = 92;
+const COMMA = 44;
+const OPEN_BRACE = 123;
+const CLOSE_BRACE = 125;
+const OPEN_BRACKET = 91;
+const CLOSE_BRACKET = 93;
+const BOM = 0xfeff;
+
+function isWhitespace(char: number): boolean {
+  return char === 32 || char === 9 || char === 10 || char === 13 || char === BOM;
+}
+
+// ============================================================================
+// Stream Reader
+// ============================================================================
+
+/**
+ * Push-based JSON record splitter. Text goes in through write()/push();
+ * every complete record is parsed on its own and handed to the handler, so
+ * only the current record is held in memory.
+ *
+ * Structural errors in the enclosing array (a missing comma, content after
+ * the closing bracket) always raise a CsvParseError. A record that is not
+ * valid JSON raises one in strict mode and is passed to onInvalid otherwise;
+ * in ndjson that is always the whole line, whatever it contains.
+ */
+export class JsonRecordStream {
+  private decoder: TextDecoder;
+  private onRecord: RecordHandler;
+  private onInvalid: InvalidRecordHandler;
+  private format: JsonFormat;
+  private strict: boolean;
+
+  // Array framing
+  private opened = false;
+  private closed = false;
+  private afterRecord = false;
+
+  // Current record
+  private inRecord = false;
+  private inString = false;
+  private escaped = false;
+  private depth = 0;
+  private pending = '';
+  private recordLine = 0;
+
+  // Position tracking for error reporting
+  private offset = 0;
+  private line = 1;
+  private lineStart = 0;
+
+  constructor(onRecord: RecordHandler, options: JsonRecordStreamOptions) {
+    this.onRecord = onRecord;
+    this.format = options.format;
+    this.strict = options.strict ?? false;
+    this.decoder = createDecoder(options.encoding ?? 'utf-8', { fatal: true });
+    this.onInvalid = options.onInvalid ?? (() => {});
+  }
+
+  /**
+   * Feed a chunk of raw bytes
+   */
+  write(chunk: Uint8Array): void {
+    this.pushDecoded(decodeChunk(this.decoder, chunk));
+  }
+
+  /**
+   * Feed already decoded text
+   */
+  push(text: string): void {
+    const length = text.length;
+    let start = 0;
+
+    for (let i = 0; i < length; i++) {
+      const char = text.charCodeAt(i);
+
+      if (char === LF) {
+        this.line++;
+        this.lineStart = this.offset + i + 1;
+      }
+
+      if (this.inRecord) {
+        if (this.format === 'ndjson') {
+          // A line is a record: a broken one cannot run into the next, and
+          // text after a complete value belongs to it rather than starting another
+          if (char === LF) {
+            this.endRecord(text.slice(start, i));
+          }
+        } else if (this.inString) {
+          if (this.escaped) {
+            this.escaped = false;
+          } else if (char === BACKSLASH) {
+            this.escaped = true;
+          } else if (char === QUOTE) {
+            this.inString = false;
+          }
+        } else if (char === QUOTE) {
+          this.inString = true;
+        } else if (char === OPEN_BRACE || char === OPEN_BRACKET) {
+          this.depth++;
+        } else if (char === CLOSE_BRACE || char === CLOSE_BRACKET) {
+          if (this.depth > 0) {
+            this.depth--;
+            if (this.depth === 0) {
+              this.endRecord(text.slice(start, i + 1));
+            }
+          } else {
+            // Closes the enclosing array: ends a primitive record
+            this.endRecord(text.slice(start, i));
+            this.separator(char, i);
+          }
+        } else if (this.depth === 0 && (char === COMMA || isWhitespace(char))) {
+          // Ends a primitive record
+          this.endRecord(text.slice(start, i));
+          this.separator(char, i);
+        }
+        continue;
+      }
+
+      if (isWhitespace(char)) {
+        continue;
+      }
+
+      if (this.separator(char, i)) {
+        continue;
+      }
+
+      // First character of a record
+      this.inRecord = true;
+      this.recordLine = this.line;
+      start = i;
+      if (char === QUOTE) {
+        this.inString = true;
+      } else if (char === OPEN_BRACE || char === OPEN_BRACKET) {
+        this.depth = 1;
+      }
+    }
+
+    if (this.inRecord) {
+      this.pending += text.slice(start, length);
+    }
+    this.offset += length;
+  }
+
+  /**
+   * Flush the decoder and the final record
+   */
+  end(): void {
+    this.pushDecoded(decodeChunk(this.decoder));
+
+    if (this.inRecord) {
+      this.endRecord('');
+    }
+
+    if (this.format === 'json' && !this.opened) {
+      throw new CsvParseError('JSON file is empty', this.line, this.offset - this.lineStart + 1);
+    }
+    if (this.format === 'json' && !this.closed && this.strict) {
+      this.fail('Unterminated JSON array', this.line, this.offset - this.lineStart + 1);
+    }
+  }
+
+  /**
+   * Push decoded text, failing where it stops being valid in the encoding
+   */
+  private pushDecoded({ text, valid }: { text: string; valid: boolean }): void {
+    this.push(text);
+    if (!valid) {
+      this.fail(`Invalid ${this.decoder.encoding} byte sequence`, this.line, this.columnAt(0));
+    }
+  }
+
+  /**
+   * Handle array punctuation between records. Returns false for a
+   * character that starts a record.
+   */
+  private separator(char: number, index: number): boolean {
+    if (this.format === 'ndjson') {
+      return false;
+    }
+
+    if (isWhitespace(char)) {
+      return true;
+    }
+
+    if (!this.opened) {
+      if (char !== OPEN_BRACKET) {
+        this.fail('Expected a JSON array of records', this.line, this.columnAt(index));
+      }
+      this.opened = true;
+      return true;
+    }
+
+    if (this.closed) {
+      this.fail('Unexpected content after the end of the JSON array', this.line, this.columnAt(index));
+    }
+
+    if (char === CLOSE_BRACKET) {
+      this.closed = true;
+      return true;
+    }
+
+    if (char === COMMA) {
+      if (!this.afterRecord) {
+        this.fail('Unexpected comma', this.line, this.columnAt(index));
+      }
+      this.afterRecord = false;
+      return true;
+    }
+
+    if (this.afterRecord) {
+      this.fail('Expected a comma between array elements', this.line, this.columnAt(index));
+    }
+    return false;
+  }
+
+  private endRecord(tail: string): void {
+    const text = this.pending + tail;
+    const line = this.recordLine;
+    this.pending = '';
+    this.inRecord = false;
+    this.inString = false;
+    this.escaped = false;
+    this.depth = 0;
+    this.afterRecord = true;
+
+    let value: unknown;
+    try {
+      value = JSON.parse(text);
+    } catch (error) {
+      const message = `Invalid JSON record at line ${line}: ${error instanceof Error ? error.message : 'Unknown error'}`;
+      if (this.strict) {
+        throw new CsvParseError(message, line, 1);
+      }
+      this.onInvalid(message, line);
+      return;
+    }
+
+    this.onRecord(value, line);
+  }
+
+  private columnAt(index: number): number {
+    return this.offset + index - this.lineStart + 1;
+  }
+
+  private fail(message: string, line: number, column: number): never {
+    throw new CsvParseError(`${message} at line ${line}, column ${column}`, line, column);
+  }
+}
+
+// ============================================================================
+// Flattening
+// ============================================================================
+
+/**
+ * Flatten a nested record into path/value pairs. Nested keys and array
+ * indices are joined with the separator (`customer.address.city`,
+ * `items.0.sku`); strings, numbers and booleans are kept as they are and
+ * null becomes an empty string, as a CSV export would write it.
+ */
+export function flattenRecord(
+  record: Record<string, unknown>,
+  separator: string = '.'
+): Record<string, string | number | boolean> {
+  const flat: Record<string, string | number | boolean> = {};
+
+  const visit = (value: unknown, path: string) => {
+    if (value !== null && typeof value === 'object') {
+      for (const [key, child] of Object.entries(value)) {
+        visit(child, path ? `${path}${separator}${key}` : key);
+      }
+    } else if (typeof value === 'number' || typeof value === 'boolean') {
+      flat[path] = value;
+    } else {
+      flat[path] = value === null || value === undefined ? '' : String(value);
+    }
+  };
+
+  visit(record, '');
+  return flat;
+}
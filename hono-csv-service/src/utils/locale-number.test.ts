@@ -0,0 +1,64 @@
+import { describe, expect, test } from 'bun:test';
+import { getNumberParser, getNumberSymbols, resolveLocale } from './locale-number.js';
+import { ValidationError } from '../types.js';
+
+describe('getNumberParser', () => {
+  test.each([
+    ['en-US', '1234.5', 1234.5],
+    ['en-US', '1,234,567.89', 1234567.89],
+    ['en-US', '-1e3', -1000],
+    ['en-US', '$1,234.50', 1234.5],
+    ['en-US', '(1,234.50)', -1234.5],
+    ['en-US', '-$45', -45],
+    ['en-US', '$-45', -45],
+    ['en-US', '45.00- USD', -45],
+    ['en-US', 'USD 12', 12],
+    ['en-US', '.5', 0.5],
+    ['de-DE', '1.234,56', 1234.56],
+    ['de-DE', '1234,5 €', 1234.5],
+    ['de-DE', '−12,5', -12.5],
+    ['fr-FR', '1 234,56', 1234.56],
+    ['fr-FR', '1\u202f234,56', 1234.56],
+    ['de-CH', "1'234.50", 1234.5],
+    ['de-CH', '1’234.50', 1234.5],
+    ['en-IN', '12,34,567.50', 1234567.5],
+  ])('reads %s %s', (locale, text, expected) => {
+    expect(getNumberParser(locale)(text)).toBe(expected);
+  });
+
+  test.each([
+    ['en-US', '1.234,56'],
+    ['de-DE', '1,234.56'],
+    ['en-US', '12.5k'],
+    ['en-US', '1,23,4'],
+    ['en-US', '(-5)'],
+    ['en-US', '-5-'],
+    ['en-US', '1.2.3'],
+    ['en-US', ''],
+    ['en-US', '$'],
+  ])('rejects %s %s', (locale, text) => {
+    expect(getNumberParser(locale)(text)).toBeNull();
+  });
+
+  test('caches one parser per locale', () => {
+    expect(getNumberParser('de-DE')).toBe(getNumberParser('de-DE'));
+  });
+});
+
+describe('getNumberSymbols', () => {
+  test('accepts every space for space-grouping locales', () => {
+    expect(getNumberSymbols('fr-FR')).toEqual({ decimal: ',', groups: [' ', '\u00a0', '\u202f'] });
+    expect(getNumberSymbols('en-US')).toEqual({ decimal: '.', groups: [','] });
+  });
+});
+
+describe('resolveLocale', () => {
+  test('uses the requested locale, else the default', () => {
+    expect(resolveLocale('de-DE')).toBe('de-DE');
+    expect(resolveLocale(undefined)).toBe('en-US');
+  });
+
+  test('rejects a locale that is not supported', () => {
+    expect(() => resolveLocale('not a locale')).toThrow(ValidationError);
+  });
+});
@@ -0,0 +1,199 @@
+/**
+ * Locale-aware Number Parsing
+ * Reads amounts written with locale separators, currency symbols and accounting negatives
+ */
+
+import { ValidationError } from '../types.js';
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+/**
+ * Parse a text amount, returning null when it is not a number
+ */
+export type NumberParser = (value: string) => number | null;
+
+export interface NumberSymbols {
+  decimal: string;
+  /**
+   * Characters accepted as thousands separators
+   */
+  groups: string[];
+}
+
+export const LOCALE_CONFIG = {
+  defaultLocale: process.env.DEFAULT_LOCALE || 'en-US',
+  tenantLocales: parseTenantLocales(process.env.TENANT_LOCALES),
+};
+
+/**
+ * Separators that are interchangeable in what people type: locales that
+ * group with a (narrow) no-break space also accept a plain space, and
+ * apostrophe grouping (de-CH) accepts both apostrophes
+ */
+const SPACE_GROUPS = [' ', '\u00a0', '\u202f'];
+const APOSTROPHE_GROUPS = ["'", '\u2019'];
+
+/**
+ * A currency symbol, optionally with a country prefix (US$, R$), or an
+ * ISO 4217 code
+ */
+const LEADING_CURRENCY = /^(?:[A-Z]{0,2}\p{Sc}|[A-Z]{3}(?![A-Z]))\s*/u;
+const TRAILING_CURRENCY = /\s*(?:\p{Sc}|(?<![A-Z])[A-Z]{3})$/u;
+
+const LEADING_SIGN = /^([-+\u2212])\s*/;
+const TRAILING_MINUS = /\s*[-\u2212]$/;
+
+/**
+ * Integer digits: ungrouped, grouped in thousands, or in the Indian
+ * lakh/crore style (12,34,567)
+ */
+const UNGROUPED = /^\d+$/;
+const THOUSANDS = /^\d{1,3}(?:G\d{3})+$/;
+const LAKHS = /^\d{1,2}(?:G\d{2})*G\d{3}$/;
+
+const parsers = new Map<string, NumberParser>();
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+/**
+ * Get the (cached) number parser for a locale
+ */
+export function getNumberParser(locale: string = LOCALE_CONFIG.defaultLocale): NumberParser {
+  let parser = parsers.get(locale);
+  if (!parser) {
+    parser = createNumberParser(getNumberSymbols(locale));
+    parsers.set(locale, parser);
+  }
+  return parser;
+}
+
+/**
+ * Decimal and grouping separators of a locale
+ */
+export function getNumberSymbols(locale: string): NumberSymbols {
+  const parts = new Intl.NumberFormat(locale).formatToParts(1234567.5);
+  const decimal = parts.find(part => part.type === 'decimal')?.value ?? '.';
+  const group = parts.find(part => part.type === 'group')?.value ?? ',';
+
+  if (SPACE_GROUPS.includes(group)) return { decimal, groups: SPACE_GROUPS };
+  if (APOSTROPHE_GROUPS.includes(group)) return { decimal, groups: APOSTROPHE_GROUPS };
+  return { decimal, groups: [group] };
+}
+
+/**
+ * Build a parser for the given separators.
+ *
+ * Accepted around the digits: a currency symbol or code on either side, a
+ * leading or trailing minus sign, or parentheses for an accounting
+ * negative. The digits must use the locale's separators consistently, so
+ * "1.234,56" is rejected rather than misread where "." is the decimal
+ * separator. Anything else, such as a "12.5k" abbreviation, is not a
+ * number.
+ */
+export function createNumberParser(symbols: NumberSymbols): NumberParser {
+  // Plain machine-formatted numbers skip the full parse
+  const plain = symbols.decimal === '.'
+    ? /^-?\d+(?:\.\d+)?(?:[eE][-+]?\d+)?$/
+    : /^-?\d+$/;
+
+  const isGroup = (char: string) => symbols.groups.includes(char);
+
+  return (value: string) => {
+    let text = value.trim();
+    if (plain.test(text)) {
+      return Number(text);
+    }
+
+    let negative = false;
+    if (text.startsWith('(') && text.endsWith(')')) {
+      negative = true;
+      text = text.slice(1, -1).trim();
+    }
+
+    // The sign may sit on either side of the currency: -$45, $-45, 45.00- USD
+    text = text.replace(LEADING_CURRENCY, '');
+    const sign = LEADING_SIGN.exec(text);
+    if (sign) {
+      const minus = sign[1] !== '+';
+      if (negative && minus) return null;
+      negative = negative || minus;
+      text = text.slice(sign[0].length).replace(LEADING_CURRENCY, '');
+    }
+
+    text = text.replace(TRAILING_CURRENCY, '');
+    if (TRAILING_MINUS.test(text)) {
+      if (negative) return null;
+      negative = true;
+      text = text.replace(TRAILING_MINUS, '').replace(TRAILING_CURRENCY, '');
+    }
+
+    const [integer, fraction, ...rest] = text.split(symbols.decimal);
+    if (rest.length > 0 || (!integer && !fraction)) {
+      return null;
+    }
+    if (fraction !== undefined && !UNGROUPED.test(fraction)) {
+      return null;
+    }
+
+    let digits = integer;
+    if (integer && !UNGROUPED.test(integer)) {
+      const pattern = [...integer].map(char => (isGroup(char) ? 'G' : char)).join('');
+      if (!THOUSANDS.test(pattern) && !LAKHS.test(pattern)) {
+        return null;
+      }
+      digits = [...integer].filter(char => !isGroup(char)).join('');
+    }
+
+    const number = Number(`${digits || '0'}.${fraction || '0'}`);
+    return negative ? -number : number;
+  };
+}
+
+// ============================================================================
+// Locale Resolution
+// ============================================================================
+
+/**
+ * Pick the locale for a request: the requested one, else the tenant's,
+ * else the service default
+ */
+export function resolveLocale(requested: string | undefined, tenantId?: string): string {
+  const locale = requested || (tenantId && LOCALE_CONFIG.tenantLocales[tenantId]) || LOCALE_CONFIG.defaultLocale;
+
+  let supported: string[];
+  try {
+    supported = Intl.NumberFormat.supportedLocalesOf(locale);
+  } catch {
+    supported = [];
+  }
+  if (supported.length === 0) {
+    throw new ValidationError(`Unsupported locale: ${locale}`, { locale });
+  }
+
+  return supported[0];
+}
+
+/**
+ * Read TENANT_LOCALES, a JSON object of tenant ID to locale
+ */
+function parseTenantLocales(value: string | undefined): Record<string, string> {
+  if (!value) {
+    return {};
+  }
+
+  try {
+    const parsed = JSON.parse(value);
+    if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+      return parsed as Record<string, string>;
+    }
+  } catch {
+    // Fall through to the warning
+  }
+
+  console.warn('Ignoring TENANT_LOCALES: expected a JSON object of tenant ID to locale');
+  return {};
+}
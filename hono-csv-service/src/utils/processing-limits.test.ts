@@ -0,0 +1,129 @@
+import { afterEach, describe, expect, setSystemTime, test } from 'bun:test';
+import * as XLSX from 'xlsx';
+import { createProcessingSignal, PROCESSING_LIMITS, releaseProcessingSignal, throwIfAborted } from './processing-limits.js';
+import { processCsvFile, processExcelFile, processJsonFile, resolveImportOptions } from './csv-parser.js';
+import type { ParseResult } from './csv-parser.js';
+import { ProcessingTimeoutError } from '../types.js';
+import type { ImportOptions } from '../types.js';
+
+const limits = { ...PROCESSING_LIMITS };
+
+afterEach(() => {
+  Object.assign(PROCESSING_LIMITS, limits);
+  setSystemTime();
+});
+
+function csvOf(rows: number): string {
+  return 'region,country,amount\n' + Array.from({ length: rows }, (_, i) => `EU,DE,${i}\n`).join('');
+}
+
+describe('createProcessingSignal', () => {
+  test('aborts with the reason of its parent', () => {
+    const parent = new AbortController();
+    const signal = createProcessingSignal(parent.signal);
+
+    parent.abort(new Error('Client disconnected'));
+
+    expect(signal.aborted).toBe(true);
+    expect(() => throwIfAborted(signal)).toThrow('Client disconnected');
+  });
+
+  test('starts aborted under an aborted parent', () => {
+    expect(createProcessingSignal(AbortSignal.abort(new Error('gone'))).reason).toEqual(new Error('gone'));
+  });
+
+  test('stops following its parent once released', () => {
+    const parent = new AbortController();
+    const removed: unknown[] = [];
+    const removeEventListener = parent.signal.removeEventListener.bind(parent.signal);
+    parent.signal.removeEventListener = (type: string, listener: any, options?: any) => {
+      removed.push(type);
+      removeEventListener(type, listener, options);
+    };
+    const signal = createProcessingSignal(parent.signal);
+
+    releaseProcessingSignal(signal);
+    parent.abort();
+
+    expect(removed).toEqual(['abort']);
+    expect(signal.aborted).toBe(false);
+  });
+
+  test('fails with a 408 and the counts so far past its deadline', () => {
+    const signal = createProcessingSignal(undefined, 1000);
+    expect(() => throwIfAborted(signal)).not.toThrow();
+
+    setSystemTime(new Date(Date.now() + 1000));
+    let error: unknown;
+    try {
+      throwIfAborted(signal, { rowCount: 5 });
+    } catch (e) {
+      error = e;
+    }
+
+    expect(error).toBeInstanceOf(ProcessingTimeoutError);
+    expect(error).toMatchObject({
+      statusCode: 408,
+      code: 'PROCESSING_TIMEOUT',
+      message: 'File processing exceeded the time limit of 1000 ms',
+      details: { timeoutMs: 1000, rowCount: 5 },
+    });
+  });
+});
+
+describe('PROCESSING_TIMEOUT_MS', () => {
+  test('stops reading a file with the rows read so far', async () => {
+    Object.assign(PROCESSING_LIMITS, { timeoutMs: 1000 });
+    const bytes = Buffer.from(csvOf(2000));
+    // The clock passes the deadline when the second chunk is asked for
+    let offset = 0;
+    const stream = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        if (offset > 0) setSystemTime(new Date(Date.now() + 1000));
+        if (offset < bytes.length) {
+          controller.enqueue(bytes.subarray(offset, offset += 4096));
+        } else {
+          controller.close();
+        }
+      },
+    }, { highWaterMark: 0 });
+    const options = { ...await resolveImportOptions({}), signal: createProcessingSignal() };
+
+    const error = await processCsvFile(stream, options).catch(e => e);
+
+    expect(error).toBeInstanceOf(ProcessingTimeoutError);
+    expect(error.statusCode).toBe(408);
+    expect(error.details.rowCount).toBeGreaterThan(0);
+    expect(error.details.rowCount).toBeLessThan(2000);
+    expect(error.details).toMatchObject({ timeoutMs: 1000, errorCount: 0 });
+    expect(error.details.successCount).toBe(error.details.rowCount);
+  });
+});
+
+describe('MAX_ROWS_PER_FILE', () => {
+  test.each<[string, (options: ImportOptions) => Promise<ParseResult>]>([
+    ['CSV', options => processCsvFile(Buffer.from(csvOf(10)), options)],
+    ['NDJSON', options => processJsonFile(Buffer.from('{"region":"EU","country":"DE","amount":1}\n'.repeat(10)), 'ndjson', options)],
+    ['a workbook', options => {
+      const workbook = XLSX.utils.book_new();
+      const rows = [['region', 'country', 'amount'], ...Array.from({ length: 10 }, (_, i) => ['EU', 'DE', i])];
+      XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(rows), 'Sales');
+      return processExcelFile(XLSX.write(workbook, { bookType: 'xlsx', type: 'buffer' }), options);
+    }],
+  ])('stops reading %s at the row limit with a partial result', async (_, read) => {
+    Object.assign(PROCESSING_LIMITS, { maxRowsPerFile: 4 });
+
+    const result = await read(await resolveImportOptions({}));
+
+    expect([result.rowCount, result.successCount, result.truncated]).toEqual([4, 4, true]);
+    expect(result.summaries[0].count).toBe(4);
+  });
+
+  test('leaves a file within the limit untruncated', async () => {
+    Object.assign(PROCESSING_LIMITS, { maxRowsPerFile: 10 });
+
+    const result = await processCsvFile(Buffer.from(csvOf(10)), await resolveImportOptions({}));
+
+    expect([result.rowCount, result.truncated]).toEqual([10, false]);
+  });
+});
@@ -0,0 +1,111 @@
+/**
+ * Processing Limits
+ * Row cap and time limit of processing one file, with cooperative cancellation
+ */
+
+import { ProcessingTimeoutError } from '../types.js';
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+export const PROCESSING_LIMITS = {
+  maxRowsPerFile: parseInt(process.env.MAX_ROWS_PER_FILE || '1000000', 10),
+  timeoutMs: parseInt(process.env.PROCESSING_TIMEOUT_MS || '300000', 10), // 5 minutes default
+};
+
+interface Deadline {
+  controller: AbortController;
+  at: number;
+  timeoutMs: number;
+  /**
+   * Stop following the parent signal
+   */
+  release: () => void;
+}
+
+/**
+ * Deadlines of the signals made by createProcessingSignal(). Readers spend
+ * long stretches in synchronous loops where no timer can fire, so the
+ * deadline is compared with the clock whenever the signal is checked.
+ */
+const deadlines = new WeakMap<AbortSignal, Deadline>();
+
+// ============================================================================
+// Signals
+// ============================================================================
+
+/**
+ * Create the signal a file is processed under. It aborts with a
+ * ProcessingTimeoutError once `timeoutMs` have passed, and with the reason
+ * of `parent` when that aborts first (a disconnected client, a cancelled
+ * gRPC call). Release it with releaseProcessingSignal() once the file is
+ * done.
+ */
+export function createProcessingSignal(
+  parent?: AbortSignal,
+  timeoutMs: number = PROCESSING_LIMITS.timeoutMs
+): AbortSignal {
+  const controller = new AbortController();
+  const abort = () => controller.abort(parent?.reason);
+  if (parent?.aborted) {
+    abort();
+  } else {
+    parent?.addEventListener('abort', abort, { once: true });
+  }
+
+  deadlines.set(controller.signal, {
+    controller,
+    at: Date.now() + Math.max(0, timeoutMs),
+    timeoutMs: Math.max(0, Math.round(timeoutMs)),
+    release: () => parent?.removeEventListener('abort', abort),
+  });
+  return controller.signal;
+}
+
+/**
+ * Detach a processing signal from its parent. A parent outlives the file
+ * (a batch request processes many), and would otherwise keep a listener,
+ * and through it the signal, for every file processed under it.
+ */
+export function releaseProcessingSignal(signal: AbortSignal | undefined): void {
+  if (signal) {
+    deadlines.get(signal)?.release();
+  }
+}
+
+/**
+ * Throw when processing should stop: a ProcessingTimeoutError carrying
+ * `progress` (the counts so far) once the deadline has passed, else the
+ * reason the signal was aborted with
+ */
+export function throwIfAborted(signal: AbortSignal | undefined, progress?: Record<string, unknown>): void {
+  if (!signal) {
+    return;
+  }
+
+  const deadline = deadlines.get(signal);
+  if (deadline && !signal.aborted && Date.now() >= deadline.at) {
+    deadline.controller.abort(new ProcessingTimeoutError());
+    deadline.release();
+  }
+  if (!signal.aborted) {
+    return;
+  }
+
+  if (signal.reason instanceof ProcessingTimeoutError) {
+    throw new ProcessingTimeoutError(
+      deadline ? `File processing exceeded the time limit of ${deadline.timeoutMs} ms` : signal.reason.message,
+      { ...(deadline && { timeoutMs: deadline.timeoutMs }), ...progress }
+    );
+  }
+  throw signal.reason instanceof Error ? signal.reason : new Error('File processing was cancelled');
+}
+
+/**
+ * Milliseconds left until a gRPC call deadline (Infinity when it has none)
+ */
+export function timeUntil(deadline: Date | number): number {
+  const at = deadline instanceof Date ? deadline.getTime() : deadline;
+  return Number.isFinite(at) ? at - Date.now() : Infinity;
+}
@@ -0,0 +1,163 @@
+import { afterAll, beforeAll, describe, expect, setSystemTime, test } from 'bun:test';
+import * as XLSX from 'xlsx';
+import { RejectedRowsCollector, REJECTED_ROWS_CONFIG, downloadRejectedRows, rejectedRows, toRejectedRowsLink } from './rejected-rows.js';
+import { processCsvFile, processCsvFileParallel, processExcelFile, resolveImportOptions } from './csv-parser.js';
+import { PARALLEL_PARSE_CONFIG } from './worker-pool.js';
+import { NotFoundError, ValidationError } from '../types.js';
+
+// Quoted headers and values, an escaped quote, a delimiter inside quotes, an
+// empty quoted value and a short row
+const CSV = [
+  '"Region";Country;Amount;Note',
+  'EU;DE;10;ok',
+  '"EU";FR;x;"said ""hi""; twice"',
+  'US;"";5;',
+  '"US";US;7;a',
+  'AP;JP',
+].join('\n') + '\n';
+
+const REJECTED_CSV = [
+  '"Region";Country;Amount;Note;_error',
+  '"EU";FR;x;"said ""hi""; twice";amount: Expected number, received string',
+  'US;"";5;;country: Country is required',
+  'AP;JP;;;amount: Expected number, received string',
+].map(line => `${line}\r\n`).join('');
+
+function workbookOf(sheets: Record<string, unknown[][]>): Buffer {
+  const workbook = XLSX.utils.book_new();
+  for (const [name, rows] of Object.entries(sheets)) {
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(rows), name);
+  }
+  return XLSX.write(workbook, { bookType: 'xlsx', type: 'buffer' });
+}
+
+/**
+ * Every sheet of a workbook as arrays of cell values
+ */
+function sheetsOf(body: Uint8Array): Record<string, unknown[][]> {
+  const workbook = XLSX.read(body);
+  return Object.fromEntries(workbook.SheetNames.map(name => [name, XLSX.utils.sheet_to_json(workbook.Sheets[name], { header: 1 })]));
+}
+
+async function importCsv(csv: string, tenantId?: string) {
+  const result = await processCsvFile(Buffer.from(csv), { ...await resolveImportOptions({}), keepRejectedRows: true });
+  return (await rejectedRows.save(result.rejected, 'sales.csv', tenantId))!;
+}
+
+describe('RejectedRowsCollector', () => {
+  test('counts every row but keeps only up to its limit', () => {
+    const collector = new RejectedRowsCollector('csv', undefined, 2);
+    collector.startSection(['a', 'b']);
+    collector.add(['1', '2'], 'bad');
+    expect(collector.truncated).toBe(false);
+
+    collector.addRows([{ values: ['3', '4'], error: 'bad' }, { values: ['5', '6'], error: 'bad' }], 5);
+
+    expect(collector.rowCount).toBe(6);
+    expect(collector.truncated).toBe(true);
+    expect(collector.sections).toEqual([{ header: ['a', 'b'], rows: [
+      { values: ['1', '2'], error: 'bad' },
+      { values: ['3', '4'], error: 'bad' },
+    ] }]);
+  });
+
+  test('is not saved when no row was rejected', async () => {
+    expect(await rejectedRows.save(new RejectedRowsCollector('csv'), 'sales.csv')).toBeUndefined();
+  });
+});
+
+describe('downloadRejectedRows', () => {
+  test('writes CSV back in the dialect and quoting of the upload', async () => {
+    const entry = await importCsv(CSV);
+    const download = await downloadRejectedRows(entry.id);
+
+    expect(toRejectedRowsLink(entry)).toMatchObject({ rowCount: 3, truncated: false, url: `/api/v1/results/${entry.id}/rejected` });
+    expect(download).toMatchObject({ contentType: 'text/csv; charset=utf-8', fileName: 'sales.rejected.csv' });
+    expect(Buffer.from(download.body).toString()).toBe(REJECTED_CSV);
+  });
+
+  describe('from the parse workers', () => {
+    const config = { ...PARALLEL_PARSE_CONFIG };
+    beforeAll(() => Object.assign(PARALLEL_PARSE_CONFIG, { workers: 2, minBytes: 1, chunkBytes: 32 }));
+    afterAll(() => Object.assign(PARALLEL_PARSE_CONFIG, config));
+
+    test('writes the same file', async () => {
+      const result = await processCsvFileParallel(Buffer.from(CSV), { ...await resolveImportOptions({}), keepRejectedRows: true });
+      const entry = (await rejectedRows.save(result.rejected, 'sales.csv'))!;
+
+      expect(Buffer.from((await downloadRejectedRows(entry.id)).body).toString()).toBe(REJECTED_CSV);
+    });
+  });
+
+  test('writes CSV rows as XLSX on request', async () => {
+    const entry = await importCsv(CSV);
+    const download = await downloadRejectedRows(entry.id, 'xlsx');
+
+    expect(download.fileName).toBe('sales.rejected.xlsx');
+    expect(sheetsOf(download.body)).toEqual({
+      Rejected: [
+        ['Region', 'Country', 'Amount', 'Note', '_error'],
+        ['EU', 'FR', 'x', 'said "hi"; twice', 'amount: Expected number, received string'],
+        ['US', '', '5', '', 'country: Country is required'],
+        ['AP', 'JP', '', '', 'amount: Expected number, received string'],
+      ],
+    });
+  });
+
+  test('writes one worksheet per source sheet, or a _sheet column in CSV', async () => {
+    const workbook = workbookOf({
+      North: [['region', 'country', 'amount'], ['EU', 'DE', 1], ['EU', 'DE', 'x']],
+      South: [['region', 'country', 'amount', 'extra'], ['EU', '', 'y', 'z'], ['EU', 'DE', 2]],
+    });
+    const result = await processExcelFile(workbook, { ...await resolveImportOptions({ sheets: '*' }), keepRejectedRows: true });
+    const entry = (await rejectedRows.save(result.rejected, 'book.xlsx'))!;
+
+    const xlsx = await downloadRejectedRows(entry.id);
+    expect(xlsx).toMatchObject({
+      contentType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      fileName: 'book.rejected.xlsx',
+    });
+    expect(sheetsOf(xlsx.body)).toEqual({
+      North: [['region', 'country', 'amount', '_error'], ['EU', 'DE', 'x', 'amount: Expected number, received string']],
+      South: [
+        ['region', 'country', 'amount', 'extra', '_error'],
+        ['EU', '', 'y', 'z', 'country: Country is required; amount: Expected number, received string'],
+      ],
+    });
+
+    expect(Buffer.from((await downloadRejectedRows(entry.id, 'csv')).body).toString()).toBe([
+      'region,country,amount,,_sheet,_error',
+      'EU,DE,x,,North,"amount: Expected number, received string"',
+      'EU,,y,z,South,"country: Country is required; amount: Expected number, received string"',
+    ].map(line => `${line}\r\n`).join(''));
+  });
+
+  test('rejects an unknown format with a 400', async () => {
+    const entry = await importCsv(CSV);
+    const error = await downloadRejectedRows(entry.id, 'pdf').catch(e => e);
+
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error).toMatchObject({ statusCode: 400, details: { format: 'pdf' } });
+  });
+
+  test('answers 404 for another tenant, an unknown ID and an expired file', async () => {
+    const entry = await importCsv(CSV, 'acme');
+    expect((await downloadRejectedRows(entry.id, undefined, 'acme')).fileName).toBe('sales.rejected.csv');
+
+    const misses: Array<[string, string | undefined]> = [[entry.id, 'globex'], [entry.id, undefined], ['unknown', 'acme']];
+    for (const [id, tenantId] of misses) {
+      const error = await downloadRejectedRows(id, undefined, tenantId).catch(e => e);
+      expect(error).toBeInstanceOf(NotFoundError);
+      expect(error.statusCode).toBe(404);
+    }
+
+    setSystemTime(new Date(Date.now() + REJECTED_ROWS_CONFIG.ttlMs + 1));
+    try {
+      const error = await downloadRejectedRows(entry.id, undefined, 'acme').catch(e => e);
+      expect(error).toBeInstanceOf(NotFoundError);
+      expect(error).toMatchObject({ statusCode: 404, message: `Rejected rows not found or expired: ${entry.id}` });
+    } finally {
+      setSystemTime();
+    }
+  });
+});
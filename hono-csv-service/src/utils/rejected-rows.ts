@@ -0,0 +1,322 @@
+/**
+ * Rejected Rows
+ * Keeps the rows that failed validation in their original layout so they can be fixed and re-uploaded
+ */
+
+import { randomUUID } from 'crypto';
+import * as XLSX from 'xlsx';
+import { NotFoundError, ValidationError } from '../types.js';
+import type { CsvDialect, RejectedRowsLink } from '../types.js';
+import { sharedStore } from './shared-store.js';
+import type { SharedStore } from './shared-store.js';
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+export type RejectedRowsFormat = 'csv' | 'xlsx';
+
+export const REJECTED_ROWS_FORMATS: readonly RejectedRowsFormat[] = ['csv', 'xlsx'];
+
+export const REJECTED_ROWS_CONFIG = {
+  maxRows: parseInt(process.env.MAX_REJECTED_ROWS || '10000', 10),
+  ttlMs: parseInt(process.env.REJECTED_ROWS_TTL_MS || '3600000', 10),
+  maxFiles: parseInt(process.env.MAX_REJECTED_ROWS_FILES || '1000', 10),
+};
+
+/**
+ * Column appended to every rejected row with why it failed
+ */
+export const ERROR_COLUMN = '_error';
+const SHEET_COLUMN = '_sheet';
+
+const CONTENT_TYPES: Record<RejectedRowsFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
+
+export interface RejectedRow {
+  values: string[];
+  /**
+   * Which values were quoted in the source (CSV only)
+   */
+  quoted?: boolean[];
+  error: string;
+}
+
+/**
+ * Rejected rows of one CSV file or workbook sheet under its header row
+ */
+export interface RejectedSection {
+  sheet?: string;
+  header?: string[];
+  headerQuoted?: boolean[];
+  rows: RejectedRow[];
+}
+
+export interface StoredRejectedRows {
+  id: string;
+  tenantId?: string;
+  fileName: string;
+  /**
+   * Format the rows were read from, and the default download format
+   */
+  format: RejectedRowsFormat;
+  dialect?: CsvDialect;
+  sections: RejectedSection[];
+  rowCount: number;
+  truncated: boolean;
+  expiresAt: number;
+}
+
+export interface RejectedRowsDownload {
+  body: Uint8Array<ArrayBuffer>;
+  contentType: string;
+  fileName: string;
+}
+
+// ============================================================================
+// Collection
+// ============================================================================
+
+/**
+ * Collects rejected rows during processing, up to a cap. Every rejected row
+ * is counted; rows past the cap are left out of the file.
+ */
+export class RejectedRowsCollector {
+  readonly sections: RejectedSection[] = [];
+  rowCount = 0;
+  private kept = 0;
+
+  constructor(
+    readonly format: RejectedRowsFormat,
+    readonly dialect?: CsvDialect,
+    private readonly limit: number = REJECTED_ROWS_CONFIG.maxRows
+  ) {}
+
+  /**
+   * Start the rows of a file or sheet; a headerless file passes no header
+   */
+  startSection(header?: string[], headerQuoted?: boolean[], sheet?: string): void {
+    this.sections.push({ sheet, header, headerQuoted, rows: [] });
+  }
+
+  add(values: string[], error: string, quoted?: boolean[]): void {
+    this.rowCount++;
+    if (this.kept >= this.limit) {
+      return;
+    }
+
+    if (this.sections.length === 0) {
+      this.startSection();
+    }
+    this.sections[this.sections.length - 1].rows.push({ values, quoted, error });
+    this.kept++;
+  }
+
+  /**
+   * Append the rows another collector gathered (a parse worker's, for one
+   * chunk of the file): `rowCount` rejected rows of which `rows` were kept
+   */
+  addRows(rows: RejectedRow[], rowCount: number): void {
+    rows.forEach(row => this.add(row.values, row.error, row.quoted));
+    this.rowCount += rowCount - rows.length;
+  }
+
+  get truncated(): boolean {
+    return this.kept < this.rowCount;
+  }
+}
+
+// ============================================================================
+// Storage
+// ============================================================================
+
+/**
+ * Store of rejected rows by result ID, kept in the shared store so the
+ * download link works on every replica. Files expire after
+ * REJECTED_ROWS_TTL_MS; each holds at most MAX_REJECTED_ROWS rows, and in
+ * process memory the oldest are dropped beyond MAX_REJECTED_ROWS_FILES.
+ */
+export class RejectedRowsStore {
+  constructor(private readonly store: SharedStore = sharedStore) {}
+
+  /**
+   * Keep the collected rows of a result, unless none were rejected
+   */
+  async save(
+    collector: RejectedRowsCollector | undefined,
+    fileName: string,
+    tenantId?: string
+  ): Promise<StoredRejectedRows | undefined> {
+    if (!collector || collector.rowCount === 0) {
+      return undefined;
+    }
+
+    const entry: StoredRejectedRows = {
+      id: randomUUID(),
+      tenantId,
+      fileName,
+      format: collector.format,
+      dialect: collector.dialect,
+      sections: collector.sections.filter(section => section.rows.length > 0),
+      rowCount: collector.rowCount,
+      truncated: collector.truncated,
+      expiresAt: Date.now() + REJECTED_ROWS_CONFIG.ttlMs,
+    };
+    await this.store.set(rejectedRowsKey(entry.id), JSON.stringify(entry), {
+      ttlMs: REJECTED_ROWS_CONFIG.ttlMs,
+      maxEntries: REJECTED_ROWS_CONFIG.maxFiles,
+    });
+
+    return entry;
+  }
+
+  async get(id: string, tenantId?: string): Promise<StoredRejectedRows | undefined> {
+    const value = await this.store.get(rejectedRowsKey(id));
+    if (value === undefined) {
+      return undefined;
+    }
+
+    const entry = JSON.parse(value) as StoredRejectedRows;
+    return entry.tenantId === tenantId ? entry : undefined;
+  }
+}
+
+function rejectedRowsKey(id: string): string {
+  return `rejected-rows:v1:${id}`;
+}
+
+export const rejectedRows = new RejectedRowsStore();
+
+/**
+ * Describe a stored file for an import response
+ */
+export function toRejectedRowsLink(entry: StoredRejectedRows | undefined): RejectedRowsLink | undefined {
+  return entry && {
+    id: entry.id,
+    rowCount: entry.rowCount,
+    truncated: entry.truncated,
+    url: `/api/v1/results/${entry.id}/rejected`,
+    expiresAt: new Date(entry.expiresAt).toISOString(),
+  };
+}
+
+/**
+ * Render the rejected rows of a result, in its source format unless
+ * another is requested
+ */
+export async function downloadRejectedRows(
+  id: string,
+  format?: string,
+  tenantId?: string
+): Promise<RejectedRowsDownload> {
+  if (format !== undefined && format !== '' && !(REJECTED_ROWS_FORMATS as readonly string[]).includes(format)) {
+    throw new ValidationError(`Invalid format: expected one of ${REJECTED_ROWS_FORMATS.join(', ')}`, { format });
+  }
+
+  const entry = await rejectedRows.get(id, tenantId);
+  if (!entry) {
+    throw new NotFoundError(`Rejected rows not found or expired: ${id}`, { id });
+  }
+
+  const target = (format || entry.format) as RejectedRowsFormat;
+  const baseName = entry.fileName.replace(/\.[^./\\]*$/, '') || 'import';
+
+  return {
+    body: target === 'csv' ? Buffer.from(formatCsv(entry), 'utf-8') : formatXlsx(entry),
+    contentType: CONTENT_TYPES[target],
+    fileName: `${baseName}.rejected.${target}`,
+  };
+}
+
+// ============================================================================
+// Rendering
+// ============================================================================
+
+/**
+ * Write the rows back in the source dialect. Values that were quoted stay
+ * quoted, as does anything that needs it. A workbook with several sheets
+ * gets a `_sheet` column and is written under its first sheet's header.
+ */
+function formatCsv(entry: StoredRejectedRows): string {
+  const dialect = entry.dialect ?? { delimiter: ',', quote: '"', escape: '"', hasHeader: true };
+  const withSheet = entry.sections.length > 1;
+  const first = entry.sections.find(section => section.header);
+  const width = Math.max(
+    first?.header?.length ?? 0,
+    ...entry.sections.flatMap(section => section.rows.map(row => row.values.length))
+  );
+  const lines: string[] = [];
+
+  if (first?.header) {
+    const extra = withSheet ? [SHEET_COLUMN, ERROR_COLUMN] : [ERROR_COLUMN];
+    lines.push(formatCsvRecord([...pad(first.header, width), ...extra], dialect, first.headerQuoted));
+  }
+
+  for (const section of entry.sections) {
+    for (const row of section.rows) {
+      const extra = withSheet ? [section.sheet ?? '', row.error] : [row.error];
+      lines.push(formatCsvRecord([...pad(row.values, width), ...extra], dialect, row.quoted));
+    }
+  }
+
+  return lines.map(line => `${line}\r\n`).join('');
+}
+
+/**
+ * Fill a record up to the widest row so `_error` lines up in one column
+ */
+function pad(values: string[], width: number): string[] {
+  return values.length >= width ? values : [...values, ...Array<string>(width - values.length).fill('')];
+}
+
+function formatCsvRecord(values: string[], dialect: CsvDialect, quoted: boolean[] = []): string {
+  const { delimiter, quote, escape } = dialect;
+
+  return values.map((value, index) => {
+    const needsQuotes = quoted[index]
+      || value.includes(delimiter)
+      || value.includes(quote)
+      || value.includes('\n')
+      || value.includes('\r');
+    if (!needsQuotes) {
+      return value;
+    }
+
+    const escaped = escape === quote
+      ? value.split(quote).join(quote + quote)
+      : value.replace(new RegExp(`[${escapeClass(escape)}${escapeClass(quote)}]`, 'g'), char => escape + char);
+    return quote + escaped + quote;
+  }).join(delimiter);
+}
+
+function escapeClass(char: string): string {
+  return char.replace(/[\\\]^-]/g, '\\$&');
+}
+
+/**
+ * Write one worksheet per source sheet (or a single `Rejected` sheet for a
+ * CSV file), each under its own header
+ */
+function formatXlsx(entry: StoredRejectedRows): Uint8Array<ArrayBuffer> {
+  const workbook = XLSX.utils.book_new();
+
+  entry.sections.forEach((section, index) => {
+    const width = Math.max(section.header?.length ?? 0, ...section.rows.map(row => row.values.length));
+    const rows = section.rows.map(row => [...pad(row.values, width), row.error]);
+    const data = section.header ? [[...pad(section.header, width), ERROR_COLUMN], ...rows] : rows;
+    const name = (section.sheet ?? 'Rejected').slice(0, 31) || `Sheet${index + 1}`;
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(data), uniqueSheetName(workbook, name));
+  });
+
+  return XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx' });
+}
+
+function uniqueSheetName(workbook: XLSX.WorkBook, name: string): string {
+  let candidate = name;
+  for (let n = 2; workbook.SheetNames.includes(candidate); n++) {
+    candidate = `${name.slice(0, 28)} (${n})`;
+  }
+  return candidate;
+}
@@ -0,0 +1,101 @@
+import { describe, expect, test } from 'bun:test';
+import { compileRowSchema, parseRowSchemaDefinition } from './row-schema.js';
+import { createDateNormalizer } from './date-normalizer.js';
+import { ValidationError } from '../types.js';
+
+describe('parseRowSchemaDefinition', () => {
+  const withPattern = (pattern: string) => ({
+    fields: { sku: { type: 'string', pattern } },
+    dimensions: ['sku'],
+  });
+
+  test('accepts a plain pattern', () => {
+    expect(parseRowSchemaDefinition(withPattern('^[A-Z]{3}-\\d+$')).fields.sku.pattern).toBe('^[A-Z]{3}-\\d+$');
+  });
+
+  test('refuses patterns that can backtrack catastrophically', () => {
+    expect(() => parseRowSchemaDefinition(withPattern('^([A-Z]+-?)*$')))
+      .toThrow('Invalid row schema field sku: invalid pattern: nested repetition such as (a+)+ can take exponential time');
+    expect(() => parseRowSchemaDefinition(withPattern('['))).toThrow(ValidationError);
+    expect(() => parseRowSchemaDefinition(withPattern('a'.repeat(1000)))).toThrow(ValidationError);
+  });
+});
+
+describe('compileRowSchema', () => {
+  const definition = parseRowSchemaDefinition({
+    fields: {
+      code: { type: 'string', required: true, pattern: '^[A-Z]{3}-\\d+$' },
+      label: { type: 'string', min: 2, max: 5 },
+      tier: { type: 'string', enum: ['gold', 'silver'] },
+      qty: { type: 'integer', required: true, min: 0, max: 100 },
+      price: { type: 'number', min: -1.5, max: 1000000 },
+      rank: { type: 'number', enum: [1, 2.5] },
+      active: { type: 'boolean' },
+      day: { type: 'date' },
+      due: { type: 'date', required: true },
+    },
+    dimensions: ['code'],
+    measures: ['qty'],
+  });
+  const schema = compileRowSchema(definition, createDateNormalizer({}, 'de-DE'));
+
+  const candidates: Record<string, unknown[]> = {
+    code: ['ABC-1', 'abc-1', 'ABCD-12', ' ABC-1', '', undefined, 12],
+    label: ['ab', 'abcde', 'a', 'abcdef', '', '  ', undefined, null, 3],
+    tier: ['gold', 'silver', 'Gold', '', undefined, 1],
+    qty: [0, 100, 50, -1, 101, 2.5, NaN, '7', '', undefined, null],
+    price: [-1.5, -1.6, 0, 999999.99, 1000001, Infinity, NaN, '1', '', undefined],
+    rank: [1, 2.5, 2, '1', '', undefined],
+    active: [true, false, 'true', 0, '', undefined],
+    day: ['2024-03-05', '05.03.2024', '31.02.2024', 45000, NaN, '', undefined, true],
+    due: ['2024-03-05T10:00:00Z', '5/3/24', 'soon', '', undefined, 45000.25],
+  };
+
+  /**
+   * Deterministic pseudo-random rows mixing valid and invalid values
+   */
+  function* rows(count: number): Generator<Record<string, unknown>> {
+    let seed = 42;
+    const next = () => {
+      seed = (seed * 1103515245 + 12345) % 2147483648;
+      return seed / 2147483648;
+    };
+    for (let i = 0; i < count; i++) {
+      const row: Record<string, unknown> = {};
+      for (const [field, values] of Object.entries(candidates)) {
+        // Mostly the first (valid) values, so that many rows pass
+        const pick = next() < 0.7 ? Math.floor(next() * 2) : Math.floor(next() * values.length);
+        if (values[pick] !== undefined || next() < 0.5) row[field] = values[pick];
+      }
+      yield row;
+    }
+  }
+
+  test('accepts and rejects exactly the rows the Zod schema does, with the same data', () => {
+    let passed = 0;
+    for (const row of rows(5000)) {
+      const compiled = schema.validate(row);
+      const zod = schema.validator.safeParse(row);
+
+      expect(compiled.success).toBe(zod.success);
+      if (compiled.success && zod.success) {
+        expect(compiled.data).toEqual(zod.data);
+        expect(Object.keys(compiled.data)).toEqual(Object.keys(zod.data));
+        passed++;
+      } else if (!compiled.success && !zod.success) {
+        const summarize = (issues: typeof zod.error.issues) => issues.map(issue => [issue.path, issue.message]);
+        expect(summarize(compiled.error.issues)).toEqual(summarize(zod.error.issues));
+      }
+    }
+
+    // Both outcomes are well represented
+    expect(passed).toBeGreaterThan(250);
+    expect(passed).toBeLessThan(4500);
+  });
+
+  test('normalizes dates and leaves blank optional fields out', () => {
+    const result = schema.validate({ code: 'ABC-1', qty: 3, due: '05.03.2024', day: '', label: '  ' });
+
+    expect(result).toEqual({ success: true, data: { code: 'ABC-1', qty: 3, due: '2024-03-05' } });
+  });
+});
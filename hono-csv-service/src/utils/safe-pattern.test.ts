@@ -0,0 +1,36 @@
+import { describe, expect, test } from 'bun:test';
+import { checkPattern, PATTERN_LIMITS } from './safe-pattern.js';
+
+describe('checkPattern', () => {
+  test.each([
+    '^country( code)?$',
+    '\\d{1,3}',
+    '(a|b)+',
+    '(?:ab)?',
+    '^(?:sales|revenue)_\\d{4}$',
+    '([a-z]{0,1})+',
+    '[(+]+',
+    '\\(a+\\)+',
+    'a{2}',
+    '(?<year>\\d{4})-(\\d{2})',
+  ])('accepts %s', pattern => {
+    expect(checkPattern(pattern)).toBeUndefined();
+  });
+
+  test.each([
+    '(a+)+',
+    '(\\d{1,3})*',
+    '((a)*b)+',
+    '(?:x*y)+?',
+    '(a|b+){2,}',
+    '^(\\w+\\s?)*$',
+  ])('rejects nested repetition in %s', pattern => {
+    expect(checkPattern(pattern)).toBe('nested repetition such as (a+)+ can take exponential time');
+  });
+
+  test('rejects invalid and over-long patterns', () => {
+    expect(checkPattern('(unclosed')).toBe('not a valid regular expression');
+    expect(checkPattern('a'.repeat(PATTERN_LIMITS.maxLength + 1)))
+      .toBe(`longer than ${PATTERN_LIMITS.maxLength} characters`);
+  });
+});
@@ -0,0 +1,27 @@
+import { describe, expect, test } from 'bun:test';
+import { inferSchema } from './schema-inference.js';
+import { openUpload } from './upload.js';
+import { ValidationError } from '../types.js';
+
+describe('inferSchema', () => {
+  test('infers field types, dimensions and measures from a sample', async () => {
+    const csv = 'region,units,price\nEU,3,1.50\nUS,4,2.25\nEU,5,3.75\nUS,6,0.99\n';
+    const inference = await inferSchema(await openUpload(Buffer.from(csv), { fileName: 'sales.csv' }));
+
+    expect(inference.schema.fields).toMatchObject({
+      region: { type: 'string' },
+      units: { type: 'integer' },
+      price: { type: 'number' },
+    });
+    expect(inference.schema.dimensions).toEqual(['region']);
+    expect(inference.schema.measures).toEqual(['price']);
+  });
+
+  test('rejects an empty file with a 400 validation error', async () => {
+    const upload = await openUpload(Buffer.from('\n\n'), { fileName: 'empty.csv', declaredType: 'csv' });
+    const error = await inferSchema(upload).catch(e => e);
+
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error).toMatchObject({ statusCode: 400, message: 'CSV file is empty' });
+  });
+});
@@ -0,0 +1,507 @@
+/**
+ * Schema Inference
+ * Samples the head of an uploaded file and drafts a row schema from the columns it finds
+ */
+
+import * as XLSX from 'xlsx';
+import { isBlankRecord, readSheetCells, selectSheets } from './csv-parser.js';
+import { CsvStreamParser, peekSource } from './csv-stream.js';
+import type { CsvSource } from './csv-stream.js';
+import { JsonRecordStream, flattenRecord } from './json-stream.js';
+import type { JsonFormat } from './json-stream.js';
+import { readArrowRows, readParquetRows } from './columnar.js';
+import type { ColumnarFormat, ColumnarValue } from './columnar.js';
+import { toComparable } from './column-mapping.js';
+import { getNumberParser, getNumberSymbols, LOCALE_CONFIG } from './locale-number.js';
+import type { NumberParser } from './locale-number.js';
+import { createDateNormalizer } from './date-normalizer.js';
+import type { DateNormalizer } from './date-normalizer.js';
+import { parseRowSchemaDefinition } from './row-schema.js';
+import { detectDialect, DIALECT_SAMPLE_BYTES } from './csv-dialect.js';
+import { createDecoder, detectEncoding, ENCODING_SAMPLE_BYTES } from './encoding.js';
+import type { Upload } from './upload.js';
+import { CsvProcessingError, ValidationError, METADATA_KEYS } from '../types.js';
+import type {
+  ColumnMapping,
+  CsvDialect,
+  FieldSpec,
+  FieldType,
+  ImportOptions,
+  InferredColumn,
+  InferredType,
+  RowSchemaDefinition,
+  SchemaInferenceResult,
+} from '../types.js';
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+export const INFERENCE_CONFIG = {
+  defaultSampleRows: parseInt(process.env.SCHEMA_INFERENCE_SAMPLE_ROWS || '1000', 10),
+  maxSampleRows: parseInt(process.env.MAX_SCHEMA_INFERENCE_SAMPLE_ROWS || '100000', 10),
+};
+
+/**
+ * Most distinct values a string column may have to be enum-like; it must
+ * also repeat them, with at least twice as many values as distinct ones
+ */
+const ENUM_MAX_VALUES = 20;
+const EXAMPLE_COUNT = 3;
+
+/**
+ * Text read as a boolean. Unlike boolean fields, 1 and 0 are not
+ * included: a column of them is taken to be numbers.
+ */
+const BOOLEAN_WORDS = new Set(['true', 'false', 'yes', 'no', 'y', 'n']);
+
+/**
+ * Whole numbers written with a leading zero (ZIP codes, account numbers)
+ * are identifiers, not integers
+ */
+const LEADING_ZERO = /^0\d+$/;
+
+const FIELD_TYPES: Record<InferredType, FieldType> = {
+  integer: 'integer',
+  decimal: 'number',
+  date: 'date',
+  boolean: 'boolean',
+  enum: 'string',
+  string: 'string',
+};
+
+/**
+ * What a single value reads as
+ */
+type ValueKind = Exclude<InferredType, 'enum'>;
+
+/**
+ * Records read from the head of a file, each with one value per header
+ */
+interface Sample {
+  headers: string[];
+  rows: ColumnarValue[][];
+  truncated: boolean;
+  encoding?: string;
+  dialect?: CsvDialect;
+  sheet?: string;
+}
+
+export type SchemaInference = Omit<SchemaInferenceResult, 'requestId' | 'fileName' | 'fileType' | 'compression'>;
+
+// ============================================================================
+// Inference
+// ============================================================================
+
+/**
+ * Sample up to `sampleRows` records of an upload and infer a type for
+ * every column. Numbers and dates are read the way an import with the
+ * same options would read them.
+ *
+ * The draft schema has a field per column, named after its header.
+ * Columns without blanks are required, enum-like columns carry their
+ * values and are the dimensions, and required decimal columns are the
+ * measures.
+ */
+export async function inferSchema(
+  upload: Upload,
+  options: ImportOptions = {},
+  sampleRows: number = INFERENCE_CONFIG.defaultSampleRows
+): Promise<SchemaInference> {
+  const parseNumber = getNumberParser(options.locale);
+  const normalizeDate = createDateNormalizer(options.dates, options.locale);
+  const sample = await sampleUpload(upload, options, sampleRows, parseNumber, normalizeDate);
+  if (sample.headers.length === 0) {
+    throw new ValidationError('No columns found to infer a schema from');
+  }
+
+  const { decimal } = getNumberSymbols(options.locale ?? LOCALE_CONFIG.defaultLocale);
+  const classify = (value: ColumnarValue): ValueKind | null => {
+    if (value === null) return null;
+    if (typeof value === 'boolean') return 'boolean';
+    if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'decimal';
+
+    const text = value.trim();
+    if (!text) return null;
+    if (BOOLEAN_WORDS.has(text.toLowerCase())) return 'boolean';
+    if (LEADING_ZERO.test(text)) return 'string';
+    const number = parseNumber(text);
+    if (number !== null) return Number.isInteger(number) && !text.includes(decimal) ? 'integer' : 'decimal';
+    return normalizeDate(text) !== null ? 'date' : 'string';
+  };
+
+  const fields = toFieldNames(sample.headers);
+  const columns = sample.headers.map((header, index) =>
+    inferColumn(header, fields[index], sample.rows.map(row => row[index] ?? null), classify)
+  );
+
+  return {
+    encoding: sample.encoding,
+    dialect: sample.dialect,
+    sheet: sample.sheet,
+    sampledRows: sample.rows.length,
+    truncated: sample.truncated,
+    columns,
+    schema: draftSchema(columns, sample.rows.length),
+    columnMapping: draftColumnMapping(sample.headers, fields),
+  };
+}
+
+/**
+ * Read the sample size: a whole number up to MAX_SCHEMA_INFERENCE_SAMPLE_ROWS
+ */
+export function parseSampleRows(value: string | undefined): number {
+  if (value === undefined || value === '') {
+    return INFERENCE_CONFIG.defaultSampleRows;
+  }
+
+  const rows = Number(value);
+  if (!Number.isInteger(rows) || rows < 1 || rows > INFERENCE_CONFIG.maxSampleRows) {
+    throw new ValidationError(
+      `Invalid ${METADATA_KEYS.SAMPLE_ROWS}: expected a whole number from 1 to ${INFERENCE_CONFIG.maxSampleRows}`,
+      { value }
+    );
+  }
+  return rows;
+}
+
+function inferColumn(
+  column: string,
+  field: string,
+  values: ColumnarValue[],
+  classify: (value: ColumnarValue) => ValueKind | null
+): InferredColumn {
+  const kinds = new Set<ValueKind>();
+  const distinct = new Map<string, ColumnarValue>();
+  let blanks = 0;
+
+  for (const value of values) {
+    const kind = classify(value);
+    if (kind === null) {
+      blanks++;
+      continue;
+    }
+    kinds.add(kind);
+
+    const key = typeof value === 'string' ? value.trim() : String(value);
+    if (!distinct.has(key)) distinct.set(key, value);
+  }
+
+  let type = columnType(kinds);
+  const repeated = distinct.size > 0 && distinct.size * 2 <= values.length - blanks;
+  if (type === 'string' && repeated && distinct.size <= ENUM_MAX_VALUES) {
+    type = 'enum';
+  }
+
+  return {
+    column,
+    field,
+    type,
+    nullRatio: values.length === 0 ? 0 : Math.round((blanks / values.length) * 10000) / 10000,
+    distinctCount: distinct.size,
+    enumValues: type === 'enum' ? [...distinct.keys()].sort() : undefined,
+    examples: [...distinct.values()].slice(0, EXAMPLE_COUNT) as Array<string | number | boolean>,
+  };
+}
+
+/**
+ * The narrowest type every value reads as: integers mixed with decimals
+ * are decimal, any other mix is a string
+ */
+function columnType(kinds: Set<ValueKind>): InferredType {
+  if (kinds.size === 0) {
+    return 'string';
+  }
+  if (kinds.size === 1) {
+    return [...kinds][0];
+  }
+  return [...kinds].every(kind => kind === 'integer' || kind === 'decimal') ? 'decimal' : 'string';
+}
+
+function draftSchema(columns: InferredColumn[], rowCount: number): RowSchemaDefinition {
+  const fields: Record<string, FieldSpec> = {};
+  const dimensions: string[] = [];
+  const measures: string[] = [];
+
+  for (const column of columns) {
+    const spec: FieldSpec = { type: FIELD_TYPES[column.type] };
+    if (rowCount > 0 && column.nullRatio === 0) spec.required = true;
+    if (column.enumValues) spec.enum = column.enumValues;
+    fields[column.field] = spec;
+
+    if (column.type === 'enum' && spec.required && column.field !== 'count') dimensions.push(column.field);
+    if (column.type === 'decimal' && spec.required) measures.push(column.field);
+  }
+
+  return parseRowSchemaDefinition({ fields, dimensions, measures });
+}
+
+/**
+ * Field names for the sampled headers: each header in the form headers
+ * are matched in, prefixed when it does not start with a letter and
+ * numbered when two headers read the same
+ */
+function toFieldNames(headers: string[]): string[] {
+  const used = new Set<string>();
+
+  return headers.map((header, index) => {
+    let base = toComparable(header);
+    if (!/^[a-z]/.test(base)) {
+      base = base ? `column_${base}` : `column_${index + 1}`;
+    }
+    base = base.slice(0, 64);
+
+    let name = base;
+    for (let n = 2; used.has(name); n++) {
+      name = `${base.slice(0, 60)}_${n}`;
+    }
+    used.add(name);
+    return name;
+  });
+}
+
+/**
+ * Mapping for the fields an import would not match to their column by
+ * header name: by synonym where the header is unique, else by position
+ */
+function draftColumnMapping(headers: string[], fields: string[]): ColumnMapping | undefined {
+  const comparable = headers.map(toComparable);
+  const synonyms: Record<string, string[]> = {};
+  const positions: Record<string, number> = {};
+
+  fields.forEach((field, index) => {
+    if (comparable[index] === field) {
+      return;
+    }
+    if (comparable[index] && comparable.indexOf(comparable[index]) === comparable.lastIndexOf(comparable[index])) {
+      synonyms[field] = [headers[index]];
+    } else {
+      positions[field] = index;
+    }
+  });
+
+  if (Object.keys(synonyms).length === 0 && Object.keys(positions).length === 0) {
+    return undefined;
+  }
+  return {
+    ...(Object.keys(positions).length > 0 && { positions }),
+    ...(Object.keys(synonyms).length > 0 && { synonyms }),
+  };
+}
+
+// ============================================================================
+// Sampling
+// ============================================================================
+
+function sampleUpload(
+  upload: Upload,
+  options: ImportOptions,
+  limit: number,
+  parseNumber: NumberParser,
+  normalizeDate: DateNormalizer
+): Promise<Sample> {
+  switch (upload.fileType) {
+    case 'csv':
+      return sampleCsv(upload.content, options, limit);
+    case 'json':
+    case 'ndjson':
+      return sampleJson(upload.content, upload.fileType, options, limit);
+    case 'parquet':
+    case 'arrow':
+      return sampleColumnar(upload.content, upload.fileType, limit);
+    case 'zip':
+      throw new ValidationError('Schema inference reads a single file, not a ZIP archive', { fileType: 'zip' });
+    default:
+      return Promise.resolve(sampleSheet(upload.content, options, limit, parseNumber, normalizeDate));
+  }
+}
+
+/**
+ * Tokenize a CSV stream until the sample is full. Encoding and dialect are
+ * detected as for an import; the rest of the stream is not read.
+ */
+async function sampleCsv(source: CsvSource, options: ImportOptions, limit: number): Promise<Sample> {
+  let headers: string[] | undefined;
+  const rows: string[][] = [];
+  let truncated = false;
+
+  try {
+    const { head, chunks } = await peekSource(source, ENCODING_SAMPLE_BYTES);
+    const encoding = options.encoding ?? detectEncoding(head);
+    const dialect = detectDialect(createDecoder(encoding).decode(head.subarray(0, DIALECT_SAMPLE_BYTES)), options.dialect);
+
+    const parser = new CsvStreamParser((values) => {
+      if (truncated || isBlankRecord(values)) {
+        return;
+      }
+
+      // First non-blank record is the header (unless the file has none)
+      if (!headers) {
+        headers = dialect.hasHeader ? values.map(h => h.trim()) : [];
+        if (dialect.hasHeader) return;
+      }
+
+      if (rows.length === limit) {
+        truncated = true;
+        return;
+      }
+      rows.push(values);
+    }, { ...dialect, strict: options.strict, encoding });
+
+    for await (const chunk of chunks) {
+      parser.write(chunk);
+      if (truncated) break;
+    }
+    if (!truncated) {
+      parser.end();
+    }
+
+    if (!headers) {
+      throw new ValidationError('CSV file is empty');
+    }
+    return { headers: padHeaders(headers, rows), rows, truncated, encoding, dialect };
+  } catch (error) {
+    if (error instanceof CsvProcessingError) {
+      throw error;
+    }
+    throw new ValidationError(`Failed to parse CSV: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+/**
+ * Read JSON records until the sample is full. The columns are every
+ * flattened name seen, in order of first appearance.
+ */
+async function sampleJson(source: CsvSource, format: JsonFormat, options: ImportOptions, limit: number): Promise<Sample> {
+  const columns = new Map<string, number>();
+  const records: Array<Record<string, ColumnarValue>> = [];
+  let truncated = false;
+
+  try {
+    const { head, chunks } = await peekSource(source, ENCODING_SAMPLE_BYTES);
+    const encoding = options.encoding ?? detectEncoding(head);
+
+    const reader = new JsonRecordStream((value) => {
+      if (truncated || value === null || typeof value !== 'object' || Array.isArray(value)) {
+        return;
+      }
+
+      const flat = flattenRecord(value as Record<string, unknown>, options.jsonPathSeparator);
+      const names = Object.keys(flat);
+      if (names.length === 0) {
+        return;
+      }
+
+      if (records.length === limit) {
+        truncated = true;
+        return;
+      }
+      for (const name of names) {
+        if (!columns.has(name)) columns.set(name, columns.size);
+      }
+      records.push(flat);
+    }, { format, strict: options.strict, encoding });
+
+    for await (const chunk of chunks) {
+      reader.write(chunk);
+      if (truncated) break;
+    }
+    if (!truncated) {
+      reader.end();
+    }
+
+    const headers = [...columns.keys()];
+    return { headers, rows: records.map(record => headers.map(name => record[name] ?? null)), truncated, encoding };
+  } catch (error) {
+    if (error instanceof CsvProcessingError) {
+      throw error;
+    }
+    throw new ValidationError(`Failed to parse JSON: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+/**
+ * Read every column of a Parquet or Arrow file with its own type
+ */
+async function sampleColumnar(buffer: Buffer, format: ColumnarFormat, limit: number): Promise<Sample> {
+  let headers: string[] = [];
+  const rows: ColumnarValue[][] = [];
+  let truncated = false;
+
+  const project = (names: string[]) => {
+    headers = names;
+    return names;
+  };
+  // Decimals are classified by value, whatever the locale
+  const onRow = (values: Record<string, ColumnarValue>, exact: Record<string, string>) => {
+    if (rows.length === limit) {
+      truncated = true;
+      return false;
+    }
+    rows.push(headers.map(name => name in exact ? Number(exact[name]) : values[name] ?? null));
+    return true;
+  };
+
+  if (format === 'parquet') {
+    await readParquetRows(buffer, project, onRow);
+  } else {
+    await readArrowRows(buffer, project, onRow);
+  }
+
+  return { headers, rows, truncated };
+}
+
+/**
+ * Read the first selected sheet of a workbook. Numbers and booleans keep
+ * their cell type; a numeric cell displayed as a date (a date serial) is
+ * read as that date.
+ */
+function sampleSheet(
+  buffer: Buffer,
+  options: ImportOptions,
+  limit: number,
+  parseNumber: NumberParser,
+  normalizeDate: DateNormalizer
+): Sample {
+  let workbook: XLSX.WorkBook;
+  try {
+    workbook = XLSX.read(buffer, { type: 'buffer' });
+  } catch (error) {
+    throw new ValidationError(`Failed to parse Excel file: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+
+  const [sheet] = selectSheets(workbook.SheetNames, options);
+  const worksheet = workbook.Sheets[sheet];
+  const display = readSheetCells(worksheet, false).map(values => values.map(v => String(v)));
+  const raw = readSheetCells(worksheet, true);
+
+  const indices = display.flatMap((values, index) => (isBlankRecord(values) ? [] : [index]));
+  if (indices.length === 0) {
+    return { headers: [], rows: [], truncated: false, sheet };
+  }
+
+  const [headerIndex, ...dataIndices] = indices;
+  const rows = dataIndices.slice(0, limit).map(index => display[index].map((text, column): ColumnarValue => {
+    const value = raw[index]?.[column];
+    if (typeof value === 'boolean') return value;
+    if (typeof value === 'number') {
+      return parseNumber(text) === null ? normalizeDate(text) ?? value : value;
+    }
+    return text;
+  }));
+
+  return {
+    headers: padHeaders(display[headerIndex].map(h => h.trim()), rows),
+    rows,
+    truncated: dataIndices.length > limit,
+    sheet,
+  };
+}
+
+/**
+ * Name the columns past the header row, or of a headerless file
+ */
+function padHeaders(headers: string[], rows: unknown[][]): string[] {
+  const width = rows.reduce((max, row) => Math.max(max, row.length), headers.length);
+  return Array.from({ length: width }, (_, index) => headers[index] ?? `column_${index + 1}`);
+}
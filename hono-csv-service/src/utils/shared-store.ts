@@ -0,0 +1,236 @@
+/**
+ * Shared Store
+ * Key-value storage shared by every replica of the service: Redis when
+ * REDIS_ENABLED is set, process memory otherwise (a single instance or development)
+ */
+
+import { Redis } from 'ioredis';
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+const KEY_PREFIX = process.env.SHARED_STORE_PREFIX || 'csv-service:';
+
+export interface SetOptions {
+  /**
+   * Drop the value after this long
+   */
+  ttlMs?: number;
+  /**
+   * Keep at most this many values under the key's namespace (everything
+   * before its last `:`), dropping the oldest. Only process memory needs
+   * the cap; Redis is bounded by the TTL and its own maxmemory policy.
+   */
+  maxEntries?: number;
+}
+
+/**
+ * Strings with an optional TTL, hashes of strings and append-only lists of
+ * strings, which is all the registries and result stores need
+ */
+export interface SharedStore {
+  get(key: string): Promise<string | undefined>;
+  set(key: string, value: string, options?: SetOptions): Promise<void>;
+  delete(key: string): Promise<boolean>;
+
+  hashGet(key: string, field: string): Promise<string | undefined>;
+  hashGetAll(key: string): Promise<Record<string, string>>;
+  hashSet(key: string, field: string, value: string): Promise<void>;
+  hashDelete(key: string, field: string): Promise<boolean>;
+
+  /**
+   * Append to a list and return its new length
+   */
+  append(key: string, value: string): Promise<number>;
+  range(key: string): Promise<string[]>;
+
+  close(): Promise<void>;
+}
+
+// ============================================================================
+// Redis
+// ============================================================================
+
+export class RedisSharedStore implements SharedStore {
+  private redis: Redis;
+
+  constructor() {
+    this.redis = new Redis({
+      host: process.env.REDIS_HOST || 'localhost',
+      port: parseInt(process.env.REDIS_PORT || '6379', 10),
+      password: process.env.REDIS_PASSWORD || undefined,
+      db: parseInt(process.env.REDIS_DB || '0', 10),
+      keyPrefix: KEY_PREFIX,
+      lazyConnect: true,
+      retryStrategy: (times: number) => Math.min(times * 50, 2000),
+    });
+
+    this.redis.on('error', (err: Error) => {
+      console.error('Redis shared store error:', err);
+    });
+  }
+
+  async get(key: string): Promise<string | undefined> {
+    return (await this.redis.get(key)) ?? undefined;
+  }
+
+  async set(key: string, value: string, options: SetOptions = {}): Promise<void> {
+    if (options.ttlMs !== undefined) {
+      await this.redis.set(key, value, 'PX', options.ttlMs);
+    } else {
+      await this.redis.set(key, value);
+    }
+  }
+
+  async delete(key: string): Promise<boolean> {
+    return (await this.redis.del(key)) > 0;
+  }
+
+  async hashGet(key: string, field: string): Promise<string | undefined> {
+    return (await this.redis.hget(key, field)) ?? undefined;
+  }
+
+  async hashGetAll(key: string): Promise<Record<string, string>> {
+    return this.redis.hgetall(key);
+  }
+
+  async hashSet(key: string, field: string, value: string): Promise<void> {
+    await this.redis.hset(key, field, value);
+  }
+
+  async hashDelete(key: string, field: string): Promise<boolean> {
+    return (await this.redis.hdel(key, field)) > 0;
+  }
+
+  async append(key: string, value: string): Promise<number> {
+    return this.redis.rpush(key, value);
+  }
+
+  async range(key: string): Promise<string[]> {
+    return this.redis.lrange(key, 0, -1);
+  }
+
+  async close(): Promise<void> {
+    if (this.redis.status !== 'wait' && this.redis.status !== 'end') {
+      await this.redis.quit();
+    }
+  }
+}
+
+// ============================================================================
+// Process Memory
+// ============================================================================
+
+interface MemoryEntry {
+  value: string;
+  expiresAt?: number;
+}
+
+export class MemorySharedStore implements SharedStore {
+  private namespaces = new Map<string, Map<string, MemoryEntry>>();
+  private hashes = new Map<string, Map<string, string>>();
+  private lists = new Map<string, string[]>();
+
+  async get(key: string): Promise<string | undefined> {
+    const entries = this.namespaces.get(namespaceOf(key));
+    const entry = entries?.get(key);
+    if (!entry) {
+      return undefined;
+    }
+    if (entry.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+      entries!.delete(key);
+      return undefined;
+    }
+    return entry.value;
+  }
+
+  async set(key: string, value: string, options: SetOptions = {}): Promise<void> {
+    const namespace = namespaceOf(key);
+    let entries = this.namespaces.get(namespace);
+    if (!entries) {
+      entries = new Map();
+      this.namespaces.set(namespace, entries);
+    }
+
+    const now = Date.now();
+    for (const [existing, entry] of entries) {
+      if (entry.expiresAt !== undefined && entry.expiresAt <= now) entries.delete(existing);
+    }
+
+    entries.delete(key);
+    entries.set(key, {
+      value,
+      expiresAt: options.ttlMs === undefined ? undefined : now + options.ttlMs,
+    });
+
+    if (options.maxEntries !== undefined) {
+      while (entries.size > options.maxEntries) {
+        entries.delete(entries.keys().next().value!);
+      }
+    }
+  }
+
+  async delete(key: string): Promise<boolean> {
+    const deleted = [
+      this.namespaces.get(namespaceOf(key))?.delete(key) ?? false,
+      this.hashes.delete(key),
+      this.lists.delete(key),
+    ];
+    return deleted.includes(true);
+  }
+
+  async hashGet(key: string, field: string): Promise<string | undefined> {
+    return this.hashes.get(key)?.get(field);
+  }
+
+  async hashGetAll(key: string): Promise<Record<string, string>> {
+    return Object.fromEntries(this.hashes.get(key) ?? []);
+  }
+
+  async hashSet(key: string, field: string, value: string): Promise<void> {
+    let hash = this.hashes.get(key);
+    if (!hash) {
+      hash = new Map();
+      this.hashes.set(key, hash);
+    }
+    hash.set(field, value);
+  }
+
+  async hashDelete(key: string, field: string): Promise<boolean> {
+    const hash = this.hashes.get(key);
+    const deleted = hash?.delete(field) ?? false;
+    if (hash?.size === 0) this.hashes.delete(key);
+    return deleted;
+  }
+
+  async append(key: string, value: string): Promise<number> {
+    const list = this.lists.get(key) ?? [];
+    list.push(value);
+    this.lists.set(key, list);
+    return list.length;
+  }
+
+  async range(key: string): Promise<string[]> {
+    return [...(this.lists.get(key) ?? [])];
+  }
+
+  async close(): Promise<void> {}
+}
+
+function namespaceOf(key: string): string {
+  return key.slice(0, Math.max(0, key.lastIndexOf(':')));
+}
+
+// ============================================================================
+// Instance
+// ============================================================================
+
+/**
+ * The store named schemas and mappings, rejected rows and pivot tables are
+ * kept in. Several replicas must share Redis (REDIS_ENABLED=true) for what
+ * one of them saved to be found by the others and to survive restarts.
+ */
+export const sharedStore: SharedStore = process.env.REDIS_ENABLED === 'true'
+  ? new RedisSharedStore()
+  : new MemorySharedStore();
@@ -0,0 +1,215 @@
+import { describe, expect, test } from 'bun:test';
+import { TimeSeriesAggregator, resolveTimeSeries } from './time-series.js';
+import { DEFAULT_ROW_SCHEMA } from './row-schema.js';
+import type { ValidatedRow } from './row-schema.js';
+import { processCsvFile, resolveImportOptions } from './csv-parser.js';
+import { AggregationLimitError, ValidationError } from '../types.js';
+import type { RowSchemaDefinition, TimeSeriesSpec, TimeSeriesOptions } from '../types.js';
+
+function optionsOf(spec: Partial<TimeSeriesSpec> & Pick<TimeSeriesSpec, 'granularity'>): TimeSeriesOptions {
+  return resolveTimeSeries({ time_series: JSON.stringify(spec) }, DEFAULT_ROW_SCHEMA)!;
+}
+
+function seriesOf(spec: Parameters<typeof optionsOf>[0], rows: ValidatedRow[], minorUnits?: number) {
+  const aggregator = new TimeSeriesAggregator(optionsOf(spec), minorUnits);
+  rows.forEach(row => aggregator.add(row));
+  return aggregator.toResult();
+}
+
+/**
+ * Labels and start days of the buckets the dates fall in, one series
+ */
+function bucketsOf(spec: Parameters<typeof optionsOf>[0], dates: string[]) {
+  const rows = dates.map(date => ({ region: 'EU', country: 'DE', amount: 1, date }));
+  return seriesOf(spec, rows).series[0].buckets.map(bucket => [bucket.label, bucket.start]);
+}
+
+describe('resolveTimeSeries', () => {
+  test('buckets the first date field by the schema dimensions and measures', () => {
+    expect(optionsOf({ granularity: 'month' })).toEqual({
+      granularity: 'month',
+      field: 'date',
+      groupBy: ['region', 'country'],
+      measures: ['amount'],
+      week: 'iso',
+      fiscalYearStartMonth: 1,
+      fillEmpty: false,
+      timeZone: 'UTC',
+    });
+  });
+
+  test('takes the timezone of the dates unless the request names one', () => {
+    const metadata = { time_series: JSON.stringify({ granularity: 'day' }) };
+
+    expect(resolveTimeSeries(metadata, DEFAULT_ROW_SCHEMA, { timeZone: 'Europe/Berlin' })?.timeZone).toBe('Europe/Berlin');
+    expect(optionsOf({ granularity: 'day', timeZone: 'Asia/Tokyo' }).timeZone).toBe('Asia/Tokyo');
+  });
+
+  test.each<[string, unknown, string, RowSchemaDefinition?]>([
+    ['an unknown granularity', { granularity: 'hour' }, 'Invalid time_series'],
+    ['a field that is not a date', { granularity: 'day', field: 'amount' }, 'Invalid time_series: amount is not a date field'],
+    ['an unknown groupBy field', { granularity: 'day', groupBy: ['city'] }, 'Invalid time_series: unknown groupBy field city'],
+    ['an unknown timezone', { granularity: 'day', timeZone: 'Mars/Olympus' }, 'Unsupported timezone: Mars/Olympus'],
+    ['a schema without dates', { granularity: 'day' }, 'Invalid time_series: the row schema has no date field', {
+      fields: { region: { type: 'string' }, amount: { type: 'number' } },
+      dimensions: ['region'],
+      measures: ['amount'],
+    }],
+  ])('rejects %s', (_, spec, message, definition = DEFAULT_ROW_SCHEMA) => {
+    expect(() => resolveTimeSeries({ time_series: JSON.stringify(spec) }, definition)).toThrow(new ValidationError(message));
+  });
+});
+
+describe('TimeSeriesAggregator buckets', () => {
+  test('ISO weeks run Monday to Sunday in the year of their Thursday', () => {
+    expect(bucketsOf({ granularity: 'week' }, ['2020-12-31', '2021-01-03', '2024-12-30', '2025-01-05', '2025-01-06'])).toEqual([
+      ['2020-W53', '2020-12-28'],
+      ['2025-W01', '2024-12-30'],
+      ['2025-W02', '2025-01-06'],
+    ]);
+  });
+
+  test('calendar weeks run Sunday to Saturday, week 1 holding 1 January', () => {
+    expect(bucketsOf({ granularity: 'week', week: 'calendar' }, ['2024-12-28', '2024-12-29', '2025-01-04', '2025-01-05'])).toEqual([
+      ['2024-W52', '2024-12-22'],
+      ['2025-W01', '2024-12-29'],
+      ['2025-W02', '2025-01-05'],
+    ]);
+  });
+
+  test('calendar quarters are named after their year', () => {
+    expect(bucketsOf({ granularity: 'quarter' }, ['2024-03-31', '2024-04-01', '2024-12-31'])).toEqual([
+      ['2024-Q1', '2024-01-01'],
+      ['2024-Q2', '2024-04-01'],
+      ['2024-Q4', '2024-10-01'],
+    ]);
+  });
+
+  test('fiscal quarters are named after the year their fiscal year ends in', () => {
+    expect(bucketsOf({ granularity: 'quarter', fiscalYearStartMonth: 4 }, ['2024-03-31', '2024-04-01', '2024-12-15', '2025-02-01'])).toEqual([
+      ['FY2024-Q4', '2024-01-01'],
+      ['FY2025-Q1', '2024-04-01'],
+      ['FY2025-Q3', '2024-10-01'],
+      ['FY2025-Q4', '2025-01-01'],
+    ]);
+  });
+
+  test('date-times fall on their day in the timezone', () => {
+    // 23:30 UTC on 31 March is already 1 April in Berlin and still 31 March in New York
+    const dates = ['2024-03-31T23:30:00.000Z', '2024-04-01T03:30:00.000Z'];
+
+    expect(bucketsOf({ granularity: 'day' }, dates)).toEqual([['2024-03-31', '2024-03-31'], ['2024-04-01', '2024-04-01']]);
+    expect(bucketsOf({ granularity: 'month', timeZone: 'Europe/Berlin' }, dates)).toEqual([['2024-04', '2024-04-01']]);
+    expect(bucketsOf({ granularity: 'month', timeZone: 'America/New_York' }, dates)).toEqual([['2024-03', '2024-03-01']]);
+  });
+});
+
+describe('TimeSeriesAggregator', () => {
+  const rows: ValidatedRow[] = [
+    { region: 'EU', country: 'DE', amount: 10, date: '2024-01-10' },
+    { region: 'EU', country: 'DE', amount: 5, date: '2024-01-20' },
+    { region: 'EU', country: 'DE', amount: 2.5, date: '2024-04-02' },
+    { region: 'US', country: 'US', amount: 7, date: '2024-02-14' },
+    { region: 'US', country: 'US', amount: 1 },
+  ];
+
+  test('sums and averages the measures per bucket and counts undated rows', () => {
+    expect(seriesOf({ granularity: 'month' }, rows)).toEqual({
+      granularity: 'month',
+      field: 'date',
+      week: undefined,
+      fiscalYearStartMonth: 1,
+      timeZone: 'UTC',
+      series: [
+        { dimensions: { region: 'EU', country: 'DE' }, buckets: [
+          { start: '2024-01-01', label: '2024-01', count: 2, amountSum: 15, amountAvg: 7.5 },
+          { start: '2024-04-01', label: '2024-04', count: 1, amountSum: 2.5, amountAvg: 2.5 },
+        ] },
+        { dimensions: { region: 'US', country: 'US' }, buckets: [
+          { start: '2024-02-01', label: '2024-02', count: 1, amountSum: 7, amountAvg: 7 },
+        ] },
+      ],
+      undatedCount: 1,
+    });
+  });
+
+  test('fills every series with zero buckets over the range of all of them', () => {
+    const result = seriesOf({ granularity: 'month', fillEmpty: true }, rows);
+
+    expect(result.series.map(series => series.buckets.map(bucket => [bucket.label, bucket.count, bucket.amountSum, bucket.amountAvg]))).toEqual([
+      [['2024-01', 2, 15, 7.5], ['2024-02', 0, 0, 0], ['2024-03', 0, 0, 0], ['2024-04', 1, 2.5, 2.5]],
+      [['2024-01', 0, 0, 0], ['2024-02', 1, 7, 7], ['2024-03', 0, 0, 0], ['2024-04', 0, 0, 0]],
+    ]);
+  });
+
+  test('fills fiscal quarters and ISO weeks across a year end', () => {
+    const quarters = bucketsOf({ granularity: 'quarter', fiscalYearStartMonth: 7, fillEmpty: true }, ['2024-05-01', '2025-01-15']);
+    const weeks = bucketsOf({ granularity: 'week', fillEmpty: true }, ['2024-12-24', '2025-01-08']);
+
+    expect(quarters).toEqual([['FY2024-Q4', '2024-04-01'], ['FY2025-Q1', '2024-07-01'], ['FY2025-Q2', '2024-10-01'], ['FY2025-Q3', '2025-01-01']]);
+    expect(weeks).toEqual([['2024-W52', '2024-12-23'], ['2025-W01', '2024-12-30'], ['2025-W02', '2025-01-06']]);
+  });
+
+  test('fills with exact zero decimals under minor units', () => {
+    const result = seriesOf({ granularity: 'month', groupBy: ['region'], fillEmpty: true }, rows.slice(0, 3), 2);
+
+    expect(result.series[0].buckets.map(bucket => [bucket.label, bucket.amountSum, bucket.amountAvg])).toEqual([
+      ['2024-01', '15.00', '7.50'],
+      ['2024-02', '0.00', '0.00'],
+      ['2024-03', '0.00', '0.00'],
+      ['2024-04', '2.50', '2.50'],
+    ]);
+  });
+
+  test('merges snapshots into the single-pass result', () => {
+    const options = optionsOf({ granularity: 'week', fillEmpty: true });
+    const [first, second] = [new TimeSeriesAggregator(options), new TimeSeriesAggregator(options)];
+    rows.forEach((row, index) => (index % 2 === 0 ? first : second).add(row));
+
+    first.mergeSnapshot(structuredClone(second.snapshot()));
+
+    expect(first.toResult()).toEqual(seriesOf({ granularity: 'week', fillEmpty: true }, rows));
+  });
+
+  test('fails with a 422 past the bucket limit, filled buckets included', () => {
+    const options = optionsOf({ granularity: 'month', fillEmpty: true });
+    const within = new TimeSeriesAggregator(options, undefined, 8);
+    rows.forEach(row => within.add(row));
+    expect(within.toResult().series.map(series => series.buckets.length)).toEqual([4, 4]);
+
+    const filled = new TimeSeriesAggregator(options, undefined, 7);
+    rows.forEach(row => filled.add(row));
+    expect(() => filled.toResult()).toThrow(new AggregationLimitError('Time series exceeded the limit of 7 buckets'));
+
+    const daily = new TimeSeriesAggregator(optionsOf({ granularity: 'day' }), undefined, 2);
+    rows.forEach(row => daily.add(row));
+    let error: unknown;
+    try {
+      daily.toResult();
+    } catch (e) {
+      error = e;
+    }
+    expect(error).toBeInstanceOf(AggregationLimitError);
+    expect(error).toMatchObject({ statusCode: 422, code: 'AGGREGATION_LIMIT_EXCEEDED', details: { maxPoints: 2 } });
+  });
+});
+
+describe('time_series metadata', () => {
+  test('buckets the validated rows of an import in the timezone of its dates', async () => {
+    const csv = 'region,country,amount,date\nEU,DE,10,2024-01-31 23:30\nEU,DE,x,2024-02-01 10:00\nEU,DE,5,2024-02-01 10:00\n';
+    const options = await resolveImportOptions({
+      date_timezone: 'Europe/Berlin',
+      time_series: JSON.stringify({ granularity: 'month', groupBy: ['region'] }),
+    });
+
+    const result = await processCsvFile(Buffer.from(csv), options);
+
+    expect(result.aggregator?.timeSeries?.toResult()).toMatchObject({
+      timeZone: 'Europe/Berlin',
+      series: [{ dimensions: { region: 'EU' }, buckets: [
+        { label: '2024-01', count: 1, amountSum: 10 },
+        { label: '2024-02', count: 1, amountSum: 5 },
+      ] }],
+    });
+  });
+});
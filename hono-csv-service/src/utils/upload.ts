@@ -0,0 +1,289 @@
+/**
+ * Upload Processing
+ * Decompression, file type detection and dispatch to the CSV, spreadsheet and archive readers
+ */
+
+import {
+  processColumnarFile,
+  processCsvFileParallel,
+  processExcelFile,
+  processJsonFile,
+  RegionAggregator,
+} from './csv-parser.js';
+import type { ParseResult } from './csv-parser.js';
+import { peekSource } from './csv-stream.js';
+import type { CsvSource } from './csv-stream.js';
+import { detectFileType, unsupportedFileType } from './file-type.js';
+import {
+  decompressStream,
+  detectCompression,
+  isZipFileEntry,
+  listZipEntries,
+  readZipEntry,
+  DECOMPRESSION_LIMITS,
+} from './archive.js';
+import type { DecompressionLimits } from './archive.js';
+import { ValidationGuard } from './validation-policy.js';
+import { throwIfAborted } from './processing-limits.js';
+import {
+  CsvProcessingError,
+  DecompressionLimitError,
+  InvalidFileTypeError,
+  ProcessingTimeoutError,
+  ValidationThresholdExceededError,
+} from '../types.js';
+import type {
+  ArchiveEntryResult,
+  CompressionFormat,
+  FileType,
+  ImportOptions,
+  ProcessingStats,
+} from '../types.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * File types whose readers consume a stream
+ */
+type StreamedFileType = 'csv' | 'json' | 'ndjson';
+
+/**
+ * A decompressed upload whose type is known. CSV and JSON content stays a
+ * stream; every other type is read whole, as its readers need random access.
+ */
+export type Upload =
+  | { fileType: StreamedFileType; compression?: CompressionFormat; content: CsvSource }
+  | { fileType: Exclude<FileType, StreamedFileType>; compression?: CompressionFormat; content: Buffer };
+
+/**
+ * An upload whose content no reader accepts
+ */
+type UnsupportedUpload = { fileType: 'unknown'; compression?: CompressionFormat; content: Buffer };
+
+export interface OpenUploadOptions {
+  fileName?: string;
+  /**
+   * Type declared by the client. Only consulted for content that is not
+   * recognised, so that CSV without any delimiter can still be read.
+   */
+  declaredType?: string;
+  limits?: DecompressionLimits;
+}
+
+/**
+ * Number of leading bytes inspected for compression and file type
+ */
+const UPLOAD_SNIFF_BYTES = 1024;
+
+// ============================================================================
+// Upload Handling
+// ============================================================================
+
+/**
+ * Decompress an upload if needed and detect its file type. Throws an
+ * InvalidFileTypeError for content no reader accepts.
+ */
+export async function openUpload(source: CsvSource, options: OpenUploadOptions = {}): Promise<Upload> {
+  const upload = await sniffUpload(source, options);
+  if (upload.fileType === 'unknown') {
+    throw unsupportedFileType(upload.fileType, options.fileName);
+  }
+  return upload;
+}
+
+/**
+ * Decompress an upload if needed and detect its file type
+ */
+async function sniffUpload(source: CsvSource, options: OpenUploadOptions): Promise<Upload | UnsupportedUpload> {
+  const limits = options.limits ?? DECOMPRESSION_LIMITS;
+
+  let { head, chunks } = await peekSource(source, UPLOAD_SNIFF_BYTES);
+  const compression = detectCompression(head) ?? undefined;
+  if (compression) {
+    ({ head, chunks } = await peekSource(decompressStream(chunks, compression, limits), UPLOAD_SNIFF_BYTES));
+  }
+
+  const headType = detectFileType(toBuffer(head));
+  if (headType === 'csv' || headType === 'json' || headType === 'ndjson') {
+    return { fileType: headType, compression, content: chunks };
+  }
+
+  // Containers are identified from their directory, so read the whole file
+  const buffer = !compression && source instanceof Uint8Array ? toBuffer(source) : await readAll(chunks);
+  let detectedType = detectFileType(buffer);
+  if (detectedType === 'unknown' && options.declaredType === 'csv') {
+    detectedType = 'csv';
+  }
+
+  return { fileType: detectedType, compression, content: buffer };
+}
+
+/**
+ * Process an opened upload with the reader for its type
+ */
+export async function processUpload(upload: Upload, options: ImportOptions = {}): Promise<ParseResult> {
+  switch (upload.fileType) {
+    case 'csv':
+      return processCsvFileParallel(upload.content, options);
+    case 'json':
+    case 'ndjson':
+      return processJsonFile(upload.content, upload.fileType, options);
+    case 'parquet':
+    case 'arrow':
+      return processColumnarFile(upload.content, upload.fileType, options);
+    case 'zip':
+      return processZipArchive(upload.content, options);
+    default:
+      return processExcelFile(upload.content, options);
+  }
+}
+
+/**
+ * Process every supported file in a ZIP archive as a batch.
+ *
+ * Entries of a type no reader accepts (a readme, images, XML) are skipped.
+ * Each other entry gets its own result, and the counts, region summaries (with
+ * their distributions) and aggregation query groups of all entries are
+ * rolled up into the archive totals. An entry that cannot
+ * be processed is reported with its error; exceeding the decompression
+ * limits or the time limit fails the whole archive. The validation policy
+ * applies to each entry and to the archive totals, and rejecting either
+ * fails the archive. The row cap is shared by all entries: once it is
+ * reached the remaining entries are skipped and the archive is truncated.
+ */
+export async function processZipArchive(
+  buffer: Buffer,
+  options: ImportOptions = {},
+  limits: DecompressionLimits = DECOMPRESSION_LIMITS
+): Promise<ParseResult> {
+  const startTime = Date.now();
+  const stats: ProcessingStats = {
+    parseDurationMs: 0,
+    validateDurationMs: 0,
+    aggregateDurationMs: 0,
+    totalDurationMs: 0,
+  };
+
+  const combined = new RegionAggregator(options.rowSchema?.definition, options);
+  const entries: ArchiveEntryResult[] = [];
+  let remainingBytes = limits.maxBytes;
+  let rowCount = 0;
+  let successCount = 0;
+  let errorCount = 0;
+  let truncated = false;
+
+  for (const entry of listZipEntries(buffer).filter(isZipFileEntry)) {
+    if (options.maxRows !== undefined && rowCount >= options.maxRows) {
+      truncated = true;
+      break;
+    }
+    throwIfAborted(options.signal, { rowCount, successCount, errorCount });
+
+    try {
+      const data = readZipEntry(buffer, entry, { ...limits, maxBytes: remainingBytes });
+      remainingBytes -= data.length;
+
+      const upload = await sniffUpload(data, {
+        fileName: entry.name,
+        limits: { ...limits, maxBytes: remainingBytes },
+      });
+      if (upload.fileType === 'unknown') {
+        continue;
+      }
+      if (upload.fileType === 'zip') {
+        throw new InvalidFileTypeError('Nested archives are not supported', { fileName: entry.name });
+      }
+
+      // Rejected rows are only kept for single files
+      const result = await processUpload(upload, {
+        ...options,
+        keepRejectedRows: false,
+        maxRows: options.maxRows === undefined ? undefined : options.maxRows - rowCount,
+      });
+
+      rowCount += result.rowCount;
+      successCount += result.successCount;
+      errorCount += result.errorCount;
+      stats.parseDurationMs += result.stats.parseDurationMs;
+      stats.validateDurationMs += result.stats.validateDurationMs;
+      stats.aggregateDurationMs += result.stats.aggregateDurationMs;
+      if (result.aggregator) {
+        combined.merge(result.aggregator);
+      }
+
+      entries.push({
+        fileName: entry.name,
+        fileType: upload.fileType,
+        rowCount: result.rowCount,
+        successCount: result.successCount,
+        errorCount: result.errorCount,
+        summaries: result.summaries,
+        dialect: result.dialect,
+        sheets: result.sheets,
+        columns: result.columns,
+        errors: result.errors,
+        truncated: result.truncated,
+      });
+      truncated ||= result.truncated === true;
+    } catch (error) {
+      if (error instanceof ValidationThresholdExceededError) {
+        throw new ValidationThresholdExceededError(`${entry.name}: ${error.message}`, {
+          fileName: entry.name,
+          ...error.details,
+        });
+      }
+      if (
+        !(error instanceof CsvProcessingError)
+        || error instanceof DecompressionLimitError
+        || error instanceof ProcessingTimeoutError
+      ) {
+        throw error;
+      }
+      entries.push({
+        fileName: entry.name,
+        rowCount: 0,
+        successCount: 0,
+        errorCount: 0,
+        summaries: [],
+        error: error.message,
+        details: error.details,
+      });
+    }
+  }
+
+  if (entries.length === 0) {
+    throw new InvalidFileTypeError('ZIP archive contains no supported files');
+  }
+
+  new ValidationGuard(options.validationPolicy).finish(
+    { rowCount, successCount, errorCount },
+    entries.flatMap(entry => entry.errors ?? [])
+  );
+
+  stats.totalDurationMs = Date.now() - startTime;
+
+  return {
+    rowCount,
+    successCount,
+    errorCount,
+    summaries: combined.toSummaries(),
+    stats,
+    entries,
+    truncated,
+    aggregator: combined,
+  };
+}
+
+function toBuffer(bytes: Uint8Array): Buffer {
+  return Buffer.isBuffer(bytes) ? bytes : Buffer.from(bytes.buffer, bytes.byteOffset, bytes.length);
+}
+
+async function readAll(chunks: AsyncIterable<Uint8Array>): Promise<Buffer> {
+  const parts: Uint8Array[] = [];
+  for await (const chunk of chunks) {
+    parts.push(chunk);
+  }
+  return Buffer.concat(parts);
+}
@@ -0,0 +1,96 @@
+import { describe, expect, test } from 'bun:test';
+import { resolveValidationPolicy, ValidationGuard } from './validation-policy.js';
+import { processCsvFile, resolveImportOptions } from './csv-parser.js';
+import { ValidationError, ValidationThresholdExceededError } from '../types.js';
+import type { RowError } from '../types.js';
+
+const counts = (rowCount: number, errorCount: number) => ({ rowCount, successCount: rowCount - errorCount, errorCount });
+
+/**
+ * The error a guard call throws, or undefined
+ */
+function rejection(call: () => void): ValidationThresholdExceededError | undefined {
+  try {
+    call();
+  } catch (error) {
+    if (error instanceof ValidationThresholdExceededError) return error;
+    throw error;
+  }
+  return undefined;
+}
+
+describe('ValidationGuard', () => {
+  const errors: RowError[] = [{ row: 2, field: 'amount', code: 'invalid_type', message: 'Expected number' }];
+
+  test('lenient accepts any number of failed rows', () => {
+    const guard = new ValidationGuard({ mode: 'lenient' });
+
+    expect(rejection(() => guard.afterError(counts(10, 10), errors))).toBeUndefined();
+    expect(rejection(() => guard.finish(counts(10, 10), errors))).toBeUndefined();
+  });
+
+  test('strict rejects the file at the first failed row', () => {
+    const guard = new ValidationGuard({ mode: 'strict' });
+    const error = rejection(() => guard.afterError(counts(1, 1), errors));
+
+    expect(error?.message).toBe('File rejected by the strict validation policy: a row failed validation');
+    expect(error?.statusCode).toBe(422);
+    expect(error?.details).toEqual({ policy: { mode: 'strict' }, ...counts(1, 1), errors });
+    expect(rejection(() => guard.finish(counts(5, 0), []))).toBeUndefined();
+  });
+
+  test('maxErrors allows that many failed rows and no more', () => {
+    const guard = new ValidationGuard({ mode: 'threshold', maxErrors: 2 });
+
+    expect(rejection(() => guard.afterError(counts(3, 2), errors))).toBeUndefined();
+    expect(rejection(() => guard.afterError(counts(4, 3), errors))?.message)
+      .toBe('File rejected: 3 rows failed validation, more than the 2 allowed');
+    expect(rejection(() => new ValidationGuard({ mode: 'threshold', maxErrors: 0 }).afterError(counts(1, 1), errors))?.message)
+      .toBe('File rejected: 1 row failed validation, more than the 0 allowed');
+  });
+
+  test('maxErrorRate waits for enough rows while reading and checks every file at the end', () => {
+    const guard = new ValidationGuard({ mode: 'threshold', maxErrorRate: 10 });
+
+    // Half the rows failed, but too few were read to judge
+    expect(rejection(() => guard.afterError(counts(10, 5), errors))).toBeUndefined();
+    expect(rejection(() => guard.finish(counts(10, 5), errors))?.message)
+      .toBe('File rejected: 50% of rows failed validation, more than the 10% allowed');
+
+    // Exactly at the limit is allowed
+    expect(rejection(() => guard.afterError(counts(100, 10), errors))).toBeUndefined();
+    expect(rejection(() => guard.afterError(counts(100, 11), errors))?.message)
+      .toBe('File rejected: 11% of rows failed validation, more than the 10% allowed');
+    expect(rejection(() => guard.finish(counts(3, 1), errors))?.message)
+      .toBe('File rejected: 33.33% of rows failed validation, more than the 10% allowed');
+  });
+
+  test('stops an import at the row that crosses the threshold', async () => {
+    const csv = 'region,country,amount\n' + ['EU,DE,1', 'EU,DE,x', 'EU,DE,2', 'EU,DE,y', 'EU,DE,3', 'EU,DE,4'].join('\n');
+    const options = await resolveImportOptions({ max_errors: '1' });
+    const error = await processCsvFile(Buffer.from(csv), options).catch(e => e);
+
+    expect(error).toBeInstanceOf(ValidationThresholdExceededError);
+    expect(error.details).toMatchObject({ rowCount: 4, successCount: 2, errorCount: 2 });
+    expect(error.details.errors.map((rowError: RowError) => rowError.row)).toEqual([3, 5]);
+  });
+});
+
+describe('resolveValidationPolicy', () => {
+  test('selects the threshold mode when limits are given', () => {
+    expect(resolveValidationPolicy({})).toEqual({ mode: 'lenient' });
+    expect(resolveValidationPolicy({ validation_policy: 'strict' })).toEqual({ mode: 'strict' });
+    expect(resolveValidationPolicy({ max_errors: '5', max_error_rate: '2.5%' }))
+      .toEqual({ mode: 'threshold', maxErrors: 5, maxErrorRate: 2.5 });
+  });
+
+  test.each([
+    [{ validation_policy: 'loose' }, 'Invalid validation_policy: expected one of strict, lenient, threshold'],
+    [{ validation_policy: 'threshold' }, 'The threshold validation_policy needs max_errors or max_error_rate'],
+    [{ validation_policy: 'strict', max_errors: '1' }, 'max_errors and max_error_rate only apply to the threshold validation_policy'],
+    [{ max_errors: '-1' }, 'Invalid max_errors: expected a whole number from 0'],
+    [{ max_error_rate: '101' }, 'Invalid max_error_rate: expected a percentage from 0 to 100'],
+  ])('rejects %o', (metadata, message) => {
+    expect(() => resolveValidationPolicy(metadata)).toThrow(new ValidationError(message));
+  });
+});
@@ -0,0 +1,159 @@
+/**
+ * Parse Worker Pool
+ * Worker threads that validate and aggregate chunks of large CSV files in parallel
+ */
+
+import { availableParallelism } from 'os';
+import { Worker } from 'worker_threads';
+import type { CsvChunkResult, CsvChunkTask } from './csv-parser.js';
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+export const PARALLEL_PARSE_CONFIG = {
+  // One core is left to the main thread, which reads and merges
+  workers: parseInt(process.env.PARSE_WORKERS || String(Math.min(4, availableParallelism() - 1)), 10),
+  minBytes: parseInt(process.env.PARALLEL_PARSE_MIN_BYTES || '16777216', 10), // 16MB default
+  chunkBytes: parseInt(process.env.PARALLEL_PARSE_CHUNK_BYTES || '4194304', 10), // 4MB default
+};
+
+/**
+ * Entry point of a parse worker. Next to this module when running from
+ * source; the bundled worker sits in utils/ next to the bundled entry.
+ */
+const WORKER_URL = import.meta.url.endsWith('.ts')
+  ? new URL('./csv-worker.ts', import.meta.url)
+  : new URL('./utils/csv-worker.js', import.meta.url);
+
+/**
+ * A worker says it is ready once its entry point has loaded, then answers
+ * each task with a result or an error
+ */
+type WorkerReply<Result> = { ready: true } | { result: Result } | { error: string };
+
+interface Job<Task, Result> {
+  task: Task;
+  resolve: (result: Result) => void;
+  reject: (error: Error) => void;
+}
+
+// ============================================================================
+// Worker Pool
+// ============================================================================
+
+/**
+ * Runs tasks on up to `size` worker threads, one task per worker at a time.
+ * Workers are started when first needed and replaced when they crash; idle
+ * workers do not keep the process alive.
+ */
+export class WorkerPool<Task, Result> {
+  private workers = new Set<Worker>();
+  private idle: Worker[] = [];
+  private running = new Map<Worker, Job<Task, Result>>();
+  private queue: Array<Job<Task, Result>> = [];
+  private started?: Promise<boolean>;
+
+  constructor(private readonly url: URL, private readonly size: number) {}
+
+  /**
+   * Whether workers start here: false when the worker entry point cannot
+   * be loaded, as in a binary compiled without it. The first worker is
+   * started to find out, once.
+   */
+  available(): Promise<boolean> {
+    this.started ??= new Promise(resolve => {
+      const worker = this.spawn();
+      this.idle.push(worker);
+      let ready = false;
+      worker.once('message', () => {
+        ready = true;
+        resolve(true);
+      });
+      worker.once('exit', () => {
+        if (ready) return;
+        console.warn(`Parse workers unavailable (${this.url.pathname} did not start), parsing on the main thread`);
+        resolve(false);
+      });
+    });
+    return this.started;
+  }
+
+  run(task: Task): Promise<Result> {
+    return new Promise((resolve, reject) => {
+      this.queue.push({ task, resolve, reject });
+      this.dispatch();
+    });
+  }
+
+  private dispatch(): void {
+    while (this.queue.length > 0) {
+      const worker = this.idle.pop() ?? (this.workers.size < this.size ? this.spawn() : undefined);
+      if (!worker) {
+        return;
+      }
+
+      const job = this.queue.shift()!;
+      this.running.set(worker, job);
+      worker.ref();
+      worker.postMessage(job.task);
+    }
+  }
+
+  private spawn(): Worker {
+    const worker = new Worker(this.url);
+    this.workers.add(worker);
+
+    worker.on('message', (reply: WorkerReply<Result>) => {
+      if ('ready' in reply) {
+        if (!this.running.has(worker)) worker.unref();
+        return;
+      }
+
+      const job = this.running.get(worker);
+      this.running.delete(worker);
+      this.idle.push(worker);
+      worker.unref();
+
+      if ('error' in reply) {
+        job?.reject(new Error(reply.error));
+      } else {
+        job?.resolve(reply.result);
+      }
+      this.dispatch();
+    });
+    worker.on('error', error => this.retire(worker, error));
+    worker.on('exit', code => this.retire(worker, new Error(`Parse worker exited with code ${code}`)));
+
+    return worker;
+  }
+
+  /**
+   * Drop a worker that crashed or exited, failing the task it was running
+   */
+  private retire(worker: Worker, error: Error): void {
+    if (!this.workers.delete(worker)) {
+      return;
+    }
+
+    this.idle = this.idle.filter(idle => idle !== worker);
+    const job = this.running.get(worker);
+    this.running.delete(worker);
+    job?.reject(error);
+    this.dispatch();
+  }
+}
+
+// ============================================================================
+// Singleton
+// ============================================================================
+
+let parseWorkerPool: WorkerPool<CsvChunkTask, CsvChunkResult> | undefined;
+
+/**
+ * The pool CSV chunks are parsed on, created on first use
+ */
+export function getParseWorkerPool(): WorkerPool<CsvChunkTask, CsvChunkResult> {
+  parseWorkerPool ??= new WorkerPool(WORKER_URL, PARALLEL_PARSE_CONFIG.workers);
+  return parseWorkerPool;
+}
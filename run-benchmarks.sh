@@ -13,6 +13,7 @@
 #   --skip-build       Skip building Docker images
 #   --no-cleanup       Don't cleanup after benchmark
 #   --parallel         Run all variants in parallel
+#   --validation-only  Only compare row validators (no containers)
 #   --help             Show this help
 #
 
@@ -60,6 +61,7 @@ NO_CLEANUP=false
 GENERATE_CSV=false
 BINARY_ONLY=false
 MINIFIED_ONLY=false
+VALIDATION_ONLY=false
 
 log() { echo -e "${BLUE}[$(date +'%H:%M:%S')]${NC} $1"; }
 log_success() { echo -e "${GREEN}[✓]${NC} $1"; }
@@ -126,6 +128,10 @@ parse_args() {
                 PARALLEL=true
                 shift
                 ;;
+            --validation-only)
+                VALIDATION_ONLY=true
+                shift
+                ;;
             --vus)
                 VUS="$2"
                 shift 2
@@ -174,6 +180,7 @@ Options:
   --no-cleanup       Don't cleanup containers after benchmark
   --parallel         Run all variants in parallel
   --generate-csv     Export results to CSV
+  --validation-only  Only run the row validation benchmark (needs bun, no Docker)
   --vus NUM          Number of virtual users (default: 500)
   --duration DUR      Test duration (default: 2m)
   --help             Show this help message
@@ -181,6 +188,7 @@ Options:
 Environment Variables:
   VUS               Virtual users count
   TEST_DURATION     How long the test runs
+  CSV_SIZE          Rows of the sample CSV (default: 100000)
   BUILD_TYPE        Override build mode (all/binary/minified)
 
 Examples:
@@ -435,6 +443,29 @@ run_benchmarks() {
     echo ""
 }
 
+# Compare the compiled row validator with per-row Zod parsing on the
+# CSV_SIZE-row sample, in-process (no containers)
+run_validation_benchmark() {
+    log_section "Row Validation Benchmark"
+
+    if ! command -v bun >/dev/null 2>&1; then
+        log_error "Missing dependency: bun (https://bun.sh)"
+        exit 1
+    fi
+
+    local results_dir="${SCRIPT_DIR}/benchmark/results"
+    mkdir -p "$results_dir"
+    local output="${results_dir}/row-validation-$(date +"%Y%m%d_%H%M%S").txt"
+
+    for service in hono-csv-service elysia-csv-service; do
+        log "Benchmarking ${service}..."
+        (cd "${SCRIPT_DIR}/${service}" && bun benchmark/row-validation.ts "$CSV_SIZE") | tee -a "$output"
+        echo "" | tee -a "$output"
+    done
+
+    log_success "Results saved to ${output}"
+}
+
 build_k6_config() {
     local output_file="$1"
 
@@ -824,6 +855,11 @@ main() {
     print_banner
     parse_args "$@"
 
+    if [ "$VALIDATION_ONLY" = true ]; then
+        run_validation_benchmark
+        exit 0
+    fi
+
     # Clean up any previous runs
     log "Cleaning up any previous test runs..."
     cd "$SCRIPT_DIR"